@@ -0,0 +1,100 @@
+// Collision benchmark: times CollisionSystem.update on growing crowds of enemies and
+// lasers at a constant density, so the per-step cost shows how collision checks scale.
+//
+//   npm run bench:collision -- --steps 60 --sizes 50,100,200,400,800
+//
+// Options: --steps <n> timed steps per size (default 60), --sizes <list> enemy counts
+// (each size also gets twice as many lasers), --seed <n>
+import { createServer } from 'vite';
+
+function parseArgs(argv) {
+  const args = { steps: 60, sizes: [50, 100, 200, 400, 800], seed: 1 };
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    const value = argv[i + 1];
+    switch (flag) {
+      case '--steps': args.steps = Number(value); i++; break;
+      case '--sizes': args.sizes = value.split(',').map(Number); i++; break;
+      case '--seed': args.seed = Number(value); i++; break;
+      default:
+        console.error(`Unknown option: ${flag}`);
+        process.exit(1);
+    }
+  }
+  return args;
+}
+
+const args = parseArgs(process.argv.slice(2));
+const STEP_SECONDS = 1 / 60;
+// Side of the cube 50 enemies are scattered in; larger crowds get proportionally more room
+const BASE_SIDE = 400;
+
+const server = await createServer({
+  appType: 'custom',
+  logLevel: 'error',
+  server: { middlewareMode: true, hmr: false }
+});
+
+try {
+  const THREE = await server.ssrLoadModule('three');
+  const { World } = await server.ssrLoadModule('/src/core/World.ts');
+  const { GameStateManager } = await server.ssrLoadModule('/src/core/State.ts');
+  const { CollisionSystem } = await server.ssrLoadModule('/src/core/systems/CollisionSystem.ts');
+  const { createGrunt } = await server.ssrLoadModule('/src/core/entities/GruntEntity.ts');
+  const { createLaser } = await server.ssrLoadModule('/src/core/entities/LaserEntity.ts');
+
+  // Collision handlers log hits; keep the report readable
+  const log = console.log;
+  console.log = () => {};
+
+  const results = [];
+  for (const enemyCount of args.sizes) {
+    const world = new World(args.seed);
+    const stateManager = new GameStateManager();
+    world.setGameState(stateManager.getStateReference());
+    const scene = new THREE.Scene();
+    const random = world.getRandomStream('bench');
+    const side = BASE_SIDE * Math.cbrt(enemyCount / 50);
+    const randomPoint = () => ({
+      x: (random.next() - 0.5) * side,
+      y: (random.next() - 0.5) * side,
+      z: (random.next() - 0.5) * side
+    });
+
+    const collisionSystem = new CollisionSystem(world, stateManager);
+    world.addSystem(collisionSystem);
+
+    // Stands in for the Dyson Sphere the grunts target and the ship that fired the lasers
+    const owner = world.createEntity();
+    world.addComponent(owner, 'Position', { x: 0, y: 0, z: 0 });
+    for (let i = 0; i < enemyCount; i++) {
+      const grunt = createGrunt(world, randomPoint(), owner);
+      const health = world.getComponent(grunt, 'Health');
+      health.current = health.max = 1e9; // Survive every hit so the crowd size holds
+    }
+    for (let i = 0; i < enemyCount * 2; i++) {
+      createLaser(world, scene, randomPoint(), randomPoint(), owner);
+    }
+    const entityCount = world.getEntitiesWith(['Collider']).length;
+
+    // Warm up, then time the collision pass on its own
+    for (let i = 0; i < 10; i++) world.update(STEP_SECONDS);
+    let elapsed = 0;
+    for (let i = 0; i < args.steps; i++) {
+      const start = performance.now();
+      collisionSystem.update(STEP_SECONDS);
+      elapsed += performance.now() - start;
+      world.flushCommands(); // Apply removals before the next timed step
+    }
+
+    results.push({ enemyCount, entityCount, msPerStep: elapsed / args.steps });
+  }
+
+  for (const { enemyCount, entityCount, msPerStep } of results) {
+    const baseline = results[0];
+    log(`enemies=${enemyCount} colliders=${entityCount} ${msPerStep.toFixed(3)} ms/step ` +
+      `(x${(msPerStep / baseline.msPerStep).toFixed(1)} for x${(entityCount / baseline.entityCount).toFixed(1)} colliders)`);
+  }
+} finally {
+  await server.close();
+}
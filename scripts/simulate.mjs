@@ -0,0 +1,59 @@
+// Headless balance runs: plays seeded games with the scripted bot and prints a summary.
+//
+//   npm run simulate -- --runs 200 --seed 1 --max-waves 10
+//
+// Options: --runs <n> (default 20), --seed <base seed>, --max-waves <n>,
+// --max-seconds <n>, --json (print every run as JSON instead of a table)
+import { createServer } from 'vite';
+
+function parseArgs(argv) {
+  const args = { runs: 20, json: false };
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    const value = argv[i + 1];
+    switch (flag) {
+      case '--runs': args.runs = Number(value); i++; break;
+      case '--seed': args.seed = Number(value); i++; break;
+      case '--max-waves': args.maxWaves = Number(value); i++; break;
+      case '--max-seconds': args.maxSeconds = Number(value); i++; break;
+      case '--json': args.json = true; break;
+      default:
+        console.error(`Unknown option: ${flag}`);
+        process.exit(1);
+    }
+  }
+  return args;
+}
+
+const args = parseArgs(process.argv.slice(2));
+
+// Load the TypeScript sources through Vite so the game code runs unbundled in Node
+const server = await createServer({
+  appType: 'custom',
+  logLevel: 'error',
+  server: { middlewareMode: true, hmr: false }
+});
+
+try {
+  const { runSimulation, summarizeSimulations } = await server.ssrLoadModule('/src/core/headless/HeadlessSimulation.ts');
+
+  // Game systems log every spawn and hit; keep the report readable
+  const log = console.log;
+  console.log = () => {};
+
+  const summaries = [];
+  for (let i = 0; i < args.runs; i++) {
+    const seed = args.seed === undefined ? undefined : (args.seed + i) >>> 0;
+    const summary = runSimulation({ seed, maxWaves: args.maxWaves, maxSeconds: args.maxSeconds });
+    summaries.push(summary);
+    if (!args.json) {
+      log(`#${i + 1} seed=${summary.seed} waves=${summary.wavesCompleted} score=${summary.score} ` +
+        `dysonDamage=${summary.dysonDamageTaken} end=${summary.endReason} (${summary.simulatedSeconds}s)`);
+    }
+  }
+
+  const batch = summarizeSimulations(summaries);
+  log(args.json ? JSON.stringify({ summaries, batch }, null, 2) : JSON.stringify(batch, null, 2));
+} finally {
+  await server.close();
+}
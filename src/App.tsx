@@ -116,6 +116,28 @@ function App() {
     }
   };
 
+  const handleSaveAndExitGame = () => {
+    if (gameRef.current) {
+      // Quitting from the pause screen keeps the run so it can be continued later
+      gameRef.current.saveRun();
+      handleExitGame();
+    }
+  };
+
+  const handleContinueGame = () => {
+    if (gameRef.current && gameRef.current.continueSavedRun()) {
+      // The saved run lives in a new world; point the HUD at it
+      const newWorld = gameRef.current.getWorld();
+      if (newWorld) {
+        setWorld(newWorld);
+      }
+      const newCamera = gameRef.current.getCamera();
+      if (newCamera) {
+        setCamera(newCamera);
+      }
+    }
+  };
+
   const handleRestartAtWave = (wave: number) => {
     if (gameRef.current) {
       gameRef.current.restartAtWave(wave);
@@ -146,6 +168,8 @@ function App() {
             onResumeGame={handleResumeGame}
             onPauseGame={handlePauseGame}
             onExitGame={handleExitGame}
+            onSaveAndExitGame={handleSaveAndExitGame}
+            onContinueGame={handleContinueGame}
             audioManager={audioManager}
             game={gameRef.current}
             containerRef={containerRef}
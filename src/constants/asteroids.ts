@@ -0,0 +1,16 @@
+// src/constants/asteroids.ts
+// Asteroid size tiers, largest first. Wave scripts only spawn the largest; the rest
+// are fragments left behind when a bigger asteroid is shot apart.
+
+import { AsteroidSize } from '../types/asteroid';
+
+export const ASTEROID_SIZES: AsteroidSize[] = [
+  { name: 'large', scale: 8, health: 50, speed: 40, damage: 100, score: 50, fragments: { min: 2, max: 4 } },
+  { name: 'medium', scale: 4, health: 20, speed: 45, damage: 25, score: 20, fragments: { min: 2, max: 3 } },
+  { name: 'small', scale: 2, health: 8, speed: 50, damage: 8, score: 8, fragments: { min: 0, max: 0 } }
+];
+
+// Sideways speed a fragment picks up on top of its parent's momentum when it breaks off
+export const FRAGMENT_SPREAD_SPEED = 15;
+// How quickly fragments bend their course back toward the Dyson Sphere, in units per second squared
+export const FRAGMENT_STEERING = 12;
@@ -0,0 +1,74 @@
+// src/constants/bosses.ts
+// Boss tuning, keyed by the enemy type WaveScripts spawn them with.
+
+import { BossDefinition } from '../types/boss';
+import { COLORS } from './colors';
+
+// Hive Mothership: arrives from deep space, circles the Dyson Sphere and gets
+// more aggressive as its armor pods are shot off
+export const HIVE_MOTHERSHIP: BossDefinition = {
+  name: 'HIVE MOTHERSHIP',
+  modelId: 'hiveMothership',
+  color: COLORS.HIVE_MOTHERSHIP_HULL,
+  scale: 14,
+  colliderRadius: 12,
+  health: 1200,
+  approachSpeed: 18,
+  orbitRadius: 110,
+  contactDamage: 20,
+  contactCooldown: 1,
+  armor: 0.25,
+  weakPoint: {
+    health: 60,
+    colliderRadius: 4,
+    scale: 3,
+    burstDamage: 100,
+    // Clear of the core's collider so shots reach the pods before the armored hull
+    offsets: [
+      { x: 18, y: 0, z: 4 },
+      { x: -18, y: 0, z: 4 },
+      { x: 0, y: 17, z: -4 },
+      { x: 0, y: -17, z: -4 },
+      { x: 12, y: 10, z: -10 },
+      { x: -12, y: -10, z: -10 }
+    ]
+  },
+  phases: [
+    {
+      healthThreshold: 1,
+      weakPoints: 4,
+      escorts: 0,
+      orbitSpeed: 0.12,
+      attacks: [
+        { pattern: 'spread', target: 'player', interval: 3, count: 5, angle: 30, damage: 8, speed: 260, color: COLORS.HIVE_MOTHERSHIP_LASER }
+      ]
+    },
+    {
+      healthThreshold: 0.66,
+      weakPoints: 4,
+      escorts: 4,
+      orbitSpeed: 0.18,
+      attacks: [
+        { pattern: 'spread', target: 'player', interval: 2.5, count: 5, angle: 30, damage: 8, speed: 260, color: COLORS.HIVE_MOTHERSHIP_LASER },
+        { pattern: 'ring', target: 'dysonSphere', interval: 5, count: 8, angle: 8, damage: 10, speed: 200, color: COLORS.HIVE_MOTHERSHIP_LASER }
+      ],
+      announce: 'HIVE MOTHERSHIP: ESCORTS LAUNCHING!'
+    },
+    {
+      healthThreshold: 0.33,
+      weakPoints: 6,
+      escorts: 6,
+      orbitSpeed: 0.25,
+      attacks: [
+        { pattern: 'spread', target: 'player', interval: 2, count: 7, angle: 45, damage: 8, speed: 280, color: COLORS.HIVE_MOTHERSHIP_LASER },
+        { pattern: 'barrage', target: 'player', interval: 4, count: 12, angle: 10, damage: 6, speed: 320, color: COLORS.HIVE_MOTHERSHIP_ENRAGED },
+        { pattern: 'ring', target: 'dysonSphere', interval: 4, count: 10, angle: 8, damage: 10, speed: 200, color: COLORS.HIVE_MOTHERSHIP_ENRAGED }
+      ],
+      announce: 'WARNING: HIVE MOTHERSHIP ENRAGED!'
+    }
+  ]
+};
+
+export const BOSSES: Record<string, BossDefinition> = {
+  hiveMothership: HIVE_MOTHERSHIP
+};
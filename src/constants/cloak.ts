@@ -0,0 +1,23 @@
+// src/constants/cloak.ts
+// Tuning for cloaking enemies (Phantoms) and the Radar Pulse upgrade that exposes them.
+
+// Mesh opacity of a fully cloaked enemy; just enough to show a faint shimmer
+export const CLOAKED_OPACITY = 0.06;
+// The player sees through a cloak inside this distance
+export const CLOAK_REVEAL_DISTANCE = 45;
+// Seconds a cloaked enemy stays visible after firing or being hit
+export const CLOAK_FIRE_REVEAL_TIME = 1.5;
+// How fast a cloak fades in or out, in visibility (0 cloaked .. 1 visible) per second
+export const CLOAK_FADE_SPEED = 2.5;
+
+// Cloaked enemies flicker onto the radar as a ghost contact for GHOST_CONTACT_DURATION
+// seconds once every GHOST_CONTACT_PERIOD seconds (longer than the radar's refresh rate)
+export const GHOST_CONTACT_PERIOD = 3;
+export const GHOST_CONTACT_DURATION = 0.6;
+
+// Seconds between automatic radar pulses at each Radar Pulse upgrade level (level 1 first);
+// levels past the end keep the last interval
+export const RADAR_PULSE_INTERVALS = [15, 12, 10, 8];
+// Seconds a pulse keeps cloaked enemies revealed, and how far it reaches
+export const RADAR_PULSE_REVEAL_TIME = 4;
+export const RADAR_PULSE_RANGE = 300;
@@ -36,6 +36,54 @@ export const COLORS = {
   WARP_RAIDER_LASER: 0x00ffff, // Bright cyan for its laser
   WARP_RAIDER_DETAIL: 0x330044, // Mid-dark purple for surface details
   
+  // Bomber colors
+  BOMBER_HULL: 0x3b3f2a, // Dull olive armored hull
+  BOMBER_WING: 0x5a5f3c, // Lighter olive wings
+  BOMBER_ENGINE: 0xff5500, // Orange engine glow
+  BOMBER_BOMB: 0xff2200, // Red bomb casing
+  BOMBER_BOMB_GLOW: 0xffaa00, // Amber blinking fuse light
+  
+  // Carrier colors
+  CARRIER_HULL: 0x3a3f4a, // Gunmetal hull
+  CARRIER_PLATING: 0x5b6272, // Lighter deck plating
+  CARRIER_BAY: 0x9dff3a, // Acid green launch bay glow (grunt green)
+  
+  // Mine Layer colors
+  MINE_LAYER_HULL: 0x4a3a1c, // Rust brown hull
+  MINE_LAYER_ACCENT: 0xffcc00, // Hazard yellow stripes
+  SPACE_MINE: 0x2e2e33, // Dark grey mine casing
+  SPACE_MINE_LIGHT: 0xff3322, // Red arming light
+  
+  // Phantom (cloaking enemy) colors
+  PHANTOM_HULL: 0x1c2233, // Dark slate hull
+  PHANTOM_GLOW: 0xb8a6ff, // Pale violet cloak emitters
+  PHANTOM_LASER: 0xd0c4ff, // Pale violet laser
+  
+  // Medic (repair support enemy) colors
+  MEDIC_HULL: 0xd8dde6, // Off-white hull
+  MEDIC_CROSS: 0x33ff99, // Bright green repair markings
+  MEDIC_BEAM: 0x33ff99, // Green healing beam core
+  MEDIC_BEAM_AURA: 0xb3ffd9, // Pale green beam aura
+  
+  // Swarm drone colors
+  SWARM_DRONE_BODY: 0x1f3d2b, // Dark green chitin
+  SWARM_DRONE_GLOW: 0x66ff99, // Bright green eye and wing glow
+  
+  // Elite affix aura colors
+  ELITE_REFLECTIVE: 0xe0e8ff, // Mirror silver
+  ELITE_REGENERATING: 0x33ff77, // Living green
+  ELITE_SPLITTING: 0xff9922, // Unstable orange
+  ELITE_OVERCHARGED: 0x66ddff, // Electric cyan
+  ELITE_SHIELDED: 0x4477ff, // Deep shield blue
+  
+  // Hive Mothership (boss) colors
+  HIVE_MOTHERSHIP_HULL: 0x2a1436, // Dark violet armored hull
+  HIVE_MOTHERSHIP_PLATING: 0x4a2a5c, // Lighter violet armor plates
+  HIVE_MOTHERSHIP_GLOW: 0xff6a00, // Orange hive glow from vents and the maw
+  HIVE_MOTHERSHIP_LASER: 0xff8c1a, // Orange laser volleys
+  HIVE_MOTHERSHIP_ENRAGED: 0xff2244, // Red volleys in the final phase
+  HIVE_WEAK_POINT: 0xffcc33, // Pulsing amber weak point pods
+  
   // Projectile colors
   LASER_GREEN: 0x00ff00,
   PRAETORIAN_LASER: 0xfff2a0,
@@ -62,5 +110,18 @@ export const COLORS = {
   WORMHOLE_RING: 0x9900ff,    // Bright purple for the outer ring
   WORMHOLE_SPIRAL: 0x6600cc,  // Deep purple for the spiral effect
   WORMHOLE_GLOW: 0xaa00ff,     // Medium purple for the glow effect
+
+  // Collider debug overlay colors, one per collision layer
+  DEBUG_COLLIDER_PLAYER: 0x00ff00,
+  DEBUG_COLLIDER_ENEMY: 0xff3333,
+  DEBUG_COLLIDER_PROJECTILE: 0xffff00,
+  DEBUG_COLLIDER_DYSON_SPHERE: 0x3399ff,
+  DEBUG_COLLIDER_SHIELD: 0x00ffff,
+  DEBUG_COLLIDER_POWER_UP: 0xff66ff,
+  DEBUG_COLLIDER_BOSS: 0xff8800,
+  DEBUG_COLLIDER_BOMB: 0xcc9966,
+  DEBUG_COLLIDER_MINE: 0xffaa00,
+  DEBUG_COLLIDER_OTHER: 0xffffff,   // Layers the overlay has no color for
+  DEBUG_CONTACT: 0xffffff,          // Contact point flash
   
 };
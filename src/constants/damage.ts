@@ -0,0 +1,16 @@
+// src/constants/damage.ts
+// Shield rules applied by the damage service (src/core/damage.ts). Per-entity
+// resistances live on the optional Resistances component, added by the factory of any
+// enemy that needs them (only the Mine Layer so far); without it every type hits in full.
+
+import { DamageType } from '../types/damage';
+
+export const DAMAGE_TYPES: DamageType[] = ['kinetic', 'energy', 'lightning', 'impact', 'environmental'];
+
+// Shield damage multipliers by type; lightning arcs across the Dyson Sphere shield
+export const SHIELD_DAMAGE_MULTIPLIERS: Partial<Record<DamageType, number>> = {
+  lightning: 1.5
+};
+
+// Shield Guardian bubbles count hits, not damage: one hit per this much damage (at least one)
+export const BUBBLE_DAMAGE_PER_HIT = 25;
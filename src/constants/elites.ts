@@ -0,0 +1,45 @@
+// src/constants/elites.ts
+// Elite affix and reward tuning. How often elites appear is set per wave by
+// WaveStream.eliteChance in src/constants/waves.ts.
+
+import { EliteAffix, EliteAffixId, EliteRules } from '../types/elite';
+import { COLORS } from './colors';
+
+export const ELITE_AFFIXES: Record<EliteAffixId, EliteAffix> = {
+  reflective: {
+    name: 'REFLECTIVE',
+    auraColor: COLORS.ELITE_REFLECTIVE,
+    reflectChance: 0.35
+  },
+  regenerating: {
+    name: 'REGENERATING',
+    auraColor: COLORS.ELITE_REGENERATING,
+    regenPerSecond: 0.05
+  },
+  splitting: {
+    name: 'SPLITTING',
+    auraColor: COLORS.ELITE_SPLITTING,
+    enemyTypes: ['grunt', 'warpRaider', 'bomber'],
+    splitCount: 2,
+    splitHealth: 0.5
+  },
+  overcharged: {
+    name: 'OVERCHARGED',
+    auraColor: COLORS.ELITE_OVERCHARGED,
+    enemyTypes: ['grunt'], // Only grunts raise siege lightning
+    lightningDamage: 2.5
+  },
+  shielded: {
+    name: 'SHIELDED',
+    auraColor: COLORS.ELITE_SHIELDED,
+    shieldFraction: 0.5
+  }
+};
+
+export const ELITE_RULES: EliteRules = {
+  enemyTypes: ['grunt', 'shieldGuardian', 'warpRaider', 'bomber'],
+  secondAffixChance: 0.35,
+  healthMultiplier: 1.5,
+  scoreMultiplier: 3,
+  dropChance: 0.5
+};
@@ -0,0 +1,267 @@
+// src/constants/waves.ts
+// Default wave campaign. Reproduces the original hand-tuned progression:
+// 5 + 3 enemies per wave, Shield Guardian debut on wave 2, asteroids from
+// wave 3, Warp Raider debut on wave 4 and random specials afterwards (Bombers,
+// drone swarms and Medics join the rolls from wave 5), plus a Hive Mothership
+// boss every fifth wave. Elite enemies, cloaked Phantoms and Mine Layers start
+// appearing on wave 6 and grunt-launching Carriers on wave 7.
+
+import {
+  WaveScript,
+  WaveStream,
+  EnemySpawn,
+  EnemyRoll,
+  ScriptedSlot,
+  ExtraSpawn,
+  ScaledValue,
+  WaveAnnouncement
+} from '../types/waveScript';
+
+const SHIELD_GUARDIAN_ANNOUNCEMENT: WaveAnnouncement = {
+  message: 'NEW THREAT: Shield Guardian detected!',
+  duration: 4
+};
+
+const WARP_RAIDER_ANNOUNCEMENT: WaveAnnouncement = {
+  message: 'NEW THREAT: Warp Raider incoming!',
+  duration: 4
+};
+
+const BOMBER_ANNOUNCEMENT: WaveAnnouncement = {
+  message: 'NEW THREAT: Bomber inbound - shoot down its bombs!',
+  duration: 4
+};
+
+const DRONE_SWARM_ANNOUNCEMENT: WaveAnnouncement = {
+  message: 'NEW THREAT: Drone swarm detected!',
+  duration: 4
+};
+
+const CARRIER_ANNOUNCEMENT: WaveAnnouncement = {
+  message: 'NEW THREAT: Carrier launching grunts - take it down!',
+  duration: 4
+};
+
+const MEDIC_ANNOUNCEMENT: WaveAnnouncement = {
+  message: 'NEW THREAT: Medic repairing enemies - take it out first!',
+  duration: 4
+};
+
+const PHANTOM_ANNOUNCEMENT: WaveAnnouncement = {
+  message: 'NEW THREAT: Cloaked Phantom - watch the radar for ghost contacts!',
+  duration: 4
+};
+
+const MINE_LAYER_ANNOUNCEMENT: WaveAnnouncement = {
+  message: 'NEW THREAT: Mine Layer seeding space mines - watch your radar!',
+  duration: 4
+};
+
+const ASTEROID_ANNOUNCEMENT: WaveAnnouncement = {
+  message: 'CRITICAL THREAT: Incoming Asteroid!',
+  duration: 5
+};
+
+// The opening enemy of every wave is an unscaled grunt
+const OPENING_GRUNT: ScriptedSlot = { slot: 1, enemy: 'grunt' };
+
+// Regular grunts get 10% faster each wave and fire 5% faster (capped at 0.5x cooldown)
+const SCALED_GRUNT: EnemySpawn = {
+  enemy: 'grunt',
+  speedMultiplier: { base: 1, perWave: 0.1 },
+  cooldownMultiplier: { base: 1, perWave: -0.05, min: 0.5 }
+};
+
+// Special enemy chances start at 10% and grow 1% per wave after wave 3
+const SHIELD_GUARDIAN_ROLL: EnemyRoll = {
+  enemy: 'shieldGuardian',
+  chance: { base: 0.1, perWave: 0.01, startWave: 3 },
+  announce: SHIELD_GUARDIAN_ANNOUNCEMENT
+};
+
+const WARP_RAIDER_ROLL: EnemyRoll = {
+  enemy: 'warpRaider',
+  chance: { base: 0.1, perWave: 0.01, startWave: 3 }
+};
+
+// Bombers are rarer than the other specials and ramp up from wave 5
+const BOMBER_ROLL: EnemyRoll = {
+  enemy: 'bomber',
+  chance: { base: 0.08, perWave: 0.01, startWave: 5 },
+  announce: BOMBER_ANNOUNCEMENT
+};
+
+// A whole swarm fills one stream slot; swarms grow from 10 drones by 2 per wave, up to 30
+const DRONE_SWARM_ROLL: EnemyRoll = {
+  enemy: 'swarmDrone',
+  chance: { base: 0.05, perWave: 0.01, startWave: 5 },
+  swarmSize: { base: 10, perWave: 2, startWave: 5, min: 10, max: 30 },
+  announce: DRONE_SWARM_ANNOUNCEMENT
+};
+
+// Medics join the rolls with the bombers and swarms on wave 5
+const MEDIC_ROLL: EnemyRoll = {
+  enemy: 'medic',
+  chance: { base: 0.06, perWave: 0.01, startWave: 5 },
+  announce: MEDIC_ANNOUNCEMENT
+};
+
+// Phantoms are rare and only join the rolls from wave 6
+const PHANTOM_ROLL: EnemyRoll = {
+  enemy: 'phantom',
+  chance: { base: 0.06, perWave: 0.01, startWave: 6 },
+  announce: PHANTOM_ANNOUNCEMENT
+};
+
+// Mine Layers roll alongside Phantoms from wave 6
+const MINE_LAYER_ROLL: EnemyRoll = {
+  enemy: 'mineLayer',
+  chance: { base: 0.06, perWave: 0.01, startWave: 6 },
+  announce: MINE_LAYER_ANNOUNCEMENT
+};
+
+// Asteroids appear far out (4-6.5x the spawn radius) to give the player time to react
+const START_ASTEROID: ExtraSpawn = {
+  enemy: 'asteroid',
+  delay: 0,
+  placement: 'deepSpace',
+  radiusMultiplier: { min: 4, max: 6.5 },
+  announce: ASTEROID_ANNOUNCEMENT
+};
+
+const HIVE_MOTHERSHIP_ANNOUNCEMENT: WaveAnnouncement = {
+  message: 'WARNING: HIVE MOTHERSHIP APPROACHING!',
+  duration: 5
+};
+
+// The boss comes in from beyond the spawn sphere; each appearance has 5% more hull per wave
+const HIVE_MOTHERSHIP_BOSS: ExtraSpawn = {
+  enemy: 'hiveMothership',
+  delay: 2,
+  waveInterval: 5,
+  placement: 'deepSpace',
+  radiusMultiplier: { min: 1.4, max: 1.6 },
+  healthMultiplier: { base: 1, perWave: 0.05, startWave: 5 },
+  announce: HIVE_MOTHERSHIP_ANNOUNCEMENT
+};
+
+// Half of the waves from 7 on get a Carrier mid-wave, arriving from just beyond the spawn sphere
+const CARRIER_EXTRA: ExtraSpawn = {
+  enemy: 'carrier',
+  delay: 10,
+  chance: 0.5,
+  placement: 'deepSpace',
+  radiusMultiplier: { min: 1.1, max: 1.3 },
+  announce: CARRIER_ANNOUNCEMENT
+};
+
+const BASE_STREAM: WaveStream = {
+  count: { base: 5, perWave: 3 },
+  firstSpawnDelay: 0,
+  interval: 1.5,
+  formation: { type: 'scatter' },
+  scripted: [OPENING_GRUNT],
+  rolls: [],
+  fallback: SCALED_GRUNT
+};
+
+// From wave 5 every special enemy can roll and asteroids and the boss join in
+const LATE_STREAM: WaveStream = {
+  ...BASE_STREAM,
+  rolls: [SHIELD_GUARDIAN_ROLL, WARP_RAIDER_ROLL, BOMBER_ROLL, DRONE_SWARM_ROLL, MEDIC_ROLL]
+};
+
+// Elites debut on wave 6 at 10% of stream enemies, rising 2% per wave up to 35%
+const ELITE_CHANCE: ScaledValue = { base: 0.1, perWave: 0.02, startWave: 6, max: 0.35 };
+
+// From wave 6 Phantoms and Mine Layers roll too and stream enemies can be elites
+const ELITE_STREAM: WaveStream = {
+  ...LATE_STREAM,
+  rolls: [SHIELD_GUARDIAN_ROLL, WARP_RAIDER_ROLL, BOMBER_ROLL, DRONE_SWARM_ROLL, MEDIC_ROLL, PHANTOM_ROLL, MINE_LAYER_ROLL],
+  eliteChance: ELITE_CHANCE
+};
+
+const LATE_EXTRAS: ExtraSpawn[] = [
+  { ...START_ASTEROID, chance: 0.25 },
+  { ...START_ASTEROID, chance: 0.25 },
+  HIVE_MOTHERSHIP_BOSS
+];
+
+const SPAWN_RADIUS = 160;
+
+export const DEFAULT_WAVE_SCRIPT: WaveScript = {
+  version: 1,
+  name: 'Default Campaign',
+  firstWaveDelay: 3,
+  timeBetweenWaves: 5,
+  announcements: {
+    firstWave: 'FIRST WAVE INCOMING!',
+    nextWave: 'PREPARE FOR WAVE {wave}!',
+    waveComplete: 'WAVE {wave} COMPLETE!',
+    upgradeAvailable: 'UPGRADE AVAILABLE',
+    leadTime: 3
+  },
+  waves: [
+    {
+      fromWave: 1,
+      toWave: 1,
+      spawnRadius: SPAWN_RADIUS,
+      stream: BASE_STREAM
+    },
+    {
+      fromWave: 2,
+      toWave: 2,
+      spawnRadius: SPAWN_RADIUS,
+      stream: BASE_STREAM,
+      extras: [
+        {
+          enemy: 'shieldGuardian',
+          delay: 0.5,
+          placement: 'withFirstSpawn',
+          announce: SHIELD_GUARDIAN_ANNOUNCEMENT
+        }
+      ]
+    },
+    {
+      fromWave: 3,
+      toWave: 3,
+      spawnRadius: SPAWN_RADIUS,
+      stream: { ...BASE_STREAM, rolls: [SHIELD_GUARDIAN_ROLL] },
+      extras: [START_ASTEROID]
+    },
+    {
+      fromWave: 4,
+      toWave: 4,
+      spawnRadius: SPAWN_RADIUS,
+      stream: {
+        ...BASE_STREAM,
+        scripted: [
+          OPENING_GRUNT,
+          { slot: 3, enemy: 'warpRaider', announce: WARP_RAIDER_ANNOUNCEMENT }
+        ],
+        rolls: [SHIELD_GUARDIAN_ROLL]
+      },
+      extras: [{ ...START_ASTEROID, chance: 0.25 }]
+    },
+    {
+      fromWave: 5,
+      toWave: 5,
+      spawnRadius: SPAWN_RADIUS,
+      stream: LATE_STREAM,
+      extras: LATE_EXTRAS
+    },
+    {
+      fromWave: 6,
+      toWave: 6,
+      spawnRadius: SPAWN_RADIUS,
+      stream: ELITE_STREAM,
+      extras: LATE_EXTRAS
+    },
+    {
+      fromWave: 7,
+      spawnRadius: SPAWN_RADIUS,
+      stream: ELITE_STREAM,
+      extras: [...LATE_EXTRAS, CARRIER_EXTRA]
+    }
+  ]
+};
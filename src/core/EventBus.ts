@@ -0,0 +1,47 @@
+// src/core/EventBus.ts
+// Typed publish/subscribe channel. Handlers run synchronously, in subscription order,
+// inside emit(), so an event raised during a simulation step is fully handled within it.
+
+type Handler<T> = (event: T) => void;
+
+export class EventBus<Events extends object> {
+  private handlers: Map<keyof Events, Handler<never>[]> = new Map();
+
+  /**
+   * Subscribe to an event. Returns a function that removes the subscription.
+   */
+  public on<K extends keyof Events>(type: K, handler: Handler<Events[K]>): () => void {
+    const handlers = this.handlers.get(type) ?? [];
+    handlers.push(handler);
+    this.handlers.set(type, handlers);
+    return () => this.off(type, handler);
+  }
+
+  public off<K extends keyof Events>(type: K, handler: Handler<Events[K]>): void {
+    const handlers = this.handlers.get(type);
+    if (!handlers) return;
+
+    const index = handlers.indexOf(handler);
+    if (index !== -1) {
+      handlers.splice(index, 1);
+    }
+  }
+
+  public emit<K extends keyof Events>(type: K, event: Events[K]): void {
+    const handlers = this.handlers.get(type);
+    if (!handlers || handlers.length === 0) return;
+
+    // Copy so handlers can unsubscribe while the event is being delivered
+    for (const handler of [...handlers] as Handler<Events[K]>[]) {
+      try {
+        handler(event);
+      } catch (error) {
+        console.error(`Error in ${String(type)} event handler:`, error);
+      }
+    }
+  }
+
+  public clear(): void {
+    this.handlers.clear();
+  }
+}
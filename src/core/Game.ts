@@ -17,9 +17,13 @@ import { WeaponSystem } from './systems/WeaponSystem';
 import { CollisionSystem } from './systems/CollisionSystem';
 import { WaveSystem } from './systems/WaveSystem';
 import { EnemySystem } from './systems/EnemySystem';
+import { BossSystem } from './systems/BossSystem';
+import { SwarmSystem } from './systems/SwarmSystem';
+import { CloakSystem } from './systems/CloakSystem';
+import { MineSystem } from './systems/MineSystem';
 import { HUDSystem } from './systems/HUDSystem';
 import { FloatingScoreSystem } from './systems/FloatingScoreSystem';
-import { GameStateDisplay, CameraMount, Position, Rotation, DevMode, MouseLook, Velocity, Health, Shield, LaserCooldown } from './components';
+import { GameStateDisplay, CameraMount, Rotation, DevMode, MouseLook, Velocity } from './components';
 import { InputManager } from './input/InputManager';
 import { AnimationSystem } from './systems/AnimationSystem';
 import { ShieldSystem } from './systems/ShieldSystem';
@@ -27,13 +31,26 @@ import { ShieldBubbleSystem } from './systems/ShieldBubbleSystem';
 import { HealthBarSystem } from './systems/HealthBarSystem';
 import { PowerUpSystem } from './systems/PowerUpSystem';
 import { createFireRatePowerUp } from './entities/PowerUpEntity';
-import { WaveInfo } from './components';
 import { DevSystem } from './systems/DevSystem';
 import { AudioManager } from './AudioManager';
 import { UISystem } from './systems/UISystem';
 import { DysonDamageZoneSystem } from './systems/DysonDamageZoneSystem';
-import { getUpgradeCost } from './upgrades';
+import { purchaseUpgrade } from './upgrades';
 import { clearAccuracyShots, updateStarPower } from './accuracy';
+import { registerScoring } from './scoring';
+import { registerGameAudio } from './gameAudio';
+import { Random } from './Random';
+import { InterpolationSystem } from './systems/InterpolationSystem';
+import { ReplayRecorder } from './input/ReplayRecorder';
+import { LiveInputSource } from './input/InputSource';
+import { ReplayInputSource } from './input/ReplayInputSource';
+import { parseReplay } from './replay';
+import { ReplayFile, ReplayEvent } from '../types/replay';
+import { createSave, writeSave, readSave, hasSave, clearSave } from './save';
+
+// Simulation runs at a fixed rate; rendering interpolates between the last two steps
+const FIXED_TIMESTEP = 1 / 60;
+const DEFAULT_MAX_CATCH_UP_STEPS = 5;
 
 /**
  * Main Game Controller
@@ -71,6 +88,13 @@ class Game {
   private isFirstFrameLogged: boolean = false;
   private audioManager: AudioManager;
   private wasPointerLocked: boolean = false;
+  private fixedSeed: number | null = null; // When set, every new run reuses this seed
+  private accumulator: number = 0; // Unsimulated frame time carried between frames
+  private maxCatchUpSteps: number = DEFAULT_MAX_CATCH_UP_STEPS;
+  private inputSystem!: InputSystem;
+  private replayRecorder: ReplayRecorder | null = null; // Records the current run unless it is a playback
+  private replayPlayback: ReplayInputSource | null = null; // Drives input while a replay is playing
+  private pendingReplay: ReplayFile | null = null; // Replay to play on the next world creation
 
   constructor(container: HTMLElement, audioManager?: AudioManager) {
     console.log('[Game] Initializing...');
@@ -79,7 +103,7 @@ class Game {
     this.stateManager = new GameStateManager();
     this.stateManager.updateState({ lastUpdateTime: Date.now() });
     this.sceneManager = SceneManager.getInstance(container);
-    this.world = new World();
+    this.world = this.createWorld();
 
     // Set the game state in the world
     this.world.setGameState(this.stateManager.getStateReference());
@@ -111,27 +135,40 @@ class Game {
   }
 
   private initSystems(): void {
+    // Reactions to gameplay events that don't belong to a single system. Scoring subscribes
+    // before the systems so kill rewards resolve before PowerUpSystem rolls a drop.
+    registerScoring(this.world, this.stateManager);
+    registerGameAudio(this.world, this.audioManager);
+
     // Create and store reference to systems that need to be accessed later
     this.hudSystem = new HUDSystem(this.world);
     this.waveSystem = new WaveSystem(this.world, this.stateManager);
     this.floatingScoreSystem = new FloatingScoreSystem(this.world);
     this.animationSystem = new AnimationSystem(this.world, this.sceneManager.getScene());
-    this.devSystem = new DevSystem(this.world, this.sceneManager, this.container);
     
     // Create and store reference to systems that need to be connected
-    const collisionSystem = new CollisionSystem(this.world, this.stateManager, this.audioManager);
+    const collisionSystem = new CollisionSystem(this.world, this.stateManager);
+    this.devSystem?.dispose(); // Take down the previous run's collider overlay, if it was on
+    this.devSystem = new DevSystem(this.world, this.sceneManager, this.container, collisionSystem);
     const powerUpSystem = new PowerUpSystem(this.world, this.sceneManager.getScene());
-    const weaponSystem = new WeaponSystem(this.world, this.sceneManager, this.audioManager);
+    const weaponSystem = new WeaponSystem(this.world, this.sceneManager.getScene(), this.audioManager);
     const enemySystem = new EnemySystem(this.world, this.sceneManager.getScene(), weaponSystem);
     
-    // Initialize all game systems
-    this.world.addSystem(new InputSystem(this.world, this.sceneManager));
-    this.world.addSystem(new MovementSystem(this.sceneManager, this.world, this.audioManager));
-    this.world.addSystem(new CameraSystem(this.sceneManager, this.world));
+    // Initialize all simulation systems (stepped at FIXED_TIMESTEP)
+    this.world.addSystem(new InterpolationSystem(this.world)); // Must run first to snapshot pre-step transforms
+    this.inputSystem = new InputSystem(this.world, this.createLiveInputSource());
+    this.inputSystem.setInputSource(this.replayPlayback);
+    this.inputSystem.setRecorder(this.replayRecorder);
+    this.world.addSystem(this.inputSystem);
+    this.world.addSystem(new MovementSystem(this.world, this.audioManager));
     this.world.addSystem(collisionSystem);
     this.world.addSystem(powerUpSystem);
     this.world.addSystem(weaponSystem);
     this.world.addSystem(enemySystem);
+    this.world.addSystem(new BossSystem(this.world, weaponSystem));
+    this.world.addSystem(new SwarmSystem(this.world));
+    this.world.addSystem(new CloakSystem(this.world));
+    this.world.addSystem(new MineSystem(this.world));
     this.world.addSystem(new ShieldSystem(this.world));
     this.world.addSystem(new ShieldBubbleSystem(this.world));
     this.world.addSystem(new HealthBarSystem(this.world));
@@ -141,19 +178,26 @@ class Game {
     this.world.addSystem(this.animationSystem);
     this.world.addSystem(this.devSystem);
     this.world.addSystem(new AutoRotateSystem(this.world));
-    this.world.addSystem(new UISystem(this.world, this.sceneManager));
     this.world.addSystem(new DysonDamageZoneSystem(this.world));
+
+    // Render-phase systems run once per displayed frame on interpolated transforms
+    this.world.addRenderSystem(new CameraSystem(this.sceneManager, this.world));
+    this.world.addRenderSystem(new UISystem(this.world, this.sceneManager));
     const renderingSystem = new RenderingSystem(this.world, this.sceneManager.getScene());
     const activeCamera = this.sceneManager.getCamera();
     if (activeCamera) {
       renderingSystem.setCamera(activeCamera);
     }
-    this.world.addSystem(renderingSystem);
+    this.world.addRenderSystem(renderingSystem);
     
     // Make systems globally accessible for debugging
     (window as any).powerUpSystem = powerUpSystem;
     (window as any).collisionSystem = collisionSystem;
     
+    // Replay helpers: copy(exportReplay()) to save a run, playReplay(json) to watch it
+    (window as any).exportReplay = () => this.exportReplay();
+    (window as any).playReplay = (replay: ReplayFile | string) => this.playReplay(replay);
+    
     // Add debug method for testing audio
     (window as any).testAudio = (soundId: string = 'laser') => {
       console.log(`Playing test sound: ${soundId}`);
@@ -171,7 +215,7 @@ class Game {
       
       // Get player position
       const playerEntity = playerEntities[0];
-      const playerPos = this.world.getComponent<Position>(playerEntity, 'Position');
+      const playerPos = this.world.getComponent(playerEntity, 'Position');
       if (!playerPos) {
         console.error("Player has no position component");
         return;
@@ -185,12 +229,6 @@ class Game {
       console.log("Forcing power-up collection");
       collisionSystem.handlePlayerPowerUpCollision(playerEntity, powerUpEntity);
     };
-    
-    // Connect systems that need to communicate with each other
-    this.waveSystem.setAnimationSystem(this.animationSystem);
-    this.waveSystem.setHUDSystem(this.hudSystem);
-    collisionSystem.setAnimationSystem(this.animationSystem);
-    collisionSystem.setPowerUpSystem(powerUpSystem);
   }
 
   private initEntities(): void {
@@ -239,6 +277,47 @@ class Game {
     this.inputManager.requestPointerLock();
   }
 
+  // Live input is read from the renderer's canvas
+  private createLiveInputSource(): LiveInputSource {
+    const rendererElement = this.sceneManager.getRendererDomElement();
+    if (!rendererElement) {
+      throw new Error('Renderer DOM element not available');
+    }
+    return new LiveInputSource(InputManager.getInstance(rendererElement));
+  }
+
+  /**
+   * Creates a fresh World seeded for a new run.
+   * The seed is logged so any run can be reproduced from a bug report.
+   */
+  private createWorld(): World {
+    // A queued replay dictates the seed; otherwise every run gets recorded
+    const replay = this.pendingReplay;
+    this.pendingReplay = null;
+
+    const seed = replay ? replay.seed : this.fixedSeed ?? Random.createSeed();
+    console.log(`[Game] World seed: ${seed}`);
+
+    this.replayPlayback = replay ? new ReplayInputSource(replay) : null;
+    this.replayRecorder = replay ? null : new ReplayRecorder(seed, 1 / FIXED_TIMESTEP);
+    return new World(seed);
+  }
+
+  /**
+   * Use a fixed seed for subsequent runs (daily challenges, bug reproduction, balance testing).
+   * Pass null to go back to a fresh seed per run. Takes effect on the next restart/reset.
+   */
+  public setSeed(seed: number | null): void {
+    this.fixedSeed = seed === null ? null : seed >>> 0;
+  }
+
+  /**
+   * Seed of the current run
+   */
+  public getSeed(): number {
+    return this.world.getRandomSeed();
+  }
+
   public restart(): void {
     // Stop the current game loop
     this.pause();
@@ -252,7 +331,7 @@ class Game {
     clearAccuracyShots();
     
     // Clear all entities by creating a new World instance
-    this.world = new World();
+    this.world = this.createWorld();
     
     // Set the game state in the world
     this.world.setGameState(this.stateManager.getStateReference());
@@ -277,7 +356,7 @@ class Game {
     const hudEntities = this.world.getEntitiesWith(['UIDisplay', 'GameStateDisplay']);
     if (hudEntities.length > 0) {
       const hudEntity = hudEntities[0];
-      const gameStateDisplay = this.world.getComponent<GameStateDisplay>(hudEntity, 'GameStateDisplay');
+      const gameStateDisplay = this.world.getComponent(hudEntity, 'GameStateDisplay');
       
       if (gameStateDisplay && gameStateDisplay.currentState !== 'playing') {
         // Force update to playing state using the same method as resumeGame
@@ -312,7 +391,7 @@ class Game {
     const hudEntities = this.world.getEntitiesWith(['UIDisplay', 'GameStateDisplay']);
     if (hudEntities.length > 0) {
       const hudEntity = hudEntities[0];
-      const gameStateDisplay = this.world.getComponent<GameStateDisplay>(hudEntity, 'GameStateDisplay');
+      const gameStateDisplay = this.world.getComponent(hudEntity, 'GameStateDisplay');
       
       if (gameStateDisplay) {
         // Only update if state is actually changing
@@ -336,7 +415,7 @@ class Game {
     const hudEntities = this.world.getEntitiesWith(['UIDisplay', 'GameStateDisplay']);
     if (hudEntities.length > 0) {
       const hudEntity = hudEntities[0];
-      const gameStateDisplay = this.world.getComponent<GameStateDisplay>(hudEntity, 'GameStateDisplay');
+      const gameStateDisplay = this.world.getComponent(hudEntity, 'GameStateDisplay');
       
       if (gameStateDisplay && gameStateDisplay.currentState !== 'playing') {
         this.world.removeComponent(hudEntity, 'GameStateDisplay');
@@ -382,7 +461,7 @@ class Game {
     
     if (hudEntities.length > 0) {
       const hudEntity = hudEntities[0];
-      const gameStateDisplay = this.world.getComponent<GameStateDisplay>(hudEntity, 'GameStateDisplay');
+      const gameStateDisplay = this.world.getComponent(hudEntity, 'GameStateDisplay');
       
       if (gameStateDisplay) {
         const globalState = this.stateManager.getStateReference();
@@ -404,14 +483,54 @@ class Game {
     
     // Only update specific systems if in dev mode
     if (isDevMode) {
+      // Dev-mode frames aren't fixed simulation steps, so the recording can't reproduce this run
+      if (this.replayRecorder) {
+        this.replayRecorder = null;
+        this.inputSystem.setRecorder(null);
+      }
+      this.world.setInterpolationAlpha(1);
       this.updateFilteredSystems(deltaTime);
     }
     // Otherwise, follow normal game update rules
     else if (isPlaying && this.isRunning) {
-      // Normal game update - all systems
-      this.world.update(deltaTime);
-      updateStarPower(this.stateManager.getStateReference(), deltaTime);
-      this.stateManager.updateState({ lastUpdateTime: Date.now() });
+      this.accumulator += deltaTime;
+
+      // Step the simulation at a fixed rate, capped so a long stall can't spiral
+      let steps = 0;
+      while (this.accumulator >= FIXED_TIMESTEP && steps < this.maxCatchUpSteps) {
+        // Replayed UI actions land between the same steps they were recorded at
+        if (this.replayPlayback) {
+          this.applyReplayEvents(this.replayPlayback.takeDueEvents());
+        }
+
+        this.world.update(FIXED_TIMESTEP);
+        updateStarPower(this.stateManager.getStateReference(), FIXED_TIMESTEP);
+        this.accumulator -= FIXED_TIMESTEP;
+        steps++;
+
+        // Stop stepping once a step ends the run
+        if (this.stateManager.getStateReference().isGameOver) {
+          break;
+        }
+
+        if (this.replayPlayback?.isFinished()) {
+          this.finishReplayPlayback();
+          break;
+        }
+      }
+
+      // Drop whole steps we couldn't catch up on (background tab, long GC pause)
+      if (this.accumulator >= FIXED_TIMESTEP) {
+        this.accumulator %= FIXED_TIMESTEP;
+      }
+
+      if (steps > 0) {
+        this.stateManager.updateState({ lastUpdateTime: Date.now() });
+      }
+
+      // Render systems blend between the previous and latest step
+      this.world.setInterpolationAlpha(this.accumulator / FIXED_TIMESTEP);
+      this.world.render(deltaTime);
     }
     
     // Render scene
@@ -436,6 +555,14 @@ class Game {
     }
   }
 
+  /**
+   * Maximum simulation steps run in a single frame before leftover time is dropped.
+   * Higher values keep simulation time closer to wall time on slow devices at the cost of hitches.
+   */
+  public setMaxCatchUpSteps(steps: number): void {
+    this.maxCatchUpSteps = Math.max(1, Math.floor(steps));
+  }
+
   private render(): void {
     if (!this.sceneManager) {
       console.warn('[Game] SceneManager not available for rendering');
@@ -457,96 +584,29 @@ class Game {
   }
 
   public applyUpgrade(upgradeId: string): boolean {
-    const state = this.stateManager.getStateReference();
-    const upgradeCost = getUpgradeCost(upgradeId, this.getUpgradeLevel(upgradeId));
-    if (state.upgradeCredits < upgradeCost) {
+    // The replay already contains the player's choices
+    if (this.replayPlayback) {
       return false;
     }
 
-    const playerEntity = this.findPlayerEntity();
-    const dysonEntity = this.findDysonSphereEntity();
-    let applied = false;
-
-    if (upgradeId === 'ship-damage') {
-      state.shipDamageLevel += 1;
-      applied = true;
-    } else if (upgradeId === 'ship-fire-rate' && playerEntity !== -1) {
-      const laserCooldown = this.world.getComponent<LaserCooldown>(playerEntity, 'LaserCooldown');
-      if (laserCooldown) {
-        laserCooldown.max = Math.max(0.12, laserCooldown.max * 0.9);
-        state.shipFireRateLevel += 1;
-        applied = true;
-      }
-    } else if (upgradeId === 'ship-hull' && playerEntity !== -1) {
-      const health = this.world.getComponent<Health>(playerEntity, 'Health');
-      if (health) {
-        health.max += 25;
-        health.current = Math.min(health.max, health.current + 25);
-        state.shipHullLevel += 1;
-        applied = true;
-      }
-    } else if (upgradeId === 'dyson-shield' && dysonEntity !== -1) {
-      const shield = this.world.getComponent<Shield>(dysonEntity, 'Shield');
-      if (shield) {
-        shield.max += 50;
-        shield.current = Math.min(shield.max, shield.current + 50);
-        state.dysonShieldLevel += 1;
-        applied = true;
-      }
-    } else if (upgradeId === 'dyson-regen' && dysonEntity !== -1) {
-      const shield = this.world.getComponent<Shield>(dysonEntity, 'Shield');
-      if (shield) {
-        shield.regenRate += 5;
-        state.dysonRegenLevel += 1;
-        applied = true;
-      }
-    } else if (upgradeId === 'secondary-praetorian-laser') {
-      state.secondaryWeapon = {
-        ...state.secondaryWeapon,
-        type: 'praetorianLaser',
-        unlocked: true,
-        charges: state.secondaryWeapon.maxCharges,
-        isCharging: false,
-        chargeProgress: 0,
-        cooldown: 0
-      };
-      applied = true;
-    }
-
-    if (!applied) {
-      return false;
+    const applied = this.performUpgrade(upgradeId);
+    if (applied) {
+      this.replayRecorder?.recordUpgrade(upgradeId);
     }
-
-    state.upgradeCredits -= upgradeCost;
-
-    this.hudSystem.displayMessage('UPGRADE INSTALLED', 2);
-
-    return true;
+    return applied;
   }
 
-  private getUpgradeLevel(upgradeId: string): number {
-    const state = this.stateManager.getStateReference();
-
-    if (upgradeId === 'ship-damage') {
-      return state.shipDamageLevel;
-    }
-    if (upgradeId === 'ship-fire-rate') {
-      return state.shipFireRateLevel;
-    }
-    if (upgradeId === 'ship-hull') {
-      return state.shipHullLevel;
-    }
-    if (upgradeId === 'dyson-shield') {
-      return state.dysonShieldLevel;
-    }
-    if (upgradeId === 'dyson-regen') {
-      return state.dysonRegenLevel;
-    }
-
-    return 0;
+  private performUpgrade(upgradeId: string): boolean {
+    // The HUD announces the install via the UpgradeApplied event
+    return purchaseUpgrade(this.world, this.stateManager.getStateReference(), upgradeId);
   }
 
   public skipUpgradeDraft(): void {
+    if (this.replayPlayback) {
+      return;
+    }
+
+    this.replayRecorder?.recordSkipUpgrade();
     const state = this.stateManager.getStateReference();
     state.upgradeDraftAvailable = false;
     if (this.isRunning) {
@@ -558,23 +618,6 @@ class Game {
     return this.sceneManager.getCamera();
   }
 
-  private findPlayerEntity(): number {
-    const playerEntities = this.world.getEntitiesWith(['InputReceiver']);
-    return playerEntities.length > 0 ? playerEntities[0] : -1;
-  }
-
-  private findDysonSphereEntity(): number {
-    const entities = this.world.getEntitiesWith(['Renderable']);
-    for (const entity of entities) {
-      const renderable = this.world.getComponent<{ modelId: string }>(entity, 'Renderable');
-      if (renderable?.modelId === 'dysonSphere') {
-        return entity;
-      }
-    }
-
-    return -1;
-  }
-
   public dispose(): void {
     console.log('[Game] Disposing...');
     if (this.animationFrameId) {
@@ -587,6 +630,7 @@ class Game {
     this.inputManager.dispose();
     
     // Dispose Three.js related resources via SceneManager
+    this.devSystem?.dispose();
     this.sceneManager.destroy();
     
     // Clean up global references if set
@@ -602,6 +646,12 @@ class Game {
     if ((window as any).testPowerUp) {
         delete (window as any).testPowerUp;
     }
+    if ((window as any).exportReplay) {
+        delete (window as any).exportReplay;
+    }
+    if ((window as any).playReplay) {
+        delete (window as any).playReplay;
+    }
     
     // Clear references
     // @ts-ignore - Allow setting to null for cleanup
@@ -630,6 +680,74 @@ class Game {
     console.log('[Game] Disposed');
   }
 
+  private applyReplayEvents(events: ReplayEvent[]): void {
+    for (const event of events) {
+      if (event.type === 'upgrade') {
+        if (!this.performUpgrade(event.upgradeId)) {
+          console.warn(`[Game] Replay upgrade "${event.upgradeId}" could not be applied; playback may diverge`);
+        }
+      } else if (event.type === 'skipUpgrade') {
+        this.stateManager.getStateReference().upgradeDraftAvailable = false;
+      }
+    }
+  }
+
+  private finishReplayPlayback(): void {
+    console.log('[Game] Replay finished');
+    this.replayPlayback = null;
+    this.inputSystem.setInputSource(null);
+    this.hudSystem.displayMessage('REPLAY COMPLETE', 3);
+    this.pause();
+  }
+
+  /**
+   * Recording of the current run so far (seed, per-step input and upgrade choices).
+   * Returns null while a replay is playing.
+   */
+  public getReplay(): ReplayFile | null {
+    if (!this.replayRecorder) {
+      return null;
+    }
+    const state = this.stateManager.getStateReference();
+    return this.replayRecorder.toReplay({
+      score: state.score,
+      wavesCompleted: state.wavesCompleted,
+      enemiesDefeated: state.enemiesDefeated
+    });
+  }
+
+  public exportReplay(): string | null {
+    const replay = this.getReplay();
+    return replay ? JSON.stringify(replay) : null;
+  }
+
+  /**
+   * Restart the game and play back a recorded run (a ReplayFile or its JSON).
+   * Returns false if the replay is invalid.
+   */
+  public playReplay(input: ReplayFile | string): boolean {
+    const replay = parseReplay(input);
+    if (!replay) {
+      return false;
+    }
+
+    if (replay.tickRate !== 1 / FIXED_TIMESTEP) {
+      console.warn(`[Game] Replay was recorded at ${replay.tickRate} Hz; playback runs at ${1 / FIXED_TIMESTEP} Hz and may diverge`);
+    }
+
+    this.pendingReplay = replay;
+    if (replay.startWave > 1) {
+      this.restartAtWave(replay.startWave);
+    } else {
+      this.restart();
+    }
+    return true;
+  }
+
+  public isReplayPlaying(): boolean {
+    return this.replayPlayback !== null;
+  }
+
   public restartAtWave(waveNumber: number): void {
     // Stop the current game loop
     this.pause();
@@ -644,7 +762,8 @@ class Game {
     clearAccuracyShots();
     
     // Clear all entities by creating a new World instance
-    this.world = new World();
+    this.world = this.createWorld();
+    this.replayRecorder?.setStartWave(waveNumber);
     
     // Set the game state in the world
     this.world.setGameState(this.stateManager.getStateReference());
@@ -660,7 +779,7 @@ class Game {
     const waveEntities = this.world.getEntitiesWith(['WaveInfo']);
     if (waveEntities.length > 0) {
       const waveEntity = waveEntities[0];
-      const waveInfo = this.world.getComponent<WaveInfo>(waveEntity, 'WaveInfo');
+      const waveInfo = this.world.getComponent(waveEntity, 'WaveInfo');
       
       if (waveInfo) {
         // Remove the old component and add the updated one
@@ -688,7 +807,7 @@ class Game {
     const hudEntities = this.world.getEntitiesWith(['UIDisplay', 'GameStateDisplay']);
     if (hudEntities.length > 0) {
       const hudEntity = hudEntities[0];
-      const gameStateDisplay = this.world.getComponent<GameStateDisplay>(hudEntity, 'GameStateDisplay');
+      const gameStateDisplay = this.world.getComponent(hudEntity, 'GameStateDisplay');
       
       if (gameStateDisplay && gameStateDisplay.currentState !== 'playing') {
         // Force update to playing state using the same method as resumeGame
@@ -705,6 +824,71 @@ class Game {
     inputManager.requestPointerLock();
   }
 
+  /**
+   * Save the run in progress to localStorage so it can be continued from the start screen.
+   * Replays and finished runs aren't saved.
+   */
+  public saveRun(): boolean {
+    const gameStateDisplay = this.world.query(['UIDisplay', 'GameStateDisplay'])[0]?.[2];
+    const inProgress = gameStateDisplay?.currentState === 'playing' || gameStateDisplay?.currentState === 'paused';
+    if (this.replayPlayback || !inProgress || this.stateManager.getStateReference().isGameOver) {
+      return false;
+    }
+
+    const save = createSave(
+      this.world,
+      this.stateManager.getState(),
+      this.waveSystem.getProgressSnapshot(),
+      this.animationSystem.getShootingTimers()
+    );
+    const saved = writeSave(save);
+    if (saved) {
+      console.log(`[Game] Run saved at wave ${this.waveSystem.getWaveInfo()?.currentWave ?? 0} (seed ${save.world.seed})`);
+    }
+    return saved;
+  }
+
+  public hasSavedRun(): boolean {
+    return hasSave();
+  }
+
+  /**
+   * Replace the current world with the saved run and resume playing it.
+   * The save is consumed; quitting from the pause screen again writes a new one.
+   */
+  public continueSavedRun(): boolean {
+    const save = readSave();
+    if (!save) {
+      return false;
+    }
+
+    // Stop the current game loop and clear the old run, as restart does
+    this.pause();
+    this.sceneManager.clearScene();
+    this.stateManager.resetState();
+    clearAccuracyShots();
+
+    // Resumed runs can't be reproduced from their seed alone, so they aren't recorded
+    this.pendingReplay = null;
+    this.replayPlayback = null;
+    this.replayRecorder = null;
+    console.log(`[Game] Resuming run saved ${save.savedAt} (seed ${save.world.seed})`);
+    this.world = new World(save.world.seed);
+    this.world.setGameState(this.stateManager.getStateReference());
+
+    // Systems start fresh; the saved entities replace the ones a new run would create
+    this.initSystems();
+    this.world.restoreSnapshot(save.world);
+    this.waveSystem.restoreProgressSnapshot(save.waves);
+    this.animationSystem.restoreShootingTimers(save.shootingTimers);
+    this.stateManager.restoreState(save.gameState);
+    clearSave();
+
+    this.audioManager.resumeSoundtrack();
+    this.resumeGame();
+    return true;
+  }
+
   public requestPointerLock(): void {
     console.log('[Game] requestPointerLock called'); // Added log
     if (this.inputManager) {
@@ -729,7 +913,7 @@ class Game {
     this.stateManager.resetState();
     
     // Clear all entities by creating a new World instance
-    this.world = new World();
+    this.world = this.createWorld();
     
     // Set the game state in the world
     this.world.setGameState(this.stateManager.getStateReference());
@@ -742,7 +926,7 @@ class Game {
     const hudEntities = this.world.getEntitiesWith(['UIDisplay', 'GameStateDisplay']);
     if (hudEntities.length > 0) {
       const hudEntity = hudEntities[0];
-      const gameStateDisplay = this.world.getComponent<GameStateDisplay>(hudEntity, 'GameStateDisplay');
+      const gameStateDisplay = this.world.getComponent(hudEntity, 'GameStateDisplay');
       
       if (gameStateDisplay) {
         this.world.removeComponent(hudEntity, 'GameStateDisplay');
@@ -773,7 +957,7 @@ class Game {
     const hudEntities = this.world?.getEntitiesWith(['UIDisplay', 'GameStateDisplay']);
     if (hudEntities && hudEntities.length > 0) {
       const hudEntity = hudEntities[0];
-      const gameStateDisplay = this.world.getComponent<GameStateDisplay>(hudEntity, 'GameStateDisplay');
+      const gameStateDisplay = this.world.getComponent(hudEntity, 'GameStateDisplay');
       if (gameStateDisplay) {
         currentGameState = gameStateDisplay.currentState;
       }
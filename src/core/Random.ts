@@ -0,0 +1,90 @@
+// src/core/Random.ts
+// Seedable deterministic PRNG used for all gameplay randomness.
+//
+// Each World owns a root Random built from the run seed. Subsystems pull
+// named streams from it (world.getRandomStream('waves')) so that adding or
+// removing rolls in one subsystem never shifts the sequence seen by another.
+// Purely cosmetic randomness (particle jitter, lightning wobble) may keep
+// using Math.random since it never feeds back into the simulation.
+
+const UINT32 = 0x100000000;
+
+// FNV-1a, used to derive a stream seed from the root seed and a stream name
+function hashString(seed: number, name: string): number {
+  let hash = (0x811c9dc5 ^ seed) >>> 0;
+  for (let i = 0; i < name.length; i++) {
+    hash ^= name.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+export class Random {
+  private readonly seed: number;
+  private state: number;
+
+  constructor(seed: number) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /**
+   * Creates a fresh seed for runs that weren't given one explicitly.
+   * This is the one place where non-deterministic entropy is allowed.
+   */
+  public static createSeed(): number {
+    return (Date.now() ^ Math.floor(Math.random() * UINT32)) >>> 0;
+  }
+
+  public getSeed(): number {
+    return this.seed;
+  }
+
+  // Internal generator position, for snapshots
+  public getState(): number {
+    return this.state;
+  }
+
+  public setState(state: number): void {
+    this.state = state >>> 0;
+  }
+
+  /**
+   * Returns a float in [0, 1), a drop-in replacement for Math.random().
+   * Mulberry32: small, fast and good enough for gameplay rolls.
+   */
+  public next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / UINT32;
+  }
+
+  // Float in [min, max)
+  public range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  // Integer in [min, max)
+  public int(min: number, max: number): number {
+    return Math.floor(this.range(min, max));
+  }
+
+  // True with the given probability
+  public chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  public pick<T>(items: readonly T[]): T {
+    return items[this.int(0, items.length)];
+  }
+
+  /**
+   * Derives an independent child stream. The child depends only on this
+   * stream's seed and the name, not on how many numbers have been drawn.
+   */
+  public fork(name: string): Random {
+    return new Random(hashString(this.seed, name));
+  }
+}
@@ -0,0 +1,105 @@
+// Cells an item may span per axis before it is kept aside and returned by every query
+const MAX_CELL_SPAN = 8;
+
+/**
+ * Uniform grid broadphase. Items are bounding spheres filed under every cell they
+ * overlap; a query returns each item sharing a cell with the query sphere once, in
+ * ascending order, so callers can keep a deterministic pair order.
+ *
+ * Rebuilt every step (clear, then insert): cells left empty for a whole step are
+ * dropped so the map doesn't grow as projectiles fly off. Items too large to file
+ * cheaply go in a list every query includes, and queries that large take every item.
+ */
+export class SpatialHash {
+  private cells = new Map<number, number[]>();
+  private oversized: number[] = [];
+
+  constructor(private cellSize: number) {}
+
+  public clear(): void {
+    for (const [key, cell] of this.cells) {
+      if (cell.length === 0) {
+        this.cells.delete(key);
+      } else {
+        cell.length = 0;
+      }
+    }
+    this.oversized.length = 0;
+  }
+
+  public insert(item: number, x: number, y: number, z: number, radius: number): void {
+    const minX = this.toCell(x - radius), maxX = this.toCell(x + radius);
+    const minY = this.toCell(y - radius), maxY = this.toCell(y + radius);
+    const minZ = this.toCell(z - radius), maxZ = this.toCell(z + radius);
+
+    if (maxX - minX >= MAX_CELL_SPAN || maxY - minY >= MAX_CELL_SPAN || maxZ - minZ >= MAX_CELL_SPAN) {
+      this.oversized.push(item);
+      return;
+    }
+
+    for (let cx = minX; cx <= maxX; cx++) {
+      for (let cy = minY; cy <= maxY; cy++) {
+        for (let cz = minZ; cz <= maxZ; cz++) {
+          const key = this.cellKey(cx, cy, cz);
+          let cell = this.cells.get(key);
+          if (!cell) {
+            cell = [];
+            this.cells.set(key, cell);
+          }
+          cell.push(item);
+        }
+      }
+    }
+  }
+
+  /**
+   * Fills `out` with the items that may overlap the query sphere (sorted, no duplicates)
+   */
+  public query(x: number, y: number, z: number, radius: number, out: number[]): number[] {
+    out.length = 0;
+
+    const minX = this.toCell(x - radius), maxX = this.toCell(x + radius);
+    const minY = this.toCell(y - radius), maxY = this.toCell(y + radius);
+    const minZ = this.toCell(z - radius), maxZ = this.toCell(z + radius);
+
+    if (maxX - minX >= MAX_CELL_SPAN || maxY - minY >= MAX_CELL_SPAN || maxZ - minZ >= MAX_CELL_SPAN) {
+      // Cheaper to take every filed item than to visit that many cells
+      for (const cell of this.cells.values()) {
+        for (const item of cell) out.push(item);
+      }
+    } else {
+      for (let cx = minX; cx <= maxX; cx++) {
+        for (let cy = minY; cy <= maxY; cy++) {
+          for (let cz = minZ; cz <= maxZ; cz++) {
+            const cell = this.cells.get(this.cellKey(cx, cy, cz));
+            if (cell) {
+              for (const item of cell) out.push(item);
+            }
+          }
+        }
+      }
+    }
+    for (const item of this.oversized) out.push(item);
+
+    // Items spanning several cells (or cells sharing a key) show up more than once
+    out.sort((a, b) => a - b);
+    let unique = 0;
+    for (let i = 0; i < out.length; i++) {
+      if (i === 0 || out[i] !== out[i - 1]) {
+        out[unique++] = out[i];
+      }
+    }
+    out.length = unique;
+
+    return out;
+  }
+
+  private toCell(value: number): number {
+    return Math.floor(value / this.cellSize);
+  }
+
+  // Distinct cells may share a key; that only adds candidates, never loses one
+  private cellKey(cx: number, cy: number, cz: number): number {
+    return Math.imul(cx, 73856093) ^ Math.imul(cy, 19349663) ^ Math.imul(cz, 83492791);
+  }
+}
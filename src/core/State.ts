@@ -16,6 +16,8 @@
  * is easily serializable and suitable for future multiplayer integration.
  */
 
+import { DamageTotals } from '../types/damage';
+
 /**
  * Interface defining the core game state
  */
@@ -32,6 +34,10 @@ export interface GameState {
   starPowerCharge: number;
   starPowerActive: boolean;
   starPowerTimeRemaining: number;
+
+  // End-of-run damage stats by type, kept by the damage service (src/core/damage.ts)
+  damageDealt: DamageTotals;  // By the player
+  damageTaken: DamageTotals;  // By the player's ship
   
   // Dyson Sphere properties
   dysonSphereHealth: number;
@@ -58,6 +64,9 @@ export interface GameState {
   shipHullLevel: number;
   dysonShieldLevel: number;
   dysonRegenLevel: number;
+  radarPulseLevel: number;
+  radarPulseCooldown: number;   // Seconds until the next automatic radar pulse
+  radarPulseRemaining: number;  // Seconds the last pulse keeps cloaked enemies revealed
 
   // Secondary weapon system
   secondaryWeapon: {
@@ -86,6 +95,9 @@ export const initialGameState: GameState = {
   starPowerCharge: 0,
   starPowerActive: false,
   starPowerTimeRemaining: 0,
+
+  damageDealt: { kinetic: 0, energy: 0, lightning: 0, impact: 0, environmental: 0 },
+  damageTaken: { kinetic: 0, energy: 0, lightning: 0, impact: 0, environmental: 0 },
   
   dysonSphereHealth: 100,
   dysonSphereMaxHealth: 100,
@@ -108,6 +120,9 @@ export const initialGameState: GameState = {
   shipHullLevel: 0,
   dysonShieldLevel: 0,
   dysonRegenLevel: 0,
+  radarPulseLevel: 0,
+  radarPulseCooldown: 0,
+  radarPulseRemaining: 0,
 
   secondaryWeapon: {
     type: 'none',
@@ -121,6 +136,34 @@ export const initialGameState: GameState = {
   }
 };
 
+/**
+ * Copies fields from untrusted data (a save, parsed JSON) over a copy of the defaults.
+ * Fields that are missing or of the wrong type keep their default and are reported in `rejected`.
+ */
+function mergeValidated<T extends object>(defaults: T, data: Record<string, unknown>, path: string, rejected: string[]): T {
+  const result = { ...defaults } as Record<string, unknown>;
+
+  for (const [key, defaultValue] of Object.entries(defaults)) {
+    const value = data[key];
+    if (defaultValue !== null && typeof defaultValue === 'object') {
+      if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+        result[key] = mergeValidated(defaultValue, value as Record<string, unknown>, `${path}${key}.`, rejected);
+      } else {
+        result[key] = { ...defaultValue };
+        rejected.push(`${path}${key}`);
+      }
+    } else if (typeof value === typeof defaultValue && !(typeof value === 'number' && !Number.isFinite(value))) {
+      result[key] = value;
+    } else {
+      rejected.push(`${path}${key}`);
+    }
+  }
+
+  return result as T;
+}
+
+const SECONDARY_WEAPON_TYPES: GameState['secondaryWeapon']['type'][] = ['none', 'praetorianLaser'];
+
 /**
  * Class to manage game state with helper methods
  */
@@ -130,6 +173,8 @@ export class GameStateManager {
   constructor(initialState: GameState = initialGameState) {
     this.state = {
       ...initialState,
+      damageDealt: { ...initialState.damageDealt },
+      damageTaken: { ...initialState.damageTaken },
       secondaryWeapon: { ...initialState.secondaryWeapon }
     };
   }
@@ -161,6 +206,8 @@ export class GameStateManager {
   resetState(): void {
     this.state = {
       ...initialGameState,
+      damageDealt: { ...initialGameState.damageDealt },
+      damageTaken: { ...initialGameState.damageTaken },
       secondaryWeapon: { ...initialGameState.secondaryWeapon },
       lastUpdateTime: Date.now()
     };
@@ -176,12 +223,37 @@ export class GameStateManager {
   /**
    * Deserialize the game state from JSON
    */
-  deserializeState(jsonState: string): void {
+  deserializeState(jsonState: string): boolean {
     try {
-      const parsedState = JSON.parse(jsonState) as GameState;
-      this.state = { ...parsedState };
+      return this.restoreState(JSON.parse(jsonState));
     } catch (error) {
       console.error('Failed to deserialize game state:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Replace the state with previously saved data, validated field by field against
+   * initialGameState. Invalid fields fall back to their initial value.
+   * The state object is updated in place so the reference installed in World stays valid.
+   */
+  restoreState(data: unknown): boolean {
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+      console.error('Failed to restore game state: expected an object');
+      return false;
+    }
+
+    const rejected: string[] = [];
+    const restored = mergeValidated(initialGameState, data as Record<string, unknown>, '', rejected);
+    if (!SECONDARY_WEAPON_TYPES.includes(restored.secondaryWeapon.type)) {
+      restored.secondaryWeapon.type = initialGameState.secondaryWeapon.type;
+      rejected.push('secondaryWeapon.type');
     }
+    if (rejected.length > 0) {
+      console.warn(`Restored game state with defaults for invalid fields: ${rejected.join(', ')}`);
+    }
+
+    Object.assign(this.state, restored);
+    return true;
   }
 } 
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { World } from './World';
+
+describe('World.deferred', () => {
+  it('creates entities and adds components at the next sync point', () => {
+    const world = new World(1);
+    const view = world.deferred();
+
+    const entity = view.createEntity();
+    view.addComponent(entity, 'Position', { x: 1, y: 2, z: 3 });
+
+    expect(world.hasEntity(entity)).toBe(false);
+    expect(world.getEntitiesWith(['Position'])).toEqual([]);
+
+    world.flushCommands();
+    expect(world.hasEntity(entity)).toBe(true);
+    expect(world.getComponent(entity, 'Position')).toEqual({ x: 1, y: 2, z: 3 });
+  });
+
+  it('reads back components queued through it before the sync point', () => {
+    const world = new World(1);
+    const view = world.deferred();
+
+    const entity = view.createEntity();
+    view.addComponent(entity, 'Health', { current: 10, max: 10 });
+    view.getComponent(entity, 'Health')!.max = 5;
+
+    expect(view.hasComponent(entity, 'Health')).toBe(true);
+    expect(world.getComponent(entity, 'Health')).toBeUndefined();
+
+    world.flushCommands();
+    expect(world.getComponent(entity, 'Health')).toEqual({ current: 10, max: 5 });
+  });
+
+  it('defers removals and passes everything else through to the world', () => {
+    const world = new World(1);
+    const entity = world.createEntity();
+    world.addComponent(entity, 'Position', { x: 0, y: 0, z: 0 });
+    const view = world.deferred();
+
+    expect(view.getComponent(entity, 'Position')).toBe(world.getComponent(entity, 'Position'));
+    expect(view.getRandomStream('test').next()).toBe(new World(1).getRandomStream('test').next());
+
+    view.removeEntity(entity);
+    expect(world.hasEntity(entity)).toBe(true);
+    expect(world.isPendingRemoval(entity)).toBe(true);
+
+    world.flushCommands();
+    expect(world.hasEntity(entity)).toBe(false);
+  });
+});
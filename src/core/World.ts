@@ -1,32 +1,88 @@
 // src/core/World.ts
 import { GameState } from './State';
+import { Random } from './Random';
+import { ComponentTypes, ComponentName, isComponentName } from './components';
+import { EventBus } from './EventBus';
+import { GameEvents, GameEventName, GameEventHandler } from '../types/events';
+import { WorldSnapshot, EntitySnapshot } from '../types/save';
+import { Entity, MAX_ENTITIES, makeEntityHandle, getEntityIndex, getEntityGeneration } from './entityHandle';
 
-type Entity = number;
+// Components for a query, in the order they were requested
+type ComponentTuple<K extends readonly ComponentName[]> = { [I in keyof K]: ComponentTypes[K[I]] };
+export type QueryRow<K extends readonly ComponentName[]> = [Entity, ...ComponentTuple<K>];
+
+// Runtime validation (component names, access to removed entities) only runs in development builds and headless runs
+const DEV_CHECKS = import.meta.env?.DEV ?? true;
+
+// Structural change queued during a system update, applied at the next sync point
+type EntityCommand =
+  | { type: 'createEntity'; entity: Entity }
+  | { type: 'removeEntity'; entity: Entity }
+  | { type: 'addComponent'; entity: Entity; componentType: ComponentName; component: unknown }
+  | { type: 'removeComponent'; entity: Entity; componentType: ComponentName };
 
 export interface System {
   update(deltaTime: number): void;
 }
 
 export class World {
-  private nextEntityId: Entity = 0;
-  private components: Map<string, Map<Entity, any>> = new Map();
-  private systems: System[] = [];
+  private nextEntityIndex = 0; // Slots ever used; only grows when no freed slot is available
+  private generations: number[] = []; // Current generation of each slot
+  private freeIndices: number[] = [];
+  private components: Map<ComponentName, Map<Entity, unknown>> = new Map();
+  private systems: System[] = []; // Simulation systems, stepped at a fixed rate
+  private renderSystems: System[] = []; // Presentation systems, run once per displayed frame
   private activeEntities: Set<Entity> = new Set();
   private gameState: GameState | null = null;
   private componentVersion = 0;
   private queryCache: Map<string, { version: number; entities: Entity[] }> = new Map();
+  private random: Random;
+  private randomStreams: Map<string, Random> = new Map();
+  private interpolationAlpha = 1;
+  private elapsedTime = 0; // Simulated seconds since the world was created
+  private events = new EventBus<GameEvents>();
+  private commands: EntityCommand[] = [];
+  private pendingRemovals: Set<Entity> = new Set();
+  private warnedRemovals: Set<Entity> = new Set(); // Dev warnings already printed this sync interval
+
+  constructor(seed: number = Random.createSeed()) {
+    this.random = new Random(seed);
+  }
 
   public createEntity(): Entity {
-    const entity = this.nextEntityId++;
+    const entity = this.allocateEntity();
     this.activeEntities.add(entity);
     return entity;
   }
 
+  /**
+   * False once the entity is removed, including for stale handles whose slot now holds a newer entity
+   */
   public hasEntity(entity: Entity): boolean {
     return this.activeEntities.has(entity);
   }
 
-  public addComponent<T>(entity: Entity, componentType: string, component: T): void {
+  // Reuses a freed slot when possible so long runs don't grow ids and component maps without bound
+  private allocateEntity(): Entity {
+    let index = this.freeIndices.pop();
+    if (index === undefined) {
+      if (this.nextEntityIndex >= MAX_ENTITIES) {
+        throw new Error(`[World] Entity limit of ${MAX_ENTITIES} reached`);
+      }
+      index = this.nextEntityIndex++;
+      this.generations[index] = 0;
+    }
+    return makeEntityHandle(index, this.generations[index]);
+  }
+
+  public addComponent<K extends ComponentName>(entity: Entity, componentType: K, component: ComponentTypes[K]): void {
+    this.checkComponentName(componentType);
+    this.checkPendingRemoval(entity, componentType);
+    this.checkStaleHandle(entity, componentType);
+    this.setComponent(entity, componentType, component);
+  }
+
+  private setComponent(entity: Entity, componentType: ComponentName, component: unknown): void {
     if (!this.components.has(componentType)) {
       this.components.set(componentType, new Map());
     }
@@ -39,20 +95,24 @@ export class World {
     }
   }
 
-  public getComponent<T>(entity: Entity, componentType: string): T | undefined {
-    const component = this.components.get(componentType)?.get(entity);
-    return component;
+  public getComponent<K extends ComponentName>(entity: Entity, componentType: K): ComponentTypes[K] | undefined {
+    this.checkComponentName(componentType);
+    this.checkPendingRemoval(entity, componentType);
+    return this.components.get(componentType)?.get(entity) as ComponentTypes[K] | undefined;
   }
 
-  public hasComponent(entity: Entity, componentType: string): boolean {
+  public hasComponent(entity: Entity, componentType: ComponentName): boolean {
+    this.checkComponentName(componentType);
+    this.checkPendingRemoval(entity, componentType);
     const has = this.components.get(componentType)?.has(entity) || false;
     return has;
   }
 
-  public getEntitiesWith(componentTypes: string[]): Entity[] {
+  public getEntitiesWith(componentTypes: readonly ComponentName[]): Entity[] {
     if (componentTypes.length === 0) {
       return [];
     }
+    componentTypes.forEach(type => this.checkComponentName(type));
 
     const normalizedTypes = [...componentTypes].sort();
     const cacheKey = normalizedTypes.join('|');
@@ -61,7 +121,7 @@ export class World {
       return cached.entities;
     }
 
-    let seedMap: Map<Entity, any> | null = null;
+    let seedMap: Map<Entity, unknown> | null = null;
     for (const type of normalizedTypes) {
       const componentMap = this.components.get(type);
       if (!componentMap) {
@@ -97,46 +157,260 @@ export class World {
     return entities;
   }
 
+  /**
+   * Typed query: every entity with all of the given components, paired with those components.
+   *   for (const [entity, position, velocity] of world.query(['Position', 'Velocity'])) { ... }
+   */
+  public query<const K extends readonly ComponentName[]>(componentTypes: K): QueryRow<K>[] {
+    const entities = this.getEntitiesWith(componentTypes);
+    const maps = componentTypes.map(type => this.components.get(type)!);
+    return entities.map(entity => [entity, ...maps.map(map => map.get(entity))] as unknown as QueryRow<K>);
+  }
+
+  // Catches names that bypass the type system (casts, data-driven keys)
+  private checkComponentName(componentType: string): void {
+    if (DEV_CHECKS && !isComponentName(componentType)) {
+      console.warn(`[World] Unknown component type "${componentType}"; register it in ComponentTypes (components.ts)`);
+    }
+  }
+
+  // Catches systems that keep using an entity after queueing its removal
+  private checkPendingRemoval(entity: Entity, componentType: string): void {
+    if (!DEV_CHECKS || !this.pendingRemovals.has(entity) || this.warnedRemovals.has(entity)) {
+      return;
+    }
+    this.warnedRemovals.add(entity);
+    console.warn(`[World] Entity ${entity} accessed ("${componentType}") after being marked for removal; check isPendingRemoval() first`);
+  }
+
+  // Components added through a handle whose entity was removed would never be cleaned up
+  private checkStaleHandle(entity: Entity, componentType: string): void {
+    if (!DEV_CHECKS || this.activeEntities.has(entity)) {
+      return;
+    }
+    if (this.generations[getEntityIndex(entity)] !== getEntityGeneration(entity)) {
+      console.warn(`[World] Component "${componentType}" added to removed entity ${entity} (stale handle)`);
+    }
+  }
+
+  /**
+   * Reserve an entity id now and activate the entity at the next sync point.
+   * Components for it can be queued straight away with deferAddComponent.
+   */
+  public deferCreateEntity(): Entity {
+    const entity = this.allocateEntity();
+    this.commands.push({ type: 'createEntity', entity });
+    return entity;
+  }
+
+  /**
+   * Queue an entity for removal at the next sync point. Until then it still exists,
+   * but isPendingRemoval() reports it and dev builds warn when its components are accessed.
+   */
+  public deferRemoveEntity(entity: Entity): void {
+    if (!this.activeEntities.has(entity) || this.pendingRemovals.has(entity)) {
+      return;
+    }
+    this.pendingRemovals.add(entity);
+    this.commands.push({ type: 'removeEntity', entity });
+  }
+
+  public deferAddComponent<K extends ComponentName>(entity: Entity, componentType: K, component: ComponentTypes[K]): void {
+    this.checkComponentName(componentType);
+    this.commands.push({ type: 'addComponent', entity, componentType, component });
+  }
+
+  public deferRemoveComponent(entity: Entity, componentType: ComponentName): void {
+    this.checkComponentName(componentType);
+    this.commands.push({ type: 'removeComponent', entity, componentType });
+  }
+
+  public isPendingRemoval(entity: Entity): boolean {
+    return this.pendingRemovals.has(entity);
+  }
+
+  /**
+   * This world with structural changes routed through the command buffer, for spawning
+   * from inside a system update: pass it to an entity factory in place of the world.
+   * createEntity, addComponent, removeEntity and removeComponent become their deferred
+   * versions, and components queued through the view can be read back through it before
+   * the sync point, so factories and the code around them work unchanged.
+   */
+  public deferred(): World {
+    const queued = new Map<Entity, Map<ComponentName, unknown>>();
+    const overrides = {
+      createEntity: (): Entity => this.deferCreateEntity(),
+      addComponent: <K extends ComponentName>(entity: Entity, componentType: K, component: ComponentTypes[K]): void => {
+        let components = queued.get(entity);
+        if (!components) {
+          components = new Map();
+          queued.set(entity, components);
+        }
+        components.set(componentType, component);
+        this.deferAddComponent(entity, componentType, component);
+      },
+      removeEntity: (entity: Entity): void => this.deferRemoveEntity(entity),
+      removeComponent: (entity: Entity, componentType: ComponentName): void => {
+        queued.get(entity)?.delete(componentType);
+        this.deferRemoveComponent(entity, componentType);
+      },
+      getComponent: <K extends ComponentName>(entity: Entity, componentType: K): ComponentTypes[K] | undefined =>
+        (queued.get(entity)?.get(componentType) as ComponentTypes[K] | undefined) ?? this.getComponent(entity, componentType),
+      hasComponent: (entity: Entity, componentType: ComponentName): boolean =>
+        queued.get(entity)?.has(componentType) || this.hasComponent(entity, componentType)
+    };
+
+    return new Proxy(this, {
+      get: (target, property) => Object.prototype.hasOwnProperty.call(overrides, property)
+        ? overrides[property as keyof typeof overrides]
+        : Reflect.get(target, property)
+    });
+  }
+
+  /**
+   * Sync point: apply queued commands in the order they were issued.
+   * Runs after every system update; call it directly after structural changes made outside one.
+   */
+  public flushCommands(): void {
+    // Commands queued by the flush itself are applied in the same pass
+    for (let i = 0; i < this.commands.length; i++) {
+      const command = this.commands[i];
+      switch (command.type) {
+        case 'createEntity':
+          this.activeEntities.add(command.entity);
+          break;
+        case 'removeEntity':
+          this.removeEntity(command.entity);
+          break;
+        case 'addComponent':
+          // Skip components queued for an entity that has since been removed
+          if (this.activeEntities.has(command.entity)) {
+            this.setComponent(command.entity, command.componentType, command.component);
+          }
+          break;
+        case 'removeComponent':
+          this.removeComponent(command.entity, command.componentType);
+          break;
+      }
+    }
+    this.commands.length = 0;
+    this.warnedRemovals.clear();
+  }
+
   public addSystem(system: System): void {
     this.systems.push(system);
   }
 
+  /**
+   * Register a render-phase system (camera, UI projection, rendering).
+   * These run once per displayed frame via render(), after any fixed simulation steps.
+   */
+  public addRenderSystem(system: System): void {
+    this.renderSystems.push(system);
+  }
+
   /**
    * Get all systems currently registered with the world
-   * @returns Array of all systems
+   * @returns Array of all systems (simulation systems first, then render systems)
    */
   public getSystems(): System[] {
-    return this.systems;
+    return [...this.systems, ...this.renderSystems];
   }
 
+  /**
+   * Subscribe to a gameplay event (see src/types/events.ts).
+   * Returns a function that removes the subscription.
+   */
+  public on<K extends GameEventName>(type: K, handler: GameEventHandler<K>): () => void {
+    return this.events.on(type, handler);
+  }
+
+  public off<K extends GameEventName>(type: K, handler: GameEventHandler<K>): void {
+    this.events.off(type, handler);
+  }
+
+  /**
+   * Publish a gameplay event. Subscribers run immediately, before emit returns.
+   */
+  public emit<K extends GameEventName>(type: K, event: GameEvents[K]): void {
+    this.events.emit(type, event);
+  }
+
+  /**
+   * Advance the simulation by one step
+   */
   public update(deltaTime: number): void {
-    for (const system of this.systems) {
+    this.elapsedTime += deltaTime;
+    this.runSystems(this.systems, deltaTime);
+  }
+
+  /**
+   * Simulation clock in seconds. Gameplay timers should use this rather than
+   * wall-clock time so that replays and headless runs stay deterministic.
+   */
+  public getElapsedTime(): number {
+    return this.elapsedTime;
+  }
+
+  /**
+   * Run render-phase systems for the current frame
+   */
+  public render(deltaTime: number): void {
+    this.runSystems(this.renderSystems, deltaTime);
+  }
+
+  private runSystems(systems: System[], deltaTime: number): void {
+    for (const system of systems) {
       try {
         system.update(deltaTime);
       } catch (error) {
         console.error(`Error in ${system.constructor.name}.update:`, error);
       }
+      // Sync point: the next system sees this one's structural changes
+      this.flushCommands();
     }
   }
 
+  /**
+   * How far the displayed frame sits between the previous and the latest
+   * simulation step (0 = previous step, 1 = latest step)
+   */
+  public setInterpolationAlpha(alpha: number): void {
+    this.interpolationAlpha = Math.min(1, Math.max(0, alpha));
+  }
+
+  public getInterpolationAlpha(): number {
+    return this.interpolationAlpha;
+  }
+
   public getActiveEntities(): Set<Entity> {
     return this.activeEntities;
   }
 
+  /**
+   * Remove an entity immediately. Inside a system update prefer deferRemoveEntity,
+   * which is safe while iterating query results.
+   */
   public removeEntity(entity: Entity): void {
     if (this.activeEntities.has(entity)) {
       this.activeEntities.delete(entity);
+      this.pendingRemovals.delete(entity);
       
       // Remove entity from all component maps
       for (const componentMap of this.components.values()) {
         componentMap.delete(entity);
       }
 
+      // Invalidate outstanding handles, then free the slot for reuse
+      const index = getEntityIndex(entity);
+      this.generations[index]++;
+      this.freeIndices.push(index);
+
       this.componentVersion++;
     }
   }
   
-  public removeComponent(entity: Entity, componentType: string): void {
+  public removeComponent(entity: Entity, componentType: ComponentName): void {
     const componentMap = this.components.get(componentType);
     if (componentMap && componentMap.delete(entity)) {
       this.componentVersion++;
@@ -150,4 +424,109 @@ export class World {
   public getGameState(): GameState | null {
     return this.gameState;
   }
+
+  /**
+   * Seed that reproduces this world's gameplay randomness
+   */
+  public getRandomSeed(): number {
+    return this.random.getSeed();
+  }
+
+  /**
+   * Get the named random stream for a subsystem (e.g. 'waves', 'drops').
+   * Streams are forked from the world seed on first use and shared by name afterwards.
+   */
+  public getRandomStream(name: string): Random {
+    let stream = this.randomStreams.get(name);
+    if (!stream) {
+      stream = this.random.fork(name);
+      this.randomStreams.set(name, stream);
+    }
+    return stream;
+  }
+
+  /**
+   * Capture every entity, the entity allocator, the simulation clock and the random streams.
+   * Queued commands are applied first. Entities rejected by `include` are recorded as removed.
+   * Component objects are shared with the live world, so serialize the snapshot before the next step.
+   */
+  public createSnapshot(include: (entity: Entity) => boolean = () => true): WorldSnapshot {
+    this.flushCommands();
+
+    const generations = [...this.generations];
+    const freeIndices = [...this.freeIndices];
+    const entities: EntitySnapshot[] = [];
+
+    for (const entity of this.activeEntities) {
+      if (!include(entity)) {
+        const index = getEntityIndex(entity);
+        generations[index]++;
+        freeIndices.push(index);
+        continue;
+      }
+
+      const components: Record<string, unknown> = {};
+      for (const [componentType, componentMap] of this.components) {
+        if (componentMap.has(entity)) {
+          components[componentType] = componentMap.get(entity);
+        }
+      }
+      entities.push({ entity, components: components as EntitySnapshot['components'] });
+    }
+
+    const streams: Record<string, number> = {};
+    for (const [name, stream] of this.randomStreams) {
+      streams[name] = stream.getState();
+    }
+
+    return {
+      seed: this.random.getSeed(),
+      elapsedTime: this.elapsedTime,
+      random: { state: this.random.getState(), streams },
+      nextEntityIndex: this.nextEntityIndex,
+      generations,
+      freeIndices,
+      entities
+    };
+  }
+
+  /**
+   * Replace every entity and component with the snapshot's, keeping the exact entity handles.
+   * Systems and event subscribers are kept; systems that cache entity ids must look them up again.
+   */
+  public restoreSnapshot(snapshot: WorldSnapshot): void {
+    if (snapshot.seed !== this.random.getSeed()) {
+      console.warn(`[World] Restoring a snapshot from seed ${snapshot.seed} into a world seeded ${this.random.getSeed()}`);
+    }
+
+    this.components.clear();
+    this.activeEntities.clear();
+    this.commands.length = 0;
+    this.pendingRemovals.clear();
+    this.warnedRemovals.clear();
+    this.queryCache.clear();
+    this.componentVersion++;
+
+    this.nextEntityIndex = snapshot.nextEntityIndex;
+    this.generations = [...snapshot.generations];
+    this.freeIndices = [...snapshot.freeIndices];
+
+    for (const { entity, components } of snapshot.entities) {
+      this.activeEntities.add(entity);
+      for (const [componentType, component] of Object.entries(components)) {
+        // Components dropped from the game since the snapshot was taken are skipped
+        if (!isComponentName(componentType)) {
+          console.warn(`[World] Skipping unknown component "${componentType}" on entity ${entity}`);
+          continue;
+        }
+        this.setComponent(entity, componentType, component);
+      }
+    }
+
+    this.elapsedTime = snapshot.elapsedTime;
+    this.random.setState(snapshot.random.state);
+    for (const [name, state] of Object.entries(snapshot.random.streams)) {
+      this.getRandomStream(name).setState(state);
+    }
+  }
 }
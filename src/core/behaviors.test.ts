@@ -0,0 +1,229 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { World } from './World';
+import { Enemy } from './components';
+import { createBehaviorMemory, runBehavior } from './behaviors/stateMachine';
+import { isBadlyHurt, outwardFrom, retreatToHealState, surfaceHeading } from './behaviors/states';
+import { BehaviorContext, BehaviorState, EnemyActions, EnemyBehavior } from '../types/enemyBehavior';
+
+const actions: EnemyActions = {
+  fireLaser: () => {},
+  faceTarget: () => {},
+  smoothFaceTarget: () => true,
+  setSiegeEyes: () => {},
+  deployLightning: () => true,
+  removeLightning: () => {},
+  channelHealBeam: () => true,
+  stopHealBeam: () => {}
+};
+
+function createContext(health = { current: 100, max: 100 }): BehaviorContext {
+  const world = new World(1);
+  const entity = world.createEntity();
+  world.addComponent(entity, 'Health', health);
+  const enemy = { type: 'test', speed: 10, currentLaserCooldown: 0 } as Enemy;
+
+  return {
+    world,
+    entity,
+    enemy,
+    position: { x: 0, y: 0, z: 0 },
+    velocity: { x: 0, y: 0, z: 0 },
+    rotation: { x: 0, y: 0, z: 0 },
+    renderable: { modelId: 'test', scale: 1, color: 0, isVisible: true },
+    memory: createBehaviorMemory(),
+    player: null,
+    target: null,
+    actions,
+    deltaTime: 0.5
+  };
+}
+
+// A state that records its hooks into the shared log and moves on when told to
+function loggingState(name: string, log: string[], next?: (ctx: BehaviorContext) => string | undefined): BehaviorState {
+  return {
+    next,
+    enter: () => log.push(`enter ${name}`),
+    update: () => log.push(`update ${name}`),
+    exit: () => log.push(`exit ${name}`)
+  };
+}
+
+describe('runBehavior', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('enters the initial state on the first step, then only updates it', () => {
+    const log: string[] = [];
+    const behavior: EnemyBehavior = { initialState: 'a', states: { a: loggingState('a', log) } };
+    const ctx = createContext();
+
+    runBehavior(behavior, ctx);
+    runBehavior(behavior, ctx);
+
+    expect(log).toEqual(['enter a', 'update a', 'update a']);
+    expect(ctx.memory.state).toBe('a');
+    expect(ctx.memory.stateTime).toBe(1);
+  });
+
+  it('exits the old state before entering the new one, and updates only the new one', () => {
+    const log: string[] = [];
+    const behavior: EnemyBehavior = {
+      initialState: 'a',
+      states: {
+        a: loggingState('a', log, ctx => ctx.memory.stateTime >= 0.5 ? 'b' : undefined),
+        b: loggingState('b', log)
+      }
+    };
+    const ctx = createContext();
+
+    runBehavior(behavior, ctx);
+    log.length = 0;
+    runBehavior(behavior, ctx);
+
+    expect(log).toEqual(['exit a', 'enter b', 'update b']);
+    expect(ctx.memory.state).toBe('b');
+    expect(ctx.memory.stateTime).toBe(0.5);
+  });
+
+  it('follows chained transitions in one step', () => {
+    const log: string[] = [];
+    const behavior: EnemyBehavior = {
+      initialState: 'a',
+      states: {
+        a: loggingState('a', log, () => 'b'),
+        b: loggingState('b', log, () => 'c'),
+        c: loggingState('c', log)
+      }
+    };
+    const ctx = createContext();
+
+    runBehavior(behavior, ctx);
+
+    expect(log).toEqual(['enter a', 'exit a', 'enter b', 'exit b', 'enter c', 'update c']);
+  });
+
+  it('caps transitions per step when two states keep handing control back', () => {
+    const log: string[] = [];
+    const behavior: EnemyBehavior = {
+      initialState: 'a',
+      states: {
+        a: loggingState('a', log, () => 'b'),
+        b: loggingState('b', log, () => 'a')
+      }
+    };
+    const ctx = createContext();
+
+    runBehavior(behavior, ctx);
+
+    // MAX_TRANSITIONS_PER_STEP (4) switches, then the state it landed on updates
+    expect(log.filter(entry => entry.startsWith('enter'))).toHaveLength(5);
+    expect(log[log.length - 1]).toBe('update a');
+    expect(ctx.memory.state).toBe('a');
+  });
+
+  it('restarts at the initial state when the saved state no longer exists', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const log: string[] = [];
+    const behavior: EnemyBehavior = { initialState: 'a', states: { a: loggingState('a', log) } };
+    const ctx = createContext();
+    ctx.memory.state = 'removed';
+    ctx.memory.stateTime = 3;
+
+    runBehavior(behavior, ctx);
+
+    expect(log).toEqual(['enter a', 'update a']);
+    expect(ctx.memory.state).toBe('a');
+    expect(ctx.memory.stateTime).toBe(0.5);
+    expect(warn).toHaveBeenCalledOnce();
+  });
+
+  it('stays put when a transition names an unknown state', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const log: string[] = [];
+    const behavior: EnemyBehavior = {
+      initialState: 'a',
+      states: { a: loggingState('a', log, () => 'missing') }
+    };
+    const ctx = createContext();
+
+    runBehavior(behavior, ctx);
+
+    expect(log).toEqual(['enter a', 'update a']);
+    expect(ctx.memory.state).toBe('a');
+    expect(warn).toHaveBeenCalledOnce();
+  });
+});
+
+describe('retreatToHealState', () => {
+  const retreat = retreatToHealState({ resumeState: 'fight', resumeAt: 0.8, healRate: 10, safeDistance: 50 });
+
+  it('is triggered below the health threshold', () => {
+    expect(isBadlyHurt(createContext({ current: 29, max: 100 }), 0.3)).toBe(true);
+    expect(isBadlyHurt(createContext({ current: 30, max: 100 }), 0.3)).toBe(false);
+  });
+
+  it('heals while flying away from a nearby threat', () => {
+    const ctx = createContext({ current: 20, max: 100 });
+    ctx.player = { entity: ctx.world.createEntity(), position: { x: 10, y: 0, z: 0 } };
+
+    retreat.update(ctx);
+
+    expect(ctx.world.getComponent(ctx.entity, 'Health')!.current).toBe(25);
+    expect(ctx.velocity.x).toBeCloseTo(-10);
+    expect(retreat.next!(ctx)).toBeUndefined();
+  });
+
+  it('holds position beyond the safe distance', () => {
+    const ctx = createContext({ current: 20, max: 100 });
+    ctx.velocity.x = 5;
+    ctx.player = { entity: ctx.world.createEntity(), position: { x: 100, y: 0, z: 0 } };
+
+    retreat.update(ctx);
+
+    expect(ctx.velocity).toEqual({ x: 0, y: 0, z: 0 });
+  });
+
+  it('rejoins the fight once healed enough', () => {
+    const ctx = createContext({ current: 78, max: 100 });
+
+    retreat.update(ctx);
+
+    expect(retreat.next!(ctx)).toBe('fight');
+  });
+});
+
+describe('surfaceHeading', () => {
+  function orbitingContext(x: number, distanceToSurface: number): BehaviorContext {
+    const ctx = createContext();
+    ctx.position = { x, y: 0, z: 0 };
+    ctx.target = { entity: ctx.world.createEntity(), position: { x: 0, y: 0, z: 0 }, radius: 50, distanceToSurface };
+    return ctx;
+  }
+
+  it('points outward from the target', () => {
+    const outward = outwardFrom(orbitingContext(80, 30));
+    expect(outward.toArray()).toEqual([1, 0, 0]);
+  });
+
+  it('keeps the stored direction tangent to the surface', () => {
+    const ctx = orbitingContext(80, 30);
+    const direction = { x: 1, y: 0, z: 1 };
+
+    const heading = surfaceHeading(ctx, direction, 30);
+
+    expect(direction.x).toBeCloseTo(0);
+    expect(direction.z).toBeCloseTo(1);
+    expect(heading.x).toBeCloseTo(0);
+    expect(heading.z).toBeCloseTo(1);
+  });
+
+  it('steers back toward the altitude, by at most half the tangent', () => {
+    const direction = { x: 0, y: 0, z: 1 };
+    expect(surfaceHeading(orbitingContext(70, 20), direction, 30).x).toBeGreaterThan(0);
+    expect(surfaceHeading(orbitingContext(90, 40), direction, 30).x).toBeLessThan(0);
+
+    const clamped = surfaceHeading(orbitingContext(250, 200), direction, 30);
+    expect(clamped.x / clamped.z).toBeCloseTo(-0.5);
+  });
+});
@@ -0,0 +1,106 @@
+import * as THREE from 'three';
+import { createBomberBomb } from '../entities/BomberEntity';
+import { BehaviorContext, BehaviorState, EnemyBehavior } from '../../types/enemyBehavior';
+import { outwardFrom, stop, surfaceHeading } from './states';
+
+// Bombers fly their runs this far above the Dyson Sphere surface
+const RUN_ALTITUDE = 60;
+// Seconds spent on each bombing pass and on pulling away afterwards
+const RUN_DURATION = 8;
+const EGRESS_DURATION = 5;
+const BOMBS_PER_RUN = 4;
+
+function fly(ctx: BehaviorContext, heading: THREE.Vector3): void {
+  const { position, velocity, enemy } = ctx;
+  velocity.x = heading.x * enemy.speed;
+  velocity.y = heading.y * enemy.speed;
+  velocity.z = heading.z * enemy.speed;
+
+  // Face the direction of travel
+  ctx.actions.faceTarget(ctx, {
+    x: position.x + heading.x,
+    y: position.y + heading.y,
+    z: position.z + heading.z
+  });
+}
+
+// Dive toward the Dyson Sphere until down at run altitude
+const approach: BehaviorState = {
+  next: ctx => ctx.target && ctx.target.distanceToSurface <= RUN_ALTITUDE ? 'bombing' : undefined,
+  update: ctx => {
+    if (!ctx.target) {
+      stop(ctx);
+      return;
+    }
+    fly(ctx, outwardFrom(ctx).negate());
+  }
+};
+
+// Straight pass across the surface, spacing bombs evenly along it
+const bombing: BehaviorState = {
+  next: ctx => ctx.memory.stateTime >= RUN_DURATION ? 'egress' : undefined,
+  enter: ctx => {
+    const bomber = ctx.world.getComponent(ctx.entity, 'Bomber');
+    if (!bomber || !ctx.target) return;
+
+    // Head across the surface, alternating direction each run
+    const outward = outwardFrom(ctx);
+    const runDirection = new THREE.Vector3(0, 1, 0).cross(outward);
+    if (runDirection.lengthSq() < 0.001) {
+      runDirection.set(1, 0, 0).cross(outward);
+    }
+    runDirection.normalize().multiplyScalar(bomber.runCount % 2 === 0 ? 1 : -1);
+
+    bomber.runDirection = { x: runDirection.x, y: runDirection.y, z: runDirection.z };
+    bomber.bombsRemaining = BOMBS_PER_RUN;
+    bomber.bombTimer = RUN_DURATION / (BOMBS_PER_RUN + 1);
+  },
+  update: ctx => {
+    const bomber = ctx.world.getComponent(ctx.entity, 'Bomber');
+    if (!bomber || !ctx.target) {
+      stop(ctx);
+      return;
+    }
+
+    const heading = surfaceHeading(ctx, bomber.runDirection, RUN_ALTITUDE);
+
+    bomber.bombTimer -= ctx.deltaTime;
+    if (ctx.enemy.canShoot && bomber.bombsRemaining > 0 && bomber.bombTimer <= 0) {
+      createBomberBomb(ctx.world.deferred(), ctx.position, ctx.entity, ctx.enemy.targetEntity);
+      bomber.bombsRemaining--;
+      bomber.bombTimer = RUN_DURATION / (BOMBS_PER_RUN + 1);
+    }
+
+    fly(ctx, heading);
+  },
+  exit: ctx => {
+    const bomber = ctx.world.getComponent(ctx.entity, 'Bomber');
+    if (bomber) {
+      bomber.runCount++;
+    }
+  }
+};
+
+// Climb away along the run heading, then turn back in for the next pass
+const egress: BehaviorState = {
+  next: ctx => ctx.memory.stateTime >= EGRESS_DURATION ? 'approach' : undefined,
+  update: ctx => {
+    const bomber = ctx.world.getComponent(ctx.entity, 'Bomber');
+    if (!bomber || !ctx.target) {
+      stop(ctx);
+      return;
+    }
+
+    const heading = new THREE.Vector3(bomber.runDirection.x, bomber.runDirection.y, bomber.runDirection.z)
+      .add(outwardFrom(ctx))
+      .normalize();
+    fly(ctx, heading);
+  }
+};
+
+// Bombers close to run altitude, make a straight pass across the Dyson Sphere
+// dropping bombs, then pull away and come around for another run
+export const BOMBER_BEHAVIOR: EnemyBehavior = {
+  initialState: 'approach',
+  states: { approach, bombing, egress }
+};
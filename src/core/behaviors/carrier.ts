@@ -0,0 +1,45 @@
+import { launchCarrierGrunt } from '../entities/CarrierEntity';
+import { BehaviorState, EnemyBehavior } from '../../types/enemyBehavior';
+import { approachState, stop } from './states';
+
+// Carriers park this far above the Dyson Sphere surface, well outside grunt siege range
+const PARK_ALTITUDE = 90;
+// Drift this far back out before the carrier moves in again
+const PARK_TOLERANCE = 15;
+const LAUNCH_INTERVAL = 6; // Seconds between grunt launches
+const MAX_ACTIVE_GRUNTS = 4; // Launches pause while this many of its grunts are alive
+
+// Hold position facing the Dyson Sphere and launch a grunt every few seconds
+const launching: BehaviorState = {
+  next: ctx => ctx.target && ctx.target.distanceToSurface > PARK_ALTITUDE + PARK_TOLERANCE ? 'approach' : undefined,
+  update: ctx => {
+    const { world, entity, target } = ctx;
+    stop(ctx);
+
+    const carrier = world.getComponent(entity, 'Carrier');
+    if (!carrier || !target) return;
+
+    ctx.actions.smoothFaceTarget(ctx, target.position);
+
+    // Forget grunts that have been destroyed
+    carrier.children = carrier.children.filter(child => world.hasEntity(child) && !world.isPendingRemoval(child));
+
+    carrier.launchTimer -= ctx.deltaTime;
+    if (ctx.enemy.canShoot && carrier.launchTimer <= 0 && carrier.children.length < MAX_ACTIVE_GRUNTS) {
+      launchCarrierGrunt(world, entity);
+      carrier.launchTimer = LAUNCH_INTERVAL;
+    }
+  }
+};
+
+// Carriers lumber in to their parking orbit, then keep launching grunts until destroyed
+export const CARRIER_BEHAVIOR: EnemyBehavior = {
+  initialState: 'approach',
+  states: {
+    approach: {
+      ...approachState(),
+      next: ctx => ctx.target && ctx.target.distanceToSurface <= PARK_ALTITUDE ? 'launching' : undefined
+    },
+    launching
+  }
+};
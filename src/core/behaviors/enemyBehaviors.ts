@@ -0,0 +1,111 @@
+import { BehaviorContext, EnemyBehavior } from '../../types/enemyBehavior';
+import { FRAGMENT_STEERING } from '../../constants/asteroids';
+import { BOMBER_BEHAVIOR } from './bomber';
+import { CARRIER_BEHAVIOR } from './carrier';
+import { MEDIC_BEHAVIOR } from './medic';
+import { MINE_LAYER_BEHAVIOR } from './mineLayer';
+import {
+  approachState,
+  driftState,
+  duelStates,
+  escortState,
+  impactState,
+  siegeState
+} from './states';
+
+// Approach the Dyson Sphere and besiege it; used by any enemy type without its own behaviour
+export const DEFAULT_ENEMY_BEHAVIOR: EnemyBehavior = {
+  initialState: 'approach',
+  states: {
+    approach: approachState({ arriveState: 'siege' }),
+    siege: siegeState({ leaveState: 'approach' })
+  }
+};
+
+// Shoot at the player on the way in, then besiege the Dyson Sphere with lightning
+export const GRUNT_BEHAVIOR: EnemyBehavior = {
+  initialState: 'approach',
+  states: {
+    approach: approachState({ arriveState: 'siege', facePlayer: true }),
+    siege: siegeState({ leaveState: 'approach', siegeEyes: true, lightning: true })
+  }
+};
+
+// Fly straight in; reaching the Dyson Sphere ends the game
+export const ASTEROID_BEHAVIOR: EnemyBehavior = {
+  initialState: 'approach',
+  states: {
+    approach: approachState({ arriveState: 'impact' }),
+    impact: impactState()
+  }
+};
+
+// Asteroid fragments tumble on with the parent's momentum, curving back into the
+// Dyson Sphere and damaging it on collision
+export const ASTEROID_FRAGMENT_BEHAVIOR: EnemyBehavior = {
+  initialState: 'drift',
+  states: {
+    drift: driftState(FRAGMENT_STEERING)
+  }
+};
+
+// Guard the nearest other enemy with the shield bubble
+export const SHIELD_GUARDIAN_BEHAVIOR: EnemyBehavior = {
+  initialState: 'escort',
+  states: {
+    escort: escortState(15)
+  }
+};
+
+// Warp Raiders hunt the player at strafing range; without a player they attack the
+// Dyson Sphere like any other enemy
+const backToPlayer = (ctx: BehaviorContext) => ctx.player ? 'pursue' : undefined;
+
+export const WARP_RAIDER_BEHAVIOR: EnemyBehavior = {
+  initialState: 'pursue',
+  states: {
+    ...duelStates({
+      optimalRange: 30,
+      rangeBuffer: 5,
+      states: { approach: 'pursue', strafe: 'strafe', flee: 'backOff' },
+      noPlayerState: 'approach'
+    }),
+    approach: approachState({ arriveState: 'siege', interrupt: backToPlayer }),
+    siege: siegeState({ leaveState: 'approach', interrupt: backToPlayer })
+  }
+};
+
+// Phantoms snipe at the player from beyond cloak reveal range; without a player they
+// attack the Dyson Sphere
+export const PHANTOM_BEHAVIOR: EnemyBehavior = {
+  initialState: 'stalk',
+  states: {
+    ...duelStates({
+      optimalRange: 70,
+      rangeBuffer: 10,
+      states: { approach: 'stalk', strafe: 'snipe', flee: 'withdraw' },
+      noPlayerState: 'approach',
+      fleeSpeed: 1
+    }),
+    approach: approachState({ arriveState: 'siege', interrupt: ctx => ctx.player ? 'stalk' : undefined }),
+    siege: siegeState({ leaveState: 'approach', interrupt: ctx => ctx.player ? 'stalk' : undefined })
+  }
+};
+
+// Behaviour for each enemy type; enemies are looked up by Enemy.type
+export const ENEMY_BEHAVIORS: Record<string, EnemyBehavior> = {
+  grunt: GRUNT_BEHAVIOR,
+  asteroid: ASTEROID_BEHAVIOR,
+  asteroidFragment: ASTEROID_FRAGMENT_BEHAVIOR,
+  shieldGuardian: SHIELD_GUARDIAN_BEHAVIOR,
+  warpRaider: WARP_RAIDER_BEHAVIOR,
+  bomber: BOMBER_BEHAVIOR,
+  carrier: CARRIER_BEHAVIOR,
+  phantom: PHANTOM_BEHAVIOR,
+  medic: MEDIC_BEHAVIOR,
+  mineLayer: MINE_LAYER_BEHAVIOR
+};
+
+export function getEnemyBehavior(type: string): EnemyBehavior {
+  return ENEMY_BEHAVIORS[type] ?? DEFAULT_ENEMY_BEHAVIOR;
+}
@@ -0,0 +1,135 @@
+import { Medic } from '../components';
+import { Entity } from '../entityHandle';
+import { BehaviorContext, BehaviorState, EnemyBehavior } from '../../types/enemyBehavior';
+import { approachState, directionTo, stop } from './states';
+
+// Medics hang back this far above the Dyson Sphere surface, behind the siege line
+const HOLD_ALTITUDE = 50;
+// Drift this far back out before the medic moves in again
+const HOLD_TOLERANCE = 15;
+const SEARCH_RANGE = 120; // Allies further than this from the medic are ignored
+const BEAM_RANGE = 60; // The healing beam reaches this far; the medic closes in on patients beyond it
+const RETARGET_INTERVAL = 1; // Seconds between looks for a more damaged ally
+const HEAL_PER_SECOND = 12; // Health restored per second
+const SHIELD_PER_SECOND = 0.5; // Guardian shield hits restored per second once health is full
+
+// Ships only: asteroids can't be repaired (bosses are skipped by their Boss component)
+const UNTREATABLE_TYPES = ['asteroid', 'asteroidFragment'];
+
+// 0..1 share of health or guardian shield the ally is missing, whichever is greater
+function getDamage(ctx: BehaviorContext, entity: Entity): number {
+  const health = ctx.world.getComponent(entity, 'Health');
+  const shield = ctx.world.getComponent(entity, 'ShieldComponent');
+  const healthMissing = health && health.max > 0 ? 1 - health.current / health.max : 0;
+  const shieldMissing = shield && shield.maxShield > 0 ? 1 - shield.currentShield / shield.maxShield : 0;
+  return Math.max(healthMissing, shieldMissing);
+}
+
+function distanceBetween(a: { x: number, y: number, z: number }, b: { x: number, y: number, z: number }): number {
+  return Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+}
+
+// The most damaged ally within SEARCH_RANGE, or null if every ally is at full strength
+function findPatient(ctx: BehaviorContext): Entity | null {
+  const { world, entity, position } = ctx;
+  let patient: Entity | null = null;
+  let worstDamage = 0;
+
+  for (const [ally, enemy, allyPosition] of world.query(['Enemy', 'Position'])) {
+    if (ally === entity || world.isPendingRemoval(ally) || UNTREATABLE_TYPES.includes(enemy.type)) continue;
+    if (world.hasComponent(ally, 'Boss')) continue; // Too big to patch up
+    if (distanceBetween(position, allyPosition) > SEARCH_RANGE) continue;
+
+    const damage = getDamage(ctx, ally);
+    if (damage > worstDamage) {
+      worstDamage = damage;
+      patient = ally;
+    }
+  }
+
+  return patient;
+}
+
+function isTreatable(ctx: BehaviorContext, patient: Entity | null): patient is Entity {
+  return patient !== null &&
+    ctx.world.hasEntity(patient) &&
+    !ctx.world.isPendingRemoval(patient) &&
+    getDamage(ctx, patient) > 0;
+}
+
+// Restores health first, then a Shield Guardian's shield hits
+function heal(ctx: BehaviorContext, patient: Entity): void {
+  const health = ctx.world.getComponent(patient, 'Health');
+  if (health && health.current < health.max) {
+    health.current = Math.min(health.max, health.current + HEAL_PER_SECOND * ctx.deltaTime);
+    return;
+  }
+
+  const shield = ctx.world.getComponent(patient, 'ShieldComponent');
+  if (shield && shield.currentShield < shield.maxShield) {
+    shield.currentShield = Math.min(shield.maxShield, shield.currentShield + SHIELD_PER_SECOND * ctx.deltaTime);
+  }
+}
+
+function moveToward(ctx: BehaviorContext, destination: { x: number, y: number, z: number }): void {
+  const direction = directionTo(ctx.position, destination);
+  ctx.velocity.x = direction.x * ctx.enemy.speed;
+  ctx.velocity.y = direction.y * ctx.enemy.speed;
+  ctx.velocity.z = direction.z * ctx.enemy.speed;
+}
+
+// Keep the most damaged nearby ally under the healing beam, holding back when nobody needs it
+const support: BehaviorState = {
+  next: ctx => {
+    const medic = ctx.world.getComponent(ctx.entity, 'Medic');
+    const idle = !medic || medic.patient === null;
+    return idle && ctx.target && ctx.target.distanceToSurface > HOLD_ALTITUDE + HOLD_TOLERANCE ? 'approach' : undefined;
+  },
+  update: ctx => {
+    const { world, entity, target } = ctx;
+    const medic: Medic | undefined = world.getComponent(entity, 'Medic');
+    if (!medic) return;
+
+    medic.retargetTimer -= ctx.deltaTime;
+    if (!isTreatable(ctx, medic.patient) || medic.retargetTimer <= 0) {
+      medic.patient = findPatient(ctx);
+      medic.retargetTimer = RETARGET_INTERVAL;
+    }
+
+    const patientPosition = medic.patient !== null ? world.getComponent(medic.patient, 'Position') : undefined;
+    if (medic.patient === null || !patientPosition) {
+      medic.patient = null;
+      ctx.actions.stopHealBeam(ctx);
+      stop(ctx);
+      if (target) ctx.actions.smoothFaceTarget(ctx, target.position);
+      return;
+    }
+
+    const distance = distanceBetween(ctx.position, patientPosition);
+    if (distance > BEAM_RANGE * 0.8) {
+      moveToward(ctx, patientPosition);
+    } else {
+      stop(ctx);
+    }
+    ctx.actions.smoothFaceTarget(ctx, patientPosition);
+
+    if (ctx.enemy.canShoot && distance <= BEAM_RANGE && ctx.actions.channelHealBeam(ctx, medic.patient)) {
+      heal(ctx, medic.patient);
+    } else {
+      ctx.actions.stopHealBeam(ctx);
+    }
+  },
+  exit: ctx => ctx.actions.stopHealBeam(ctx)
+};
+
+// Medics fly in behind the attack, then patch up whichever ally is hurt worst until destroyed
+export const MEDIC_BEHAVIOR: EnemyBehavior = {
+  initialState: 'approach',
+  states: {
+    approach: {
+      ...approachState(),
+      next: ctx => ctx.target && ctx.target.distanceToSurface <= HOLD_ALTITUDE ? 'support' : undefined
+    },
+    support
+  }
+};
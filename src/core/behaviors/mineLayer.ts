@@ -0,0 +1,69 @@
+import * as THREE from 'three';
+import { createSpaceMine } from '../entities/MineLayerEntity';
+import { BehaviorState, EnemyBehavior } from '../../types/enemyBehavior';
+import { approachState, outwardFrom, stop, surfaceHeading } from './states';
+
+// Mine Layers circle this far above the Dyson Sphere surface, across the player's patrol space
+const ORBIT_ALTITUDE = 45;
+const MINE_INTERVAL = 3; // Seconds between mines
+const MAX_ACTIVE_MINES = 8; // Laying pauses while this many of its mines are still out
+
+// Circle the Dyson Sphere at orbit altitude, dropping a mine every few seconds
+const mining: BehaviorState = {
+  enter: ctx => {
+    const mineLayer = ctx.world.getComponent(ctx.entity, 'MineLayer');
+    if (!mineLayer || !ctx.target) return;
+
+    // Start along the surface, around the sphere's vertical axis where possible
+    const outward = outwardFrom(ctx);
+    const orbitDirection = new THREE.Vector3(0, 1, 0).cross(outward);
+    if (orbitDirection.lengthSq() < 0.001) {
+      orbitDirection.set(1, 0, 0).cross(outward);
+    }
+    orbitDirection.normalize();
+
+    mineLayer.orbitDirection = { x: orbitDirection.x, y: orbitDirection.y, z: orbitDirection.z };
+    mineLayer.mineTimer = MINE_INTERVAL;
+  },
+  update: ctx => {
+    const { world, entity, enemy, position, velocity } = ctx;
+    const mineLayer = world.getComponent(entity, 'MineLayer');
+    if (!mineLayer || !ctx.target) {
+      stop(ctx);
+      return;
+    }
+
+    const heading = surfaceHeading(ctx, mineLayer.orbitDirection, ORBIT_ALTITUDE);
+
+    velocity.x = heading.x * enemy.speed;
+    velocity.y = heading.y * enemy.speed;
+    velocity.z = heading.z * enemy.speed;
+    ctx.actions.faceTarget(ctx, {
+      x: position.x + heading.x,
+      y: position.y + heading.y,
+      z: position.z + heading.z
+    });
+
+    // Forget mines that have gone off or fizzled out
+    mineLayer.mines = mineLayer.mines.filter(mine => world.hasEntity(mine) && !world.isPendingRemoval(mine));
+
+    mineLayer.mineTimer -= ctx.deltaTime;
+    if (enemy.canShoot && mineLayer.mineTimer <= 0 && mineLayer.mines.length < MAX_ACTIVE_MINES) {
+      mineLayer.mines.push(createSpaceMine(world.deferred(), position, entity));
+      mineLayer.mineTimer = MINE_INTERVAL;
+    }
+  }
+};
+
+// Mine Layers fly in to orbit altitude, then circle the Dyson Sphere seeding the
+// player's patrol space with proximity mines until destroyed
+export const MINE_LAYER_BEHAVIOR: EnemyBehavior = {
+  initialState: 'approach',
+  states: {
+    approach: {
+      ...approachState(),
+      next: ctx => ctx.target && ctx.target.distanceToSurface <= ORBIT_ALTITUDE ? 'mining' : undefined
+    },
+    mining
+  }
+};
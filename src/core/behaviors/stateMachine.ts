@@ -0,0 +1,53 @@
+import { EnemyBehaviorState } from '../components';
+import { BehaviorContext, EnemyBehavior } from '../../types/enemyBehavior';
+
+// Guards against two states that keep handing control back and forth
+const MAX_TRANSITIONS_PER_STEP = 4;
+
+// Fresh state for an enemy that hasn't run its behaviour yet; the first step enters the initial state
+export function createBehaviorMemory(): EnemyBehaviorState {
+  return {
+    state: '',
+    stateTime: 0,
+    weaponDeployed: false
+  };
+}
+
+/**
+ * Runs one step of an enemy's behaviour: follows transitions (exit, then enter) until
+ * the current state stays put, then updates that state.
+ */
+export function runBehavior(behavior: EnemyBehavior, ctx: BehaviorContext): void {
+  const memory = ctx.memory;
+
+  let state = behavior.states[memory.state];
+  if (!state) {
+    if (memory.state !== '') {
+      console.warn(`Unknown behaviour state '${memory.state}', restarting at '${behavior.initialState}'`);
+    }
+    memory.state = behavior.initialState;
+    memory.stateTime = 0;
+    state = behavior.states[memory.state];
+    state.enter?.(ctx);
+  }
+
+  for (let i = 0; i < MAX_TRANSITIONS_PER_STEP; i++) {
+    const next = state.next?.(ctx);
+    if (next === undefined || next === memory.state) break;
+
+    const nextState = behavior.states[next];
+    if (!nextState) {
+      console.warn(`Unknown behaviour state '${next}' requested from '${memory.state}'`);
+      break;
+    }
+
+    state.exit?.(ctx);
+    memory.state = next;
+    memory.stateTime = 0;
+    state = nextState;
+    state.enter?.(ctx);
+  }
+
+  state.update(ctx);
+  memory.stateTime += ctx.deltaTime;
+}
@@ -0,0 +1,382 @@
+import * as THREE from 'three';
+import { Enemy, Position } from '../components';
+import { BehaviorContext, BehaviorState } from '../../types/enemyBehavior';
+
+// Enemies stop and besiege their target once this close to its surface
+export const ATTACK_DISTANCE = 20;
+
+// Lets a declaration break out of a state early (e.g. retreat when badly hurt)
+export type Interrupt = (ctx: BehaviorContext) => string | undefined;
+
+export function tickLaserCooldown(enemy: Enemy, deltaTime: number): void {
+  if (enemy.currentLaserCooldown > 0) {
+    enemy.currentLaserCooldown -= deltaTime;
+  }
+}
+
+export function tickAttackCooldown(enemy: Enemy, deltaTime: number): void {
+  if (enemy.currentCooldown > 0) {
+    enemy.currentCooldown -= deltaTime;
+  }
+}
+
+export function directionTo(from: Position, to: Position): THREE.Vector3 {
+  return new THREE.Vector3(to.x - from.x, to.y - from.y, to.z - from.z).normalize();
+}
+
+// Fires a laser at the position if the enemy's laser is ready
+export function shootAt(ctx: BehaviorContext, target: Position): void {
+  const { enemy } = ctx;
+  if (!enemy.canShoot || enemy.currentLaserCooldown > 0) return;
+
+  const direction = directionTo(ctx.position, target);
+  ctx.actions.fireLaser(ctx, { x: direction.x, y: direction.y, z: direction.z });
+  enemy.currentLaserCooldown = enemy.laserCooldown;
+}
+
+export function faceMovement(ctx: BehaviorContext): void {
+  const { position, velocity } = ctx;
+  ctx.actions.faceTarget(ctx, {
+    x: position.x + velocity.x,
+    y: position.y + velocity.y,
+    z: position.z + velocity.z
+  });
+}
+
+export function stop(ctx: BehaviorContext): void {
+  ctx.velocity.x = 0;
+  ctx.velocity.y = 0;
+  ctx.velocity.z = 0;
+}
+
+// Direction from the target's center out to the enemy; needs ctx.target
+export function outwardFrom(ctx: BehaviorContext): THREE.Vector3 {
+  const targetPosition = ctx.target!.position;
+  return new THREE.Vector3(
+    ctx.position.x - targetPosition.x,
+    ctx.position.y - targetPosition.y,
+    ctx.position.z - targetPosition.z
+  ).normalize();
+}
+
+// Heading for flying around the target at the given altitude above its surface. The
+// stored direction is kept tangent to the surface (updated in place, so the path curves
+// around the sphere), and the heading adds a correction toward the altitude. Needs ctx.target.
+export function surfaceHeading(ctx: BehaviorContext, direction: Position, altitude: number): THREE.Vector3 {
+  const outward = outwardFrom(ctx);
+  const heading = new THREE.Vector3(direction.x, direction.y, direction.z);
+  heading.addScaledVector(outward, -heading.dot(outward)).normalize();
+  direction.x = heading.x;
+  direction.y = heading.y;
+  direction.z = heading.z;
+
+  const altitudeError = altitude - ctx.target!.distanceToSurface;
+  return heading.addScaledVector(outward, Math.max(-0.5, Math.min(0.5, altitudeError / 10))).normalize();
+}
+
+export interface ApproachOptions {
+  arriveState?: string;          // State to switch to within ATTACK_DISTANCE of the target's surface
+  facePlayer?: boolean;          // Face (and shoot at) the player instead of the direction of travel
+  interrupt?: Interrupt;
+}
+
+// Approach: fly straight at the target
+export function approachState(options: ApproachOptions = {}): BehaviorState {
+  return {
+    next: ctx => {
+      const interrupted = options.interrupt?.(ctx);
+      if (interrupted) return interrupted;
+      if (options.arriveState && ctx.target && ctx.target.distanceToSurface <= ATTACK_DISTANCE) {
+        return options.arriveState;
+      }
+      return undefined;
+    },
+    update: ctx => {
+      const { enemy, target, velocity } = ctx;
+      if (!target) return;
+
+      tickLaserCooldown(enemy, ctx.deltaTime);
+
+      const direction = directionTo(ctx.position, target.position);
+      velocity.x = direction.x * enemy.speed;
+      velocity.y = direction.y * enemy.speed;
+      velocity.z = direction.z * enemy.speed;
+
+      if (options.facePlayer && ctx.player) {
+        ctx.actions.faceTarget(ctx, ctx.player.position);
+        shootAt(ctx, ctx.player.position);
+      } else {
+        faceMovement(ctx);
+      }
+
+      tickAttackCooldown(enemy, ctx.deltaTime);
+    }
+  };
+}
+
+export interface SiegeOptions {
+  leaveState: string;            // State to return to if pushed back beyond ATTACK_DISTANCE
+  siegeEyes?: boolean;           // Show the grunt's red siege eyes
+  lightning?: boolean;           // Raise the siege lightning once turned to face the target
+  interrupt?: Interrupt;
+}
+
+// Siege: hold position at the target's surface, turn to face it and fire until the
+// turn completes (then the siege weapon, if any, takes over)
+export function siegeState(options: SiegeOptions): BehaviorState {
+  return {
+    next: ctx => {
+      const interrupted = options.interrupt?.(ctx);
+      if (interrupted) return interrupted;
+      if (ctx.target && ctx.target.distanceToSurface > ATTACK_DISTANCE) {
+        return options.leaveState;
+      }
+      return undefined;
+    },
+    enter: ctx => {
+      ctx.enemy.inSiegeMode = true;
+      if (options.siegeEyes) {
+        ctx.actions.setSiegeEyes(ctx, true);
+      }
+    },
+    update: ctx => {
+      const { enemy, target, memory } = ctx;
+      if (!target) return;
+
+      tickLaserCooldown(enemy, ctx.deltaTime);
+      stop(ctx);
+
+      const facingTarget = ctx.actions.smoothFaceTarget(ctx, target.position);
+      if (options.lightning && facingTarget && !memory.weaponDeployed) {
+        memory.weaponDeployed = ctx.actions.deployLightning(ctx);
+      }
+      if (!facingTarget) {
+        shootAt(ctx, target.position);
+      }
+
+      tickAttackCooldown(enemy, ctx.deltaTime);
+    },
+    exit: ctx => {
+      ctx.enemy.inSiegeMode = false;
+      ctx.memory.weaponDeployed = false;
+      ctx.actions.removeLightning(ctx);
+      if (options.siegeEyes) {
+        ctx.actions.setSiegeEyes(ctx, false);
+      }
+    }
+  };
+}
+
+// Drift: keep the current momentum, bending course toward the target by at most
+// `steering` units per second squared, up to the enemy's speed
+export function driftState(steering: number): BehaviorState {
+  return {
+    update: ctx => {
+      const { enemy, target, velocity } = ctx;
+      if (!target) return;
+
+      const direction = directionTo(ctx.position, target.position);
+      const turn = new THREE.Vector3(
+        direction.x * enemy.speed - velocity.x,
+        direction.y * enemy.speed - velocity.y,
+        direction.z * enemy.speed - velocity.z
+      ).clampLength(0, steering * ctx.deltaTime);
+
+      const newVelocity = new THREE.Vector3(velocity.x + turn.x, velocity.y + turn.y, velocity.z + turn.z)
+        .clampLength(0, enemy.speed);
+      velocity.x = newVelocity.x;
+      velocity.y = newVelocity.y;
+      velocity.z = newVelocity.z;
+    }
+  };
+}
+
+// Impact: the enemy has reached its target; an asteroid strike ends the game
+export function impactState(): BehaviorState {
+  return {
+    enter: () => {
+      console.log('Asteroid impacted Dyson Sphere - GAME OVER');
+    },
+    update: ctx => {
+      stop(ctx);
+      ctx.world.emit('GameOver', { reason: 'Asteroid Impact' });
+    }
+  };
+}
+
+export interface DuelOptions {
+  optimalRange: number;          // Preferred distance from the player
+  rangeBuffer: number;           // Distance either side of optimalRange that still counts as in range
+  states: { approach: string; strafe: string; flee: string };
+  noPlayerState: string;         // State to fall back to when there is no player
+  fleeSpeed?: number;            // Fraction of speed used while backing off (default 0.5)
+  interrupt?: Interrupt;
+}
+
+type DuelMove = 'approach' | 'strafe' | 'flee';
+
+// Approach, Strafe and Flee around the player: close in when too far, back off when
+// too close and circle at range, always turning to face and shoot the player
+export function duelStates(options: DuelOptions): Record<string, BehaviorState> {
+  const next = (ctx: BehaviorContext): string | undefined => {
+    if (!ctx.player) return options.noPlayerState;
+    const interrupted = options.interrupt?.(ctx);
+    if (interrupted) return interrupted;
+
+    const { position } = ctx;
+    const playerPosition = ctx.player.position;
+    const distanceToPlayer = Math.sqrt(
+      Math.pow(playerPosition.x - position.x, 2) +
+      Math.pow(playerPosition.y - position.y, 2) +
+      Math.pow(playerPosition.z - position.z, 2)
+    );
+
+    if (distanceToPlayer > options.optimalRange + options.rangeBuffer) return options.states.approach;
+    if (distanceToPlayer < options.optimalRange - options.rangeBuffer) return options.states.flee;
+    return options.states.strafe;
+  };
+
+  const duelState = (move: DuelMove): BehaviorState => ({
+    next,
+    update: ctx => {
+      const { enemy, velocity } = ctx;
+      if (!ctx.player) return;
+      const playerPosition = ctx.player.position;
+      const directionToPlayer = directionTo(ctx.position, playerPosition);
+
+      if (move === 'approach') {
+        velocity.x = directionToPlayer.x * enemy.speed;
+        velocity.y = directionToPlayer.y * enemy.speed;
+        velocity.z = directionToPlayer.z * enemy.speed;
+      } else if (move === 'flee') {
+        const fleeSpeed = enemy.speed * (options.fleeSpeed ?? 0.5);
+        velocity.x = -directionToPlayer.x * fleeSpeed;
+        velocity.y = -directionToPlayer.y * fleeSpeed;
+        velocity.z = -directionToPlayer.z * fleeSpeed;
+      } else {
+        // Circle the player, with little vertical movement
+        const strafeDirection = new THREE.Vector3(-directionToPlayer.z, 0, directionToPlayer.x).normalize();
+        velocity.x = strafeDirection.x * enemy.speed;
+        velocity.y = strafeDirection.y * enemy.speed * 0.2;
+        velocity.z = strafeDirection.z * enemy.speed;
+      }
+
+      ctx.actions.smoothFaceTarget(ctx, playerPosition);
+      shootAt(ctx, playerPosition);
+      tickLaserCooldown(enemy, ctx.deltaTime);
+    }
+  });
+
+  return {
+    [options.states.approach]: duelState('approach'),
+    [options.states.strafe]: duelState('strafe'),
+    [options.states.flee]: duelState('flee')
+  };
+}
+
+export interface RetreatToHealOptions {
+  resumeState: string;           // State to return to once healed
+  resumeAt: number;              // Health fraction at which the enemy returns to the fight
+  healRate: number;              // Health regained per second while retreating
+  safeDistance: number;          // Distance from the threat beyond which the enemy holds position
+}
+
+// Health fraction below which a Retreat-to-heal interrupt fires
+export function isBadlyHurt(ctx: BehaviorContext, threshold: number): boolean {
+  const health = ctx.world.getComponent(ctx.entity, 'Health');
+  return !!health && health.max > 0 && health.current / health.max < threshold;
+}
+
+// Retreat-to-heal: pull away from the player (or the target if there is no player),
+// regenerating health, and rejoin the fight once healed enough
+export function retreatToHealState(options: RetreatToHealOptions): BehaviorState {
+  return {
+    next: ctx => {
+      const health = ctx.world.getComponent(ctx.entity, 'Health');
+      if (!health || health.current >= health.max * options.resumeAt) {
+        return options.resumeState;
+      }
+      return undefined;
+    },
+    update: ctx => {
+      const { enemy, position, velocity } = ctx;
+      const health = ctx.world.getComponent(ctx.entity, 'Health');
+      if (health) {
+        health.current = Math.min(health.max, health.current + options.healRate * ctx.deltaTime);
+      }
+
+      const threat = ctx.player?.position ?? ctx.target?.position;
+      if (threat) {
+        const distance = Math.hypot(position.x - threat.x, position.y - threat.y, position.z - threat.z);
+        if (distance < options.safeDistance) {
+          const away = directionTo(threat, position);
+          velocity.x = away.x * enemy.speed;
+          velocity.y = away.y * enemy.speed;
+          velocity.z = away.z * enemy.speed;
+        } else {
+          stop(ctx);
+        }
+        ctx.actions.smoothFaceTarget(ctx, threat);
+      } else {
+        stop(ctx);
+      }
+
+      tickLaserCooldown(enemy, ctx.deltaTime);
+    }
+  };
+}
+
+// Escort: stay close to the nearest non-guardian enemy, or head for the target when alone
+export function escortState(escortDistance: number): BehaviorState {
+  return {
+    update: ctx => {
+      const { world, entity, enemy, position, velocity } = ctx;
+
+      // Find nearby enemies to protect
+      let nearestEnemyDist = Infinity;
+      let nearestEnemyPosition: Position | null = null;
+      for (const otherEntity of world.getEntitiesWith(['Enemy', 'Position'])) {
+        if (otherEntity === entity) continue;
+
+        // Guardians don't escort each other
+        const otherEnemy = world.getComponent(otherEntity, 'Enemy');
+        if (otherEnemy && otherEnemy.type === 'shieldGuardian') continue;
+
+        const otherPosition = world.getComponent(otherEntity, 'Position');
+        if (!otherPosition) continue;
+
+        const dist = Math.sqrt(
+          Math.pow(position.x - otherPosition.x, 2) +
+          Math.pow(position.y - otherPosition.y, 2) +
+          Math.pow(position.z - otherPosition.z, 2)
+        );
+        if (dist < nearestEnemyDist) {
+          nearestEnemyDist = dist;
+          nearestEnemyPosition = otherPosition;
+        }
+      }
+
+      if (nearestEnemyPosition) {
+        if (nearestEnemyDist > escortDistance) {
+          const direction = directionTo(position, nearestEnemyPosition);
+          velocity.x = direction.x * enemy.speed;
+          velocity.y = direction.y * enemy.speed;
+          velocity.z = direction.z * enemy.speed;
+        } else {
+          stop(ctx);
+        }
+        ctx.actions.faceTarget(ctx, nearestEnemyPosition);
+      } else {
+        // No other enemies, move toward the target (Dyson Sphere)
+        const targetPosition = world.getComponent(enemy.targetEntity, 'Position');
+        if (targetPosition) {
+          const direction = directionTo(position, targetPosition);
+          velocity.x = direction.x * enemy.speed;
+          velocity.y = direction.y * enemy.speed;
+          velocity.z = direction.z * enemy.speed;
+          ctx.actions.faceTarget(ctx, targetPosition);
+        }
+      }
+    }
+  };
+}
@@ -0,0 +1,189 @@
+import { describe, expect, it } from 'vitest';
+import { Collider } from './components';
+import {
+  CollisionShape,
+  getColliderBoundingRadius,
+  segmentSegmentDistanceSquared,
+  shapesOverlap,
+  sweepSegment,
+  toCollisionShape
+} from './collisionShapes';
+
+const origin = { x: 0, y: 0, z: 0 };
+
+function sphere(x: number, y: number, z: number, radius: number): CollisionShape {
+  return { type: 'sphere', center: { x, y, z }, radius };
+}
+
+function box(x: number, y: number, z: number, width: number, height: number, depth: number, yaw = 0): CollisionShape {
+  const collider: Collider = { type: 'box', width, height, depth, layer: 'enemy', isTrigger: false };
+  return toCollisionShape({ x, y, z }, collider, { x: 0, y: yaw, z: 0 });
+}
+
+function capsule(x: number, y: number, z: number, radius: number, length: number, yaw = 0): CollisionShape {
+  const collider: Collider = { type: 'capsule', radius, length, layer: 'enemy', isTrigger: false };
+  return toCollisionShape({ x, y, z }, collider, { x: 0, y: yaw, z: 0 });
+}
+
+describe('shapesOverlap', () => {
+  it('overlaps spheres closer than their radii, but not ones just touching', () => {
+    expect(shapesOverlap(sphere(0, 0, 0, 1), sphere(1.9, 0, 0, 1))).toBe(true);
+    expect(shapesOverlap(sphere(0, 0, 0, 1), sphere(2, 0, 0, 1))).toBe(false);
+  });
+
+  it('tests a sphere against the nearest point of a box, not its corners', () => {
+    const cube = box(0, 0, 0, 2, 2, 2);
+    expect(shapesOverlap(sphere(1.5, 0, 0, 0.6), cube)).toBe(true);
+    // Off the corner: within the box's bounding sphere, outside the box
+    expect(shapesOverlap(sphere(1.3, 1.3, 1.3, 0.5), cube)).toBe(false);
+    expect(shapesOverlap(cube, sphere(1.3, 1.3, 1.3, 0.5))).toBe(false);
+  });
+
+  it('separates oriented boxes on any separating axis', () => {
+    expect(shapesOverlap(box(0, 0, 0, 2, 2, 2), box(1.5, 0, 0, 2, 2, 2))).toBe(true);
+    expect(shapesOverlap(box(0, 0, 0, 2, 2, 2), box(2.5, 0, 0, 2, 2, 2))).toBe(false);
+    // Turned 45 degrees, the second box's corner reaches sqrt(2) toward the first
+    expect(shapesOverlap(box(0, 0, 0, 2, 2, 2), box(2.3, 0, 0, 2, 2, 2, Math.PI / 4))).toBe(true);
+    expect(shapesOverlap(box(0, 0, 0, 2, 2, 2), box(2.5, 0, 0, 2, 2, 2, Math.PI / 4))).toBe(false);
+  });
+
+  it('overlaps capsules by the distance between their segments', () => {
+    // Both lie along Z, 10 long: segments from z = -4 to 4
+    expect(shapesOverlap(capsule(0, 0, 0, 1, 10), capsule(1.9, 0, 0, 1, 10))).toBe(true);
+    expect(shapesOverlap(capsule(0, 0, 0, 1, 10), capsule(2.1, 0, 0, 1, 10))).toBe(false);
+    // End to end: rounded caps 2 apart along the axis
+    expect(shapesOverlap(capsule(0, 0, 0, 1, 10), capsule(0, 0, 9.9, 1, 10))).toBe(true);
+    expect(shapesOverlap(capsule(0, 0, 0, 1, 10), capsule(0, 0, 10.1, 1, 10))).toBe(false);
+  });
+
+  it('tests a sphere against the capsule segment', () => {
+    expect(shapesOverlap(sphere(1.5, 0, 3, 1), capsule(0, 0, 0, 1, 10))).toBe(true);
+    expect(shapesOverlap(capsule(0, 0, 0, 1, 10), sphere(2.1, 0, 3, 1))).toBe(false);
+  });
+
+  it('tests a capsule against a box', () => {
+    const cube = box(0, 0, 0, 2, 2, 2);
+    expect(shapesOverlap(capsule(1.5, 0, 0, 0.6, 10), cube)).toBe(true);
+    expect(shapesOverlap(cube, capsule(1.7, 0, 0, 0.6, 10))).toBe(false);
+    // Crossing the box diagonally, well past both ends
+    expect(shapesOverlap(capsule(0, 0, 0, 0.1, 20, Math.PI / 4), cube)).toBe(true);
+  });
+});
+
+describe('rotated laser box', () => {
+  // A long thin laser flying diagonally in the XZ plane
+  const yaw = Math.PI / 4;
+  const laserCollider: Collider = { type: 'box', width: 0.2, height: 0.2, depth: 10, layer: 'projectile', isTrigger: true };
+  const laser = toCollisionShape(origin, laserCollider, { x: 0, y: yaw, z: 0 });
+  const forward = { x: Math.sin(yaw), z: Math.cos(yaw) };
+  const side = { x: Math.cos(yaw), z: -Math.sin(yaw) };
+
+  it('hits a target near its tip, along the diagonal', () => {
+    const target = sphere(forward.x * 4.5, 0, forward.z * 4.5, 1);
+    expect(shapesOverlap(laser, target)).toBe(true);
+  });
+
+  it('misses a target beside it that its bounding sphere would catch', () => {
+    const targetRadius = 1;
+    const x = side.x * 3, z = side.z * 3;
+    // A sphere-only check would call this a hit
+    expect(Math.hypot(x, z)).toBeLessThan(getColliderBoundingRadius(laserCollider) + targetRadius);
+    expect(shapesOverlap(laser, sphere(x, 0, z, targetRadius))).toBe(false);
+  });
+
+  it('misses a target the same laser would hit if it weren\'t turned', () => {
+    const unturned = toCollisionShape(origin, laserCollider);
+    const target = sphere(0, 0, 4.5, 1);
+    expect(shapesOverlap(unturned, target)).toBe(true);
+    expect(shapesOverlap(laser, target)).toBe(false);
+  });
+});
+
+describe('segmentSegmentDistanceSquared', () => {
+  it('measures crossing segments', () => {
+    const distance = segmentSegmentDistanceSquared(
+      { x: -1, y: 0, z: 0 }, { x: 1, y: 0, z: 0 },
+      { x: 0, y: 2, z: -1 }, { x: 0, y: 2, z: 1 }
+    );
+    expect(distance).toBeCloseTo(4);
+  });
+
+  it('measures parallel segments, overlapping or not', () => {
+    expect(segmentSegmentDistanceSquared(
+      { x: 0, y: 0, z: 0 }, { x: 0, y: 0, z: 4 },
+      { x: 3, y: 0, z: 2 }, { x: 3, y: 0, z: 6 }
+    )).toBeCloseTo(9);
+    // Same line, 2 apart end to end
+    expect(segmentSegmentDistanceSquared(
+      { x: 0, y: 0, z: 0 }, { x: 0, y: 0, z: 4 },
+      { x: 0, y: 0, z: 6 }, { x: 0, y: 0, z: 8 }
+    )).toBeCloseTo(4);
+  });
+
+  it('clamps to the segment ends', () => {
+    // The infinite lines cross at the origin, but the segments stop short of it
+    expect(segmentSegmentDistanceSquared(
+      { x: 1, y: 0, z: 0 }, { x: 2, y: 0, z: 0 },
+      { x: 0, y: 0, z: 1 }, { x: 0, y: 0, z: 2 }
+    )).toBeCloseTo(2);
+  });
+
+  it('handles degenerate segments as points', () => {
+    expect(segmentSegmentDistanceSquared(
+      { x: 0, y: 1, z: 0 }, { x: 0, y: 1, z: 0 },
+      { x: -1, y: 0, z: 0 }, { x: 1, y: 0, z: 0 }
+    )).toBeCloseTo(1);
+  });
+});
+
+describe('sweepSegment', () => {
+  const start = { x: -10, y: 0, z: 0 };
+  const end = { x: 10, y: 0, z: 0 };
+
+  it('finds where a path enters a sphere', () => {
+    // Enters the radius-2 sphere (plus 0.5 thickness) at x = -2.5
+    expect(sweepSegment(start, end, 0.5, sphere(0, 0, 0, 2))).toBeCloseTo(7.5 / 20);
+    expect(sweepSegment(start, end, 0.5, sphere(0, 5, 0, 2))).toBeNull();
+    // Stops short of it
+    expect(sweepSegment(start, { x: -5, y: 0, z: 0 }, 0, sphere(0, 0, 0, 2))).toBeNull();
+  });
+
+  it('finds where a path enters a box', () => {
+    expect(sweepSegment(start, end, 0, box(0, 0, 0, 2, 2, 2))).toBeCloseTo(9 / 20);
+    expect(sweepSegment(start, end, 0.5, box(0, 0, 0, 2, 2, 2))).toBeCloseTo(8.5 / 20);
+  });
+
+  it('sweeps a turned box in its own axes', () => {
+    // A 45 degree turn puts a corner at x = -sqrt(2)
+    expect(sweepSegment(start, end, 0, box(0, 0, 0, 2, 2, 2, Math.PI / 4))).toBeCloseTo((10 - Math.SQRT2) / 20);
+    // Passes the turned box's side, inside its bounding sphere
+    expect(sweepSegment({ x: -10, y: 0, z: 1.5 }, { x: 10, y: 0, z: 1.5 }, 0, box(0, 0, 0, 1, 1, 4, Math.PI / 2))).toBeNull();
+  });
+
+  it('finds where a path enters a capsule', () => {
+    // Capsule along Z through the origin: reach 1 + 0.5 from its segment
+    expect(sweepSegment(start, end, 0.5, capsule(0, 0, 0, 1, 10))).toBeCloseTo(8.5 / 20, 5);
+    expect(sweepSegment(start, end, 0.5, capsule(0, 3, 0, 1, 10))).toBeNull();
+  });
+
+  it('handles paths parallel to the shape', () => {
+    // Parallel to a box face: only hits if already within that slab
+    expect(sweepSegment({ x: -10, y: 0.5, z: 0 }, { x: 10, y: 0.5, z: 0 }, 0, box(0, 0, 0, 2, 2, 2))).toBeCloseTo(9 / 20);
+    expect(sweepSegment({ x: -10, y: 1.5, z: 0 }, { x: 10, y: 1.5, z: 0 }, 0, box(0, 0, 0, 2, 2, 2))).toBeNull();
+    // Along a capsule's axis, it meets the rounded end cap first
+    const alongAxis = sweepSegment({ x: 0, y: 0, z: -20 }, { x: 0, y: 0, z: 0 }, 0, capsule(0, 0, 0, 1, 10));
+    expect(alongAxis).toBeCloseTo(15 / 20, 5);
+    expect(sweepSegment({ x: 3, y: 0, z: -20 }, { x: 3, y: 0, z: 20 }, 0, capsule(0, 0, 0, 1, 10))).toBeNull();
+  });
+
+  it('reports 0 for a path that starts inside the shape', () => {
+    expect(sweepSegment(origin, end, 0, sphere(0, 0, 0, 2))).toBe(0);
+    expect(sweepSegment(origin, end, 0, box(0, 0, 0, 2, 2, 2))).toBe(0);
+    expect(sweepSegment(origin, end, 0, capsule(0, 0, 0, 1, 10))).toBe(0);
+  });
+
+  it('treats a path that doesn\'t move as a point test', () => {
+    expect(sweepSegment(end, end, 0, sphere(0, 0, 0, 2))).toBeNull();
+    expect(sweepSegment(origin, origin, 0, sphere(0, 0, 0, 2))).toBe(0);
+  });
+});
@@ -0,0 +1,366 @@
+// src/core/collisionShapes.ts
+// Collider geometry for CollisionSystem's exact tests. A Collider plus the entity's
+// Position and Rotation becomes a shape in world space: a sphere, an oriented box
+// (turned with the entity, so lasers line up with their flight) or a capsule (a
+// segment along the entity's local Z axis with rounded ends, for beams and long hulls).
+
+import { Collider, Position, Rotation } from './components';
+
+type Vec3 = { x: number; y: number; z: number };
+
+export interface SphereShape {
+  type: 'sphere';
+  center: Vec3;
+  radius: number;
+}
+
+export interface BoxShape {
+  type: 'box';
+  center: Vec3;
+  axes: [Vec3, Vec3, Vec3]; // Local X, Y and Z in world space (unit length)
+  halfExtents: [number, number, number]; // Half width, height and depth along those axes
+}
+
+export interface CapsuleShape {
+  type: 'capsule';
+  start: Vec3; // Centers of the two end caps
+  end: Vec3;
+  radius: number;
+}
+
+export type CollisionShape = SphereShape | BoxShape | CapsuleShape;
+
+// Steps for the convex searches along segments; enough for sub-millimetre precision on game-sized shapes
+const SEARCH_ITERATIONS = 40;
+
+const IDENTITY_AXES: [Vec3, Vec3, Vec3] = [
+  { x: 1, y: 0, z: 0 },
+  { x: 0, y: 1, z: 0 },
+  { x: 0, y: 0, z: 1 }
+];
+
+function dot(a: Vec3, b: Vec3): number {
+  return a.x * b.x + a.y * b.y + a.z * b.z;
+}
+
+function subtract(a: Vec3, b: Vec3): Vec3 {
+  return { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z };
+}
+
+function lerp(a: Vec3, b: Vec3, t: number): Vec3 {
+  return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t, z: a.z + (b.z - a.z) * t };
+}
+
+function distanceSquared(a: Vec3, b: Vec3): number {
+  const dx = a.x - b.x, dy = a.y - b.y, dz = a.z - b.z;
+  return dx * dx + dy * dy + dz * dz;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+/**
+ * Local axes of a Rotation in world space. Rotations are Euler angles applied in
+ * 'YXZ' order (yaw, pitch, roll), the same as RenderingSystem and the entity factories.
+ */
+export function getRotationAxes(rotation: Rotation | undefined): [Vec3, Vec3, Vec3] {
+  if (!rotation || (rotation.x === 0 && rotation.y === 0 && rotation.z === 0)) return IDENTITY_AXES;
+
+  const cx = Math.cos(rotation.x), sx = Math.sin(rotation.x);
+  const cy = Math.cos(rotation.y), sy = Math.sin(rotation.y);
+  const cz = Math.cos(rotation.z), sz = Math.sin(rotation.z);
+
+  return [
+    { x: cy * cz + sy * sx * sz, y: cx * sz, z: -sy * cz + cy * sx * sz },
+    { x: -cy * sz + sy * sx * cz, y: cx * cz, z: sy * sz + cy * sx * cz },
+    { x: sy * cx, y: -sx, z: cy * cx }
+  ];
+}
+
+/**
+ * Places a collider in the world. Unknown collider types fall back to a unit sphere,
+ * matching the old fallback distance check.
+ */
+export function toCollisionShape(position: Position, collider: Collider, rotation?: Rotation): CollisionShape {
+  const center = { x: position.x, y: position.y, z: position.z };
+
+  if (collider.type === 'box') {
+    return {
+      type: 'box',
+      center,
+      axes: getRotationAxes(rotation),
+      halfExtents: [(collider.width || 0) / 2, (collider.height || 0) / 2, (collider.depth || 0) / 2]
+    };
+  }
+
+  if (collider.type === 'capsule') {
+    const radius = collider.radius || 0;
+    const halfSegment = Math.max(0, (collider.length || 0) / 2 - radius);
+    const forward = getRotationAxes(rotation)[2];
+    return {
+      type: 'capsule',
+      start: { x: center.x - forward.x * halfSegment, y: center.y - forward.y * halfSegment, z: center.z - forward.z * halfSegment },
+      end: { x: center.x + forward.x * halfSegment, y: center.y + forward.y * halfSegment, z: center.z + forward.z * halfSegment },
+      radius
+    };
+  }
+
+  return { type: 'sphere', center, radius: collider.type === 'sphere' ? collider.radius || 0 : 1.0 };
+}
+
+/**
+ * Radius of a sphere around the collider's center that contains the whole shape,
+ * whichever way it is turned
+ */
+export function getColliderBoundingRadius(collider: Collider): number {
+  if (collider.type === 'sphere') {
+    return collider.radius || 0;
+  }
+  if (collider.type === 'box') {
+    const width = collider.width || 0;
+    const height = collider.height || 0;
+    const depth = collider.depth || 0;
+    return Math.sqrt(width * width + height * height + depth * depth) / 2;
+  }
+  if (collider.type === 'capsule') {
+    return Math.max(collider.radius || 0, (collider.length || 0) / 2);
+  }
+  return 1.0;
+}
+
+// Point in the box closest to the given point
+function closestPointInBox(point: Vec3, box: BoxShape): Vec3 {
+  const offset = subtract(point, box.center);
+  const result = { x: box.center.x, y: box.center.y, z: box.center.z };
+  for (let i = 0; i < 3; i++) {
+    const axis = box.axes[i];
+    const distance = clamp(dot(offset, axis), -box.halfExtents[i], box.halfExtents[i]);
+    result.x += axis.x * distance;
+    result.y += axis.y * distance;
+    result.z += axis.z * distance;
+  }
+  return result;
+}
+
+function distanceToBox(point: Vec3, box: BoxShape): number {
+  return Math.sqrt(distanceSquared(point, closestPointInBox(point, box)));
+}
+
+// Point on segment ab closest to the given point
+function closestPointOnSegment(point: Vec3, a: Vec3, b: Vec3): Vec3 {
+  const ab = subtract(b, a);
+  const lengthSquared = dot(ab, ab);
+  if (lengthSquared === 0) return a;
+  return lerp(a, b, clamp(dot(subtract(point, a), ab) / lengthSquared, 0, 1));
+}
+
+function distanceToSegment(point: Vec3, a: Vec3, b: Vec3): number {
+  return Math.sqrt(distanceSquared(point, closestPointOnSegment(point, a, b)));
+}
+
+// Squared distance between segments p1q1 and p2q2 (closest points of two segments)
+export function segmentSegmentDistanceSquared(p1: Vec3, q1: Vec3, p2: Vec3, q2: Vec3): number {
+  const d1 = subtract(q1, p1);
+  const d2 = subtract(q2, p2);
+  const r = subtract(p1, p2);
+  const a = dot(d1, d1);
+  const e = dot(d2, d2);
+  const f = dot(d2, r);
+
+  let s: number;
+  let t: number;
+  if (a === 0 && e === 0) {
+    return dot(r, r);
+  }
+  if (a === 0) {
+    s = 0;
+    t = clamp(f / e, 0, 1);
+  } else {
+    const c = dot(d1, r);
+    if (e === 0) {
+      t = 0;
+      s = clamp(-c / a, 0, 1);
+    } else {
+      const b = dot(d1, d2);
+      const denominator = a * e - b * b;
+      // Parallel segments: any s works, start from p1
+      s = denominator !== 0 ? clamp((b * f - c * e) / denominator, 0, 1) : 0;
+      t = (b * s + f) / e;
+      if (t < 0) {
+        t = 0;
+        s = clamp(-c / a, 0, 1);
+      } else if (t > 1) {
+        t = 1;
+        s = clamp((b - c) / a, 0, 1);
+      }
+    }
+  }
+
+  return distanceSquared(lerp(p1, q1, s), lerp(p2, q2, t));
+}
+
+// Parameter (0..1) minimizing a convex function along a segment, by ternary search
+function minimizeAlongSegment(distanceAt: (t: number) => number): number {
+  let low = 0;
+  let high = 1;
+  for (let i = 0; i < SEARCH_ITERATIONS; i++) {
+    const a = low + (high - low) / 3;
+    const b = high - (high - low) / 3;
+    if (distanceAt(a) <= distanceAt(b)) {
+      high = b;
+    } else {
+      low = a;
+    }
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * First parameter (0..1) where a convex distance function drops to `reach`, or null
+ * if it never does. Distance from a moving point to a convex shape is convex in time.
+ */
+function firstContactTime(distanceAt: (t: number) => number, reach: number): number | null {
+  if (distanceAt(0) <= reach) return 0;
+
+  const closest = minimizeAlongSegment(distanceAt);
+  if (distanceAt(closest) > reach) return null;
+
+  // Distance falls until the closest approach, so the crossing is the only one before it
+  let low = 0;
+  let high = closest;
+  for (let i = 0; i < SEARCH_ITERATIONS; i++) {
+    const mid = (low + high) / 2;
+    if (distanceAt(mid) <= reach) {
+      high = mid;
+    } else {
+      low = mid;
+    }
+  }
+  return high;
+}
+
+// Separating axis test for two oriented boxes (face normals of both plus their 9 cross products)
+function boxesOverlap(a: BoxShape, b: BoxShape): boolean {
+  const offset = subtract(b.center, a.center);
+  const candidateAxes: Vec3[] = [...a.axes, ...b.axes];
+  for (const axisA of a.axes) {
+    for (const axisB of b.axes) {
+      const cross = {
+        x: axisA.y * axisB.z - axisA.z * axisB.y,
+        y: axisA.z * axisB.x - axisA.x * axisB.z,
+        z: axisA.x * axisB.y - axisA.y * axisB.x
+      };
+      // Parallel edges give no new axis
+      if (dot(cross, cross) > 1e-9) candidateAxes.push(cross);
+    }
+  }
+
+  for (const axis of candidateAxes) {
+    let reachA = 0;
+    let reachB = 0;
+    for (let i = 0; i < 3; i++) {
+      reachA += Math.abs(dot(a.axes[i], axis)) * a.halfExtents[i];
+      reachB += Math.abs(dot(b.axes[i], axis)) * b.halfExtents[i];
+    }
+    if (Math.abs(dot(offset, axis)) >= reachA + reachB) return false;
+  }
+  return true;
+}
+
+function capsuleBoxOverlap(capsule: CapsuleShape, box: BoxShape): boolean {
+  const distanceAt = (t: number) => distanceToBox(lerp(capsule.start, capsule.end, t), box);
+  return distanceAt(minimizeAlongSegment(distanceAt)) < capsule.radius;
+}
+
+/**
+ * Whether two shapes overlap. Touching exactly doesn't count, as with the sphere test.
+ */
+export function shapesOverlap(a: CollisionShape, b: CollisionShape): boolean {
+  if (a.type === 'sphere' && b.type === 'sphere') {
+    return distanceSquared(a.center, b.center) < (a.radius + b.radius) * (a.radius + b.radius);
+  }
+  if (a.type === 'box' && b.type === 'box') {
+    return boxesOverlap(a, b);
+  }
+  if (a.type === 'capsule' && b.type === 'capsule') {
+    return segmentSegmentDistanceSquared(a.start, a.end, b.start, b.end) < (a.radius + b.radius) * (a.radius + b.radius);
+  }
+
+  // Mixed pairs: put the shapes in a fixed order and reuse one test for both
+  if (b.type === 'sphere' || (b.type === 'box' && a.type === 'capsule')) {
+    return shapesOverlap(b, a);
+  }
+  if (a.type === 'sphere' && b.type === 'box') {
+    return distanceSquared(a.center, closestPointInBox(a.center, b)) < a.radius * a.radius;
+  }
+  if (a.type === 'sphere' && b.type === 'capsule') {
+    return distanceToSegment(a.center, b.start, b.end) < a.radius + b.radius;
+  }
+  return capsuleBoxOverlap(b as CapsuleShape, a as BoxShape);
+}
+
+/**
+ * Earliest point (0..1) where a segment, thickened by `thickness`, enters the shape,
+ * 0 if it starts inside, or null if it never touches it
+ */
+export function sweepSegment(start: Vec3, end: Vec3, thickness: number, shape: CollisionShape): number | null {
+  if (shape.type === 'sphere') {
+    return sweepSphere(start, end, shape.center, shape.radius + thickness);
+  }
+  if (shape.type === 'box') {
+    return sweepBox(start, end, thickness, shape);
+  }
+  return firstContactTime(
+    t => distanceToSegment(lerp(start, end, t), shape.start, shape.end),
+    shape.radius + thickness
+  );
+}
+
+function sweepSphere(start: Vec3, end: Vec3, center: Vec3, radius: number): number | null {
+  const d = subtract(end, start);
+  const f = subtract(start, center);
+
+  const c = dot(f, f) - radius * radius;
+  if (c <= 0) return 0;
+
+  const a = dot(d, d);
+  if (a === 0) return null;
+
+  const b = 2 * dot(f, d);
+  const discriminant = b * b - 4 * a * c;
+  if (discriminant < 0) return null;
+
+  const time = (-b - Math.sqrt(discriminant)) / (2 * a);
+  return time >= 0 && time <= 1 ? time : null;
+}
+
+// Slab test in the box's own axes, with the box grown by the segment's thickness
+function sweepBox(start: Vec3, end: Vec3, thickness: number, box: BoxShape): number | null {
+  const origin = subtract(start, box.center);
+  const delta = subtract(end, start);
+  let enter = 0;
+  let exit = 1;
+
+  for (let i = 0; i < 3; i++) {
+    const axis = box.axes[i];
+    const localOrigin = dot(origin, axis);
+    const localDelta = dot(delta, axis);
+    const halfExtent = box.halfExtents[i] + thickness;
+
+    if (localDelta === 0) {
+      // Moving parallel to this slab: must already be inside it
+      if (localOrigin < -halfExtent || localOrigin > halfExtent) return null;
+      continue;
+    }
+
+    let near = (-halfExtent - localOrigin) / localDelta;
+    let far = (halfExtent - localOrigin) / localDelta;
+    if (near > far) [near, far] = [far, near];
+    enter = Math.max(enter, near);
+    exit = Math.min(exit, far);
+    if (enter > exit) return null;
+  }
+
+  return enter;
+}
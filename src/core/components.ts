@@ -1,3 +1,9 @@
+import type { Object3D } from 'three';
+import type { Entity } from './entityHandle';
+import type { EliteAffixId } from '../types/elite';
+import type { DamageType } from '../types/damage';
+import type { DamageSource } from '../types/events';
+
 export interface Position {
   x: number;
   y: number;
@@ -18,6 +24,11 @@ export interface Renderable {
   variant?: string; // Optional subtype identifier for shared models like power-ups
   isVisible?: boolean; // Whether the model is visible (optional, defaults to true)
   meshId?: string; // UUID of the Three.js mesh instance
+  mesh?: Object3D; // Live mesh, attached by RenderingSystem once created
+  fadeOut?: boolean; // Fade the mesh to `opacity` (expiring power-ups)
+  opacity?: number;  // Target opacity while fading out
+  aura?: number;     // Color of a glowing aura around the model (elite enemies)
+  cloakOpacity?: number; // Opacity of a cloaking enemy's model; unset when fully visible
 }
 
 export interface AutoRotate {
@@ -51,12 +62,49 @@ export interface InputReceiver {
   // Marker component; could add data like control scheme later
 }
 
+export interface JoystickSample {
+  x: number;
+  y: number;
+  magnitude: number;
+  active: boolean;
+}
+
+// Player input for the current simulation step, written by InputSystem from the
+// active input source (live devices or a replay). Gameplay systems read input only from here.
+export interface PlayerInput {
+  forward: boolean;
+  backward: boolean;
+  left: boolean;
+  right: boolean;
+  up: boolean;
+  down: boolean;
+  fire: boolean;          // Primary fire from keyboard/mouse or mobile button
+  secondaryFire: boolean;
+  boost: boolean;         // Boost from keyboard or mobile button
+  mouseX: number;         // Mouse movement accumulated since the previous step
+  mouseY: number;
+  pointerLocked: boolean;
+  moveStick: JoystickSample;
+  aimStick: JoystickSample;
+}
+
 export interface Transform {
   position: Position;
   rotation: Rotation;
   scale: number;
 }
 
+// Transform at the start of the latest fixed simulation step, used for render interpolation
+export interface PreviousTransform {
+  x: number;
+  y: number;
+  z: number;
+  rotationX: number;
+  rotationY: number;
+  rotationZ: number;
+  hasRotation: boolean;
+}
+
 export interface Camera {
   offset: Position;  // Offset from the parent entity (ship)
   fov: number;      // Field of view
@@ -73,7 +121,7 @@ export interface MouseLook {
 }
 
 export interface CameraMount {
-  parentEntity: number;  // ID of the entity this camera is mounted to
+  parentEntity: Entity;  // ID of the entity this camera is mounted to
 }
 
 export interface Projectile {
@@ -81,7 +129,7 @@ export interface Projectile {
   damage: number;
   lifetime: number;  // How long the projectile exists in seconds
   timeAlive: number; // Current time the projectile has been alive
-  ownerEntity: number; // ID of the entity that created this projectile
+  ownerEntity: Entity; // ID of the entity that created this projectile
   accuracyShotId?: number; // Shared ID for projectiles fired by the same player volley
 }
 
@@ -90,20 +138,22 @@ export interface LaserCooldown {
   max: number;      // Maximum cooldown time in seconds
   canFire: boolean; // Whether the entity can fire
   readyToFire?: boolean; // Whether the entity is ready to fire (set by InputSystem)
+  originalMax?: number; // Cooldown to restore when a fire-rate power-up expires
 }
 
 export interface Collider {
-  type: string;     // 'sphere' or 'box'
-  radius?: number;  // For sphere colliders
+  type: string;     // 'sphere', 'box' or 'capsule'; boxes and capsules turn with the entity's Rotation
+  radius?: number;  // For sphere and capsule colliders
   width?: number;   // For box colliders
   height?: number;  // For box colliders
-  depth?: number;   // For box colliders
+  depth?: number;   // For box colliders (along the entity's forward axis)
+  length?: number;  // For capsule colliders: end to end along the entity's forward axis, caps included
   isTrigger: boolean; // Whether this is a trigger collider (doesn't cause physical response)
   layer: string;    // Collision layer (e.g., 'player', 'enemy', 'projectile')
 }
 
 export interface Enemy {
-  targetEntity: number; // Entity ID of the target (usually Dyson Sphere)
+  targetEntity: Entity; // Entity ID of the target (usually Dyson Sphere)
   type: string;         // Type of enemy ('squidAlien', etc.)
   speed: number;        // Movement speed
   damage: number;       // Damage dealt on collision with target
@@ -114,7 +164,7 @@ export interface Enemy {
   currentLaserCooldown: number; // Current laser cooldown timer
   canMove: boolean;     // Whether the enemy can move
   canShoot: boolean;    // Whether the enemy can shoot
-  siegeEffectId?: number; // Reference to the siege effect entity
+  siegeEffectId?: Entity; // Reference to the siege effect entity
 }
 
 export interface WaveInfo {
@@ -131,7 +181,7 @@ export interface UIDisplay {
 }
 
 export interface HealthDisplay {
-  entity: number;  // Reference to the entity whose health we're displaying
+  entity: Entity;  // Reference to the entity whose health we're displaying
 }
 
 export interface ScoreDisplay {
@@ -182,9 +232,11 @@ export interface Radar {
   range: number;               // Maximum detection range
   refreshRate: number;         // How often to update in seconds
   timeUntilRefresh: number;    // Time remaining until next refresh
+  pulseActive?: boolean;       // A radar pulse is currently exposing cloaked enemies
   trackedEntities: Array<{     // Array of entities currently being tracked
     entityId: number;          // The entity ID
     entityType: string;        // Type of entity ('grunt', 'bomber', 'asteroid', 'warpRaider', 'shieldGuardian', 'dysonSphere')
+    ghost?: boolean;           // Faint contact from a cloaked enemy
     horizontalDistance: number;// Horizontal distance from player to entity (XZ plane)
     direction: {               // Relative direction/position data
       x: number;               // Relative X on radar (left/right based on player yaw)
@@ -268,12 +320,12 @@ export interface ShieldComponent {
 }
 
 export interface ShieldBubbleComponent {
-  guardian: number;       // Entity ID of the Shield Guardian
+  guardian: Entity;       // Entity ID of the Shield Guardian
   radius: number;         // Radius of the shield
 }
 
 export interface ShieldBarComponent {
-  entity: number;         // Entity to track for shield display
+  entity: Entity;         // Entity to track for shield display
   offsetY: number;        // Vertical offset from entity position
   width: number;          // Width of the shield bar
   height: number;         // Height of the shield bar
@@ -281,7 +333,7 @@ export interface ShieldBarComponent {
 }
 
 export interface HealthBarComponent {
-  entity: number;         // Entity to track for health display
+  entity: Entity;         // Entity to track for health display
   offsetY: number;        // Vertical offset from entity position
   width: number;          // Width of the health bar
   height: number;         // Height of the health bar
@@ -292,8 +344,8 @@ export interface HealthBarComponent {
 // Developer mode component for debugging and inspection
 export interface DevMode {
   isActive: boolean;        // Whether dev mode is active
-  originalCameraEntity: number; // Reference to the original camera entity
-  devCameraEntity: number;  // Reference to the dev camera entity
+  originalCameraEntity: Entity; // Reference to the original camera entity
+  devCameraEntity: Entity;  // Reference to the dev camera entity
 }
 
 export interface PowerUp {
@@ -333,3 +385,245 @@ export interface SiegeEffect {
   origin: Position;
   target: Position;
 }
+
+// Multi-phase boss core. BossSystem moves and fires it instead of EnemySystem.
+export interface Boss {
+  bossId: string;           // Key into BOSSES (src/constants/bosses.ts)
+  phase: number;            // Index into the boss definition's phases
+  weakPoints: Entity[];     // Weak points still attached
+  attackTimers: number[];   // Seconds until each of the current phase's attacks fires
+  arrived: boolean;         // Reached its orbit; attacks start once it has
+  orbitAngle: number;       // Angle around the target in the orbit plane
+  orbitHeight: number;      // Height above the target's center while orbiting
+  contactCooldown: number;  // Seconds until touching the boss can hurt the player again
+}
+
+// Destructible part of a boss; BossSystem keeps it at its mount point on the core
+export interface WeakPoint {
+  boss: Entity;
+  offset: Position;         // Mount point in the boss's local frame
+}
+
+// Run data for Bomber enemies; their behaviour (approach, bombing, egress) flies the runs and drops the bombs
+export interface Bomber {
+  runDirection: Position;   // Heading along the Dyson Sphere's surface for the current run
+  bombTimer: number;        // Seconds until the next bomb drops
+  bombsRemaining: number;   // Bombs left for the current run
+  runCount: number;         // Completed runs; alternates the run heading
+}
+
+// Slow-falling payload dropped by a Bomber; can be shot down before it lands
+export interface Bomb {
+  ownerEntity: Entity;      // Bomber that dropped it
+  targetEntity: Entity;     // Entity the bomb falls toward (usually Dyson Sphere)
+  damage: number;
+  blastRadius: number;      // The player takes splash damage inside this radius
+  shieldBypass: number;     // 0..1 share of the damage that goes straight to hull
+  fuse: number;             // Seconds until the bomb fizzles out if it never lands
+}
+
+// Mine-laying state for a Mine Layer; its behaviour circles the Dyson Sphere dropping mines
+export interface MineLayer {
+  orbitDirection: Position; // Heading along the Dyson Sphere's surface
+  mineTimer: number;        // Seconds until the next mine drops
+  mines: Entity[];          // Mines it has laid; dead ones are pruned before each drop
+}
+
+// Proximity mine left by a Mine Layer; MineSystem arms and triggers it
+export interface Mine {
+  ownerEntity: Entity;      // Mine Layer that dropped it
+  damage: number;           // Blast damage at the center, falling off to 0 at blastRadius
+  triggerRadius: number;    // An armed mine starts its fuse when the player comes this close
+  blastRadius: number;      // Hurts the player and other enemies inside this radius
+  armTimer: number;         // Seconds until the mine is armed
+  fuse: number;             // Seconds from trigger to detonation; counts down once triggered
+  triggered: boolean;
+  lifetime: number;         // Seconds until an untriggered mine fizzles out
+}
+
+// Hangar state for a Carrier; its behaviour parks it and launches grunts from the bay
+export interface Carrier {
+  launchTimer: number;      // Seconds until the next grunt launches
+  children: Entity[];       // Launched grunts; dead ones are pruned before each launch
+  launched: number;         // Grunts launched in total
+}
+
+// Stealth field of a cloaking enemy; CloakSystem fades it in and out
+export interface Cloak {
+  visibility: number;       // 0 fully cloaked .. 1 fully visible
+  revealTimer: number;      // Seconds the enemy stays revealed after firing or being hit
+  flickerTime: number;      // Drives the intermittent ghost contact on the radar
+}
+
+// Repair state of a Medic; its behaviour channels a healing beam into the patient
+export interface Medic {
+  patient: Entity | null;   // Ally currently being healed
+  retargetTimer: number;    // Seconds until the medic looks for the most damaged ally again
+}
+
+// Size tier of an asteroid or asteroid fragment
+export interface Asteroid {
+  size: number; // Index into ASTEROID_SIZES; 0 is the largest
+}
+
+// Marks an elite enemy; affix tuning is in ELITE_AFFIXES (src/constants/elites.ts)
+export interface Elite {
+  affixes: EliteAffixId[];
+  shield: number; // Remaining damage barrier from the shielded affix
+}
+
+// Where an enemy is in its behaviour state machine (see src/core/behaviors)
+export interface EnemyBehaviorState {
+  state: string;            // Key into the behaviour's states; '' until the first step
+  stateTime: number;        // Seconds spent in the current state
+  weaponDeployed: boolean;  // Siege weapon (grunt lightning) is up; not saved
+}
+
+// Member of a drone swarm; SwarmSystem flocks it with the drones sharing its swarm and role
+export interface SwarmDrone {
+  swarmId: number;          // Shared by every drone spawned from the same wormhole
+  role: 'harass' | 'dive';  // Harassers chase the player, divers attack the enemy's target
+}
+
+// Damage reduction by type (0..1, e.g. 0.5 halves it); types left out hit in full
+export type Resistances = Partial<Record<DamageType, number>>;
+
+// Most recent hit on an entity, kept by the damage service for kill credit. Factories add
+// it empty next to Health, so the damage service only has to update it.
+export interface LastDamage {
+  attacker: Entity | null;     // null for hazards and before the first hit
+  type: DamageType | null;     // null before the first hit
+  source: DamageSource | null; // null before the first hit
+}
+
+/**
+ * Component registry: maps each component name used with World to its interface.
+ * World's add/get/has/remove methods and queries only accept these names, so a
+ * typo or a mismatched component type is a compile error.
+ */
+export interface ComponentTypes {
+  Position: Position;
+  Velocity: Velocity;
+  Renderable: Renderable;
+  AutoRotate: AutoRotate;
+  Rotation: Rotation;
+  Health: Health;
+  Shield: Shield;
+  InputReceiver: InputReceiver;
+  PlayerInput: PlayerInput;
+  Transform: Transform;
+  PreviousTransform: PreviousTransform;
+  Camera: Camera;
+  MouseLook: MouseLook;
+  CameraMount: CameraMount;
+  Projectile: Projectile;
+  LaserCooldown: LaserCooldown;
+  Collider: Collider;
+  Enemy: Enemy;
+  WaveInfo: WaveInfo;
+  UIDisplay: UIDisplay;
+  HealthDisplay: HealthDisplay;
+  ScoreDisplay: ScoreDisplay;
+  MessageDisplay: MessageDisplay;
+  DysonSphereStatus: DysonSphereStatus;
+  DamageEffect: DamageEffect;
+  GameStateDisplay: GameStateDisplay;
+  GameOverStats: GameOverStats;
+  Reticle: Reticle;
+  Radar: Radar;
+  FloatingScore: FloatingScore;
+  ScreenPosition: ScreenPosition;
+  Boost: Boost;
+  Animation: Animation;
+  ShieldComponent: ShieldComponent;
+  ShieldBubbleComponent: ShieldBubbleComponent;
+  ShieldBarComponent: ShieldBarComponent;
+  HealthBarComponent: HealthBarComponent;
+  DevMode: DevMode;
+  PowerUp: PowerUp;
+  ActivePowerUps: ActivePowerUps;
+  StarfieldBackground: StarfieldBackground;
+  SiegeEffect: SiegeEffect;
+  Boss: Boss;
+  WeakPoint: WeakPoint;
+  EnemyBehaviorState: EnemyBehaviorState;
+  Asteroid: Asteroid;
+  Elite: Elite;
+  Bomber: Bomber;
+  Bomb: Bomb;
+  Carrier: Carrier;
+  MineLayer: MineLayer;
+  Mine: Mine;
+  Cloak: Cloak;
+  Medic: Medic;
+  SwarmDrone: SwarmDrone;
+  Resistances: Resistances;
+  LastDamage: LastDamage;
+}
+
+export type ComponentName = keyof ComponentTypes;
+
+// Runtime copy of the registry keys; the Record type keeps it in sync with ComponentTypes
+const COMPONENT_NAME_FLAGS: Record<ComponentName, true> = {
+  Position: true,
+  Velocity: true,
+  Renderable: true,
+  AutoRotate: true,
+  Rotation: true,
+  Health: true,
+  Shield: true,
+  InputReceiver: true,
+  PlayerInput: true,
+  Transform: true,
+  PreviousTransform: true,
+  Camera: true,
+  MouseLook: true,
+  CameraMount: true,
+  Projectile: true,
+  LaserCooldown: true,
+  Collider: true,
+  Enemy: true,
+  WaveInfo: true,
+  UIDisplay: true,
+  HealthDisplay: true,
+  ScoreDisplay: true,
+  MessageDisplay: true,
+  DysonSphereStatus: true,
+  DamageEffect: true,
+  GameStateDisplay: true,
+  GameOverStats: true,
+  Reticle: true,
+  Radar: true,
+  FloatingScore: true,
+  ScreenPosition: true,
+  Boost: true,
+  Animation: true,
+  ShieldComponent: true,
+  ShieldBubbleComponent: true,
+  ShieldBarComponent: true,
+  HealthBarComponent: true,
+  DevMode: true,
+  PowerUp: true,
+  ActivePowerUps: true,
+  StarfieldBackground: true,
+  SiegeEffect: true,
+  Boss: true,
+  WeakPoint: true,
+  EnemyBehaviorState: true,
+  Asteroid: true,
+  Elite: true,
+  Bomber: true,
+  Bomb: true,
+  Carrier: true,
+  MineLayer: true,
+  Mine: true,
+  Cloak: true,
+  Medic: true,
+  SwarmDrone: true,
+  Resistances: true,
+  LastDamage: true
+};
+
+export function isComponentName(name: string): name is ComponentName {
+  return Object.prototype.hasOwnProperty.call(COMPONENT_NAME_FLAGS, name);
+}
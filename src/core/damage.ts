@@ -0,0 +1,124 @@
+import { World } from './World';
+import { Entity } from './entityHandle';
+import { BUBBLE_DAMAGE_PER_HIT, SHIELD_DAMAGE_MULTIPLIERS } from '../constants/damage';
+import { DamageRequest, DamageResult, DamageType } from '../types/damage';
+
+/**
+ * The one place damage is applied. Scales the hit by the target's Resistances, runs it
+ * through whichever shield the target has, takes the rest off Health (clamped at 0),
+ * remembers the attacker for kill credit and adds it to the end-of-run stats.
+ *
+ * Shield rules, in order of precedence:
+ * - A Shield Guardian's bubble counts hits rather than damage
+ * - The Dyson Sphere shield takes damage first (scaled by SHIELD_DAMAGE_MULTIPLIERS),
+ *   except the shieldBypass share; overflow carries through to health
+ * - A shielded elite's barrier soaks damage up before health
+ *
+ * Emits Damaged for every hit, plus PlayerDamaged or DysonDamaged when the target is the
+ * player or the Dyson Sphere. Removing whatever was killed is left to the caller.
+ */
+export function applyDamage(world: World, request: DamageRequest): DamageResult {
+  const { target, type, source } = request;
+  const attacker = request.attacker ?? null;
+
+  // Bubble hits land on the guardian inside
+  const bubble = world.getComponent(target, 'ShieldBubbleComponent');
+  const victim = bubble ? bubble.guardian : target;
+
+  const resistance = world.getComponent(victim, 'Resistances')?.[type] ?? 0;
+  const result: DamageResult = { amount: request.amount * (1 - resistance), shieldDamage: 0, healthDamage: 0, killed: false };
+
+  if (bubble) {
+    const guardianShield = world.getComponent(victim, 'ShieldComponent');
+    if (!guardianShield) return result;
+
+    // Heavy secondary shots chew through bubbles faster
+    result.shieldDamage = Math.max(1, Math.ceil(result.amount / BUBBLE_DAMAGE_PER_HIT));
+    guardianShield.currentShield -= result.shieldDamage;
+    result.killed = guardianShield.currentShield <= 0;
+  } else {
+    const health = world.getComponent(victim, 'Health');
+    if (!health) return result;
+
+    absorbWithShields(world, victim, type, request.shieldBypass ?? 0, result);
+    health.current = Math.max(0, health.current - result.healthDamage);
+    result.killed = health.current <= 0;
+  }
+
+  recordDamage(world, victim, attacker, type, source, result.amount);
+
+  world.emit('Damaged', { target: victim, attacker, type, source, ...result });
+  if (world.hasComponent(victim, 'InputReceiver')) {
+    world.emit('PlayerDamaged', {
+      entity: victim,
+      amount: result.amount,
+      healthRemaining: world.getComponent(victim, 'Health')?.current ?? 0,
+      source
+    });
+  }
+  if (world.hasComponent(victim, 'Shield')) {
+    // ShieldSystem resets the regeneration delay from this
+    world.emit('DysonDamaged', { entity: victim, shieldDamage: result.shieldDamage, healthDamage: result.healthDamage, source });
+  }
+
+  return result;
+}
+
+/**
+ * Who landed the killing blow on an entity, and with what, for EnemyDestroyed
+ */
+export function getKillCredit(world: World, entity: Entity): { killer?: Entity | null; damageType?: DamageType } {
+  const lastDamage = world.getComponent(entity, 'LastDamage');
+  return lastDamage?.type ? { killer: lastDamage.attacker, damageType: lastDamage.type } : {};
+}
+
+// Splits result.amount between the target's shields and its health
+function absorbWithShields(world: World, target: Entity, type: DamageType, shieldBypass: number, result: DamageResult): void {
+  result.healthDamage = result.amount;
+
+  const shield = world.getComponent(target, 'Shield');
+  if (shield && shield.current > 0) {
+    const shieldableDamage = result.amount - result.amount * shieldBypass;
+    const multiplier = SHIELD_DAMAGE_MULTIPLIERS[type] ?? 1;
+    if (shieldableDamage * multiplier < shield.current) {
+      result.shieldDamage = shieldableDamage * multiplier;
+      result.healthDamage = result.amount - shieldableDamage;
+      shield.current -= result.shieldDamage;
+    } else {
+      // Overflow past an empty shield carries through to health at the normal rate
+      result.shieldDamage = shield.current;
+      result.healthDamage = result.amount - shield.current / multiplier;
+      shield.current = 0;
+    }
+  }
+
+  const elite = world.getComponent(target, 'Elite');
+  if (elite && elite.shield > 0) {
+    const absorbed = Math.min(elite.shield, result.healthDamage);
+    elite.shield -= absorbed;
+    result.shieldDamage += absorbed;
+    result.healthDamage -= absorbed;
+  }
+}
+
+function recordDamage(world: World, target: Entity, attacker: Entity | null, type: DamageType, source: DamageRequest['source'], amount: number): void {
+  const lastDamage = world.getComponent(target, 'LastDamage');
+  if (lastDamage) {
+    lastDamage.attacker = attacker;
+    lastDamage.type = type;
+    lastDamage.source = source;
+  } else {
+    // Health added outside the factories: deferred like any structural change, so a kill
+    // in this same step goes uncredited
+    world.deferAddComponent(target, 'LastDamage', { attacker, type, source });
+  }
+
+  const state = world.getGameState();
+  if (!state) return;
+  if (attacker !== null && world.hasComponent(attacker, 'InputReceiver')) {
+    state.damageDealt[type] += amount;
+  }
+  if (world.hasComponent(target, 'InputReceiver')) {
+    state.damageTaken[type] += amount;
+  }
+}
@@ -0,0 +1,115 @@
+import { World } from './World';
+import { Random } from './Random';
+import { Elite } from './components';
+import { Entity } from './entityHandle';
+import { createGrunt } from './entities/GruntEntity';
+import { createWarpRaider } from './entities/WarpRaiderEntity';
+import { createBomber } from './entities/BomberEntity';
+import { ELITE_AFFIXES, ELITE_RULES } from '../constants/elites';
+import { EliteAffixId } from '../types/elite';
+
+type EliteAffixStat = 'reflectChance' | 'regenPerSecond' | 'splitCount' | 'splitHealth' | 'lightningDamage' | 'shieldFraction';
+
+const SPLIT_SPREAD = 6; // Copies appear this far either side of the elite
+
+export function canBeElite(enemyType: string): boolean {
+  return ELITE_RULES.enemyTypes.includes(enemyType);
+}
+
+/**
+ * Turns a freshly spawned enemy into an elite with one or two random affixes:
+ * tougher, with an aura and any affix shield. Returns false if its type can't be elite.
+ */
+export function makeElite(world: World, entity: Entity, random: Random): boolean {
+  const enemy = world.getComponent(entity, 'Enemy');
+  if (!enemy || !canBeElite(enemy.type)) return false;
+
+  const available = (Object.keys(ELITE_AFFIXES) as EliteAffixId[]).filter(id => {
+    const types = ELITE_AFFIXES[id].enemyTypes;
+    return !types || types.includes(enemy.type);
+  });
+  if (available.length === 0) return false;
+
+  const affixes = [available.splice(random.int(0, available.length), 1)[0]];
+  if (available.length > 0 && random.chance(ELITE_RULES.secondAffixChance)) {
+    affixes.push(available[random.int(0, available.length)]);
+  }
+
+  const health = world.getComponent(entity, 'Health');
+  if (health) {
+    health.max *= ELITE_RULES.healthMultiplier;
+    health.current = health.max;
+  }
+
+  const elite: Elite = { affixes, shield: 0 };
+  const shieldFraction = getEliteValue(elite, 'shieldFraction');
+  if (shieldFraction && health) {
+    elite.shield = health.max * shieldFraction;
+  }
+  world.addComponent(entity, 'Elite', elite);
+
+  const renderable = world.getComponent(entity, 'Renderable');
+  if (renderable) {
+    renderable.aura = ELITE_AFFIXES[affixes[0]].auraColor;
+  }
+
+  console.log(`[Elites] ${enemy.type} ${entity} spawned elite: ${affixes.join(', ')}`);
+  return true;
+}
+
+// Tuning value from the first of the elite's affixes that defines it
+export function getEliteValue(elite: Elite, key: EliteAffixStat): number | undefined {
+  for (const id of elite.affixes) {
+    const value = ELITE_AFFIXES[id]?.[key];
+    if (value !== undefined) return value;
+  }
+  return undefined;
+}
+
+// HUD tag text, e.g. "ELITE: REFLECTIVE / SHIELDED"
+export function getEliteTag(elite: Elite): string {
+  return `ELITE: ${elite.affixes.map(id => ELITE_AFFIXES[id]?.name ?? id).join(' / ')}`;
+}
+
+/**
+ * A dying splitting elite leaves regular, weaker copies of itself behind. Call before
+ * the elite is removed.
+ */
+export function spawnEliteSplits(world: World, entity: Entity): Entity[] {
+  const elite = world.getComponent(entity, 'Elite');
+  const enemy = world.getComponent(entity, 'Enemy');
+  const position = world.getComponent(entity, 'Position');
+  const splitCount = elite ? getEliteValue(elite, 'splitCount') : undefined;
+  if (!elite || !enemy || !position || !splitCount) return [];
+
+  const splitHealth = getEliteValue(elite, 'splitHealth') ?? 1;
+  const copies: Entity[] = [];
+  for (let i = 0; i < splitCount; i++) {
+    const offset = (i - (splitCount - 1) / 2) * SPLIT_SPREAD;
+    const copyPosition = { x: position.x + offset, y: position.y, z: position.z - offset };
+
+    let copy: Entity;
+    switch (enemy.type) {
+      case 'warpRaider':
+        copy = createWarpRaider(world, copyPosition, enemy.targetEntity);
+        break;
+      case 'bomber':
+        copy = createBomber(world, copyPosition, enemy.targetEntity);
+        break;
+      case 'grunt':
+        copy = createGrunt(world, copyPosition, enemy.targetEntity);
+        break;
+      default:
+        continue;
+    }
+
+    const health = world.getComponent(copy, 'Health');
+    if (health) {
+      health.max *= splitHealth;
+      health.current = health.max;
+    }
+    copies.push(copy);
+  }
+
+  return copies;
+}
@@ -1,53 +1,112 @@
 import { World } from '../World';
 import * as THREE from 'three';
-import { Position, Renderable, Velocity, Rotation, Collider, Enemy, Health, HealthBarComponent } from '../components';
+import { Random } from '../Random';
+import { Entity } from '../entityHandle';
 import { COLORS } from '../../constants/colors';
+import { ASTEROID_SIZES, FRAGMENT_SPREAD_SPEED } from '../../constants/asteroids';
+
+type Vec3 = { x: number, y: number, z: number };
 
 export function createAsteroid(
   world: World,
-  position: { x: number, y: number, z: number },
+  position: Vec3,
   targetEntity: number // The Dyson Sphere entity ID that this asteroid will target
 ): number {
-  const entity = world.createEntity();
-  
   // Get target (Dyson Sphere) position for reference
-  const dysonPosition = world.getComponent<Position>(targetEntity, 'Position');
-  if (!dysonPosition) return entity;
-  
+  const dysonPosition = world.getComponent(targetEntity, 'Position');
+  if (!dysonPosition) return world.createEntity();
+
   // Calculate direction toward the Dyson Sphere
   const direction = new THREE.Vector3(
     dysonPosition.x - position.x,
     dysonPosition.y - position.y,
     dysonPosition.z - position.z
   ).normalize();
-  
+
+  const speed = ASTEROID_SIZES[0].speed;
+  const velocity = { x: direction.x * speed, y: direction.y * speed, z: direction.z * speed };
+  return addAsteroid(world, world.getRandomStream('asteroids'), 'asteroid', 0, position, velocity, targetEntity);
+}
+
+/**
+ * Breaks a destroyed asteroid into fragments of the next size down. Fragments keep the
+ * parent's momentum plus a little spread; the smallest size leaves nothing behind.
+ */
+export function createAsteroidFragments(world: World, parentEntity: Entity): Entity[] {
+  const asteroid = world.getComponent(parentEntity, 'Asteroid');
+  const enemy = world.getComponent(parentEntity, 'Enemy');
+  const position = world.getComponent(parentEntity, 'Position');
+  const velocity = world.getComponent(parentEntity, 'Velocity');
+  if (!asteroid || !enemy || !position || !velocity) return [];
+
+  const parentSize = ASTEROID_SIZES[asteroid.size];
+  const fragmentSize = asteroid.size + 1;
+  if (!parentSize || fragmentSize >= ASTEROID_SIZES.length || parentSize.fragments.max <= 0) return [];
+
+  const random = world.getRandomStream('asteroidFragments');
+  const count = random.int(parentSize.fragments.min, parentSize.fragments.max + 1);
+  const fragments: Entity[] = [];
+
+  for (let i = 0; i < count; i++) {
+    // Random spread direction; fragments start apart so they don't overlap
+    const spread = new THREE.Vector3(random.range(-1, 1), random.range(-1, 1), random.range(-1, 1));
+    if (spread.lengthSq() < 0.0001) spread.set(1, 0, 0);
+    spread.normalize();
+
+    const offset = parentSize.scale * 0.5;
+    fragments.push(addAsteroid(world, random, 'asteroidFragment', fragmentSize, {
+      x: position.x + spread.x * offset,
+      y: position.y + spread.y * offset,
+      z: position.z + spread.z * offset
+    }, {
+      x: velocity.x + spread.x * FRAGMENT_SPREAD_SPEED,
+      y: velocity.y + spread.y * FRAGMENT_SPREAD_SPEED,
+      z: velocity.z + spread.z * FRAGMENT_SPREAD_SPEED
+    }, enemy.targetEntity));
+  }
+
+  return fragments;
+}
+
+function addAsteroid(
+  world: World,
+  random: Random,
+  type: 'asteroid' | 'asteroidFragment',
+  size: number,
+  position: Vec3,
+  velocity: Vec3,
+  targetEntity: number
+): Entity {
+  const entity = world.createEntity();
+  const stats = ASTEROID_SIZES[size];
+
   // Add position component - start at the specified spawn position
-  world.addComponent(entity, 'Position', { 
-    x: position.x, 
-    y: position.y, 
-    z: position.z 
+  world.addComponent(entity, 'Position', {
+    x: position.x,
+    y: position.y,
+    z: position.z
   });
-  
+
   // Add rotation component
-  world.addComponent(entity, 'Rotation', { 
-    x: 0, 
-    y: 0, 
-    z: 0 
+  world.addComponent(entity, 'Rotation', {
+    x: 0,
+    y: 0,
+    z: 0
   });
-  
+
   // Add auto-rotate component for a slow tumbling effect
   world.addComponent(entity, 'AutoRotate', {
-    speedX: 0.1 + Math.random() * 0.2, // Random rotation speed
-    speedY: 0.1 + Math.random() * 0.2,
-    speedZ: 0.1 + Math.random() * 0.2
+    speedX: random.range(0.1, 0.3), // Random rotation speed
+    speedY: random.range(0.1, 0.3),
+    speedZ: random.range(0.1, 0.3)
   });
-  
+
   // Add enemy-specific component to track target and behavior
   world.addComponent(entity, 'Enemy', {
     targetEntity: targetEntity,
-    type: 'asteroid',
-    speed: 40, // Units per second - faster than WarpRaider
-    damage: 100, // Instant game over if it hits the Dyson Sphere
+    type,
+    speed: stats.speed,
+    damage: stats.damage, // Largest size: instant game over if it reaches the Dyson Sphere
     attackCooldown: 0, // Instant damage on collision
     currentCooldown: 0,
     inSiegeMode: false, // Always moving
@@ -56,50 +115,50 @@ export function createAsteroid(
     canMove: true,
     canShoot: false // Asteroid doesn't shoot
   });
-  
-  // Add health component - more health than other enemies
-  world.addComponent(entity, 'Health', { 
-    current: 50, 
-    max: 50 
+
+  world.addComponent(entity, 'Asteroid', { size });
+
+  world.addComponent(entity, 'Health', {
+    current: stats.health,
+    max: stats.health
   });
-  
+  world.addComponent(entity, 'LastDamage', { attacker: null, type: null, source: null });
+
   // Add health bar component that only shows when damaged
   world.addComponent(entity, 'HealthBarComponent', {
     entity: entity,
-    width: 60,
+    width: 60 * stats.scale / ASTEROID_SIZES[0].scale,
     height: 6,
     offsetY: -100, // Try large negative offset
     showWhenDamaged: true,
     visible: false
   });
-  
-  // Add renderable component 
-  const renderable = {
+
+  // Add renderable component
+  world.addComponent(entity, 'Renderable', {
     modelId: 'asteroid',
-    scale: 8.0, // Larger than other enemies
+    scale: stats.scale,
     color: COLORS.GRUNT_BASE || 0x888888, // Gray color if COLORS.GRUNT_BASE isn't defined
     isVisible: true
-  };
-  world.addComponent(entity, 'Renderable', renderable);
-  
+  });
+
   // Add collider for collision detection
   world.addComponent(entity, 'Collider', {
     type: 'sphere',
-    radius: 8.0, // Large collision radius
+    radius: stats.scale,
     isTrigger: false,
     layer: 'enemy'
   });
-  
-  // Add velocity component
-  world.addComponent(entity, 'Velocity', { 
-    x: direction.x * 40, // Set initial velocity toward the Dyson Sphere
-    y: direction.y * 40,
-    z: direction.z * 40
+
+  world.addComponent(entity, 'Velocity', {
+    x: velocity.x,
+    y: velocity.y,
+    z: velocity.z
   });
-  
+
   return entity;
 }
 
 export function disposeAsteroid(world: World, entity: number) {
   world.removeEntity(entity);
-} 
\ No newline at end of file
+}
@@ -0,0 +1,182 @@
+import { World } from '../World';
+import { Position } from '../components';
+import { Entity } from '../entityHandle';
+import { COLORS } from '../../constants/colors';
+
+const BOMB_SPEED = 15; // Slow enough for the player to shoot bombs down on the way in
+const BOMB_FUSE = 15; // Seconds before an undelivered bomb fizzles out
+
+export function createBomber(
+  world: World,
+  position: { x: number, y: number, z: number },
+  targetEntity: number // The Dyson Sphere entity ID that this bomber makes its runs on
+): number {
+  const entity = world.createEntity();
+  
+  // Add position component - start at the specified spawn position
+  world.addComponent(entity, 'Position', { 
+    x: position.x, 
+    y: position.y, 
+    z: position.z 
+  });
+  
+  // Add rotation component
+  world.addComponent(entity, 'Rotation', { 
+    x: 0, 
+    y: 0, 
+    z: 0 
+  });
+  
+  // Add enemy-specific component to track target and behavior
+  world.addComponent(entity, 'Enemy', {
+    targetEntity: targetEntity,
+    type: 'bomber',
+    speed: 12, // Units per second - a slow, heavy ship
+    damage: 20, // Ramming damage to the player
+    attackCooldown: 0,
+    currentCooldown: 0,
+    inSiegeMode: false, // Never sieges; it makes bombing runs instead
+    laserCooldown: 0, // No lasers; bombs are timed by the Bomber component
+    currentLaserCooldown: 0,
+    canMove: true,
+    canShoot: false // Enemy can't drop bombs until the shooting timer completes
+  });
+  
+  // Add bombing-run data; the bomber behaviour sets it up on each run
+  world.addComponent(entity, 'Bomber', {
+    runDirection: { x: 0, y: 0, z: 0 },
+    bombTimer: 0,
+    bombsRemaining: 0,
+    runCount: 0
+  });
+  
+  // Add health component - tougher than a Warp Raider
+  world.addComponent(entity, 'Health', { 
+    current: 120, 
+    max: 120 
+  });
+  world.addComponent(entity, 'LastDamage', { attacker: null, type: null, source: null });
+  
+  // Add health bar component that only shows when damaged
+  world.addComponent(entity, 'HealthBarComponent', {
+    entity: entity,
+    width: 60,
+    height: 6,
+    offsetY: -60,
+    showWhenDamaged: true,
+    visible: false
+  });
+  
+  // Add renderable component with initial small scale
+  world.addComponent(entity, 'Renderable', {
+    modelId: 'bomber',
+    scale: 0.1, // Start with a small scale
+    color: COLORS.BOMBER_HULL,
+    isVisible: true
+  });
+  
+  // Add collider for collision detection
+  world.addComponent(entity, 'Collider', {
+    type: 'sphere',
+    radius: 6.0, // Bulkier than a grunt
+    isTrigger: false,
+    layer: 'enemy'
+  });
+  
+  // Add velocity component (initialized to zero, will be set by EnemySystem)
+  world.addComponent(entity, 'Velocity', { 
+    x: 0, 
+    y: 0, 
+    z: 0 
+  });
+  
+  // Add a growth animation component that matches the wormhole's timing
+  world.addComponent(entity, 'Animation', {
+    type: 'growth',
+    progress: 0,
+    duration: 3.5, // 70% of the 5-second wormhole animation (growing + stable phases)
+    isComplete: false,
+    data: {
+      finalScale: 6.0 // Target scale to grow to
+    }
+  });
+  
+  return entity;
+}
+
+/**
+ * Creates a bomb falling from a Bomber toward its target. It detonates on contact
+ * with the Dyson Sphere (see CollisionSystem) unless the player shoots it first.
+ */
+export function createBomberBomb(
+  world: World,
+  position: Position,
+  ownerEntity: Entity,
+  targetEntity: Entity
+): Entity {
+  const entity = world.createEntity();
+  
+  world.addComponent(entity, 'Position', { 
+    x: position.x, 
+    y: position.y, 
+    z: position.z 
+  });
+  
+  world.addComponent(entity, 'Rotation', { 
+    x: 0, 
+    y: 0, 
+    z: 0 
+  });
+  
+  // Tumbles slowly as it falls
+  world.addComponent(entity, 'AutoRotate', {
+    speedX: 1.5,
+    speedY: 0.5,
+    speedZ: 1.0
+  });
+  
+  // Falls straight at the target's center
+  const targetPosition = world.getComponent(targetEntity, 'Position') ?? { x: 0, y: 0, z: 0 };
+  const dx = targetPosition.x - position.x;
+  const dy = targetPosition.y - position.y;
+  const dz = targetPosition.z - position.z;
+  const distance = Math.sqrt(dx * dx + dy * dy + dz * dz) || 1;
+  world.addComponent(entity, 'Velocity', { 
+    x: (dx / distance) * BOMB_SPEED, 
+    y: (dy / distance) * BOMB_SPEED, 
+    z: (dz / distance) * BOMB_SPEED 
+  });
+  
+  world.addComponent(entity, 'Bomb', {
+    ownerEntity,
+    targetEntity,
+    damage: 25,
+    blastRadius: 40,
+    shieldBypass: 0.5, // Half the blast goes straight through the shield
+    fuse: BOMB_FUSE
+  });
+  
+  // Two hits from the base laser
+  world.addComponent(entity, 'Health', { 
+    current: 10, 
+    max: 10 
+  });
+  world.addComponent(entity, 'LastDamage', { attacker: null, type: null, source: null });
+  
+  world.addComponent(entity, 'Renderable', {
+    modelId: 'bomberBomb',
+    scale: 1.5,
+    color: COLORS.BOMBER_BOMB,
+    isVisible: true
+  });
+  
+  // Own layer: shootable by the player and detonates on the Dyson Sphere, but never counted as an enemy
+  world.addComponent(entity, 'Collider', {
+    type: 'sphere',
+    radius: 2.5,
+    isTrigger: false,
+    layer: 'bomb'
+  });
+  
+  return entity;
+}
@@ -0,0 +1,134 @@
+import { World } from '../World';
+import { Entity } from '../entityHandle';
+import { createGrunt } from './GruntEntity';
+import { COLORS } from '../../constants/colors';
+
+const FIRST_LAUNCH_DELAY = 4; // Seconds after parking before the first grunt comes out
+const BAY_OFFSET = 14; // Grunts launch this far in front of the carrier, clear of its hull
+
+export function createCarrier(
+  world: World,
+  position: { x: number, y: number, z: number },
+  targetEntity: number // The Dyson Sphere entity ID that this carrier parks outside of
+): number {
+  const entity = world.createEntity();
+
+  // Add position component - start at the specified spawn position
+  world.addComponent(entity, 'Position', {
+    x: position.x,
+    y: position.y,
+    z: position.z
+  });
+
+  // Add rotation component
+  world.addComponent(entity, 'Rotation', {
+    x: 0,
+    y: 0,
+    z: 0
+  });
+
+  // Add enemy-specific component to track target and behavior
+  world.addComponent(entity, 'Enemy', {
+    targetEntity: targetEntity,
+    type: 'carrier',
+    speed: 6, // Units per second - the slowest ship in the fleet
+    damage: 30, // Ramming damage to the player
+    attackCooldown: 0,
+    currentCooldown: 0,
+    inSiegeMode: false, // Never sieges; it parks and launches grunts instead
+    laserCooldown: 0, // No lasers; launches are timed by the Carrier component
+    currentLaserCooldown: 0,
+    canMove: true,
+    canShoot: false // Carrier can't launch until the shooting timer completes
+  });
+
+  // Add hangar data; the carrier behaviour launches grunts from it once parked
+  world.addComponent(entity, 'Carrier', {
+    launchTimer: FIRST_LAUNCH_DELAY,
+    children: [],
+    launched: 0
+  });
+
+  // Add health component - a heavy capital ship
+  world.addComponent(entity, 'Health', {
+    current: 300,
+    max: 300
+  });
+  world.addComponent(entity, 'LastDamage', { attacker: null, type: null, source: null });
+
+  // Add health bar component that only shows when damaged
+  world.addComponent(entity, 'HealthBarComponent', {
+    entity: entity,
+    width: 90,
+    height: 6,
+    offsetY: -80,
+    showWhenDamaged: true,
+    visible: false
+  });
+
+  // Add renderable component with initial small scale
+  world.addComponent(entity, 'Renderable', {
+    modelId: 'carrier',
+    scale: 0.1, // Start with a small scale
+    color: COLORS.CARRIER_HULL,
+    isVisible: true
+  });
+
+  // Add collider for collision detection
+  world.addComponent(entity, 'Collider', {
+    type: 'capsule', // Long hull: a sphere would leave shots hitting empty space off its flanks
+    radius: 5.0,
+    length: 20.0, // Bow to stern at full scale
+    isTrigger: false,
+    layer: 'enemy'
+  });
+
+  // Add velocity component (initialized to zero, will be set by EnemySystem)
+  world.addComponent(entity, 'Velocity', {
+    x: 0,
+    y: 0,
+    z: 0
+  });
+
+  // Add a growth animation component that matches the wormhole's timing
+  world.addComponent(entity, 'Animation', {
+    type: 'growth',
+    progress: 0,
+    duration: 3.5, // 70% of the 5-second wormhole animation (growing + stable phases)
+    isComplete: false,
+    data: {
+      finalScale: 5.0 // Target scale to grow to
+    }
+  });
+
+  return entity;
+}
+
+/**
+ * Launches a grunt from a Carrier's bay, toward the carrier's target. The grunt is a
+ * regular enemy, so it counts toward the wave until destroyed even if the carrier dies first.
+ * Carriers launch during the EnemySystem update, so the grunt is created through the
+ * command buffer and appears at the next sync point.
+ */
+export function launchCarrierGrunt(world: World, carrierEntity: Entity): Entity | null {
+  const carrier = world.getComponent(carrierEntity, 'Carrier');
+  const enemy = world.getComponent(carrierEntity, 'Enemy');
+  const position = world.getComponent(carrierEntity, 'Position');
+  const targetPosition = enemy ? world.getComponent(enemy.targetEntity, 'Position') : undefined;
+  if (!carrier || !enemy || !position || !targetPosition) return null;
+
+  // The bay faces the target
+  const dx = targetPosition.x - position.x;
+  const dy = targetPosition.y - position.y;
+  const dz = targetPosition.z - position.z;
+  const distance = Math.hypot(dx, dy, dz) || 1;
+  const grunt = createGrunt(world.deferred(), {
+    x: position.x + (dx / distance) * BAY_OFFSET,
+    y: position.y + (dy / distance) * BAY_OFFSET,
+    z: position.z + (dz / distance) * BAY_OFFSET
+  }, enemy.targetEntity);
+
+  carrier.children.push(grunt);
+  carrier.launched++;
+  return grunt;
+}
@@ -27,6 +27,7 @@ export function createDysonSphere(world: World): number {
     lightningVulnerability: 1.5 // Takes 50% more damage from lightning
   });
   world.addComponent(entity, 'Health', { current: 500, max: 500 });
+  world.addComponent(entity, 'LastDamage', { attacker: null, type: null, source: null });
   
   world.addComponent(entity, 'AutoRotate', { speedX: 0, speedY: 0.05, speedZ: 0 });
   
@@ -1,6 +1,6 @@
 import { World } from '../World';
 import * as THREE from 'three';
-import { Position, Renderable, Velocity, Rotation, Health, Collider, Animation } from '../components';
+import { Renderable, Velocity, Rotation, Health, Collider, Animation } from '../components';
 import { COLORS } from '../../constants/colors';
 
 export function createGrunt(
@@ -13,7 +13,7 @@ export function createGrunt(
   const entity = world.createEntity();
   
   // Get target (Dyson Sphere) position for reference
-  const dysonPosition = world.getComponent<Position>(targetEntity, 'Position');
+  const dysonPosition = world.getComponent(targetEntity, 'Position');
   if (!dysonPosition) return entity;
   
   // Add position component - start at the specified spawn position
@@ -50,6 +50,7 @@ export function createGrunt(
     current: 10, 
     max: 10 
   });
+  world.addComponent(entity, 'LastDamage', { attacker: null, type: null, source: null });
   
   // Add renderable component with initial small scale
   const renderable = {
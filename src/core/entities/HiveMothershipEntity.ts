@@ -0,0 +1,163 @@
+import { World } from '../World';
+import * as THREE from 'three';
+import { Position, Rotation } from '../components';
+import { Entity } from '../entityHandle';
+import { HIVE_MOTHERSHIP } from '../../constants/bosses';
+import { BossDefinition } from '../../types/boss';
+import { COLORS } from '../../constants/colors';
+
+export function createHiveMothership(
+  world: World,
+  position: { x: number, y: number, z: number },
+  targetEntity: number, // The entity ID the boss circles and attacks (usually Dyson Sphere)
+  healthMultiplier: number = 1 // Scales core health for later appearances
+): number {
+  const definition = HIVE_MOTHERSHIP;
+  const boss = world.createEntity();
+
+  world.addComponent(boss, 'Position', {
+    x: position.x,
+    y: position.y,
+    z: position.z
+  });
+
+  // Face the target from the start so the weak points mount on the right side
+  const rotation = { x: 0, y: 0, z: 0 };
+  const targetPosition = world.getComponent(targetEntity, 'Position');
+  if (targetPosition) {
+    const tempObj = new THREE.Object3D();
+    tempObj.position.set(position.x, position.y, position.z);
+    tempObj.lookAt(targetPosition.x, targetPosition.y, targetPosition.z);
+    const euler = new THREE.Euler().setFromQuaternion(tempObj.quaternion, 'YXZ');
+    rotation.x = euler.x;
+    rotation.y = euler.y;
+    rotation.z = euler.z;
+  }
+  world.addComponent(boss, 'Rotation', rotation);
+
+  // Counts as an enemy for waves, radar, scoring and drops; BossSystem drives it
+  world.addComponent(boss, 'Enemy', {
+    targetEntity: targetEntity,
+    type: 'hiveMothership',
+    speed: definition.approachSpeed,
+    damage: definition.contactDamage,
+    attackCooldown: definition.contactCooldown,
+    currentCooldown: 0,
+    inSiegeMode: false,
+    laserCooldown: 0, // Volleys are timed per attack by BossSystem
+    currentLaserCooldown: 0,
+    canMove: true,
+    canShoot: true
+  });
+
+  const maxHealth = Math.round(definition.health * healthMultiplier);
+  world.addComponent(boss, 'Health', {
+    current: maxHealth,
+    max: maxHealth
+  });
+  world.addComponent(boss, 'LastDamage', { attacker: null, type: null, source: null });
+
+  world.addComponent(boss, 'Boss', {
+    bossId: 'hiveMothership',
+    phase: 0,
+    weakPoints: [],
+    attackTimers: definition.phases[0].attacks.map(attack => attack.interval),
+    arrived: false,
+    orbitAngle: 0,
+    orbitHeight: 0,
+    contactCooldown: 0
+  });
+
+  world.addComponent(boss, 'Renderable', {
+    modelId: definition.modelId,
+    scale: definition.scale,
+    color: definition.color,
+    isVisible: true
+  });
+
+  // Own layer: projectiles and the player interact with it, but it never rams the Dyson Sphere
+  world.addComponent(boss, 'Collider', {
+    type: 'sphere',
+    radius: definition.colliderRadius,
+    isTrigger: false,
+    layer: 'boss'
+  });
+
+  world.addComponent(boss, 'Velocity', {
+    x: 0,
+    y: 0,
+    z: 0
+  });
+
+  const bossComponent = world.getComponent(boss, 'Boss')!;
+  for (const offset of definition.weakPoint.offsets.slice(0, definition.phases[0].weakPoints)) {
+    bossComponent.weakPoints.push(createBossWeakPoint(world, boss, definition, offset));
+  }
+
+  return boss;
+}
+
+/**
+ * Creates a weak point mounted on a boss. BossSystem keeps it attached as the boss moves.
+ */
+export function createBossWeakPoint(
+  world: World,
+  boss: Entity,
+  definition: BossDefinition,
+  offset: Position
+): Entity {
+  const weakPoint = world.createEntity();
+
+  const bossPosition = world.getComponent(boss, 'Position') ?? { x: 0, y: 0, z: 0 };
+  const bossRotation = world.getComponent(boss, 'Rotation') ?? { x: 0, y: 0, z: 0 };
+  world.addComponent(weakPoint, 'Position', getWeakPointPosition(bossPosition, bossRotation, offset));
+  world.addComponent(weakPoint, 'Rotation', { ...bossRotation });
+
+  world.addComponent(weakPoint, 'WeakPoint', {
+    boss,
+    offset: { ...offset }
+  });
+
+  world.addComponent(weakPoint, 'Health', {
+    current: definition.weakPoint.health,
+    max: definition.weakPoint.health
+  });
+  world.addComponent(weakPoint, 'LastDamage', { attacker: null, type: null, source: null });
+
+  world.addComponent(weakPoint, 'HealthBarComponent', {
+    entity: weakPoint,
+    offsetY: -30,
+    width: 40,
+    height: 4,
+    visible: false,
+    showWhenDamaged: true
+  });
+
+  world.addComponent(weakPoint, 'Renderable', {
+    modelId: 'bossWeakPoint',
+    scale: definition.weakPoint.scale,
+    color: COLORS.HIVE_WEAK_POINT,
+    isVisible: true
+  });
+
+  world.addComponent(weakPoint, 'Collider', {
+    type: 'sphere',
+    radius: definition.weakPoint.colliderRadius,
+    isTrigger: false,
+    layer: 'boss'
+  });
+
+  return weakPoint;
+}
+
+// World position of a mount point given the boss's position and YXZ rotation
+export function getWeakPointPosition(bossPosition: Position, bossRotation: Rotation, offset: Position): Position {
+  const mount = new THREE.Vector3(offset.x, offset.y, offset.z)
+    .applyEuler(new THREE.Euler(bossRotation.x, bossRotation.y, bossRotation.z, 'YXZ'));
+
+  return {
+    x: bossPosition.x + mount.x,
+    y: bossPosition.y + mount.y,
+    z: bossPosition.z + mount.z
+  };
+}
@@ -10,6 +10,8 @@ export interface LaserOptions {
   colliderWidth?: number;
   colliderHeight?: number;
   colliderDepth?: number;
+  // Capsule colliders round off long beams; the width sets the capsule's diameter
+  colliderShape?: 'box' | 'capsule';
   accuracyShotId?: number;
 }
 
@@ -28,7 +30,7 @@ export function createLaser(
   const isPlayerLaser = world.hasComponent(ownerEntity, 'InputReceiver');
   
   // Check if the owner is a Warp Raider
-  const enemy = world.getComponent<{ type: string }>(ownerEntity, 'Enemy');
+  const enemy = world.getComponent(ownerEntity, 'Enemy');
   const isWarpRaider = enemy?.type === 'warpRaider';
   
   // Add position component
@@ -90,15 +92,25 @@ export function createLaser(
     accuracyShotId: options.accuracyShotId
   });
   
-  // Add collider component for collision detection
-  world.addComponent(entity, 'Collider', {
-    type: 'box',
-    width: options.colliderWidth ?? 0.25,
-    height: options.colliderHeight ?? 0.25,
-    depth: options.colliderDepth ?? 5,
-    isTrigger: true,
-    layer: 'projectile'
-  });
+  // Add collider component for collision detection; it turns with the laser's rotation
+  if (options.colliderShape === 'capsule') {
+    world.addComponent(entity, 'Collider', {
+      type: 'capsule',
+      radius: (options.colliderWidth ?? 0.25) / 2,
+      length: options.colliderDepth ?? 5,
+      isTrigger: true,
+      layer: 'projectile'
+    });
+  } else {
+    world.addComponent(entity, 'Collider', {
+      type: 'box',
+      width: options.colliderWidth ?? 0.25,
+      height: options.colliderHeight ?? 0.25,
+      depth: options.colliderDepth ?? 5,
+      isTrigger: true,
+      layer: 'projectile'
+    });
+  }
   
   return entity;
 }
@@ -0,0 +1,98 @@
+import { World } from '../World';
+import { COLORS } from '../../constants/colors';
+
+export function createMedic(
+  world: World,
+  position: { x: number, y: number, z: number },
+  targetEntity: number // The Dyson Sphere entity ID whose siege line this medic supports
+): number {
+  const entity = world.createEntity();
+
+  // Add position component - start at the specified spawn position
+  world.addComponent(entity, 'Position', {
+    x: position.x,
+    y: position.y,
+    z: position.z
+  });
+
+  // Add rotation component
+  world.addComponent(entity, 'Rotation', {
+    x: 0,
+    y: 0,
+    z: 0
+  });
+
+  // Add enemy-specific component to track target and behavior
+  world.addComponent(entity, 'Enemy', {
+    targetEntity: targetEntity,
+    type: 'medic',
+    speed: 14, // Units per second - keeps up with the grunts it supports
+    damage: 10, // Ramming damage to the player
+    attackCooldown: 0,
+    currentCooldown: 0,
+    inSiegeMode: false, // Never sieges; it hangs back behind the siege line
+    laserCooldown: 0, // No lasers; it only heals
+    currentLaserCooldown: 0,
+    canMove: true,
+    canShoot: false // Medic can't heal until the shooting timer completes
+  });
+
+  // Add repair data; the medic behaviour picks the patient and channels the beam
+  world.addComponent(entity, 'Medic', {
+    patient: null,
+    retargetTimer: 0
+  });
+
+  // Add health component - fragile, so it is worth hunting down first
+  world.addComponent(entity, 'Health', {
+    current: 60,
+    max: 60
+  });
+  world.addComponent(entity, 'LastDamage', { attacker: null, type: null, source: null });
+
+  // Add health bar component that only shows when damaged
+  world.addComponent(entity, 'HealthBarComponent', {
+    entity: entity,
+    width: 50,
+    height: 6,
+    offsetY: -45,
+    showWhenDamaged: true,
+    visible: false
+  });
+
+  // Add renderable component with initial small scale
+  world.addComponent(entity, 'Renderable', {
+    modelId: 'medic',
+    scale: 0.1, // Start with a small scale
+    color: COLORS.MEDIC_HULL,
+    isVisible: true
+  });
+
+  // Add collider for collision detection
+  world.addComponent(entity, 'Collider', {
+    type: 'sphere',
+    radius: 4.0,
+    isTrigger: false,
+    layer: 'enemy'
+  });
+
+  // Add velocity component (initialized to zero, will be set by EnemySystem)
+  world.addComponent(entity, 'Velocity', {
+    x: 0,
+    y: 0,
+    z: 0
+  });
+
+  // Add a growth animation component that matches the wormhole's timing
+  world.addComponent(entity, 'Animation', {
+    type: 'growth',
+    progress: 0,
+    duration: 3.5, // 70% of the 5-second wormhole animation (growing + stable phases)
+    isComplete: false,
+    data: {
+      finalScale: 4.0 // Target scale to grow to
+    }
+  });
+
+  return entity;
+}
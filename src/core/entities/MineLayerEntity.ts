@@ -0,0 +1,174 @@
+import { World } from '../World';
+import { Position } from '../components';
+import { Entity } from '../entityHandle';
+import { COLORS } from '../../constants/colors';
+
+const MINE_ARM_TIME = 2; // Seconds before a fresh mine can go off
+const MINE_FUSE = 0.8; // Seconds of rapid blinking between trigger and detonation
+const MINE_LIFETIME = 45; // Seconds before an untriggered mine fizzles out
+
+export function createMineLayer(
+  world: World,
+  position: { x: number, y: number, z: number },
+  targetEntity: number // The Dyson Sphere entity ID that this mine layer circles
+): number {
+  const entity = world.createEntity();
+
+  // Add position component - start at the specified spawn position
+  world.addComponent(entity, 'Position', {
+    x: position.x,
+    y: position.y,
+    z: position.z
+  });
+
+  // Add rotation component
+  world.addComponent(entity, 'Rotation', {
+    x: 0,
+    y: 0,
+    z: 0
+  });
+
+  // Add enemy-specific component to track target and behavior
+  world.addComponent(entity, 'Enemy', {
+    targetEntity: targetEntity,
+    type: 'mineLayer',
+    speed: 16, // Units per second
+    damage: 20, // Ramming damage to the player
+    attackCooldown: 0,
+    currentCooldown: 0,
+    inSiegeMode: false, // Never sieges; it mines the space around the Dyson Sphere instead
+    laserCooldown: 0, // No lasers; mines are timed by the MineLayer component
+    currentLaserCooldown: 0,
+    canMove: true,
+    canShoot: false // Enemy can't lay mines until the shooting timer completes
+  });
+
+  // Add mine-laying data; the mine layer behaviour picks the orbit heading on arrival
+  world.addComponent(entity, 'MineLayer', {
+    orbitDirection: { x: 0, y: 0, z: 0 },
+    mineTimer: 0,
+    mines: []
+  });
+
+  // Add health component
+  world.addComponent(entity, 'Health', {
+    current: 80,
+    max: 80
+  });
+  world.addComponent(entity, 'LastDamage', { attacker: null, type: null, source: null });
+
+  // Blast-hardened hull, so it can fly through its own minefield
+  world.addComponent(entity, 'Resistances', { kinetic: 0.5 });
+
+  // Add health bar component that only shows when damaged
+  world.addComponent(entity, 'HealthBarComponent', {
+    entity: entity,
+    width: 55,
+    height: 6,
+    offsetY: -50,
+    showWhenDamaged: true,
+    visible: false
+  });
+
+  // Add renderable component with initial small scale
+  world.addComponent(entity, 'Renderable', {
+    modelId: 'mineLayer',
+    scale: 0.1, // Start with a small scale
+    color: COLORS.MINE_LAYER_HULL,
+    isVisible: true
+  });
+
+  // Add collider for collision detection
+  world.addComponent(entity, 'Collider', {
+    type: 'sphere',
+    radius: 5.0,
+    isTrigger: false,
+    layer: 'enemy'
+  });
+
+  // Add velocity component (initialized to zero, will be set by EnemySystem)
+  world.addComponent(entity, 'Velocity', {
+    x: 0,
+    y: 0,
+    z: 0
+  });
+
+  // Add a growth animation component that matches the wormhole's timing
+  world.addComponent(entity, 'Animation', {
+    type: 'growth',
+    progress: 0,
+    duration: 3.5, // 70% of the 5-second wormhole animation (growing + stable phases)
+    isComplete: false,
+    data: {
+      finalScale: 5.0 // Target scale to grow to
+    }
+  });
+
+  return entity;
+}
+
+/**
+ * Creates a proximity mine where a Mine Layer is. It hangs in space, arms after a short
+ * delay and goes off near the player (see MineSystem), on contact or when shot down.
+ */
+export function createSpaceMine(
+  world: World,
+  position: Position,
+  ownerEntity: Entity
+): Entity {
+  const entity = world.createEntity();
+
+  world.addComponent(entity, 'Position', {
+    x: position.x,
+    y: position.y,
+    z: position.z
+  });
+
+  world.addComponent(entity, 'Rotation', {
+    x: 0,
+    y: 0,
+    z: 0
+  });
+
+  // Slow spin while it waits
+  world.addComponent(entity, 'AutoRotate', {
+    speedX: 0.3,
+    speedY: 0.8,
+    speedZ: 0
+  });
+
+  world.addComponent(entity, 'Mine', {
+    ownerEntity,
+    damage: 30,
+    triggerRadius: 25,
+    blastRadius: 35,
+    armTimer: MINE_ARM_TIME,
+    fuse: MINE_FUSE,
+    triggered: false,
+    lifetime: MINE_LIFETIME
+  });
+
+  // Two hits from the base laser
+  world.addComponent(entity, 'Health', {
+    current: 10,
+    max: 10
+  });
+  world.addComponent(entity, 'LastDamage', { attacker: null, type: null, source: null });
+
+  world.addComponent(entity, 'Renderable', {
+    modelId: 'spaceMine',
+    scale: 1.5,
+    color: COLORS.SPACE_MINE,
+    isVisible: true
+  });
+
+  // Own layer: shootable and hits the player, but never counted as an enemy
+  world.addComponent(entity, 'Collider', {
+    type: 'sphere',
+    radius: 2.5,
+    isTrigger: false,
+    layer: 'mine'
+  });
+
+  return entity;
+}
@@ -0,0 +1,101 @@
+import { World } from '../World';
+import { COLORS } from '../../constants/colors';
+import { CLOAKED_OPACITY } from '../../constants/cloak';
+
+export function createPhantom(
+  world: World,
+  position: { x: number, y: number, z: number },
+  targetEntity: number // The Dyson Sphere entity ID that this enemy falls back to attacking
+): number {
+  const entity = world.createEntity();
+
+  // Add position component - start at the specified spawn position
+  world.addComponent(entity, 'Position', {
+    x: position.x,
+    y: position.y,
+    z: position.z
+  });
+
+  // Add rotation component
+  world.addComponent(entity, 'Rotation', {
+    x: 0,
+    y: 0,
+    z: 0
+  });
+
+  // Add enemy-specific component to track target and behavior
+  world.addComponent(entity, 'Enemy', {
+    targetEntity: targetEntity,
+    type: 'phantom',
+    speed: 20, // Units per second - quick, but slower than a Warp Raider
+    damage: 15,
+    attackCooldown: 2,
+    currentCooldown: 0,
+    inSiegeMode: false, // Start in normal mode
+    laserCooldown: 4.0, // Long gaps between shots; every shot gives its position away
+    currentLaserCooldown: 0,
+    canMove: true,
+    canShoot: false // Enemy can't shoot until the shooting timer completes
+  });
+
+  // Arrives cloaked; CloakSystem fades it in when revealed
+  world.addComponent(entity, 'Cloak', {
+    visibility: 0,
+    revealTimer: 0,
+    flickerTime: 0
+  });
+
+  // Add health component - fragile once found
+  world.addComponent(entity, 'Health', {
+    current: 40,
+    max: 40
+  });
+  world.addComponent(entity, 'LastDamage', { attacker: null, type: null, source: null });
+
+  // Add health bar component that only shows when damaged (and decloaked)
+  world.addComponent(entity, 'HealthBarComponent', {
+    entity: entity,
+    width: 50,
+    height: 6,
+    offsetY: -45,
+    showWhenDamaged: true,
+    visible: false
+  });
+
+  // Add renderable component with initial small scale
+  world.addComponent(entity, 'Renderable', {
+    modelId: 'phantom',
+    scale: 0.1, // Start with a small scale
+    color: COLORS.PHANTOM_HULL,
+    isVisible: true,
+    cloakOpacity: CLOAKED_OPACITY
+  });
+
+  // Add collider for collision detection
+  world.addComponent(entity, 'Collider', {
+    type: 'sphere',
+    radius: 4.0,
+    isTrigger: false,
+    layer: 'enemy'
+  });
+
+  // Add velocity component (initialized to zero, will be set by EnemySystem)
+  world.addComponent(entity, 'Velocity', {
+    x: 0,
+    y: 0,
+    z: 0
+  });
+
+  // Add a growth animation component that matches the wormhole's timing
+  world.addComponent(entity, 'Animation', {
+    type: 'growth',
+    progress: 0,
+    duration: 3.5, // 70% of the 5-second wormhole animation (growing + stable phases)
+    isComplete: false,
+    data: {
+      finalScale: 4.0 // Target scale to grow to
+    }
+  });
+
+  return entity;
+}
@@ -34,6 +34,7 @@ export function createPlayerShip(world: World): number {
     current: 100,
     max: 100
   });
+  world.addComponent(entity, 'LastDamage', { attacker: null, type: null, source: null });
   
   // Add weapon cooldown component
   world.addComponent(entity, 'LaserCooldown', {
@@ -2,14 +2,14 @@ import { World } from '../World';
 import * as THREE from 'three';
 import { Position } from '../components';
 import { COLORS } from '../../constants/colors';
+import { Random } from '../Random';
 
 /**
- * Returns a random power-up type
+ * Returns a random power-up type drawn from the given random stream
  */
-export function getRandomPowerUpType(): 'fireRate' | 'speed' | 'health' {
-  const types = ['fireRate', 'speed', 'health'];
-  const randomIndex = Math.floor(Math.random() * types.length);
-  return types[randomIndex] as 'fireRate' | 'speed' | 'health';
+export function getRandomPowerUpType(random: Random): 'fireRate' | 'speed' | 'health' {
+  const types = ['fireRate', 'speed', 'health'] as const;
+  return random.pick(types);
 }
 
 /**
@@ -1,6 +1,6 @@
 import { World } from '../World';
 import * as THREE from 'three';
-import { Position, Velocity, Rotation, Health, Collider, Enemy, ShieldComponent, ShieldBubbleComponent, ShieldBarComponent } from '../components';
+import { Position, Velocity, Rotation, Health, Collider, Enemy, ShieldComponent, ShieldBarComponent } from '../components';
 import { COLORS } from '../../constants/colors';
 
 export function createShieldGuardian(
@@ -45,6 +45,7 @@ export function createShieldGuardian(
     current: 1, // Reduced from 50 to 1 (one-shot kill)
     max: 1 
   });
+  world.addComponent(guardian, 'LastDamage', { attacker: null, type: null, source: null });
   
   // Add shield component
   world.addComponent(guardian, 'ShieldComponent', {
@@ -146,7 +147,7 @@ export function disposeShieldGuardian(world: World, entity: number): void {
   // Find and remove the shield bubble entity
   const bubbles = world.getEntitiesWith(['ShieldBubbleComponent']);
   for (const bubble of bubbles) {
-    const bubbleComponent = world.getComponent<ShieldBubbleComponent>(bubble, 'ShieldBubbleComponent');
+    const bubbleComponent = world.getComponent(bubble, 'ShieldBubbleComponent');
     if (bubbleComponent && bubbleComponent.guardian === entity) {
       world.removeEntity(bubble);
       break;
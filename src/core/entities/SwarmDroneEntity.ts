@@ -0,0 +1,123 @@
+import { World } from '../World';
+import { Entity } from '../entityHandle';
+import { COLORS } from '../../constants/colors';
+
+const HARASS_SHARE = 1 / 3; // Share of each swarm that goes after the player
+const SWARM_SPREAD = 6; // Drones appear within this radius of the wormhole exit
+const LAUNCH_SPEED = 10; // Initial burst outward from the swarm's center
+
+export function createSwarmDrone(
+  world: World,
+  position: { x: number, y: number, z: number },
+  targetEntity: number, // The Dyson Sphere entity ID that divers attack
+  swarmId: number,
+  role: 'harass' | 'dive',
+  velocity: { x: number, y: number, z: number } = { x: 0, y: 0, z: 0 }
+): number {
+  const entity = world.createEntity();
+  
+  world.addComponent(entity, 'Position', { 
+    x: position.x, 
+    y: position.y, 
+    z: position.z 
+  });
+  
+  world.addComponent(entity, 'Rotation', { 
+    x: 0, 
+    y: 0, 
+    z: 0 
+  });
+  
+  // Fast and fragile; SwarmSystem steers it and it deals damage by ramming
+  world.addComponent(entity, 'Enemy', {
+    targetEntity: targetEntity,
+    type: 'swarmDrone',
+    speed: 30, // Top speed while flocking
+    damage: 4, // Dealt to the player or the Dyson Sphere on impact
+    attackCooldown: 0,
+    currentCooldown: 0,
+    inSiegeMode: false,
+    laserCooldown: 0, // No lasers
+    currentLaserCooldown: 0,
+    canMove: true,
+    canShoot: false
+  });
+  
+  world.addComponent(entity, 'SwarmDrone', {
+    swarmId,
+    role
+  });
+  
+  // Any hit destroys it
+  world.addComponent(entity, 'Health', { 
+    current: 5, 
+    max: 5 
+  });
+  world.addComponent(entity, 'LastDamage', { attacker: null, type: null, source: null });
+  
+  world.addComponent(entity, 'Renderable', {
+    modelId: 'swarmDrone',
+    scale: 1.5,
+    color: COLORS.SWARM_DRONE_BODY,
+    isVisible: true
+  });
+  
+  world.addComponent(entity, 'Collider', {
+    type: 'sphere',
+    radius: 1.5,
+    isTrigger: false,
+    layer: 'enemy'
+  });
+  
+  world.addComponent(entity, 'Velocity', { 
+    x: velocity.x, 
+    y: velocity.y, 
+    z: velocity.z 
+  });
+  
+  return entity;
+}
+
+/**
+ * Spawns a whole swarm around one wormhole exit. The first drone's id becomes the
+ * swarm id; a third of the swarm harasses the player and the rest dive at the target.
+ * Returns the drones created.
+ */
+export function createSwarm(
+  world: World,
+  center: { x: number, y: number, z: number },
+  targetEntity: number,
+  size: number
+): Entity[] {
+  const random = world.getRandomStream('swarms');
+  const harassers = Math.round(size * HARASS_SHARE);
+  const drones: Entity[] = [];
+  let swarmId = -1;
+  
+  for (let i = 0; i < size; i++) {
+    // Random direction for the drone's offset and launch burst
+    const z = random.range(-1, 1);
+    const angle = random.range(0, Math.PI * 2);
+    const planar = Math.sqrt(1 - z * z);
+    const dirX = planar * Math.cos(angle);
+    const dirY = planar * Math.sin(angle);
+    const distance = random.range(0, SWARM_SPREAD);
+    
+    const drone = createSwarmDrone(
+      world,
+      { x: center.x + dirX * distance, y: center.y + dirY * distance, z: center.z + z * distance },
+      targetEntity,
+      swarmId,
+      i < harassers ? 'harass' : 'dive',
+      { x: dirX * LAUNCH_SPEED, y: dirY * LAUNCH_SPEED, z: z * LAUNCH_SPEED }
+    );
+    
+    if (swarmId === -1) {
+      swarmId = drone;
+      world.getComponent(drone, 'SwarmDrone')!.swarmId = drone;
+    }
+    drones.push(drone);
+  }
+  
+  return drones;
+}
@@ -1,6 +1,6 @@
 import { World } from '../World';
 import * as THREE from 'three';
-import { Position, Renderable, Velocity, Rotation, Health, Collider, Animation, Enemy, HealthBarComponent } from '../components';
+import { Renderable, Velocity, Rotation, Health, Collider, Animation, Enemy, HealthBarComponent } from '../components';
 import { COLORS } from '../../constants/colors';
 
 export function createWarpRaider(
@@ -11,7 +11,7 @@ export function createWarpRaider(
   const entity = world.createEntity();
   
   // Get target (Dyson Sphere) position for reference
-  const dysonPosition = world.getComponent<Position>(targetEntity, 'Position');
+  const dysonPosition = world.getComponent(targetEntity, 'Position');
   if (!dysonPosition) return entity;
   
   // Add position component - start at the specified spawn position
@@ -48,6 +48,7 @@ export function createWarpRaider(
     current: 100, 
     max: 100 
   });
+  world.addComponent(entity, 'LastDamage', { attacker: null, type: null, source: null });
   
   // Add health bar component that only shows when damaged
   world.addComponent(entity, 'HealthBarComponent', {
@@ -1,6 +1,6 @@
 import { World } from '../World';
 import * as THREE from 'three';
-import { Position, Animation, WormholeAnimationData } from '../components';
+import { Animation, WormholeAnimationData } from '../components';
 
 /**
  * Creates a wormhole entity that will animate independently from any enemy
@@ -19,7 +19,7 @@ export function createWormhole(
   const entity = world.createEntity();
   
   // Get target (Dyson Sphere) position for reference
-  const targetPosition = world.getComponent<Position>(targetEntity, 'Position');
+  const targetPosition = world.getComponent(targetEntity, 'Position');
   if (!targetPosition) return entity;
   
   // Add position component - fixed at the spawn location
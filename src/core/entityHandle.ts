@@ -0,0 +1,23 @@
+// src/core/entityHandle.ts
+// Entity handles pack a slot index and a generation counter into one number:
+//   handle = generation * MAX_ENTITIES + index
+// World recycles the slots of removed entities and bumps their generation, so a handle kept
+// in a component (Projectile.ownerEntity, Enemy.targetEntity, ...) stops matching once the
+// entity it named is gone, even if a new entity now occupies the same slot.
+// Generation 0 handles equal their index, so the first entities are still 0, 1, 2...
+
+export type Entity = number;
+
+export const MAX_ENTITIES = 1 << 20; // Live entities at once, not over a whole run
+
+export function makeEntityHandle(index: number, generation: number): Entity {
+  return generation * MAX_ENTITIES + index;
+}
+
+export function getEntityIndex(entity: Entity): number {
+  return entity % MAX_ENTITIES;
+}
+
+export function getEntityGeneration(entity: Entity): number {
+  return Math.floor(entity / MAX_ENTITIES);
+}
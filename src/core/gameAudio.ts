@@ -0,0 +1,43 @@
+import { World } from './World';
+import { AudioManager } from './AudioManager';
+
+/**
+ * Plays sound effects for gameplay events. Headless runs simply never register it.
+ * Returns a function that removes every subscription.
+ */
+export function registerGameAudio(world: World, audioManager: AudioManager): () => void {
+  const unsubscribers = [
+    world.on('EnemyDestroyed', ({ enemyType }) => {
+      audioManager.playSound('explosion', false, 0.5);
+      if (enemyType === 'asteroid' || enemyType === 'carrier' || enemyType === 'hiveMothership') {
+        // Louder second blast for asteroids, carriers and bosses
+        audioManager.playSound('explosion', false, 0.8);
+      }
+    }),
+    world.on('BossWeakPointDestroyed', () => {
+      audioManager.playSound('explosion', false, 0.6);
+    }),
+    world.on('BombDetonated', () => {
+      audioManager.playSound('explosion', false, 0.7);
+    }),
+    world.on('BombIntercepted', () => {
+      audioManager.playSound('explosion', false, 0.3);
+    }),
+    world.on('MineDetonated', () => {
+      audioManager.playSound('explosion', false, 0.6);
+    }),
+    world.on('ProjectileReflected', () => {
+      audioManager.playSound('laser', false, 0.3);
+    }),
+    world.on('PlayerDamaged', ({ healthRemaining }) => {
+      if (healthRemaining <= 0) {
+        audioManager.playSound('explosion', false, 0.7);
+      }
+    }),
+    world.on('PowerUpCollected', () => {
+      audioManager.playSound('powerup', false, 0.6);
+    })
+  ];
+
+  return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+}
@@ -0,0 +1,260 @@
+import * as THREE from 'three';
+import { World } from '../World';
+import { GameStateManager } from '../State';
+import { Random } from '../Random';
+import { createDysonSphere } from '../entities/DysonSphereEntity';
+import { createCentralStar } from '../entities/StarEntity';
+import { createPlayerShip } from '../entities/PlayerShipEntity';
+import { createCamera } from '../entities/CameraEntity';
+import { createHUD } from '../entities/HUDEntity';
+import { InterpolationSystem } from '../systems/InterpolationSystem';
+import { InputSystem } from '../systems/InputSystem';
+import { MovementSystem } from '../systems/MovementSystem';
+import { CollisionSystem } from '../systems/CollisionSystem';
+import { PowerUpSystem } from '../systems/PowerUpSystem';
+import { WeaponSystem } from '../systems/WeaponSystem';
+import { EnemySystem } from '../systems/EnemySystem';
+import { BossSystem } from '../systems/BossSystem';
+import { SwarmSystem } from '../systems/SwarmSystem';
+import { CloakSystem } from '../systems/CloakSystem';
+import { MineSystem } from '../systems/MineSystem';
+import { ShieldSystem } from '../systems/ShieldSystem';
+import { ShieldBubbleSystem } from '../systems/ShieldBubbleSystem';
+import { HealthBarSystem } from '../systems/HealthBarSystem';
+import { HUDSystem } from '../systems/HUDSystem';
+import { WaveSystem } from '../systems/WaveSystem';
+import { FloatingScoreSystem } from '../systems/FloatingScoreSystem';
+import { AnimationSystem } from '../systems/AnimationSystem';
+import { AutoRotateSystem } from '../systems/AutoRotateSystem';
+import { DysonDamageZoneSystem } from '../systems/DysonDamageZoneSystem';
+import { ScriptedBotInput } from '../input/ScriptedBotInput';
+import { updateStarPower, clearAccuracyShots } from '../accuracy';
+import { purchaseUpgrade } from '../upgrades';
+import { registerScoring } from '../scoring';
+import {
+  SimulationOptions,
+  SimulationSummary,
+  SimulationEndReason,
+  SimulationBatchSummary
+} from '../../types/simulation';
+import { DamageTotals } from '../../types/damage';
+
+const STEP_SECONDS = 1 / 60; // Same fixed step as Game
+const DEFAULT_MAX_SECONDS = 30 * 60;
+
+function roundTotals(totals: DamageTotals): DamageTotals {
+  const rounded = { ...totals };
+  for (const type of Object.keys(rounded) as (keyof DamageTotals)[]) {
+    rounded[type] = Math.round(rounded[type]);
+  }
+  return rounded;
+}
+
+/**
+ * HeadlessSimulation
+ *
+ * Purpose:
+ * Runs a full game in plain Node (or a worker) with no renderer, audio or DOM,
+ * so difficulty can be tuned over hundreds of seeded games.
+ *
+ * Responsibilities:
+ * - Builds a World with the same simulation systems, in the same order, as Game.initSystems
+ * - Renders nothing: systems draw into a THREE.Scene that is never displayed, and audio is
+ *   omitted (registerGameAudio is never called)
+ * - Drives the player with a ScriptedBotInput, including its upgrade choices between waves
+ * - Tracks Dyson Sphere damage and reports a SimulationSummary when the run ends
+ */
+export class HeadlessSimulation {
+  private world: World;
+  private stateManager: GameStateManager;
+  private bot: ScriptedBotInput;
+  private waveSystem: WaveSystem;
+  private playerEntity: number;
+  private dysonSphereEntity: number;
+  private options: SimulationOptions;
+  private dysonDamageTaken = 0;
+  private lastDysonIntegrity = 0;
+  private upgradesPurchased: string[] = [];
+
+  constructor(options: SimulationOptions = {}) {
+    this.options = options;
+    this.world = new World(options.seed ?? Random.createSeed());
+    this.stateManager = new GameStateManager();
+    this.world.setGameState(this.stateManager.getStateReference());
+    clearAccuracyShots();
+
+    // Never added to a renderer; lets the scene-owning systems run unchanged
+    const scene = new THREE.Scene();
+
+    // Subscribed ahead of the systems, as in Game, so kill rewards resolve before drops
+    registerScoring(this.world, this.stateManager);
+
+    this.bot = new ScriptedBotInput(this.world, STEP_SECONDS, options.bot);
+    const hudSystem = new HUDSystem(this.world);
+    this.waveSystem = new WaveSystem(this.world, this.stateManager, options.waveScript);
+    const animationSystem = new AnimationSystem(this.world, scene);
+    const collisionSystem = new CollisionSystem(this.world, this.stateManager);
+    const powerUpSystem = new PowerUpSystem(this.world, scene);
+    const weaponSystem = new WeaponSystem(this.world, scene);
+    const enemySystem = new EnemySystem(this.world, scene, weaponSystem);
+
+    // Keep in step with Game.initSystems (minus dev tools and render-phase systems)
+    this.world.addSystem(new InterpolationSystem(this.world));
+    this.world.addSystem(new InputSystem(this.world, this.bot));
+    this.world.addSystem(new MovementSystem(this.world));
+    this.world.addSystem(collisionSystem);
+    this.world.addSystem(powerUpSystem);
+    this.world.addSystem(weaponSystem);
+    this.world.addSystem(enemySystem);
+    this.world.addSystem(new BossSystem(this.world, weaponSystem));
+    this.world.addSystem(new SwarmSystem(this.world));
+    this.world.addSystem(new CloakSystem(this.world));
+    this.world.addSystem(new MineSystem(this.world));
+    this.world.addSystem(new ShieldSystem(this.world));
+    this.world.addSystem(new ShieldBubbleSystem(this.world));
+    this.world.addSystem(new HealthBarSystem(this.world));
+    this.world.addSystem(hudSystem);
+    this.world.addSystem(this.waveSystem);
+    this.world.addSystem(new FloatingScoreSystem(this.world));
+    this.world.addSystem(animationSystem);
+    this.world.addSystem(new AutoRotateSystem(this.world));
+    this.world.addSystem(new DysonDamageZoneSystem(this.world));
+
+    // Same entities as Game.initEntities, minus the purely visual starfield
+    this.dysonSphereEntity = createDysonSphere(this.world);
+    createCentralStar(this.world);
+    this.playerEntity = createPlayerShip(this.world);
+    createCamera(this.world, this.playerEntity);
+    createHUD(this.world, this.playerEntity, this.dysonSphereEntity);
+
+    this.waveSystem.findDysonSphereEntity();
+    this.waveSystem.resetWaves();
+    hudSystem.startGame();
+
+    this.lastDysonIntegrity = this.getDysonIntegrity();
+  }
+
+  public getWorld(): World {
+    return this.world;
+  }
+
+  /**
+   * Advance one fixed step. Returns the reason the run ended, or null while it continues.
+   */
+  public step(): SimulationEndReason | null {
+    const state = this.stateManager.getStateReference();
+
+    if (state.upgradeDraftAvailable) {
+      this.resolveUpgradeDraft();
+    }
+
+    this.world.update(STEP_SECONDS);
+    updateStarPower(state, STEP_SECONDS);
+    this.trackDysonDamage();
+
+    if (state.isGameOver) {
+      return this.getGameOverReason();
+    }
+    if (this.options.maxWaves !== undefined && state.wavesCompleted >= this.options.maxWaves) {
+      return 'waveLimit';
+    }
+    if (this.world.getElapsedTime() >= (this.options.maxSeconds ?? DEFAULT_MAX_SECONDS)) {
+      return 'timeLimit';
+    }
+    return null;
+  }
+
+  public run(): SimulationSummary {
+    let endReason: SimulationEndReason | null = null;
+    while (endReason === null) {
+      endReason = this.step();
+    }
+    return this.getSummary(endReason);
+  }
+
+  public getSummary(endReason: SimulationEndReason): SimulationSummary {
+    const state = this.stateManager.getStateReference();
+    const dysonHealth = this.world.getComponent(this.dysonSphereEntity, 'Health');
+
+    return {
+      seed: this.world.getRandomSeed(),
+      endReason,
+      wavesCompleted: state.wavesCompleted,
+      waveReached: this.waveSystem.getWaveInfo()?.currentWave ?? 0,
+      score: state.score,
+      enemiesDefeated: state.enemiesDefeated,
+      dysonDamageTaken: Math.round(this.dysonDamageTaken),
+      dysonHealthRemaining: dysonHealth ? Math.max(0, dysonHealth.current) : 0,
+      damageDealt: roundTotals(state.damageDealt),
+      damageTaken: roundTotals(state.damageTaken),
+      simulatedSeconds: Math.round(this.world.getElapsedTime()),
+      upgradesPurchased: [...this.upgradesPurchased]
+    };
+  }
+
+  // Buy everything the bot wants and can afford, then close the draft like the skip button does
+  private resolveUpgradeDraft(): void {
+    const state = this.stateManager.getStateReference();
+    let upgradeId = this.bot.chooseUpgrade(state);
+    while (upgradeId !== null && purchaseUpgrade(this.world, state, upgradeId)) {
+      this.upgradesPurchased.push(upgradeId);
+      upgradeId = this.bot.chooseUpgrade(state);
+    }
+    state.upgradeDraftAvailable = false;
+  }
+
+  private getDysonIntegrity(): number {
+    const health = this.world.getComponent(this.dysonSphereEntity, 'Health');
+    const shield = this.world.getComponent(this.dysonSphereEntity, 'Shield');
+    return (health?.current ?? 0) + (shield?.current ?? 0);
+  }
+
+  // Regeneration raises integrity, so only count the drops
+  private trackDysonDamage(): void {
+    const integrity = this.getDysonIntegrity();
+    if (integrity < this.lastDysonIntegrity) {
+      this.dysonDamageTaken += this.lastDysonIntegrity - integrity;
+    }
+    this.lastDysonIntegrity = integrity;
+  }
+
+  private getGameOverReason(): SimulationEndReason {
+    const playerHealth = this.world.getComponent(this.playerEntity, 'Health');
+    if (!playerHealth || playerHealth.current <= 0) {
+      return 'playerDestroyed';
+    }
+    const dysonHealth = this.world.getComponent(this.dysonSphereEntity, 'Health');
+    if (!dysonHealth || dysonHealth.current <= 0) {
+      return 'dysonDestroyed';
+    }
+    // The only other way a run ends is an asteroid reaching the sphere
+    return 'asteroidImpact';
+  }
+}
+
+export function runSimulation(options: SimulationOptions = {}): SimulationSummary {
+  return new HeadlessSimulation(options).run();
+}
+
+// Aggregates a batch of runs for the balance report
+export function summarizeSimulations(summaries: SimulationSummary[]): SimulationBatchSummary {
+  const runs = summaries.length;
+  const average = (pick: (summary: SimulationSummary) => number): number =>
+    runs === 0 ? 0 : summaries.reduce((total, summary) => total + pick(summary), 0) / runs;
+
+  const endReasons: Partial<Record<SimulationEndReason, number>> = {};
+  for (const summary of summaries) {
+    endReasons[summary.endReason] = (endReasons[summary.endReason] ?? 0) + 1;
+  }
+
+  const waves = summaries.map(summary => summary.wavesCompleted);
+  return {
+    runs,
+    averageWavesCompleted: average(summary => summary.wavesCompleted),
+    minWavesCompleted: runs === 0 ? 0 : Math.min(...waves),
+    maxWavesCompleted: runs === 0 ? 0 : Math.max(...waves),
+    averageScore: average(summary => summary.score),
+    averageDysonDamageTaken: average(summary => summary.dysonDamageTaken),
+    endReasons
+  };
+}
@@ -32,7 +32,8 @@ export class InputManager {
     shoot: false,
     secondaryFire: false,
     boost: false,
-    toggleDevMode: false
+    toggleDevMode: false,
+    toggleColliderDebug: false
   };
   
   private mouseState = {
@@ -61,6 +62,7 @@ export class InputManager {
       case 'Space': this.inputState.shoot = true; break;
       case 'ShiftLeft': case 'ShiftRight': this.inputState.boost = true; break;
       case 'KeyP': this.inputState.toggleDevMode = true; event.preventDefault(); break;
+      case 'KeyO': this.inputState.toggleColliderDebug = true; event.preventDefault(); break;
     }
   };
 
@@ -76,6 +78,7 @@ export class InputManager {
       case 'Space': this.inputState.shoot = false; break;
       case 'ShiftLeft': case 'ShiftRight': this.inputState.boost = false; break;
       case 'KeyP': this.inputState.toggleDevMode = false; event.preventDefault(); break;
+      case 'KeyO': this.inputState.toggleColliderDebug = false; event.preventDefault(); break;
     }
   };
 
@@ -0,0 +1,102 @@
+import { PlayerInput, JoystickSample } from '../components';
+import { InputManager } from './InputManager';
+import { JoystickStateHolder } from './JoystickStateHolder';
+import { AimingJoystickStateHolder } from './AimingJoystickStateHolder';
+
+/**
+ * Supplies one PlayerInput sample per simulation step.
+ * InputSystem pulls from exactly one source: live devices during normal play,
+ * a recorded replay during playback, or a scripted bot in headless runs.
+ */
+export interface InputSource {
+  sample(out: PlayerInput): void;
+}
+
+function createJoystickSample(): JoystickSample {
+  return { x: 0, y: 0, magnitude: 0, active: false };
+}
+
+export function createPlayerInput(): PlayerInput {
+  return {
+    forward: false,
+    backward: false,
+    left: false,
+    right: false,
+    up: false,
+    down: false,
+    fire: false,
+    secondaryFire: false,
+    boost: false,
+    mouseX: 0,
+    mouseY: 0,
+    pointerLocked: false,
+    moveStick: createJoystickSample(),
+    aimStick: createJoystickSample()
+  };
+}
+
+export function copyPlayerInput(from: PlayerInput, to: PlayerInput): void {
+  to.forward = from.forward;
+  to.backward = from.backward;
+  to.left = from.left;
+  to.right = from.right;
+  to.up = from.up;
+  to.down = from.down;
+  to.fire = from.fire;
+  to.secondaryFire = from.secondaryFire;
+  to.boost = from.boost;
+  to.mouseX = from.mouseX;
+  to.mouseY = from.mouseY;
+  to.pointerLocked = from.pointerLocked;
+  to.moveStick.x = from.moveStick.x;
+  to.moveStick.y = from.moveStick.y;
+  to.moveStick.magnitude = from.moveStick.magnitude;
+  to.moveStick.active = from.moveStick.active;
+  to.aimStick.x = from.aimStick.x;
+  to.aimStick.y = from.aimStick.y;
+  to.aimStick.magnitude = from.aimStick.magnitude;
+  to.aimStick.active = from.aimStick.active;
+}
+
+/**
+ * Reads keyboard/mouse state from InputManager and touch sticks from the joystick holders
+ */
+export class LiveInputSource implements InputSource {
+  private inputManager: InputManager;
+  private joystick: JoystickStateHolder;
+  private aimingJoystick: AimingJoystickStateHolder;
+
+  constructor(inputManager: InputManager) {
+    this.inputManager = inputManager;
+    this.joystick = JoystickStateHolder.getInstance();
+    this.aimingJoystick = AimingJoystickStateHolder.getInstance();
+  }
+
+  sample(out: PlayerInput): void {
+    const inputState = this.inputManager.getInputState();
+    const mouseState = this.inputManager.getMouseState(); // Resets accumulated movement
+
+    out.forward = inputState.forward;
+    out.backward = inputState.backward;
+    out.left = inputState.left;
+    out.right = inputState.right;
+    out.up = inputState.up;
+    out.down = inputState.down;
+    out.fire = this.inputManager.isFiring();
+    out.secondaryFire = this.inputManager.isSecondaryFiring();
+    out.boost = this.inputManager.isBoosting();
+    out.mouseX = mouseState.movementX;
+    out.mouseY = mouseState.movementY;
+    out.pointerLocked = mouseState.isPointerLocked;
+
+    out.moveStick.x = this.joystick.x;
+    out.moveStick.y = this.joystick.y;
+    out.moveStick.magnitude = this.joystick.magnitude;
+    out.moveStick.active = this.joystick.active;
+
+    out.aimStick.x = this.aimingJoystick.x;
+    out.aimStick.y = this.aimingJoystick.y;
+    out.aimStick.magnitude = this.aimingJoystick.magnitude;
+    out.aimStick.active = this.aimingJoystick.active;
+  }
+}
@@ -0,0 +1,62 @@
+import { PlayerInput } from '../components';
+import { ReplayEvent, ReplayFile } from '../../types/replay';
+import { decodePlayerInput } from '../replay';
+import { InputSource, createPlayerInput, copyPlayerInput } from './InputSource';
+
+const NEUTRAL_INPUT = createPlayerInput();
+
+/**
+ * Feeds a recorded replay back to InputSystem one simulation step at a time
+ */
+export class ReplayInputSource implements InputSource {
+  private replay: ReplayFile;
+  private entryIndex: number = 0;
+  private entryStepsUsed: number = 0;
+  private tick: number = 0;
+  private eventIndex: number = 0;
+
+  constructor(replay: ReplayFile) {
+    this.replay = replay;
+  }
+
+  public getSeed(): number {
+    return this.replay.seed;
+  }
+
+  public getStartWave(): number {
+    return this.replay.startWave;
+  }
+
+  sample(out: PlayerInput): void {
+    const entry = this.replay.input[this.entryIndex];
+    if (!entry) {
+      // Past the end of the recording: hold still
+      copyPlayerInput(NEUTRAL_INPUT, out);
+      return;
+    }
+
+    decodePlayerInput(entry.slice(1), out);
+    this.tick++;
+    this.entryStepsUsed++;
+    if (this.entryStepsUsed >= entry[0]) {
+      this.entryIndex++;
+      this.entryStepsUsed = 0;
+    }
+  }
+
+  /**
+   * Events recorded before the upcoming step, in recording order
+   */
+  public takeDueEvents(): ReplayEvent[] {
+    const due: ReplayEvent[] = [];
+    while (this.eventIndex < this.replay.events.length && this.replay.events[this.eventIndex].tick <= this.tick) {
+      due.push(this.replay.events[this.eventIndex]);
+      this.eventIndex++;
+    }
+    return due;
+  }
+
+  public isFinished(): boolean {
+    return this.tick >= this.replay.ticks;
+  }
+}
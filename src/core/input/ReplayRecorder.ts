@@ -0,0 +1,81 @@
+import { PlayerInput } from '../components';
+import { ReplayEvent, ReplayFile, ReplaySummary } from '../../types/replay';
+import { encodePlayerInput, REPLAY_VERSION } from '../replay';
+
+/**
+ * Records the input sampled for every simulation step, plus simulation-affecting
+ * UI actions, into a run-length encoded ReplayFile.
+ */
+export class ReplayRecorder {
+  private seed: number;
+  private tickRate: number;
+  private startWave: number = 1;
+  private ticks: number = 0;
+  private input: number[][] = [];
+  private events: ReplayEvent[] = [];
+  private createdAt: string = new Date().toISOString();
+
+  constructor(seed: number, tickRate: number) {
+    this.seed = seed;
+    this.tickRate = tickRate;
+  }
+
+  public setStartWave(startWave: number): void {
+    this.startWave = startWave;
+  }
+
+  /**
+   * Append the input used for one simulation step
+   */
+  public record(input: PlayerInput): void {
+    const encoded = encodePlayerInput(input);
+    this.ticks++;
+
+    // Extend the previous run when the input didn't change
+    const last = this.input[this.input.length - 1];
+    if (last && last.length === encoded.length + 1) {
+      let same = true;
+      for (let i = 0; i < encoded.length; i++) {
+        if (last[i + 1] !== encoded[i]) {
+          same = false;
+          break;
+        }
+      }
+      if (same) {
+        last[0]++;
+        return;
+      }
+    }
+
+    this.input.push([1, ...encoded]);
+  }
+
+  /**
+   * UI actions are stamped with the current tick and replay right before the next simulation step
+   */
+  public recordUpgrade(upgradeId: string): void {
+    this.events.push({ tick: this.ticks, type: 'upgrade', upgradeId });
+  }
+
+  public recordSkipUpgrade(): void {
+    this.events.push({ tick: this.ticks, type: 'skipUpgrade' });
+  }
+
+  public getTickCount(): number {
+    return this.ticks;
+  }
+
+  public toReplay(summary?: ReplaySummary): ReplayFile {
+    return {
+      version: REPLAY_VERSION,
+      seed: this.seed,
+      tickRate: this.tickRate,
+      startWave: this.startWave,
+      createdAt: this.createdAt,
+      ticks: this.ticks,
+      input: this.input.map(entry => [...entry]),
+      events: this.events.map(event => ({ ...event })),
+      summary
+    };
+  }
+}
@@ -0,0 +1,142 @@
+import { World } from '../World';
+import { GameState } from '../State';
+import { PlayerInput } from '../components';
+import { BotOptions } from '../../types/simulation';
+import { getUpgradeCost, getUpgradeLevel } from '../upgrades';
+import { InputSource, createPlayerInput, copyPlayerInput } from './InputSource';
+
+const NEUTRAL_INPUT = createPlayerInput();
+const LASER_SPEED = 500; // Matches the player's laser in LaserEntity, used to lead moving targets
+const MAX_FIRE_RANGE = 400;
+
+export const DEFAULT_BOT_OPTIONS: BotOptions = {
+  maxTurnRate: Math.PI * 1.5,
+  fireCone: 0.05,
+  preferredRange: { min: 150, max: 300 },
+  upgradePriority: ['dyson-shield', 'ship-fire-rate', 'ship-damage', 'dyson-regen', 'ship-hull']
+};
+
+function wrapAngle(angle: number): number {
+  return Math.atan2(Math.sin(angle), Math.cos(angle));
+}
+
+/**
+ * Scripted player for headless simulation runs.
+ * Each step it turns towards the enemy closest to the Dyson Sphere (asteroids first),
+ * fires once its aim is within the fire cone and holds a fixed distance from the target.
+ * It drives the ship through the same PlayerInput as a human so every game rule applies.
+ */
+export class ScriptedBotInput implements InputSource {
+  private world: World;
+  private options: BotOptions;
+  private stepSeconds: number;
+
+  constructor(world: World, stepSeconds: number, options: Partial<BotOptions> = {}) {
+    this.world = world;
+    this.stepSeconds = stepSeconds;
+    this.options = { ...DEFAULT_BOT_OPTIONS, ...options };
+  }
+
+  sample(out: PlayerInput): void {
+    copyPlayerInput(NEUTRAL_INPUT, out);
+    out.pointerLocked = true;
+
+    const player = this.world.getEntitiesWith(['InputReceiver', 'Position', 'MouseLook'])[0];
+    if (player === undefined) return;
+
+    const position = this.world.getComponent(player, 'Position')!;
+    const mouseLook = this.world.getComponent(player, 'MouseLook')!;
+
+    const target = this.pickTarget();
+    if (target === null) return;
+
+    // Lead the target by the laser's travel time
+    const targetPosition = this.world.getComponent(target, 'Position')!;
+    const targetVelocity = this.world.getComponent(target, 'Velocity');
+    const distance = Math.hypot(
+      targetPosition.x - position.x,
+      targetPosition.y - position.y,
+      targetPosition.z - position.z
+    );
+    const leadTime = distance / LASER_SPEED;
+    const dx = targetPosition.x + (targetVelocity?.x ?? 0) * leadTime - position.x;
+    const dy = targetPosition.y + (targetVelocity?.y ?? 0) * leadTime - position.y;
+    const dz = targetPosition.z + (targetVelocity?.z ?? 0) * leadTime - position.z;
+
+    // The ship faces -Z rotated by (pitch, yaw) in YXZ order
+    const desiredYaw = Math.atan2(-dx, -dz);
+    const desiredPitch = Math.max(
+      mouseLook.pitchMin,
+      Math.min(mouseLook.pitchMax, Math.atan2(dy, Math.hypot(dx, dz)))
+    );
+
+    // Turn at most maxTurnRate per step; InputSystem applies yaw -= mouseX * sensitivity
+    const maxTurn = this.options.maxTurnRate * this.stepSeconds;
+    const yawError = wrapAngle(desiredYaw - mouseLook.yaw);
+    const pitchError = desiredPitch - mouseLook.pitch;
+    const yawStep = Math.max(-maxTurn, Math.min(maxTurn, yawError));
+    const pitchStep = Math.max(-maxTurn, Math.min(maxTurn, pitchError));
+    out.mouseX = -yawStep / mouseLook.sensitivity;
+    out.mouseY = -pitchStep / mouseLook.sensitivity;
+
+    const remainingError = Math.hypot(yawError - yawStep, pitchError - pitchStep);
+    out.fire = remainingError <= this.options.fireCone && distance <= MAX_FIRE_RANGE;
+
+    if (distance > this.options.preferredRange.max) {
+      out.forward = true;
+    } else if (distance < this.options.preferredRange.min) {
+      out.backward = true;
+    }
+  }
+
+  /**
+   * Next upgrade the bot wants from an open draft, or null if it can't afford any
+   */
+  public chooseUpgrade(state: GameState): string | null {
+    for (const upgradeId of this.options.upgradePriority) {
+      if (state.upgradeCredits >= getUpgradeCost(upgradeId, getUpgradeLevel(state, upgradeId))) {
+        return upgradeId;
+      }
+    }
+    return null;
+  }
+
+  private pickTarget(): number | null {
+    let best: number | null = null;
+    let bestScore = Infinity;
+
+    for (const entity of this.world.getEntitiesWith(['Enemy', 'Position'])) {
+      const enemy = this.world.getComponent(entity, 'Enemy')!;
+      const position = this.world.getComponent(entity, 'Position')!;
+      const targetPosition = this.world.getComponent(enemy.targetEntity, 'Position');
+
+      // Threat is how close the enemy is to what it's attacking; asteroids end the run on impact
+      const threat = targetPosition
+        ? Math.hypot(position.x - targetPosition.x, position.y - targetPosition.y, position.z - targetPosition.z)
+        : Math.hypot(position.x, position.y, position.z);
+      const score = enemy.type === 'asteroid' ? threat - 1000 : threat;
+
+      if (score < bestScore) {
+        bestScore = score;
+        best = entity;
+      }
+    }
+
+    // Falling bombs are shootable and rated by the same distance-to-target threat
+    for (const [entity, bomb, position] of this.world.query(['Bomb', 'Position'])) {
+      const targetPosition = this.world.getComponent(bomb.targetEntity, 'Position');
+      if (!targetPosition) continue;
+
+      const threat = Math.hypot(position.x - targetPosition.x, position.y - targetPosition.y, position.z - targetPosition.z);
+      if (threat < bestScore) {
+        bestScore = threat;
+        best = entity;
+      }
+    }
+
+    // An armored boss core shrugs off most damage; shoot its weak points first
+    const boss = best !== null ? this.world.getComponent(best, 'Boss') : undefined;
+    const weakPoint = boss?.weakPoints.find(entity => this.world.hasEntity(entity) && !this.world.isPendingRemoval(entity));
+    return weakPoint ?? best;
+  }
+}
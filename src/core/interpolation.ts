@@ -0,0 +1,52 @@
+import { World } from './World';
+import { Position, Rotation } from './components';
+
+// Blend between two angles along the shortest arc so wrapped Euler angles don't spin
+function lerpAngle(from: number, to: number, alpha: number): number {
+  let delta = (to - from) % (Math.PI * 2);
+  if (delta > Math.PI) delta -= Math.PI * 2;
+  if (delta < -Math.PI) delta += Math.PI * 2;
+  return from + delta * alpha;
+}
+
+/**
+ * Writes the entity's render position into `out`, blended between the previous
+ * and latest simulation step by the world's interpolation alpha.
+ * Entities without a previous snapshot (spawned this step) use their current position.
+ */
+export function getInterpolatedPosition(world: World, entity: number, current: Position, out: Position): Position {
+  const previous = world.getComponent(entity, 'PreviousTransform');
+  const alpha = world.getInterpolationAlpha();
+
+  if (!previous || alpha >= 1) {
+    out.x = current.x;
+    out.y = current.y;
+    out.z = current.z;
+    return out;
+  }
+
+  out.x = previous.x + (current.x - previous.x) * alpha;
+  out.y = previous.y + (current.y - previous.y) * alpha;
+  out.z = previous.z + (current.z - previous.z) * alpha;
+  return out;
+}
+
+/**
+ * Rotation counterpart of getInterpolatedPosition
+ */
+export function getInterpolatedRotation(world: World, entity: number, current: Rotation, out: Rotation): Rotation {
+  const previous = world.getComponent(entity, 'PreviousTransform');
+  const alpha = world.getInterpolationAlpha();
+
+  if (!previous || !previous.hasRotation || alpha >= 1) {
+    out.x = current.x;
+    out.y = current.y;
+    out.z = current.z;
+    return out;
+  }
+
+  out.x = lerpAngle(previous.rotationX, current.x, alpha);
+  out.y = lerpAngle(previous.rotationY, current.y, alpha);
+  out.z = lerpAngle(previous.rotationZ, current.z, alpha);
+  return out;
+}
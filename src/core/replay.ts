@@ -0,0 +1,130 @@
+import { PlayerInput } from './components';
+import { ReplayFile } from '../types/replay';
+
+export const REPLAY_VERSION = 1;
+
+// Bit layout of the `buttons` field in encoded replay input
+const BUTTON_BITS = {
+  forward: 1 << 0,
+  backward: 1 << 1,
+  left: 1 << 2,
+  right: 1 << 3,
+  up: 1 << 4,
+  down: 1 << 5,
+  fire: 1 << 6,
+  secondaryFire: 1 << 7,
+  boost: 1 << 8,
+  pointerLocked: 1 << 9,
+  moveStickActive: 1 << 10,
+  aimStickActive: 1 << 11
+} as const;
+
+/**
+ * Packs one step of input into the replay entry layout (without the repeat count).
+ * Trailing zeros are trimmed to keep idle input compact.
+ */
+export function encodePlayerInput(input: PlayerInput): number[] {
+  let buttons = 0;
+  if (input.forward) buttons |= BUTTON_BITS.forward;
+  if (input.backward) buttons |= BUTTON_BITS.backward;
+  if (input.left) buttons |= BUTTON_BITS.left;
+  if (input.right) buttons |= BUTTON_BITS.right;
+  if (input.up) buttons |= BUTTON_BITS.up;
+  if (input.down) buttons |= BUTTON_BITS.down;
+  if (input.fire) buttons |= BUTTON_BITS.fire;
+  if (input.secondaryFire) buttons |= BUTTON_BITS.secondaryFire;
+  if (input.boost) buttons |= BUTTON_BITS.boost;
+  if (input.pointerLocked) buttons |= BUTTON_BITS.pointerLocked;
+  if (input.moveStick.active) buttons |= BUTTON_BITS.moveStickActive;
+  if (input.aimStick.active) buttons |= BUTTON_BITS.aimStickActive;
+
+  const values = [
+    buttons,
+    input.mouseX,
+    input.mouseY,
+    input.moveStick.x,
+    input.moveStick.y,
+    input.moveStick.magnitude,
+    input.aimStick.x,
+    input.aimStick.y,
+    input.aimStick.magnitude
+  ];
+
+  let length = values.length;
+  while (length > 1 && values[length - 1] === 0) {
+    length--;
+  }
+  values.length = length;
+  return values;
+}
+
+/**
+ * Unpacks a replay entry (without the repeat count) into `out`
+ */
+export function decodePlayerInput(values: readonly number[], out: PlayerInput): void {
+  const buttons = values[0] ?? 0;
+  out.forward = (buttons & BUTTON_BITS.forward) !== 0;
+  out.backward = (buttons & BUTTON_BITS.backward) !== 0;
+  out.left = (buttons & BUTTON_BITS.left) !== 0;
+  out.right = (buttons & BUTTON_BITS.right) !== 0;
+  out.up = (buttons & BUTTON_BITS.up) !== 0;
+  out.down = (buttons & BUTTON_BITS.down) !== 0;
+  out.fire = (buttons & BUTTON_BITS.fire) !== 0;
+  out.secondaryFire = (buttons & BUTTON_BITS.secondaryFire) !== 0;
+  out.boost = (buttons & BUTTON_BITS.boost) !== 0;
+  out.pointerLocked = (buttons & BUTTON_BITS.pointerLocked) !== 0;
+  out.mouseX = values[1] ?? 0;
+  out.mouseY = values[2] ?? 0;
+  out.moveStick.active = (buttons & BUTTON_BITS.moveStickActive) !== 0;
+  out.moveStick.x = values[3] ?? 0;
+  out.moveStick.y = values[4] ?? 0;
+  out.moveStick.magnitude = values[5] ?? 0;
+  out.aimStick.active = (buttons & BUTTON_BITS.aimStickActive) !== 0;
+  out.aimStick.x = values[6] ?? 0;
+  out.aimStick.y = values[7] ?? 0;
+  out.aimStick.magnitude = values[8] ?? 0;
+}
+
+/**
+ * Parses and sanity-checks a replay from JSON text or an already-parsed object.
+ * Returns null (and logs why) when the replay can't be played.
+ */
+export function parseReplay(source: string | unknown): ReplayFile | null {
+  let data: unknown = source;
+  if (typeof source === 'string') {
+    try {
+      data = JSON.parse(source);
+    } catch (error) {
+      console.error('[Replay] Replay is not valid JSON:', error);
+      return null;
+    }
+  }
+
+  if (typeof data !== 'object' || data === null) {
+    console.error('[Replay] Replay must be an object');
+    return null;
+  }
+
+  const replay = data as Partial<ReplayFile>;
+  if (replay.version !== REPLAY_VERSION) {
+    console.error(`[Replay] Unsupported replay version: ${String(replay.version)}`);
+    return null;
+  }
+  if (typeof replay.seed !== 'number' || typeof replay.ticks !== 'number' ||
+      typeof replay.tickRate !== 'number' || typeof replay.startWave !== 'number') {
+    console.error('[Replay] Replay header is incomplete');
+    return null;
+  }
+  if (!Array.isArray(replay.input) || !Array.isArray(replay.events)) {
+    console.error('[Replay] Replay is missing input or events');
+    return null;
+  }
+
+  const encodedTicks = replay.input.reduce((total, entry) => total + (Array.isArray(entry) ? entry[0] : 0), 0);
+  if (encodedTicks !== replay.ticks) {
+    console.error(`[Replay] Replay input covers ${encodedTicks} ticks but header says ${replay.ticks}`);
+    return null;
+  }
+
+  return replay as ReplayFile;
+}
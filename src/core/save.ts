@@ -0,0 +1,186 @@
+// src/core/save.ts
+// Saving and resuming a run. A save is a World snapshot plus the state kept outside
+// components, stored as versioned JSON in localStorage. Older saves are brought up to
+// SAVE_VERSION by MIGRATIONS before they are validated.
+
+import { World } from './World';
+import { GameState } from './State';
+import { ComponentName, ComponentTypes } from './components';
+import { Entity } from './entityHandle';
+import { SaveFile, WaveProgressSnapshot } from '../types/save';
+
+export const SAVE_VERSION = 1;
+const SAVE_STORAGE_KEY = 'dyson-defender.save';
+
+type SaveMigration = (save: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * Upgrades a save from the keyed version to the next one. When SaveFile changes,
+ * bump SAVE_VERSION and add an entry for the previous version, e.g.
+ *   1: save => ({ ...save, version: 2, newField: defaultValue })
+ */
+const MIGRATIONS: Record<number, SaveMigration> = {};
+
+// Runtime-only component fields: live Three.js objects that RenderingSystem rebuilds, and
+// whether a grunt's siege lightning is up (WeaponSystem's beams aren't saved, so a missing
+// flag reads as not deployed and a sieging grunt deploys it again)
+const TRANSIENT_FIELDS: { [K in ComponentName]?: (keyof ComponentTypes[K])[] } = {
+  Renderable: ['mesh', 'meshId'],
+  EnemyBehaviorState: ['weaponDeployed']
+};
+
+// Explosion meshes only exist inside AnimationSystem, and dev mode is a debugging session
+function isSavedEntity(world: World, entity: Entity, devEntities: Set<Entity>): boolean {
+  return world.getComponent(entity, 'Animation')?.type !== 'explosion' && !devEntities.has(entity);
+}
+
+/**
+ * Build a save from the current run. The result is a deep copy and safe to keep.
+ */
+export function createSave(
+  world: World,
+  gameState: GameState,
+  waves: WaveProgressSnapshot,
+  shootingTimers: [Entity, number][]
+): SaveFile {
+  const devEntities = new Set<Entity>();
+  for (const [entity, devMode] of world.query(['DevMode'])) {
+    devEntities.add(entity);
+    devEntities.add(devMode.devCameraEntity);
+  }
+
+  const snapshot = world.createSnapshot(entity => isSavedEntity(world, entity, devEntities));
+  for (const entitySnapshot of snapshot.entities) {
+    const components = entitySnapshot.components as Record<string, Record<string, unknown> | undefined>;
+    for (const [componentType, fields] of Object.entries(TRANSIENT_FIELDS)) {
+      const component = components[componentType];
+      if (!component) continue;
+
+      const copy = { ...component };
+      for (const field of fields as string[]) {
+        delete copy[field];
+      }
+      components[componentType] = copy;
+    }
+  }
+
+  const savedEntities = new Set(snapshot.entities.map(({ entity }) => entity));
+  const save: SaveFile = {
+    version: SAVE_VERSION,
+    savedAt: new Date().toISOString(),
+    world: snapshot,
+    gameState,
+    waves,
+    shootingTimers: shootingTimers.filter(([entity]) => savedEntities.has(entity))
+  };
+
+  return JSON.parse(JSON.stringify(save)) as SaveFile;
+}
+
+/**
+ * Migrates and sanity-checks a save from JSON text or an already-parsed object.
+ * Returns null (and logs why) when the save can't be resumed.
+ */
+export function parseSave(source: string | unknown): SaveFile | null {
+  let data: unknown = source;
+  if (typeof source === 'string') {
+    try {
+      data = JSON.parse(source);
+    } catch (error) {
+      console.error('[Save] Save is not valid JSON:', error);
+      return null;
+    }
+  }
+
+  if (typeof data !== 'object' || data === null) {
+    console.error('[Save] Save must be an object');
+    return null;
+  }
+
+  let save = data as Record<string, unknown>;
+  if (typeof save.version !== 'number' || save.version > SAVE_VERSION) {
+    console.error(`[Save] Unsupported save version: ${String(save.version)}`);
+    return null;
+  }
+  while ((save.version as number) < SAVE_VERSION) {
+    const migrate = MIGRATIONS[save.version as number];
+    if (!migrate) {
+      console.error(`[Save] No migration from save version ${String(save.version)}`);
+      return null;
+    }
+    save = migrate(save);
+  }
+
+  const world = save.world as Partial<SaveFile['world']> | undefined;
+  if (typeof world !== 'object' || world === null ||
+      typeof world.seed !== 'number' || typeof world.elapsedTime !== 'number' ||
+      typeof world.nextEntityIndex !== 'number' || typeof world.random?.state !== 'number') {
+    console.error('[Save] Save is missing its world header');
+    return null;
+  }
+  if (!Array.isArray(world.entities) || !Array.isArray(world.generations) || !Array.isArray(world.freeIndices)) {
+    console.error('[Save] Save is missing entity data');
+    return null;
+  }
+  if (world.entities.some(entry => typeof entry?.entity !== 'number' || typeof entry.components !== 'object')) {
+    console.error('[Save] Save contains a malformed entity');
+    return null;
+  }
+
+  const waves = save.waves as Partial<WaveProgressSnapshot> | undefined;
+  if (typeof waves !== 'object' || waves === null ||
+      !Array.isArray(waves.delayedSpawns) || !Array.isArray(waves.announcedThisWave)) {
+    console.error('[Save] Save is missing wave progress');
+    return null;
+  }
+  if (typeof save.gameState !== 'object' || save.gameState === null || !Array.isArray(save.shootingTimers)) {
+    console.error('[Save] Save is missing game state');
+    return null;
+  }
+
+  return save as unknown as SaveFile;
+}
+
+function getStorage(): Storage | null {
+  try {
+    return typeof localStorage === 'undefined' ? null : localStorage;
+  } catch {
+    // Accessing localStorage throws when storage is disabled
+    return null;
+  }
+}
+
+export function writeSave(save: SaveFile): boolean {
+  const storage = getStorage();
+  if (!storage) return false;
+
+  try {
+    storage.setItem(SAVE_STORAGE_KEY, JSON.stringify(save));
+    return true;
+  } catch (error) {
+    console.error('[Save] Failed to write save:', error);
+    return false;
+  }
+}
+
+/**
+ * The stored save, migrated to the current version. Unreadable saves are discarded.
+ */
+export function readSave(): SaveFile | null {
+  const json = getStorage()?.getItem(SAVE_STORAGE_KEY);
+  if (!json) return null;
+
+  const save = parseSave(json);
+  if (!save) {
+    clearSave();
+  }
+  return save;
+}
+
+export function hasSave(): boolean {
+  return Boolean(getStorage()?.getItem(SAVE_STORAGE_KEY));
+}
+
+export function clearSave(): void {
+  getStorage()?.removeItem(SAVE_STORAGE_KEY);
+}
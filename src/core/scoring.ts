@@ -0,0 +1,49 @@
+import { World } from './World';
+import { GameStateManager } from './State';
+import { createFloatingScore } from './entities/FloatingScoreEntity';
+import { ASTEROID_SIZES } from '../constants/asteroids';
+import { ELITE_RULES } from '../constants/elites';
+
+const SCORE_MULTIPLIER = 10;
+const DEFAULT_ENEMY_SCORE = 10; // Grunts and any type without its own entry
+
+// Base points per enemy type, before SCORE_MULTIPLIER and the accuracy multiplier.
+// Asteroids and their fragments are scored by size instead (ASTEROID_SIZES).
+const ENEMY_SCORES: Record<string, number> = {
+  warpRaider: 25,
+  shieldGuardian: 20,
+  bomber: 30,
+  carrier: 60,
+  phantom: 35,
+  medic: 50,
+  mineLayer: 40,
+  swarmDrone: 3,
+  hiveMothership: 500
+};
+
+export function getEnemyScore(enemyType: string, asteroidSize?: number, elite: boolean = false): number {
+  const sizeScore = asteroidSize !== undefined ? ASTEROID_SIZES[asteroidSize]?.score : undefined;
+  const eliteMultiplier = elite ? ELITE_RULES.scoreMultiplier : 1;
+  return (sizeScore ?? ENEMY_SCORES[enemyType] ?? DEFAULT_ENEMY_SCORE) * SCORE_MULTIPLIER * eliteMultiplier;
+}
+
+/**
+ * Awards score and upgrade credits for every EnemyDestroyed event and shows a floating score.
+ * Returns a function that stops scoring.
+ */
+export function registerScoring(world: World, gameStateManager: GameStateManager): () => void {
+  return world.on('EnemyDestroyed', ({ enemyType, position, asteroidSize, elite }) => {
+    const scoreMultiplier = gameStateManager.getStateReference().scoreMultiplier;
+    const scoreValue = Math.round(getEnemyScore(enemyType, asteroidSize, elite) * scoreMultiplier);
+
+    // Raised slightly so the number appears closer to the wreck's center (visual only)
+    createFloatingScore(world, { x: position.x, y: position.y + 1.0, z: position.z }, scoreValue);
+
+    const currentState = gameStateManager.getState();
+    gameStateManager.updateState({
+      score: currentState.score + scoreValue,
+      upgradeCredits: currentState.upgradeCredits + scoreValue,
+      enemiesDefeated: currentState.enemiesDefeated + 1
+    });
+  });
+}
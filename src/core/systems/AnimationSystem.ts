@@ -1,6 +1,6 @@
 import * as THREE from 'three';
 import { World, System } from '../World';
-import { Animation, Position, WormholeAnimationData, Renderable, GrowthAnimationData } from '../components';
+import { Animation, Position, WormholeAnimationData, GrowthAnimationData } from '../components';
 import { COLORS } from '../../constants/colors';
 
 // Define a type for animation events
@@ -18,6 +18,8 @@ type AnimationEventCallback = (entity: number, position: Position) => void;
  * - Creates and updates visual effects using Three.js
  * - Cleans up completed animations
  * - Triggers callbacks when animations reach certain phases
+ * - Plays destruction effects in response to EnemyDestroyed, BossWeakPointDestroyed,
+ *   bomb (BombDetonated, BombIntercepted) and space mine (MineDetonated) events
  */
 export class AnimationSystem implements System {
   private world: World;
@@ -29,6 +31,34 @@ export class AnimationSystem implements System {
   constructor(world: World, scene: THREE.Scene) {
     this.world = world;
     this.scene = scene;
+
+    // Asteroids (and to a lesser degree their fragments) get a larger, longer explosion with more particles; carriers and bosses much bigger ones
+    this.world.on('EnemyDestroyed', ({ enemyType, position }) => {
+      if (enemyType === 'asteroid') {
+        this.createExplosion(position, 3.0, 1.5, 50);
+      } else if (enemyType === 'asteroidFragment') {
+        this.createExplosion(position, 1.5, 0.8, 25);
+      } else if (enemyType === 'carrier') {
+        this.createExplosion(position, 6.0, 1.8, 80);
+      } else if (enemyType === 'hiveMothership') {
+        this.createExplosion(position, 12.0, 2.5, 120);
+      }
+    });
+
+    this.world.on('BossWeakPointDestroyed', ({ position }) => {
+      this.createExplosion(position, 2.5, 1.0, 40);
+    });
+
+    // Bombs burst on the Dyson Sphere's surface, or pop harmlessly when shot down
+    this.world.on('BombDetonated', ({ position }) => {
+      this.createExplosion(position, 5.0, 1.2, 60);
+    });
+    this.world.on('BombIntercepted', ({ position }) => {
+      this.createExplosion(position, 1.5, 0.6, 20);
+    });
+    this.world.on('MineDetonated', ({ position }) => {
+      this.createExplosion(position, 4.0, 1.0, 50);
+    });
   }
 
   /**
@@ -40,6 +70,17 @@ export class AnimationSystem implements System {
     this.wormholeStableCallbacks.set(entity, callback);
   }
 
+  /**
+   * Pending "can shoot" timers, for saving a run
+   */
+  public getShootingTimers(): [number, number][] {
+    return [...this.shootingTimers.entries()];
+  }
+
+  public restoreShootingTimers(timers: [number, number][]): void {
+    this.shootingTimers = new Map(timers);
+  }
+
   update(deltaTime: number): void {
     // Process any shooting timers
     const timerEntities = [...this.shootingTimers.keys()];
@@ -49,7 +90,7 @@ export class AnimationSystem implements System {
       
       if (timeRemaining <= 0) {
         // Time's up - mark enemy as ready to shoot
-        const enemy = this.world.getComponent<any>(entity, 'Enemy');
+        const enemy = this.world.getComponent(entity, 'Enemy');
         if (enemy) {
           enemy.canShoot = true;
         }
@@ -69,8 +110,8 @@ export class AnimationSystem implements System {
     const entities = this.world.getEntitiesWith(['Animation', 'Position']);
     
     for (const entity of entities) {
-      const animation = this.world.getComponent<Animation>(entity, 'Animation');
-      const position = this.world.getComponent<Position>(entity, 'Position');
+      const animation = this.world.getComponent(entity, 'Animation');
+      const position = this.world.getComponent(entity, 'Position');
 
       if (!animation || !position) {
         console.warn(`Missing components for entity ${entity}. Animation: ${!!animation}, Position: ${!!position}`);
@@ -170,7 +211,7 @@ export class AnimationSystem implements System {
     }
 
     // Update entity visibility and scale based on animation phase
-    const renderable = this.world.getComponent<Renderable>(entity, 'Renderable');
+    const renderable = this.world.getComponent(entity, 'Renderable');
     if (renderable) {
       // Always make the entity visible, but control its appearance through scale
       renderable.isVisible = true;
@@ -420,7 +461,7 @@ export class AnimationSystem implements System {
    */
   private updateGrowthAnimation(entity: number, animation: Animation): void {
     const data = animation.data as GrowthAnimationData;
-    const renderable = this.world.getComponent<Renderable>(entity, 'Renderable');
+    const renderable = this.world.getComponent(entity, 'Renderable');
     
     if (renderable) {
       // Use a smoothed easing function for nicer growth effect
@@ -443,7 +484,7 @@ export class AnimationSystem implements System {
       // Start shooting timer when the wormhole enters stable phase (30% of animation)
       if (animation.progress >= 0.3 && animation.progress < 0.3 + animation.duration / 60) {
         // Check if this entity has an Enemy component and if we need to start a shooting timer
-        const enemy = this.world.getComponent<any>(entity, 'Enemy');
+        const enemy = this.world.getComponent(entity, 'Enemy');
         if (enemy && !enemy.canShoot && !this.shootingTimers.has(entity)) {
           // Add a 0.5 second timer before the enemy can shoot
           this.shootingTimers.set(entity, 0.5);
@@ -1,6 +1,5 @@
 // src/core/systems/AutoRotateSystem.ts
 import { World, System } from '../World';
-import { Rotation, AutoRotate } from '../components';
 
 /**
  * Responsible for auto-rotating entities
@@ -14,15 +13,8 @@ export class AutoRotateSystem implements System {
   }
 
   public update(deltaTime: number): void {
-    // Get all entities with Rotation and AutoRotate components
-    const entities = this.world.getEntitiesWith(['Rotation', 'AutoRotate']);
-
-    for (const entity of entities) {
-      const rotation = this.world.getComponent<Rotation>(entity, 'Rotation');
-      const autoRotate = this.world.getComponent<AutoRotate>(entity, 'AutoRotate');
-
-      if (!rotation || !autoRotate) continue;
-
+    // Every entity with both components, already paired with them
+    for (const [, rotation, autoRotate] of this.world.query(['Rotation', 'AutoRotate'])) {
       // Update rotation based on speeds and delta time
       rotation.x += autoRotate.speedX * deltaTime;
       rotation.y += autoRotate.speedY * deltaTime;
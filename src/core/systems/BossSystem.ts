@@ -0,0 +1,230 @@
+import * as THREE from 'three';
+import { World, System } from '../World';
+import { Boss, Enemy, Health, Position, Rotation, Velocity } from '../components';
+import { Entity } from '../entityHandle';
+import { WeaponSystem } from './WeaponSystem';
+import { createGrunt } from '../entities/GruntEntity';
+import { createBossWeakPoint, getWeakPointPosition } from '../entities/HiveMothershipEntity';
+import { BOSSES } from '../../constants/bosses';
+import { BossDefinition } from '../../types/boss';
+
+const ESCORT_LAUNCH_DISTANCE = 25; // Escorts appear this far from the boss's center
+const MAX_ORBIT_HEIGHT = 0.5; // Orbit height above/below the target, as a fraction of orbit radius
+const CATCH_UP_SPEED_MULTIPLIER = 3; // Cap on speed while settling onto the orbit
+
+/**
+ * BossSystem
+ *
+ * Purpose:
+ * Runs multi-phase boss enemies (entities with a Boss component) in place of
+ * EnemySystem. Tuning for each boss comes from src/constants/bosses.ts.
+ *
+ * Responsibilities:
+ * - Flies the boss in from its spawn point, then orbits its target while facing it
+ * - Keeps weak points attached to their mount points as the boss moves and turns
+ * - Advances phases when health crosses the phase thresholds: regrows weak
+ *   points, launches escorts and emits BossPhaseChanged
+ * - Times each phase's attacks and fires them through WeaponSystem.fireBossAttack
+ * - Cleans up weak points whose boss is gone
+ */
+export class BossSystem implements System {
+  private tempObject = new THREE.Object3D();
+  private tempEuler = new THREE.Euler();
+
+  constructor(private world: World, private weaponSystem: WeaponSystem) {}
+
+  update(deltaTime: number): void {
+    this.removeOrphanedWeakPoints();
+
+    const playerEntity = this.world.getEntitiesWith(['InputReceiver', 'Position'])[0];
+    const playerPosition = playerEntity !== undefined ? this.world.getComponent(playerEntity, 'Position') ?? null : null;
+
+    for (const [entity, boss, enemy, position, velocity, rotation, health] of
+      this.world.query(['Boss', 'Enemy', 'Position', 'Velocity', 'Rotation', 'Health'])) {
+      if (this.world.isPendingRemoval(entity)) continue;
+
+      const definition = BOSSES[boss.bossId];
+      if (!definition) continue;
+
+      boss.weakPoints = boss.weakPoints.filter(weakPoint =>
+        this.world.hasEntity(weakPoint) && !this.world.isPendingRemoval(weakPoint));
+      if (boss.contactCooldown > 0) {
+        boss.contactCooldown = Math.max(0, boss.contactCooldown - deltaTime);
+      }
+
+      this.updatePhase(entity, boss, enemy, health, position, definition);
+
+      const targetPosition = this.world.getComponent(enemy.targetEntity, 'Position');
+      if (targetPosition && enemy.canMove) {
+        this.updateMovement(boss, enemy, position, velocity, definition, targetPosition, deltaTime);
+        this.faceTarget(rotation, position, targetPosition);
+      } else {
+        velocity.x = 0;
+        velocity.y = 0;
+        velocity.z = 0;
+      }
+
+      this.syncWeakPoints(boss, position, rotation);
+
+      if (boss.arrived && enemy.canShoot) {
+        this.updateAttacks(entity, boss, position, definition, playerPosition, targetPosition ?? null, deltaTime);
+      }
+    }
+  }
+
+  // Later phases begin once health falls to their threshold; a big hit can skip a phase
+  private updatePhase(
+    entity: Entity,
+    boss: Boss,
+    enemy: Enemy,
+    health: Health,
+    position: Position,
+    definition: BossDefinition
+  ): void {
+    const healthFraction = health.max > 0 ? health.current / health.max : 0;
+    let nextPhase = boss.phase;
+    while (nextPhase + 1 < definition.phases.length &&
+           healthFraction <= definition.phases[nextPhase + 1].healthThreshold) {
+      nextPhase++;
+    }
+    if (nextPhase === boss.phase) return;
+
+    const phase = definition.phases[nextPhase];
+    boss.phase = nextPhase;
+    boss.attackTimers = phase.attacks.map(attack => attack.interval);
+
+    // Weak points and escorts spawn mid-update, so through the command buffer
+    const spawnWorld = this.world.deferred();
+
+    // Regrow weak points on free mount points, up to the phase's count
+    const usedOffsets = boss.weakPoints.map(weakPoint => this.world.getComponent(weakPoint, 'WeakPoint')?.offset);
+    const freeOffsets = definition.weakPoint.offsets.filter(offset => !usedOffsets.some(used =>
+      used && used.x === offset.x && used.y === offset.y && used.z === offset.z));
+    const missing = Math.max(0, phase.weakPoints - boss.weakPoints.length);
+    for (const offset of freeOffsets.slice(0, missing)) {
+      boss.weakPoints.push(createBossWeakPoint(spawnWorld, entity, definition, offset));
+    }
+
+    // Escorts launch in an even ring around the boss
+    for (let i = 0; i < phase.escorts; i++) {
+      const angle = (i / phase.escorts) * Math.PI * 2;
+      createGrunt(spawnWorld, {
+        x: position.x + Math.cos(angle) * ESCORT_LAUNCH_DISTANCE,
+        y: position.y,
+        z: position.z + Math.sin(angle) * ESCORT_LAUNCH_DISTANCE
+      }, enemy.targetEntity);
+    }
+
+    console.log(`[BossSystem] ${definition.name} entered phase ${nextPhase + 1}/${definition.phases.length}`);
+    this.world.emit('BossPhaseChanged', { boss: entity, bossId: boss.bossId, phase: nextPhase });
+    if (phase.announce) {
+      this.world.emit('Announcement', { message: phase.announce, duration: 3 });
+    }
+  }
+
+  private updateMovement(
+    boss: Boss,
+    enemy: Enemy,
+    position: Position,
+    velocity: Velocity,
+    definition: BossDefinition,
+    targetPosition: Position,
+    deltaTime: number
+  ): void {
+    const offsetX = position.x - targetPosition.x;
+    const offsetY = position.y - targetPosition.y;
+    const offsetZ = position.z - targetPosition.z;
+
+    if (!boss.arrived) {
+      const distance = Math.sqrt(offsetX * offsetX + offsetY * offsetY + offsetZ * offsetZ);
+      if (distance > definition.orbitRadius) {
+        // Fly straight in until the orbit radius is reached
+        velocity.x = (-offsetX / distance) * enemy.speed;
+        velocity.y = (-offsetY / distance) * enemy.speed;
+        velocity.z = (-offsetZ / distance) * enemy.speed;
+        return;
+      }
+
+      boss.arrived = true;
+      boss.orbitAngle = Math.atan2(offsetZ, offsetX);
+      const maxHeight = definition.orbitRadius * MAX_ORBIT_HEIGHT;
+      boss.orbitHeight = Math.max(-maxHeight, Math.min(maxHeight, offsetY));
+    }
+
+    // Steer onto the next point of a horizontal circle around the target
+    boss.orbitAngle += definition.phases[boss.phase].orbitSpeed * deltaTime;
+    const horizontalRadius = Math.sqrt(Math.max(0,
+      definition.orbitRadius * definition.orbitRadius - boss.orbitHeight * boss.orbitHeight));
+    const desired = new THREE.Vector3(
+      targetPosition.x + Math.cos(boss.orbitAngle) * horizontalRadius - position.x,
+      targetPosition.y + boss.orbitHeight - position.y,
+      targetPosition.z + Math.sin(boss.orbitAngle) * horizontalRadius - position.z
+    ).divideScalar(deltaTime);
+
+    desired.clampLength(0, enemy.speed * CATCH_UP_SPEED_MULTIPLIER);
+    velocity.x = desired.x;
+    velocity.y = desired.y;
+    velocity.z = desired.z;
+  }
+
+  private faceTarget(rotation: Rotation, position: Position, targetPosition: Position): void {
+    this.tempObject.position.set(position.x, position.y, position.z);
+    this.tempObject.lookAt(targetPosition.x, targetPosition.y, targetPosition.z);
+    this.tempEuler.setFromQuaternion(this.tempObject.quaternion, 'YXZ');
+    rotation.x = this.tempEuler.x;
+    rotation.y = this.tempEuler.y;
+    rotation.z = this.tempEuler.z;
+  }
+
+  private syncWeakPoints(boss: Boss, position: Position, rotation: Rotation): void {
+    for (const weakPoint of boss.weakPoints) {
+      const mount = this.world.getComponent(weakPoint, 'WeakPoint');
+      const weakPointPosition = this.world.getComponent(weakPoint, 'Position');
+      if (!mount || !weakPointPosition) continue;
+
+      const mountPosition = getWeakPointPosition(position, rotation, mount.offset);
+      weakPointPosition.x = mountPosition.x;
+      weakPointPosition.y = mountPosition.y;
+      weakPointPosition.z = mountPosition.z;
+
+      const weakPointRotation = this.world.getComponent(weakPoint, 'Rotation');
+      if (weakPointRotation) {
+        weakPointRotation.x = rotation.x;
+        weakPointRotation.y = rotation.y;
+        weakPointRotation.z = rotation.z;
+      }
+    }
+  }
+
+  private updateAttacks(
+    entity: Entity,
+    boss: Boss,
+    position: Position,
+    definition: BossDefinition,
+    playerPosition: Position | null,
+    targetPosition: Position | null,
+    deltaTime: number
+  ): void {
+    const attacks = definition.phases[boss.phase].attacks;
+    attacks.forEach((attack, index) => {
+      boss.attackTimers[index] = (boss.attackTimers[index] ?? attack.interval) - deltaTime;
+      if (boss.attackTimers[index] > 0) return;
+      boss.attackTimers[index] += attack.interval;
+
+      // Player-aimed attacks fall back to the target when there is no player
+      const aimPosition = attack.target === 'player' ? playerPosition ?? targetPosition : targetPosition;
+      if (!aimPosition) return;
+
+      this.weaponSystem.fireBossAttack(entity, position, aimPosition, attack, definition.colliderRadius + 3);
+    });
+  }
+
+  // A boss removed outside the normal kill path (restart, dev tools) leaves its weak points behind
+  private removeOrphanedWeakPoints(): void {
+    for (const [weakPoint, mount] of this.world.query(['WeakPoint'])) {
+      if (!this.world.hasEntity(mount.boss) && !this.world.isPendingRemoval(weakPoint)) {
+        this.world.deferRemoveEntity(weakPoint);
+      }
+    }
+  }
+}
@@ -1,12 +1,16 @@
 import * as THREE from 'three';
 import { World, System } from '../World';
-import { Camera, CameraMount, Position, Rotation } from '../components';
+import { Position, Rotation } from '../components';
 import { SceneManager } from '../../rendering/SceneManager';
+import { getInterpolatedPosition, getInterpolatedRotation } from '../interpolation';
 
 export class CameraSystem implements System {
   private sceneManager: SceneManager;
   private world: World;
   private camera: THREE.PerspectiveCamera;
+  // Reused interpolation targets to avoid per-frame allocation
+  private renderPosition: Position = { x: 0, y: 0, z: 0 };
+  private renderRotation: Rotation = { x: 0, y: 0, z: 0 };
 
   constructor(sceneManager: SceneManager, world: World) {
     this.sceneManager = sceneManager;
@@ -23,8 +27,8 @@ export class CameraSystem implements System {
     if (cameraEntities.length === 0) return;
 
     const cameraEntity = cameraEntities[0];
-    const camera = this.world.getComponent<Camera>(cameraEntity, 'Camera');
-    const cameraMount = this.world.getComponent<CameraMount>(cameraEntity, 'CameraMount');
+    const camera = this.world.getComponent(cameraEntity, 'Camera');
+    const cameraMount = this.world.getComponent(cameraEntity, 'CameraMount');
     
     if (!camera || !cameraMount) return;
 
@@ -36,10 +40,14 @@ export class CameraSystem implements System {
 
     // Get the parent entity's position and rotation
     const parentEntity = cameraMount.parentEntity;
-    const parentPosition = this.world.getComponent<Position>(parentEntity, 'Position');
-    const parentRotation = this.world.getComponent<Rotation>(parentEntity, 'Rotation');
+    const currentPosition = this.world.getComponent(parentEntity, 'Position');
+    const currentRotation = this.world.getComponent(parentEntity, 'Rotation');
     
-    if (!parentPosition || !parentRotation) return;
+    if (!currentPosition || !currentRotation) return;
+
+    // Follow the parent's interpolated transform so the view stays smooth between simulation steps
+    const parentPosition = getInterpolatedPosition(this.world, parentEntity, currentPosition, this.renderPosition);
+    const parentRotation = getInterpolatedRotation(this.world, parentEntity, currentRotation, this.renderRotation);
 
     // Simply position the camera at the parent's position
     this.camera.position.x = parentPosition.x;
@@ -0,0 +1,95 @@
+import { World, System } from '../World';
+import { Cloak } from '../components';
+import { Entity } from '../entityHandle';
+import { getRadarPulseInterval } from '../upgrades';
+import {
+  CLOAKED_OPACITY,
+  CLOAK_REVEAL_DISTANCE,
+  CLOAK_FIRE_REVEAL_TIME,
+  CLOAK_FADE_SPEED,
+  RADAR_PULSE_REVEAL_TIME,
+  RADAR_PULSE_RANGE
+} from '../../constants/cloak';
+
+/**
+ * CloakSystem
+ *
+ * Purpose:
+ * Fades cloaking enemies (entities with a Cloak component) in and out, and runs the
+ * automatic radar pulse bought with the Radar Pulse upgrade.
+ *
+ * Responsibilities:
+ * - Reveals a cloaked enemy while the player is close, briefly after it fires or is
+ *   hit (EnemyFired, ProjectileHit), and while a radar pulse covers it
+ * - Eases Cloak.visibility toward the target and mirrors it in
+ *   Renderable.cloakOpacity for RenderingSystem
+ * - Counts down to the next radar pulse and how long the current one lasts
+ *   (GameState.radarPulseCooldown / radarPulseRemaining)
+ *
+ * HUDSystem reads Cloak to show cloaked enemies as intermittent ghost radar contacts.
+ */
+export class CloakSystem implements System {
+  constructor(private world: World) {
+    this.world.on('EnemyFired', ({ entity }) => this.reveal(entity));
+    this.world.on('ProjectileHit', ({ target, byPlayer }) => {
+      if (byPlayer) this.reveal(target);
+    });
+  }
+
+  update(deltaTime: number): void {
+    const pulseActive = this.updateRadarPulse(deltaTime);
+
+    const playerEntity = this.world.getEntitiesWith(['InputReceiver', 'Position'])[0];
+    const playerPosition = playerEntity !== undefined ? this.world.getComponent(playerEntity, 'Position') : undefined;
+
+    for (const [entity, cloak, position, renderable] of this.world.query(['Cloak', 'Position', 'Renderable'])) {
+      if (this.world.isPendingRemoval(entity)) continue;
+
+      cloak.revealTimer = Math.max(0, cloak.revealTimer - deltaTime);
+      cloak.flickerTime += deltaTime;
+
+      let revealed = cloak.revealTimer > 0;
+      if (playerPosition && !revealed) {
+        const distance = Math.hypot(
+          position.x - playerPosition.x,
+          position.y - playerPosition.y,
+          position.z - playerPosition.z
+        );
+        revealed = distance <= CLOAK_REVEAL_DISTANCE || (pulseActive && distance <= RADAR_PULSE_RANGE);
+      }
+
+      const step = CLOAK_FADE_SPEED * deltaTime;
+      cloak.visibility = revealed
+        ? Math.min(1, cloak.visibility + step)
+        : Math.max(0, cloak.visibility - step);
+
+      renderable.cloakOpacity = cloak.visibility >= 1
+        ? undefined
+        : CLOAKED_OPACITY + (1 - CLOAKED_OPACITY) * cloak.visibility;
+    }
+  }
+
+  // Ticks the Radar Pulse upgrade; returns whether a pulse is revealing cloaked enemies
+  private updateRadarPulse(deltaTime: number): boolean {
+    const state = this.world.getGameState();
+    if (!state || state.radarPulseLevel <= 0) return false;
+
+    state.radarPulseRemaining = Math.max(0, state.radarPulseRemaining - deltaTime);
+    state.radarPulseCooldown -= deltaTime;
+    if (state.radarPulseCooldown <= 0) {
+      state.radarPulseCooldown = getRadarPulseInterval(state.radarPulseLevel);
+      state.radarPulseRemaining = RADAR_PULSE_REVEAL_TIME;
+    }
+
+    return state.radarPulseRemaining > 0;
+  }
+
+  private reveal(entity: Entity): void {
+    if (!this.world.hasEntity(entity) || this.world.isPendingRemoval(entity)) return;
+
+    const cloak: Cloak | undefined = this.world.getComponent(entity, 'Cloak');
+    if (cloak) {
+      cloak.revealTimer = Math.max(cloak.revealTimer, CLOAK_FIRE_REVEAL_TIME);
+    }
+  }
+}
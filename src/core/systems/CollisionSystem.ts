@@ -1,17 +1,32 @@
 import * as THREE from 'three';
 import { World, System } from '../World';
-import { Position, Collider, Projectile, Health, Enemy, InputReceiver, Shield, ShieldComponent, ShieldBubbleComponent, HealthBarComponent, PowerUp, ShieldBarComponent } from '../components';
-import { HUDSystem } from './HUDSystem';
-import { ShieldSystem } from './ShieldSystem';
-import { AnimationSystem } from './AnimationSystem';
-import { PowerUpSystem } from './PowerUpSystem';
-import { createFloatingScore } from '../entities/FloatingScoreEntity';
-import { AudioManager } from '../AudioManager';
-import { UISystem } from './UISystem';
+import { Position, Collider, Projectile, Elite } from '../components';
+import { Entity } from '../entityHandle';
 import { GameStateManager } from '../State';
-import { applyAccuracyHit, recordAccuracyHit, resolveAccuracyProjectile } from '../accuracy';
+import { applyAccuracyHit, recordAccuracyHit, resetAccuracy, resolveAccuracyProjectile } from '../accuracy';
+import { BOSSES } from '../../constants/bosses';
+import { createAsteroidFragments } from '../entities/AsteroidEntity';
+import { getEliteValue, spawnEliteSplits } from '../elites';
+import { SpatialHash } from '../SpatialHash';
+import { getColliderBoundingRadius, shapesOverlap, sweepSegment, toCollisionShape } from '../collisionShapes';
+import { applyDamage, getKillCredit } from '../damage';
+import { DamageResult } from '../../types/damage';
 
-const SCORE_MULTIPLIER = 10;
+// Broadphase grid cell size: a few times the typical enemy collider, so most colliders span few cells
+const BROADPHASE_CELL_SIZE = 20;
+
+// Something a projectile's path crossed this step; time is 0..1 along the path
+interface ProjectileHit {
+  target: Entity;
+  time: number;
+}
+
+// A collision about to be handled, for debug views; point is approximate for overlaps
+export interface CollisionContact {
+  entityA: Entity;
+  entityB: Entity;
+  point: Position;
+}
 
 /**
  * Collision System
@@ -20,51 +35,99 @@ const SCORE_MULTIPLIER = 10;
  * Detects and handles collisions between game entities.
  * 
  * Responsibilities:
- * - Detects collisions between entities with Collider components
+ * - Detects collisions between entities with Collider components: each step the entities
+ *   of every layer are filed in a spatial hash, and each colliding layer pair is checked
+ *   once, with only the nearby candidates from the grid reaching the exact shape tests
+ * - Sweeps projectiles from where they started the step to where they are now, so fast
+ *   shots can't tunnel through small enemies, and resolves each shot's hits earliest first
+ * - Tests spheres, oriented boxes and capsules (see collisionShapes.ts); boxes and
+ *   capsules turn with the entity's Rotation
  * - Handles different collision types based on entity layers
- * - Applies damage to Health components when hit by projectiles
+ * - Applies damage through the damage service (damage.ts) when projectiles, rams, bombs
+ *   and mine blasts hit something
  * - Maintains collision layer filtering
- * - Plays appropriate sound effects for different collision types
+ * - Resolves hits on boss parts: armored cores, weak points and boss contact damage
+ * - Detonates Bomber bombs on the Dyson Sphere (partly bypassing its shield, with
+ *   splash damage to a nearby player) and lets player shots intercept them
+ * - Resolves space mines: player shots and player contact set them off, and the blast
+ *   (from any MineDetonated) hurts the player and any enemies caught in it
+ * - Splits destroyed asteroids into smaller fragments
+ * - Honours elite affixes: reflective elites bounce player lasers back and splitting
+ *   elites leave copies behind
+ * - Emits gameplay events (ProjectileHit, EnemyDestroyed, PowerUpCollected; the damage
+ *   service adds Damaged, DysonDamaged and PlayerDamaged); scoring, audio, HUD feedback
+ *   and effects subscribe to those
  */
 export class CollisionSystem implements System {
   private world: World;
   private collisionMatrix: Map<string, string[]>;
-  private animationSystem: AnimationSystem | null = null;
-  private powerUpSystem: PowerUpSystem | null = null;
-  private audioManager: AudioManager | null = null;
-  private uiSystem: UISystem | null = null;
+  // Each colliding layer pair once, in collision matrix order
+  private layerPairs: [string, string][] = [];
+  // Layers projectiles can hit; checked in the projectile sweep instead of as pairs
+  private projectileTargetLayers: string[] = [];
+  private projectileHits: ProjectileHit[] = [];
+  private grids: Map<string, SpatialHash> = new Map();
+  private candidates: number[] = [];
   private gameStateManager: GameStateManager;
+  private contactListener: ((contact: CollisionContact) => void) | null = null;
   
   // Reusable vectors to avoid GC pressure
   private reusableVectorA = new THREE.Vector3();
   private reusableVectorB = new THREE.Vector3();
 
-  constructor(world: World, gameStateManager: GameStateManager, audioManager?: AudioManager) {
+  constructor(world: World, gameStateManager: GameStateManager) {
     this.world = world;
     this.gameStateManager = gameStateManager;
-    this.audioManager = audioManager || null;
     
     // Set up collision matrix - which layers can collide with which
     this.collisionMatrix = new Map();
-    this.collisionMatrix.set('projectile', ['enemy', 'dysonSphere', 'player', 'shield']);
+    this.collisionMatrix.set('projectile', ['enemy', 'dysonSphere', 'player', 'shield', 'boss', 'bomb', 'mine']);
     this.collisionMatrix.set('enemy', ['player', 'projectile', 'dysonSphere']);
-    this.collisionMatrix.set('player', ['enemy', 'projectile', 'powerUp']);
-    this.collisionMatrix.set('dysonSphere', ['enemy']);
+    this.collisionMatrix.set('player', ['enemy', 'projectile', 'powerUp', 'boss', 'mine']);
+    this.collisionMatrix.set('dysonSphere', ['enemy', 'bomb']);
     this.collisionMatrix.set('shield', ['projectile']);
     this.collisionMatrix.set('powerUp', ['player']);
-  }
+    // Boss cores and weak points; bosses never ram the Dyson Sphere
+    this.collisionMatrix.set('boss', ['projectile', 'player']);
+    // Bomber payloads: shot down by the player or detonated on the Dyson Sphere
+    this.collisionMatrix.set('bomb', ['projectile', 'dysonSphere']);
+    // Mine Layer mines: shot down by the player or set off by flying into them
+    this.collisionMatrix.set('mine', ['projectile', 'player']);
+
+    // The matrix lists both directions; 'projectile'/'enemy' and 'enemy'/'projectile' are one pair
+    for (const [layer, collidingLayers] of this.collisionMatrix) {
+      for (const collidingLayer of collidingLayers) {
+        if (layer === 'projectile' || collidingLayer === 'projectile') {
+          const targetLayer = layer === 'projectile' ? collidingLayer : layer;
+          if (!this.projectileTargetLayers.includes(targetLayer)) this.projectileTargetLayers.push(targetLayer);
+          continue;
+        }
+
+        const listed = this.layerPairs.some(([a, b]) =>
+          (a === layer && b === collidingLayer) || (a === collidingLayer && b === layer)
+        );
+        if (!listed) this.layerPairs.push([layer, collidingLayer]);
+      }
+    }
 
-  // Method to set the animation system reference
-  public setAnimationSystem(animationSystem: AnimationSystem): void {
-    this.animationSystem = animationSystem;
+    this.world.on('MineDetonated', ({ position, damage, blastRadius, attacker }) => {
+      this.applyMineBlast(position, damage, blastRadius, attacker);
+    });
   }
 
-  public setPowerUpSystem(powerUpSystem: PowerUpSystem): void {
-    this.powerUpSystem = powerUpSystem;
+  /**
+   * Which layers each layer collides with, as configured; both directions are listed
+   */
+  public getCollisionMatrix(): ReadonlyMap<string, readonly string[]> {
+    return this.collisionMatrix;
   }
 
-  public setAudioManager(audioManager: AudioManager): void {
-    this.audioManager = audioManager;
+  /**
+   * Calls the listener for every collision just before it is handled (the collider
+   * debug overlay flashes contact points with it). Pass null to stop.
+   */
+  public setContactListener(listener: ((contact: CollisionContact) => void) | null): void {
+    this.contactListener = listener;
   }
 
   update(deltaTime: number): void {
@@ -75,7 +138,7 @@ export class CollisionSystem implements System {
     const entitiesByLayer = new Map<string, number[]>();
     
     for (const entity of collidableEntities) {
-      const collider = this.world.getComponent<Collider>(entity, 'Collider');
+      const collider = this.world.getComponent(entity, 'Collider');
       if (!collider) continue;
       
       if (!entitiesByLayer.has(collider.layer)) {
@@ -84,53 +147,187 @@ export class CollisionSystem implements System {
       entitiesByLayer.get(collider.layer)!.push(entity);
     }
     
-    // Check collisions for each layer against its potential colliding layers
+    // Rebuild each layer's grid; cells hold indices into the layer's entity list
+    for (const grid of this.grids.values()) {
+      grid.clear();
+    }
     for (const [layer, entities] of entitiesByLayer.entries()) {
-      const collidingLayers = this.collisionMatrix.get(layer) || [];
-      
-      for (const collidingLayer of collidingLayers) {
-        const targetEntities = entitiesByLayer.get(collidingLayer) || [];
-        
-        // Check collisions between entities in these two layers
-        this.checkCollisionsBetweenLayers(entities, targetEntities);
+      let grid = this.grids.get(layer);
+      if (!grid) {
+        grid = new SpatialHash(BROADPHASE_CELL_SIZE);
+        this.grids.set(layer, grid);
+      }
+
+      for (let i = 0; i < entities.length; i++) {
+        const position = this.world.getComponent(entities[i], 'Position')!;
+        const collider = this.world.getComponent(entities[i], 'Collider')!;
+        grid.insert(i, position.x, position.y, position.z, this.getBoundingRadius(collider));
       }
     }
+    
+    // Projectiles first (as the collision matrix lists them), then each other colliding layer pair once
+    const projectiles = entitiesByLayer.get('projectile');
+    if (projectiles) {
+      this.checkProjectileCollisions(projectiles, entitiesByLayer);
+    }
+    for (const [layer, collidingLayer] of this.layerPairs) {
+      const entities = entitiesByLayer.get(layer);
+      const targetEntities = entitiesByLayer.get(collidingLayer);
+      if (!entities || !targetEntities) continue;
+
+      this.checkCollisionsBetweenLayers(entities, targetEntities, this.grids.get(collidingLayer)!);
+    }
+  }
+
+  // Radius of a sphere around the collider that contains everything the exact tests can hit
+  private getBoundingRadius(collider: Collider): number {
+    if (collider.layer === 'powerUp') {
+      // Matches the generous pickup distance in checkCollisionBetweenEntities
+      return (collider.radius || 10.0) + 10.0;
+    }
+    return getColliderBoundingRadius(collider);
   }
   
-  private checkCollisionsBetweenLayers(entitiesA: number[], entitiesB: number[]): void {
-    for (const entityA of entitiesA) {
-      const positionA = this.world.getComponent<Position>(entityA, 'Position');
-      const colliderA = this.world.getComponent<Collider>(entityA, 'Collider');
-      
-      if (!positionA || !colliderA) continue;
-      
-      for (const entityB of entitiesB) {
-        // Don't check collision with self
-        if (entityA === entityB) continue;
-        
-        // If this is a projectile, check if entityB is the owner
-        if (colliderA.layer === 'projectile') {
-          const projectile = this.world.getComponent<Projectile>(entityA, 'Projectile');
-          if (projectile && projectile.ownerEntity === entityB) {
-            // Skip collision check with owner
-            continue;
+  /**
+   * Sweeps each projectile along the path it moved this step against every layer it can
+   * hit, then resolves the hits in path order until one consumes the projectile, so a
+   * shot strikes the first thing in its way even if it skipped past it in a single step
+   */
+  private checkProjectileCollisions(projectiles: number[], entitiesByLayer: Map<string, number[]>): void {
+    for (const projectileEntity of projectiles) {
+      if (this.world.isPendingRemoval(projectileEntity)) continue;
+
+      const position = this.world.getComponent(projectileEntity, 'Position');
+      const collider = this.world.getComponent(projectileEntity, 'Collider');
+      if (!position || !collider) continue;
+
+      // Projectiles fired this step have no previous position yet and only test where they are
+      const start = this.world.getComponent(projectileEntity, 'PreviousTransform') ?? position;
+      const projectile = this.world.getComponent(projectileEntity, 'Projectile');
+      const ownerEntity = projectile?.ownerEntity;
+
+      // One broadphase query covers the whole path
+      const pathHalfLength = Math.sqrt(
+        Math.pow(position.x - start.x, 2) +
+        Math.pow(position.y - start.y, 2) +
+        Math.pow(position.z - start.z, 2)
+      ) / 2;
+      const queryRadius = pathHalfLength + this.getBoundingRadius(collider);
+      const midX = (start.x + position.x) / 2;
+      const midY = (start.y + position.y) / 2;
+      const midZ = (start.z + position.z) / 2;
+
+      const hits = this.projectileHits;
+      hits.length = 0;
+      for (const layer of this.projectileTargetLayers) {
+        const targets = entitiesByLayer.get(layer);
+        if (!targets) continue;
+
+        const candidates = this.grids.get(layer)!.query(midX, midY, midZ, queryRadius, this.candidates);
+        for (const index of candidates) {
+          const target = targets[index];
+          // Projectiles never hit what fired them or something already destroyed
+          if (target === projectileEntity || target === ownerEntity || this.world.isPendingRemoval(target)) continue;
+
+          const targetPosition = this.world.getComponent(target, 'Position');
+          const targetCollider = this.world.getComponent(target, 'Collider');
+          if (!targetPosition || !targetCollider) continue;
+
+          const time = this.getProjectileImpactTime(
+            projectileEntity, start, position, collider,
+            target, targetPosition, targetCollider
+          );
+          if (time !== null) {
+            hits.push({ target, time });
           }
         }
-        
-        // If entityB is a projectile, check if entityA is the owner
-        if (colliderA.layer === 'enemy' || colliderA.layer === 'player') {
-          const entityBCollider = this.world.getComponent<Collider>(entityB, 'Collider');
-          if (entityBCollider && entityBCollider.layer === 'projectile') {
-            const projectile = this.world.getComponent<Projectile>(entityB, 'Projectile');
-            if (projectile && projectile.ownerEntity === entityA) {
-              // Skip collision check with owner
-              continue;
+      }
+
+      // Stable sort: simultaneous hits keep collision matrix and layer list order
+      hits.sort((a, b) => a.time - b.time);
+      for (const hit of hits) {
+        if (this.world.isPendingRemoval(hit.target)) continue;
+
+        if (this.contactListener) {
+          this.contactListener({
+            entityA: projectileEntity,
+            entityB: hit.target,
+            point: {
+              x: start.x + (position.x - start.x) * hit.time,
+              y: start.y + (position.y - start.y) * hit.time,
+              z: start.z + (position.z - start.z) * hit.time
             }
-          }
+          });
         }
+        this.handleCollision(projectileEntity, hit.target);
+
+        // Stop once the projectile has been consumed; shots some targets ignore fly on to the next
+        if (this.world.isPendingRemoval(projectileEntity)) break;
+        // A reflected shot has turned back; the rest of the old path is never flown, and
+        // the next step sweeps the new one
+        if (projectile?.ownerEntity !== ownerEntity) break;
+      }
+    }
+  }
+
+  /**
+   * How far along its path (0..1) the projectile first touches the target, or null if
+   * it doesn't. The path is swept against the target grown by the projectile's
+   * thickness; an overlap where the projectile ended up counts too (at 1), so the
+   * sweep never misses a hit the plain overlap test would find.
+   */
+  private getProjectileImpactTime(
+    projectileEntity: number, start: { x: number, y: number, z: number }, end: Position, projectileCollider: Collider,
+    targetEntity: number, targetPosition: Position, targetCollider: Collider
+  ): number | null {
+    const thickness = this.getProjectileThickness(projectileCollider);
+    const targetShape = toCollisionShape(targetPosition, targetCollider, this.world.getComponent(targetEntity, 'Rotation'));
+    let time = sweepSegment(start, end, thickness, targetShape);
+
+    if (time === null && this.checkCollisionBetweenEntities(
+      projectileEntity, end, projectileCollider,
+      targetEntity, targetPosition, targetCollider
+    )) {
+      time = 1;
+    }
+
+    return time;
+  }
+
+  // Half the narrowest extent of the projectile: how wide a path it sweeps
+  private getProjectileThickness(collider: Collider): number {
+    if (collider.type === 'sphere' || collider.type === 'capsule') {
+      return collider.radius || 0;
+    }
+    if (collider.type === 'box') {
+      return Math.min(collider.width || 0, collider.height || 0, collider.depth || 0) / 2;
+    }
+    return 0;
+  }
+
+  private checkCollisionsBetweenLayers(entitiesA: number[], entitiesB: number[], gridB: SpatialHash): void {
+    for (const entityA of entitiesA) {
+      // Entities destroyed earlier this step stay in the layer lists until the sync point
+      if (this.world.isPendingRemoval(entityA)) continue;
+
+      const positionA = this.world.getComponent(entityA, 'Position');
+      const colliderA = this.world.getComponent(entityA, 'Collider');
+      
+      if (!positionA || !colliderA) continue;
+
+      // Only entities sharing a grid cell can touch; candidates keep the layer list order
+      const candidates = gridB.query(positionA.x, positionA.y, positionA.z, this.getBoundingRadius(colliderA), this.candidates);
+      
+      for (const index of candidates) {
+        const entityB = entitiesB[index];
+        // Stop once entityA has been consumed by a previous collision
+        if (this.world.isPendingRemoval(entityA)) break;
+
+        // Don't check collision with self or with something already destroyed
+        if (entityA === entityB || this.world.isPendingRemoval(entityB)) continue;
         
-        const positionB = this.world.getComponent<Position>(entityB, 'Position');
-        const colliderB = this.world.getComponent<Collider>(entityB, 'Collider');
+        const positionB = this.world.getComponent(entityB, 'Position');
+        const colliderB = this.world.getComponent(entityB, 'Collider');
         
         if (!positionB || !colliderB) continue;
         
@@ -139,6 +336,22 @@ export class CollisionSystem implements System {
           entityA, positionA, colliderA, 
           entityB, positionB, colliderB
         )) {
+          if (this.contactListener) {
+            // Between the centers, in proportion to the colliders' sizes
+            const radiusA = this.getBoundingRadius(colliderA);
+            const radiusB = this.getBoundingRadius(colliderB);
+            const share = radiusA + radiusB > 0 ? radiusA / (radiusA + radiusB) : 0.5;
+            this.contactListener({
+              entityA,
+              entityB,
+              point: {
+                x: positionA.x + (positionB.x - positionA.x) * share,
+                y: positionA.y + (positionB.y - positionA.y) * share,
+                z: positionA.z + (positionB.z - positionA.z) * share
+              }
+            });
+          }
+
           // Handle collision
           this.handleCollision(entityA, entityB);
         }
@@ -150,15 +363,12 @@ export class CollisionSystem implements System {
     entityA: number, posA: Position, colliderA: Collider,
     entityB: number, posB: Position, colliderB: Collider
   ): boolean {
-    // Use reusable THREE.js vectors for position to avoid allocations
-    this.reusableVectorA.set(posA.x, posA.y, posA.z);
-    this.reusableVectorB.set(posB.x, posB.y, posB.z);
-    
-    // Calculate distance between entities
-    const distance = this.reusableVectorA.distanceTo(this.reusableVectorB);
-    
     // Special case for power-up collision - be extremely generous with collision detection
     if (colliderA.layer === 'powerUp' || colliderB.layer === 'powerUp') {
+      // Use reusable THREE.js vectors for position to avoid allocations
+      this.reusableVectorA.set(posA.x, posA.y, posA.z);
+      this.reusableVectorB.set(posB.x, posB.y, posB.z);
+      const distance = this.reusableVectorA.distanceTo(this.reusableVectorB);
       const powerUpRadius = colliderA.layer === 'powerUp' ? (colliderA.radius || 10.0) : (colliderB.radius || 10.0);
       const otherRadius = 10.0; // Give player a very generous collision radius for power-ups
       const collisionDistance = powerUpRadius + otherRadius;
@@ -173,72 +383,16 @@ export class CollisionSystem implements System {
       return isColliding;
     }
     
-    if (colliderA.type === 'sphere' && colliderB.type === 'sphere') {
-      // Sphere-sphere collision
-      const radiusSum = (colliderA.radius || 0) + (colliderB.radius || 0);
-      return distance < radiusSum;
-    } else if (colliderA.type === 'box' && colliderB.type === 'box') {
-      // Box-box collision - simplified for now
-      // For a real game, you'd want to use proper AABB or OBB collision detection
-      const halfWidthA = (colliderA.width || 0) / 2;
-      const halfHeightA = (colliderA.height || 0) / 2;
-      const halfDepthA = (colliderA.depth || 0) / 2;
-      
-      const halfWidthB = (colliderB.width || 0) / 2;
-      const halfHeightB = (colliderB.height || 0) / 2;
-      const halfDepthB = (colliderB.depth || 0) / 2;
-      
-      return (
-        Math.abs(posA.x - posB.x) < halfWidthA + halfWidthB &&
-        Math.abs(posA.y - posB.y) < halfHeightA + halfHeightB &&
-        Math.abs(posA.z - posB.z) < halfDepthA + halfDepthB
-      );
-    } else if (colliderA.type === 'sphere' && colliderB.type === 'box') {
-      // Sphere-box collision - simplified
-      return this.checkSphereBoxCollision(
-        this.reusableVectorA, colliderA.radius || 0,
-        this.reusableVectorB, colliderB.width || 0, colliderB.height || 0, colliderB.depth || 0
-      );
-    } else if (colliderA.type === 'box' && colliderB.type === 'sphere') {
-      // Box-sphere collision
-      return this.checkSphereBoxCollision(
-        this.reusableVectorB, colliderB.radius || 0,
-        this.reusableVectorA, colliderA.width || 0, colliderA.height || 0, colliderA.depth || 0
-      );
-    }
-    
-    // Default fallback - use a simple distance check
-    const fallbackRadius = 1.0; // Default fallback radius
-    return distance < fallbackRadius * 2;
-  }
-  
-  private checkSphereBoxCollision(
-    spherePos: THREE.Vector3, sphereRadius: number,
-    boxPos: THREE.Vector3, boxWidth: number, boxHeight: number, boxDepth: number
-  ): boolean {
-    // Transform sphere center to box space
-    const halfWidth = boxWidth / 2;
-    const halfHeight = boxHeight / 2;
-    const halfDepth = boxDepth / 2;
-    
-    // Find closest point on box to sphere center
-    const closestX = Math.max(boxPos.x - halfWidth, Math.min(spherePos.x, boxPos.x + halfWidth));
-    const closestY = Math.max(boxPos.y - halfHeight, Math.min(spherePos.y, boxPos.y + halfHeight));
-    const closestZ = Math.max(boxPos.z - halfDepth, Math.min(spherePos.z, boxPos.z + halfDepth));
-    
-    // Calculate distance to closest point
-    const distanceX = spherePos.x - closestX;
-    const distanceY = spherePos.y - closestY; 
-    const distanceZ = spherePos.z - closestZ;
-    
-    const distanceSquared = distanceX * distanceX + distanceY * distanceY + distanceZ * distanceZ;
-    
-    return distanceSquared < (sphereRadius * sphereRadius);
+    // Boxes and capsules turn with the entity
+    return shapesOverlap(
+      toCollisionShape(posA, colliderA, this.world.getComponent(entityA, 'Rotation')),
+      toCollisionShape(posB, colliderB, this.world.getComponent(entityB, 'Rotation'))
+    );
   }
   
   private handleCollision(entityA: number, entityB: number): void {
-    const colliderA = this.world.getComponent<Collider>(entityA, 'Collider');
-    const colliderB = this.world.getComponent<Collider>(entityB, 'Collider');
+    const colliderA = this.world.getComponent(entityA, 'Collider');
+    const colliderB = this.world.getComponent(entityB, 'Collider');
     
     if (!colliderA || !colliderB) return;
     
@@ -248,6 +402,27 @@ export class CollisionSystem implements System {
     } else if (colliderA.layer === 'shield' && colliderB.layer === 'projectile') {
       this.handleProjectileShieldCollision(entityB, entityA);
     }
+
+    // Handle projectile collision with boss parts
+    else if (colliderA.layer === 'projectile' && colliderB.layer === 'boss') {
+      this.handleProjectileBossCollision(entityA, entityB);
+    } else if (colliderA.layer === 'boss' && colliderB.layer === 'projectile') {
+      this.handleProjectileBossCollision(entityB, entityA);
+    }
+
+    // Handle projectile collision with bombs
+    else if (colliderA.layer === 'projectile' && colliderB.layer === 'bomb') {
+      this.handleProjectileBombCollision(entityA, entityB);
+    } else if (colliderA.layer === 'bomb' && colliderB.layer === 'projectile') {
+      this.handleProjectileBombCollision(entityB, entityA);
+    }
+
+    // Handle projectile collision with mines
+    else if (colliderA.layer === 'projectile' && colliderB.layer === 'mine') {
+      this.handleProjectileMineCollision(entityA, entityB);
+    } else if (colliderA.layer === 'mine' && colliderB.layer === 'projectile') {
+      this.handleProjectileMineCollision(entityB, entityA);
+    }
     
     // Handle projectile collision
     else if (colliderA.layer === 'projectile' && this.collisionMatrix.get('projectile')?.includes(colliderB.layer)) {
@@ -263,6 +438,13 @@ export class CollisionSystem implements System {
       this.handleEnemyDysonSphereCollision(entityB, entityA);
     }
     
+    // Handle bomb-dysonSphere collision
+    if (colliderA.layer === 'bomb' && colliderB.layer === 'dysonSphere') {
+      this.handleBombDysonSphereCollision(entityA, entityB);
+    } else if (colliderB.layer === 'bomb' && colliderA.layer === 'dysonSphere') {
+      this.handleBombDysonSphereCollision(entityB, entityA);
+    }
+    
     // Handle player-enemy collision
     if (colliderA.layer === 'player' && colliderB.layer === 'enemy') {
       this.handlePlayerEnemyCollision(entityA, entityB);
@@ -270,6 +452,20 @@ export class CollisionSystem implements System {
       this.handlePlayerEnemyCollision(entityB, entityA);
     }
     
+    // Handle player-boss contact
+    if (colliderA.layer === 'player' && colliderB.layer === 'boss') {
+      this.handlePlayerBossCollision(entityA, entityB);
+    } else if (colliderB.layer === 'player' && colliderA.layer === 'boss') {
+      this.handlePlayerBossCollision(entityB, entityA);
+    }
+    
+    // Handle player-mine contact
+    if (colliderA.layer === 'player' && colliderB.layer === 'mine') {
+      this.handlePlayerMineCollision(entityB);
+    } else if (colliderB.layer === 'player' && colliderA.layer === 'mine') {
+      this.handlePlayerMineCollision(entityA);
+    }
+    
     // Handle player-powerUp collision
     if (colliderA.layer === 'player' && colliderB.layer === 'powerUp') {
       this.handlePlayerPowerUpCollision(entityA, entityB);
@@ -280,53 +476,28 @@ export class CollisionSystem implements System {
   
   private handleEnemyDysonSphereCollision(enemyEntity: number, dysonSphereEntity: number): void {
     // Get enemy properties
-    const enemy = this.world.getComponent<Enemy>(enemyEntity, 'Enemy');
+    const enemy = this.world.getComponent(enemyEntity, 'Enemy');
     if (!enemy) return;
     
-    // Check for shield first
-    const shield = this.world.getComponent<Shield>(dysonSphereEntity, 'Shield');
-    const health = this.world.getComponent<Health>(dysonSphereEntity, 'Health');
-    const shieldSystem = this.getShieldSystem();
-    
-    if (!health) return;
-    
-    // Damage logic - shield first, then health
-    if (shield && shield.current > 0) {
-      // Notify shield system of hit
-      if (shieldSystem) {
-        shieldSystem.onShieldHit(dysonSphereEntity);
-      }
-      
-      // Apply damage to shield
-      shield.current -= enemy.damage;
-      
-      // If shield is depleted, apply remaining damage to health
-      if (shield.current < 0) {
-        health.current += shield.current; // Add negative value
-        shield.current = 0;
-      }
-    } else {
-      // Shield already depleted or doesn't exist, damage health directly
-      health.current -= enemy.damage;
-    }
-    
-    // Clamp health to minimum of 0
-    health.current = Math.max(0, health.current);
+    applyDamage(this.world, {
+      target: dysonSphereEntity,
+      amount: enemy.damage,
+      type: 'impact',
+      source: 'collision',
+      attacker: enemyEntity
+    });
     
     // Remove the enemy
-    this.world.removeEntity(enemyEntity);
+    this.world.deferRemoveEntity(enemyEntity);
     
     // Game over logic is handled by the HUDSystem that monitors the Dyson Sphere health
   }
   
   private handleProjectileCollision(projectileEntity: number, targetEntity: number): void {
     // Get projectile properties
-    const projectile = this.world.getComponent<Projectile>(projectileEntity, 'Projectile');
+    const projectile = this.world.getComponent(projectileEntity, 'Projectile');
     if (!projectile) return;
     
-    // Get HUD system for notifications
-    const hudSystem = this.getHUDSystem();
-    const shieldSystem = this.getShieldSystem();
     const isPlayerProjectile = this.world.hasComponent(projectile.ownerEntity, 'InputReceiver');
     
     // Check if this is the Dyson Sphere
@@ -336,62 +507,26 @@ export class CollisionSystem implements System {
         return; // Skip collision for player projectiles with Dyson sphere
       }
 
-      const shield = this.world.getComponent<Shield>(targetEntity, 'Shield');
-      const health = this.world.getComponent<Health>(targetEntity, 'Health');
-      
-      if (health) {
-        // Damage logic - shield first, then health
-        if (shield && shield.current > 0) {
-          // Notify shield system of hit
-          if (shieldSystem) {
-            shieldSystem.onShieldHit(targetEntity);
-          }
-          
-          // Apply damage to shield
-          shield.current -= projectile.damage;
-          
-          // If shield is depleted, apply remaining damage to health
-          if (shield.current < 0) {
-            health.current += shield.current; // Add negative value
-            shield.current = 0;
-          }
-        } else {
-          // Shield already depleted or doesn't exist, damage health directly
-          health.current -= projectile.damage;
-        }
-        
-        // Clamp health to minimum of 0
-        health.current = Math.max(0, health.current);
-      }
+      this.damageWithProjectile(projectile, targetEntity);
+      this.emitProjectileHit(projectileEntity, targetEntity, projectile.damage, isPlayerProjectile);
     }
     // Handle other entities with just health
     else if (this.world.hasComponent(targetEntity, 'Health')) {
-      const health = this.world.getComponent<Health>(targetEntity, 'Health');
+      const health = this.world.getComponent(targetEntity, 'Health');
       if (health) {
-        // Apply damage
-        health.current -= projectile.damage;
+        const elite = this.world.getComponent(targetEntity, 'Elite');
+        if (elite && isPlayerProjectile && this.tryReflectProjectile(projectileEntity, projectile, targetEntity, elite)) {
+          return;
+        }
+
+        this.damageWithProjectile(projectile, targetEntity);
+        this.emitProjectileHit(projectileEntity, targetEntity, projectile.damage, isPlayerProjectile);
         
         // Check if this is a player being hit
         if (this.world.hasComponent(targetEntity, 'InputReceiver')) {
-          if (hudSystem) {
-            // Activate damage effect
-            hudSystem.activateDamageEffect(0.8, 0.5);
-            
-            // Check if player is destroyed
-            if (health.current <= 0) {
-              // Play explosion sound when player is destroyed
-              if (this.audioManager) {
-                this.audioManager.playSound('explosion', false, 0.7);
-              }
-              
-              // Find the HUD entity to pass to triggerGameOver
-              const hudEntities = this.world.getEntitiesWith(['UIDisplay', 'GameStateDisplay']);
-              if (hudEntities.length > 0) {
-                // Directly trigger game over
-                hudSystem.triggerGameOver(hudEntities[0], 'Player Ship Destroyed');
-                return; // Exit early to prevent entity removal
-              }
-            }
+          // Leave the projectile in place once the game is over
+          if (health.current <= 0) {
+            return;
           }
         }
         // Check if entity is an enemy
@@ -400,12 +535,9 @@ export class CollisionSystem implements System {
             this.registerPlayerAccuracyHit(projectile);
           }
 
-          // Get the enemy component to check its type
-          const enemy = this.world.getComponent<Enemy>(targetEntity, 'Enemy');
-          
           // Check if the enemy has a HealthBarComponent and update its visibility if damaged
           if (this.world.hasComponent(targetEntity, 'HealthBarComponent')) {
-            const healthBar = this.world.getComponent<HealthBarComponent>(targetEntity, 'HealthBarComponent');
+            const healthBar = this.world.getComponent(targetEntity, 'HealthBarComponent');
             if (healthBar && healthBar.showWhenDamaged && health.current < health.max) {
               healthBar.visible = true;
             }
@@ -413,94 +545,8 @@ export class CollisionSystem implements System {
           
           // Check if entity is destroyed
           if (health.current <= 0) {
-            // Play explosion sound when enemy is destroyed
-            if (this.audioManager) {
-              this.audioManager.playSound('explosion', false, 0.5);
-            }
-            
-            // Get the enemy position for the floating score
-            const enemyPosition = this.world.getComponent<Position>(targetEntity, 'Position');
-            
-            if (enemyPosition && enemy) {
-              // Add score based on enemy type
-              let scoreValue = 10 * SCORE_MULTIPLIER; // Default for 'grunt' enemies
-              
-              // Special score values for different enemy types
-              if (enemy.type === 'warpRaider') {
-                scoreValue = 25 * SCORE_MULTIPLIER; // Warp Raiders are worth more points
-              } else if (enemy.type === 'asteroid') {
-                scoreValue = 50 * SCORE_MULTIPLIER; // Asteroids are worth even more points
-                
-                // Create a special explosion effect for asteroids
-                if (this.world.hasComponent(targetEntity, 'Position')) {
-                  // Add an explosion animation at the asteroid's position
-                  if (this.animationSystem) {
-                    const asteroidPos = this.world.getComponent<Position>(targetEntity, 'Position');
-                    if (asteroidPos) {
-                      this.animationSystem.createExplosion(
-                        asteroidPos, 
-                        3.0,  // Larger explosion
-                        1.5,  // Longer duration
-                        50   // More particles
-                      );
-                      
-                      // Play a louder explosion sound for asteroids
-                      if (this.audioManager) {
-                        this.audioManager.playSound('explosion', false, 0.8);
-                      }
-                    }
-                  }
-                  
-                  // Display a special message when destroying an asteroid
-                  const localHudSystem = this.getHUDSystem();
-                  if (localHudSystem) {
-                    localHudSystem.displayMessage("Asteroid Destroyed!", 3);
-                  }
-                }
-              }
-              
-              // Create proper copy of position
-              const scorePosition = {
-                x: enemyPosition.x,
-                y: enemyPosition.y + 1.0, // Add vertical offset to appear closer to center
-                z: enemyPosition.z
-              };
-              
-              const scoreMultiplier = this.gameStateManager.getStateReference().scoreMultiplier;
-              scoreValue = Math.round(scoreValue * scoreMultiplier);
-
-              // Create floating score at enemy position (Visual only)
-              createFloatingScore(this.world, scorePosition, scoreValue);
-
-              // --- Update Score and Enemies Defeated in Global State --- 
-              const currentState = this.gameStateManager.getState();
-              this.gameStateManager.updateState({
-                score: currentState.score + scoreValue,
-                upgradeCredits: currentState.upgradeCredits + scoreValue,
-                enemiesDefeated: currentState.enemiesDefeated + 1
-              });
-              // --- End State Update --- 
-              
-              // Spawn a power-up at the enemy's position (15% chance)
-              if (this.powerUpSystem && Math.random() < 0.15) {
-                // Create a fresh copy of the enemy position to avoid reference issues
-                const powerUpPosition = {
-                  x: enemyPosition.x,
-                  y: enemyPosition.y,
-                  z: enemyPosition.z
-                };
-                
-                // Debug enemy position before spawning
-                console.log(`Enemy destroyed: ${enemy.type} at position X=${powerUpPosition.x.toFixed(2)}, Y=${powerUpPosition.y.toFixed(2)}, Z=${powerUpPosition.z.toFixed(2)}`);
-                
-                this.powerUpSystem.spawnPowerUpAtPosition(powerUpPosition);
-              }
-            }
-            
             console.log(`[CollisionSystem] Enemy ${targetEntity} health <= 0. Preparing to remove.`);
-
-            // Remove the destroyed entity (enemy)
-            this.world.removeEntity(targetEntity);
+            this.destroyEnemy(targetEntity);
           }
         }
       }
@@ -510,84 +556,114 @@ export class CollisionSystem implements System {
     if (isPlayerProjectile) {
       resolveAccuracyProjectile(projectile.accuracyShotId);
     }
-    this.world.removeEntity(projectileEntity);
+    this.world.deferRemoveEntity(projectileEntity);
   }
   
   // Helper method to check if an entity is the Dyson Sphere
   private isDysonSphere(entity: number): boolean {
     // Get the renderable component
-    const renderable = this.world.getComponent<{ modelId: string }>(entity, 'Renderable');
+    const renderable = this.world.getComponent(entity, 'Renderable');
     return renderable ? renderable.modelId === 'dysonSphere' : false;
   }
+
+  private emitProjectileHit(projectile: number, target: number, damage: number, byPlayer: boolean): void {
+    this.world.emit('ProjectileHit', { projectile, target, damage, byPlayer });
+  }
+
+  // Lasers deal energy damage, credited to whoever owns the shot now
+  private damageWithProjectile(projectile: Projectile, target: number, amount: number = projectile.damage): DamageResult {
+    return applyDamage(this.world, {
+      target,
+      amount,
+      type: 'energy',
+      source: 'projectile',
+      attacker: projectile.ownerEntity
+    });
+  }
+
+  // Queues a killed enemy for removal and announces it; subscribers handle score, drops, sound and effects.
+  // Asteroids break into fragments of the next size down and splitting elites into copies first.
+  private destroyEnemy(enemyEntity: number): void {
+    const enemy = this.world.getComponent(enemyEntity, 'Enemy');
+    const position = this.world.getComponent(enemyEntity, 'Position');
+    const asteroid = this.world.getComponent(enemyEntity, 'Asteroid');
+    const elite = this.world.getComponent(enemyEntity, 'Elite');
+    const killCredit = getKillCredit(this.world, enemyEntity);
+
+    // Spawned mid-update, so through the command buffer
+    if (asteroid) {
+      createAsteroidFragments(this.world.deferred(), enemyEntity);
+    }
+    if (elite) {
+      spawnEliteSplits(this.world.deferred(), enemyEntity);
+    }
+    this.world.deferRemoveEntity(enemyEntity);
+
+    if (enemy && position) {
+      this.world.emit('EnemyDestroyed', {
+        entity: enemyEntity,
+        enemyType: enemy.type,
+        position: { x: position.x, y: position.y, z: position.z },
+        asteroidSize: asteroid?.size,
+        elite: elite !== undefined,
+        ...killCredit
+      });
+    }
+  }
+
+  // Reflective elites bounce some player lasers straight back; the laser then belongs to the elite
+  private tryReflectProjectile(projectileEntity: number, projectile: Projectile, eliteEntity: number, elite: Elite): boolean {
+    const reflectChance = getEliteValue(elite, 'reflectChance');
+    if (!reflectChance || !this.world.getRandomStream('elites').chance(reflectChance)) return false;
+
+    const velocity = this.world.getComponent(projectileEntity, 'Velocity');
+    if (!velocity) return false;
+
+    velocity.x = -velocity.x;
+    velocity.y = -velocity.y;
+    velocity.z = -velocity.z;
+    const rotation = this.world.getComponent(projectileEntity, 'Rotation');
+    if (rotation) {
+      // Reversed heading in YXZ order: turn half a circle and mirror the pitch
+      rotation.x = -rotation.x;
+      rotation.y += Math.PI;
+    }
+
+    // A reflected shot is a miss for the accuracy streak
+    if (resolveAccuracyProjectile(projectile.accuracyShotId)) {
+      resetAccuracy(this.gameStateManager.getStateReference());
+    }
+    projectile.accuracyShotId = undefined;
+    projectile.ownerEntity = eliteEntity;
+    projectile.timeAlive = 0;
+
+    this.world.emit('ProjectileReflected', { projectile: projectileEntity, reflector: eliteEntity });
+    return true;
+  }
   
   private handlePlayerEnemyCollision(playerEntity: number, enemyEntity: number): void {
-    // Get player health
-    const playerHealth = this.world.getComponent<Health>(playerEntity, 'Health');
-    if (!playerHealth) return;
+    if (!this.world.hasComponent(playerEntity, 'Health')) return;
     
     // Get enemy component
-    const enemy = this.world.getComponent<{ damage: number }>(enemyEntity, 'Enemy');
+    const enemy = this.world.getComponent(enemyEntity, 'Enemy');
     if (!enemy) return;
     
-    // Apply damage to player
-    playerHealth.current -= enemy.damage;
-    
-    // Clamp health to minimum of 0
-    playerHealth.current = Math.max(0, playerHealth.current);
-    
-    // Get HUD system to activate damage effect
-    const hudSystem = this.getHUDSystem();
-    if (hudSystem) {
-      // Activate damage effect with higher intensity since this is direct collision
-      hudSystem.activateDamageEffect(1.0, 0.7);
-    }
-    
     // Remove the enemy
-    this.world.removeEntity(enemyEntity);
-    
-    // Check if player is destroyed
-    if (playerHealth.current <= 0 && hudSystem) {
-      // Find the HUD entity to pass to triggerGameOver
-      const hudEntities = this.world.getEntitiesWith(['UIDisplay', 'GameStateDisplay']);
-      if (hudEntities.length > 0) {
-        // Directly trigger game over now that the method is public
-        hudSystem.triggerGameOver(hudEntities[0], 'Player Ship Destroyed');
-      }
-    }
-  }
-  
-  // Get the HUD system from the world
-  private getHUDSystem(): HUDSystem | null {
-    const systems = (this.world as any).systems;
-    if (!systems) return null;
-    
-    for (const system of systems) {
-      if (system instanceof HUDSystem) {
-        return system;
-      }
-    }
-    
-    return null;
-  }
-
-  // Get the Shield system from the world
-  private getShieldSystem(): ShieldSystem | null {
-    const systems = (this.world as any).systems;
-    if (!systems) return null;
-    
-    for (const system of systems) {
-      if (system instanceof ShieldSystem) {
-        return system;
-      }
-    }
+    this.world.deferRemoveEntity(enemyEntity);
     
-    return null;
+    applyDamage(this.world, {
+      target: playerEntity,
+      amount: enemy.damage,
+      type: 'impact',
+      source: 'collision',
+      attacker: enemyEntity
+    });
   }
-
+  
   // Add this new method for shield collisions
   private handleProjectileShieldCollision(projectileEntity: number, shieldEntity: number): void {
     // Get the projectile component
-    const projectile = this.world.getComponent<Projectile>(projectileEntity, 'Projectile');
+    const projectile = this.world.getComponent(projectileEntity, 'Projectile');
     if (!projectile) return;
     
     // Check if this projectile is from a player or an enemy
@@ -602,20 +678,18 @@ export class CollisionSystem implements System {
     this.registerPlayerAccuracyHit(projectile);
     
     // Get the shield bubble component
-    const bubbleComponent = this.world.getComponent<ShieldBubbleComponent>(shieldEntity, 'ShieldBubbleComponent');
+    const bubbleComponent = this.world.getComponent(shieldEntity, 'ShieldBubbleComponent');
     if (!bubbleComponent) return;
     
     // Get the guardian entity
     const guardianEntity = bubbleComponent.guardian;
     if (!this.world.hasEntity(guardianEntity)) return;
     
-    // Get shield component from guardian
-    const shield = this.world.getComponent<ShieldComponent>(guardianEntity, 'ShieldComponent');
-    if (!shield) return;
+    if (!this.world.hasComponent(guardianEntity, 'ShieldComponent')) return;
     
     // Get the projectile position for visual effects
-    const projectilePos = this.world.getComponent<Position>(projectileEntity, 'Position');
-    const bubblePos = this.world.getComponent<Position>(shieldEntity, 'Position');
+    const projectilePos = this.world.getComponent(projectileEntity, 'Position');
+    const bubblePos = this.world.getComponent(shieldEntity, 'Position');
     
     if (projectilePos && bubblePos) {
       // Calculate impact point on shield surface
@@ -626,7 +700,7 @@ export class CollisionSystem implements System {
       ).normalize();
       
       // Get the shield renderable to add impact effect
-      const renderable = this.world.getComponent<any>(shieldEntity, 'Renderable');
+      const renderable = this.world.getComponent(shieldEntity, 'Renderable');
       if (renderable && renderable.mesh) {
         const mesh = renderable.mesh;
         
@@ -677,63 +751,314 @@ export class CollisionSystem implements System {
       }
     }
     
-    // Decrement shield. Heavy secondary shots chew through guardian bubbles faster.
-    shield.currentShield -= Math.max(1, Math.ceil(projectile.damage / 25));
+    // The damage service knocks hits off the guardian's bubble
+    const { killed } = this.damageWithProjectile(projectile, shieldEntity);
     
     // If shield is depleted, remove the shield bubble and kill the guardian
-    if (shield.currentShield <= 0) {
+    if (killed) {
+      const killCredit = getKillCredit(this.world, guardianEntity);
+
       // First find and remove any ShieldBarComponent entities referencing this guardian
       const shieldBarEntities = this.world.getEntitiesWith(['ShieldBarComponent']);
       for (const barEntity of shieldBarEntities) {
-        const barComponent = this.world.getComponent<ShieldBarComponent>(barEntity, 'ShieldBarComponent');
+        const barComponent = this.world.getComponent(barEntity, 'ShieldBarComponent');
         if (barComponent && barComponent.entity === guardianEntity) {
           // Found a shield bar component that references this guardian
-          this.world.removeComponent(barEntity, 'ShieldBarComponent');
+          this.world.deferRemoveComponent(barEntity, 'ShieldBarComponent');
           // If this is a dedicated entity for the bar, remove the whole entity
           if (barEntity !== guardianEntity) {
-            this.world.removeEntity(barEntity);
+            this.world.deferRemoveEntity(barEntity);
           }
         }
       }
       
       // Then remove the shield bubble
-      this.world.removeEntity(shieldEntity);
+      this.world.deferRemoveEntity(shieldEntity);
       
       // Now destroy the guardian itself
-      this.world.removeEntity(guardianEntity);
+      this.world.deferRemoveEntity(guardianEntity);
       
-      // Create score entity if the bubble position is known
       if (bubblePos) {
-        // Score value for Shield Guardian
-        const scoreValue = 20 * SCORE_MULTIPLIER; 
-
-        // Create a proper copy of the position
-        const scorePosition = {
-          x: bubblePos.x,
-          y: bubblePos.y,
-          z: bubblePos.z
-        };
-
-        const scoreMultiplier = this.gameStateManager.getStateReference().scoreMultiplier;
-        const multipliedScoreValue = Math.round(scoreValue * scoreMultiplier);
-
-        // Create floating score (Visual only)
-        createFloatingScore(this.world, scorePosition, multipliedScoreValue);
-
-        // --- Update Score and Enemies Defeated in Global State --- 
-        const currentState = this.gameStateManager.getState();
-        this.gameStateManager.updateState({
-          score: currentState.score + multipliedScoreValue,
-          upgradeCredits: currentState.upgradeCredits + multipliedScoreValue,
-          enemiesDefeated: currentState.enemiesDefeated + 1 // Count guardian as defeated enemy
+        this.world.emit('EnemyDestroyed', {
+          entity: guardianEntity,
+          enemyType: 'shieldGuardian',
+          position: { x: bubblePos.x, y: bubblePos.y, z: bubblePos.z },
+          ...killCredit
         });
-        // --- End State Update ---
       }
     }
     
     // Remove the projectile
     resolveAccuracyProjectile(projectile.accuracyShotId);
-    this.world.removeEntity(projectileEntity);
+    this.world.deferRemoveEntity(projectileEntity);
+  }
+
+  // Player shots damage weak points fully and the core at its armor multiplier while weak points remain
+  private handleProjectileBossCollision(projectileEntity: number, partEntity: number): void {
+    const projectile = this.world.getComponent(projectileEntity, 'Projectile');
+    if (!projectile) return;
+
+    // Boss volleys pass through the boss's own parts
+    if (!this.world.hasComponent(projectile.ownerEntity, 'InputReceiver')) {
+      return;
+    }
+
+    this.registerPlayerAccuracyHit(projectile);
+
+    const weakPoint = this.world.getComponent(partEntity, 'WeakPoint');
+    const bossEntity = weakPoint ? weakPoint.boss : partEntity;
+    const boss = this.world.getComponent(bossEntity, 'Boss');
+    const definition = boss ? BOSSES[boss.bossId] : undefined;
+    const partHealth = this.world.getComponent(partEntity, 'Health');
+
+    if (boss && definition && partHealth && !this.world.isPendingRemoval(bossEntity)) {
+      const armored = !weakPoint && boss.weakPoints.some(entity =>
+        this.world.hasEntity(entity) && !this.world.isPendingRemoval(entity));
+      const damage = armored ? projectile.damage * definition.armor : projectile.damage;
+
+      const { killed } = this.damageWithProjectile(projectile, partEntity, damage);
+      this.emitProjectileHit(projectileEntity, partEntity, damage, true);
+
+      if (killed) {
+        if (weakPoint) {
+          this.destroyBossWeakPoint(partEntity, bossEntity, definition.weakPoint.burstDamage, projectile.ownerEntity);
+        } else {
+          this.destroyBoss(bossEntity);
+        }
+      }
+    }
+
+    resolveAccuracyProjectile(projectile.accuracyShotId);
+    this.world.deferRemoveEntity(projectileEntity);
+  }
+
+  // A destroyed weak point blows a chunk out of the core, bypassing its armor
+  private destroyBossWeakPoint(weakPointEntity: number, bossEntity: number, burstDamage: number, attacker: number): void {
+    const position = this.world.getComponent(weakPointEntity, 'Position');
+    this.world.deferRemoveEntity(weakPointEntity);
+
+    if (position) {
+      this.world.emit('BossWeakPointDestroyed', {
+        boss: bossEntity,
+        weakPoint: weakPointEntity,
+        position: { x: position.x, y: position.y, z: position.z }
+      });
+    }
+
+    const { killed } = applyDamage(this.world, {
+      target: bossEntity,
+      amount: burstDamage,
+      type: 'kinetic',
+      source: 'projectile',
+      attacker
+    });
+    if (killed) {
+      this.destroyBoss(bossEntity);
+    }
+  }
+
+  private destroyBoss(bossEntity: number): void {
+    const boss = this.world.getComponent(bossEntity, 'Boss');
+    for (const weakPoint of boss?.weakPoints ?? []) {
+      if (this.world.hasEntity(weakPoint)) {
+        this.world.deferRemoveEntity(weakPoint);
+      }
+    }
+
+    console.log(`[CollisionSystem] Boss ${bossEntity} destroyed`);
+    this.destroyEnemy(bossEntity);
+  }
+
+  // Touching a boss hurts (at most once per contact cooldown) and pushes the player back out
+  private handlePlayerBossCollision(playerEntity: number, partEntity: number): void {
+    const weakPoint = this.world.getComponent(partEntity, 'WeakPoint');
+    const bossEntity = weakPoint ? weakPoint.boss : partEntity;
+    const boss = this.world.getComponent(bossEntity, 'Boss');
+    const definition = boss ? BOSSES[boss.bossId] : undefined;
+    if (!boss || !definition || !this.world.hasComponent(playerEntity, 'Health')) return;
+
+    const playerPosition = this.world.getComponent(playerEntity, 'Position');
+    const partPosition = this.world.getComponent(partEntity, 'Position');
+    const playerCollider = this.world.getComponent(playerEntity, 'Collider');
+    const partCollider = this.world.getComponent(partEntity, 'Collider');
+    if (playerPosition && partPosition && playerCollider && partCollider) {
+      const away = this.reusableVectorA.set(
+        playerPosition.x - partPosition.x,
+        playerPosition.y - partPosition.y,
+        playerPosition.z - partPosition.z
+      );
+      if (away.lengthSq() === 0) away.set(0, 1, 0);
+      // The ship's collider is a box; clear it by its widest half-extent
+      const playerRadius = playerCollider.radius ?? Math.max(playerCollider.width ?? 0, playerCollider.depth ?? 0) / 2;
+      away.normalize().multiplyScalar((partCollider.radius || 0) + playerRadius);
+      playerPosition.x = partPosition.x + away.x;
+      playerPosition.y = partPosition.y + away.y;
+      playerPosition.z = partPosition.z + away.z;
+    }
+
+    if (boss.contactCooldown > 0) return;
+    boss.contactCooldown = definition.contactCooldown;
+
+    applyDamage(this.world, {
+      target: playerEntity,
+      amount: definition.contactDamage,
+      type: 'impact',
+      source: 'collision',
+      attacker: bossEntity
+    });
+  }
+
+  // Player shots chip away at a bomb; enemy fire passes through
+  private handleProjectileBombCollision(projectileEntity: number, bombEntity: number): void {
+    const projectile = this.world.getComponent(projectileEntity, 'Projectile');
+    if (!projectile || !this.world.hasComponent(projectile.ownerEntity, 'InputReceiver')) return;
+
+    this.registerPlayerAccuracyHit(projectile);
+
+    if (this.world.hasComponent(bombEntity, 'Health')) {
+      const { killed } = this.damageWithProjectile(projectile, bombEntity);
+      this.emitProjectileHit(projectileEntity, bombEntity, projectile.damage, true);
+
+      if (killed) {
+        const position = this.world.getComponent(bombEntity, 'Position');
+        this.world.deferRemoveEntity(bombEntity);
+        if (position) {
+          this.world.emit('BombIntercepted', {
+            bomb: bombEntity,
+            position: { x: position.x, y: position.y, z: position.z }
+          });
+        }
+      }
+    }
+
+    resolveAccuracyProjectile(projectile.accuracyShotId);
+    this.world.deferRemoveEntity(projectileEntity);
+  }
+
+  // The blast partly bypasses the shield and catches a player within its radius
+  private handleBombDysonSphereCollision(bombEntity: number, dysonSphereEntity: number): void {
+    const bomb = this.world.getComponent(bombEntity, 'Bomb');
+    const position = this.world.getComponent(bombEntity, 'Position');
+    if (!bomb || !position) return;
+
+    applyDamage(this.world, {
+      target: dysonSphereEntity,
+      amount: bomb.damage,
+      type: 'kinetic',
+      source: 'bomb',
+      attacker: bomb.ownerEntity,
+      shieldBypass: bomb.shieldBypass
+    });
+    this.world.deferRemoveEntity(bombEntity);
+
+    // Splash falls off linearly from the impact point
+    for (const [playerEntity, , playerPosition, playerHealth] of this.world.query(['InputReceiver', 'Position', 'Health'])) {
+      const distance = Math.sqrt(
+        Math.pow(playerPosition.x - position.x, 2) +
+        Math.pow(playerPosition.y - position.y, 2) +
+        Math.pow(playerPosition.z - position.z, 2)
+      );
+      if (distance >= bomb.blastRadius || playerHealth.current <= 0) continue;
+
+      applyDamage(this.world, {
+        target: playerEntity,
+        amount: bomb.damage * (1 - distance / bomb.blastRadius),
+        type: 'kinetic',
+        source: 'bomb',
+        attacker: bomb.ownerEntity
+      });
+    }
+
+    this.world.emit('BombDetonated', {
+      bomb: bombEntity,
+      position: { x: position.x, y: position.y, z: position.z },
+      blastRadius: bomb.blastRadius
+    });
+  }
+
+  // Player shots set a mine off early, wherever it is; enemy fire passes through
+  private handleProjectileMineCollision(projectileEntity: number, mineEntity: number): void {
+    const projectile = this.world.getComponent(projectileEntity, 'Projectile');
+    if (!projectile || !this.world.hasComponent(projectile.ownerEntity, 'InputReceiver')) return;
+
+    this.registerPlayerAccuracyHit(projectile);
+
+    if (this.world.hasComponent(mineEntity, 'Health')) {
+      const { killed } = this.damageWithProjectile(projectile, mineEntity);
+      this.emitProjectileHit(projectileEntity, mineEntity, projectile.damage, true);
+
+      if (killed) {
+        this.detonateMine(mineEntity, projectile.ownerEntity);
+      }
+    }
+
+    resolveAccuracyProjectile(projectile.accuracyShotId);
+    this.world.deferRemoveEntity(projectileEntity);
+  }
+
+  // Flying into an armed mine sets it off at once; fresh mines can still be brushed past
+  private handlePlayerMineCollision(mineEntity: number): void {
+    const mine = this.world.getComponent(mineEntity, 'Mine');
+    if (mine && mine.armTimer <= 0) {
+      this.detonateMine(mineEntity, mine.ownerEntity);
+    }
+  }
+
+  private detonateMine(mineEntity: number, attacker: number): void {
+    const mine = this.world.getComponent(mineEntity, 'Mine');
+    const position = this.world.getComponent(mineEntity, 'Position');
+    if (!mine || !position || this.world.isPendingRemoval(mineEntity)) return;
+
+    this.world.deferRemoveEntity(mineEntity);
+    this.world.emit('MineDetonated', {
+      mine: mineEntity,
+      position: { x: position.x, y: position.y, z: position.z },
+      damage: mine.damage,
+      blastRadius: mine.blastRadius,
+      attacker
+    });
+  }
+
+  // Mine blasts fall off linearly like bomb splash and don't spare the Mine Layer's allies
+  private applyMineBlast(position: { x: number, y: number, z: number }, damage: number, blastRadius: number, attacker: number): void {
+    for (const [playerEntity, , playerPosition, playerHealth] of this.world.query(['InputReceiver', 'Position', 'Health'])) {
+      const distance = Math.sqrt(
+        Math.pow(playerPosition.x - position.x, 2) +
+        Math.pow(playerPosition.y - position.y, 2) +
+        Math.pow(playerPosition.z - position.z, 2)
+      );
+      if (distance >= blastRadius || playerHealth.current <= 0) continue;
+
+      applyDamage(this.world, {
+        target: playerEntity,
+        amount: damage * (1 - distance / blastRadius),
+        type: 'kinetic',
+        source: 'mine',
+        attacker
+      });
+    }
+
+    for (const [enemyEntity, , enemyPosition] of this.world.query(['Enemy', 'Position', 'Health'])) {
+      if (this.world.isPendingRemoval(enemyEntity) || this.world.hasComponent(enemyEntity, 'Boss')) continue;
+
+      const distance = Math.sqrt(
+        Math.pow(enemyPosition.x - position.x, 2) +
+        Math.pow(enemyPosition.y - position.y, 2) +
+        Math.pow(enemyPosition.z - position.z, 2)
+      );
+      if (distance >= blastRadius) continue;
+
+      const { killed } = applyDamage(this.world, {
+        target: enemyEntity,
+        amount: damage * (1 - distance / blastRadius),
+        type: 'kinetic',
+        source: 'mine',
+        attacker
+      });
+      if (killed) {
+        this.destroyEnemy(enemyEntity);
+      }
+    }
   }
 
   private registerPlayerAccuracyHit(projectile: Projectile): void {
@@ -746,50 +1071,16 @@ export class CollisionSystem implements System {
     // Debug logging
     console.log(`Collision detected between player ${playerEntity} and power-up ${powerUpEntity}`);
     
-    // Make sure we have access to the power-up system
-    if (!this.powerUpSystem) {
-      // Try to find the power-up system in the world
-      const systems = this.world.getSystems();
-      for (const system of systems) {
-        if (system instanceof PowerUpSystem) {
-          this.powerUpSystem = system;
-          break;
-        }
-      }
-      
-      // If still not found, we can't handle power-ups
-      if (!this.powerUpSystem) {
-        console.error("PowerUpSystem not found!");
-        return;
-      }
-    }
-    
-    // Get the power-up type to display the correct message
-    const powerUp = this.world.getComponent<PowerUp>(powerUpEntity, 'PowerUp');
+    const powerUp = this.world.getComponent(powerUpEntity, 'PowerUp');
     if (!powerUp) {
       return;
     }
     
-    // Apply the power-up effect
-    this.powerUpSystem.applyPowerUp(powerUpEntity, playerEntity);
-    console.log("Power-up applied successfully");
-    
-    // Get HUD system for notifications
-    const hudSystem = this.getHUDSystem();
-    if (hudSystem) {
-      // Display message based on power-up type
-      if (powerUp.type === 'fireRate') {
-        hudSystem.displayMessage("Double Fire Rate Power-Up Collected!", 2);
-      } else if (powerUp.type === 'speed') {
-        hudSystem.displayMessage("1.5x Speed Boost Power-Up Collected!", 2);
-      } else if (powerUp.type === 'health') {
-        hudSystem.displayMessage("Health Power-Up Collected! +20 HP", 2);
-      }
-    }
-    
-    // Play power-up sound when collected
-    if (this.audioManager) {
-      this.audioManager.playSound('powerup', false, 0.6);
-    }
+    // PowerUpSystem applies the effect and removes the pickup
+    this.world.emit('PowerUpCollected', {
+      player: playerEntity,
+      powerUpEntity,
+      powerUpType: powerUp.type
+    });
   }
-} 
+}
@@ -1,11 +1,12 @@
 import * as THREE from 'three';
 import { World, System } from '../World';
-import { DevMode, MouseLook, Position, Rotation, Velocity } from '../components';
+import { Position, Rotation } from '../components';
 import { SceneManager } from '../../rendering/SceneManager';
 import { InputManager } from '../input/InputManager';
 import { createDevCamera } from '../entities/DevCameraEntity';
 import { GameState, GameStateManager } from '../State';
-import { GameStateDisplay } from '../components';
+import { CollisionSystem } from './CollisionSystem';
+import { ColliderDebugOverlay } from '../../rendering/ColliderDebugOverlay';
 
 /**
  * Dev System
@@ -16,6 +17,9 @@ import { GameStateDisplay } from '../components';
  * Responsibilities:
  * - Manages the dev mode toggle (freeze/unfreeze game state)
  * - Handles the free-flying dev camera
+ * - Toggles the collider debug overlay (O key): collider wireframes by layer, contact
+ *   flashes and the collision matrix with per-layer counts. It works in and out of dev
+ *   mode, since missed hits only show up while the game runs.
  * - Processes input specifically for dev mode
  * 
  * This system is intended for development only and can be removed in production.
@@ -29,12 +33,15 @@ export class DevSystem implements System {
   private stateManager: GameStateManager;
   private wasGameRunning: boolean = false;
   private wasToggleKeyPressed: boolean = false; // Track previous key state
+  private wasOverlayKeyPressed: boolean = false;
+  private colliderOverlay: ColliderDebugOverlay;
   
-  constructor(world: World, sceneManager: SceneManager, container: HTMLElement) {
+  constructor(world: World, sceneManager: SceneManager, container: HTMLElement, collisionSystem: CollisionSystem) {
     this.world = world;
     this.sceneManager = sceneManager;
     this.container = container;
     this.stateManager = new GameStateManager();
+    this.colliderOverlay = new ColliderDebugOverlay(world, sceneManager.getScene(), container, collisionSystem);
   }
   
   update(deltaTime: number): void {
@@ -57,11 +64,26 @@ export class DevSystem implements System {
     
     // Update previous key state
     this.wasToggleKeyPressed = inputState.toggleDevMode;
+
+    if (inputState.toggleColliderDebug && !this.wasOverlayKeyPressed) {
+      this.colliderOverlay.setVisible(!this.colliderOverlay.isVisible());
+      console.log(`Collider debug overlay ${this.colliderOverlay.isVisible() ? 'on' : 'off'}`);
+    }
+    this.wasOverlayKeyPressed = inputState.toggleColliderDebug;
     
     // If dev mode is active, handle camera movement
     if (this.isDevModeActive) {
       this.updateDevCamera(deltaTime);
     }
+
+    this.colliderOverlay.update(deltaTime);
+  }
+
+  /**
+   * Removes the collider overlay's scene objects and panel
+   */
+  dispose(): void {
+    this.colliderOverlay.dispose();
   }
   
   /**
@@ -98,11 +120,11 @@ export class DevSystem implements System {
       let initialPosition: Position = { x: 0, y: 0, z: 0 };
       let initialRotation: Rotation = { x: 0, y: 0, z: 0 };
       
-      const cameraMount = this.world.getComponent<any>(cameraEntity, 'CameraMount');
+      const cameraMount = this.world.getComponent(cameraEntity, 'CameraMount');
       if (cameraMount) {
         const parentEntity = cameraMount.parentEntity;
-        const parentPosition = this.world.getComponent<Position>(parentEntity, 'Position');
-        const parentRotation = this.world.getComponent<Rotation>(parentEntity, 'Rotation');
+        const parentPosition = this.world.getComponent(parentEntity, 'Position');
+        const parentRotation = this.world.getComponent(parentEntity, 'Rotation');
         
         if (parentPosition && parentRotation) {
           initialPosition = { ...parentPosition };
@@ -138,7 +160,7 @@ export class DevSystem implements System {
     
     // Check if we have a dev mode entity
     if (this.devModeEntity !== -1 && this.world.hasEntity(this.devModeEntity)) {
-      const devMode = this.world.getComponent<DevMode>(this.devModeEntity, 'DevMode');
+      const devMode = this.world.getComponent(this.devModeEntity, 'DevMode');
       
       if (devMode) {
         // Remove the dev camera entity
@@ -163,7 +185,7 @@ export class DevSystem implements System {
       const hudEntities = this.world.getEntitiesWith(['UIDisplay', 'GameStateDisplay']);
       if (hudEntities.length > 0) {
         const hudEntity = hudEntities[0];
-        const gameStateDisplay = this.world.getComponent<GameStateDisplay>(hudEntity, 'GameStateDisplay');
+        const gameStateDisplay = this.world.getComponent(hudEntity, 'GameStateDisplay');
         
         if (gameStateDisplay) {
           // Remove and add component to update game state
@@ -187,7 +209,7 @@ export class DevSystem implements System {
   private updateDevCamera(deltaTime: number): void {
     if (this.devModeEntity === -1 || !this.world.hasEntity(this.devModeEntity)) return;
     
-    const devMode = this.world.getComponent<DevMode>(this.devModeEntity, 'DevMode');
+    const devMode = this.world.getComponent(this.devModeEntity, 'DevMode');
     if (!devMode || !devMode.devCameraEntity) return;
     
     // Only process input for the dev camera
@@ -197,8 +219,8 @@ export class DevSystem implements System {
     
     // Handle mouse movement for dev camera rotation
     if (mouseState.isPointerLocked) {
-      const rotation = this.world.getComponent<Rotation>(devMode.devCameraEntity, 'Rotation');
-      const mouseLook = this.world.getComponent<MouseLook>(devMode.devCameraEntity, 'MouseLook');
+      const rotation = this.world.getComponent(devMode.devCameraEntity, 'Rotation');
+      const mouseLook = this.world.getComponent(devMode.devCameraEntity, 'MouseLook');
       
       if (rotation && mouseLook) {
         // Apply mouse movement
@@ -215,8 +237,8 @@ export class DevSystem implements System {
       }
       
       // Handle movement for dev camera
-      const position = this.world.getComponent<Position>(devMode.devCameraEntity, 'Position');
-      const velocity = this.world.getComponent<Velocity>(devMode.devCameraEntity, 'Velocity');
+      const position = this.world.getComponent(devMode.devCameraEntity, 'Position');
+      const velocity = this.world.getComponent(devMode.devCameraEntity, 'Velocity');
       
       if (position && velocity && rotation) {
         // Calculate movement direction based on input
@@ -262,8 +284,8 @@ export class DevSystem implements System {
     // Update camera in scene
     const camera = this.sceneManager.getCamera();
     if (camera) {
-      const position = this.world.getComponent<Position>(devMode.devCameraEntity, 'Position');
-      const rotation = this.world.getComponent<Rotation>(devMode.devCameraEntity, 'Rotation');
+      const position = this.world.getComponent(devMode.devCameraEntity, 'Position');
+      const rotation = this.world.getComponent(devMode.devCameraEntity, 'Rotation');
       
       if (position && rotation) {
         camera.position.set(position.x, position.y, position.z);
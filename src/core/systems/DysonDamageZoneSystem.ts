@@ -1,6 +1,7 @@
 import { World, System } from '../World';
-import { Position, Health, Collider } from '../components';
 import * as THREE from 'three';
+import { DamageSource } from '../../types/events';
+import { applyDamage } from '../damage';
 
 export class DysonDamageZoneSystem implements System {
   private world: World;
@@ -27,7 +28,7 @@ export class DysonDamageZoneSystem implements System {
     const dysonEntities = this.world.getEntitiesWith(['Position', 'Collider', 'Renderable']);
     let dysonEntity = -1;
     for (const entity of dysonEntities) {
-      const renderable = this.world.getComponent<{ modelId: string }>(entity, 'Renderable');
+      const renderable = this.world.getComponent(entity, 'Renderable');
       if (renderable && renderable.modelId === 'dysonSphere') {
         dysonEntity = entity;
         break;
@@ -36,10 +37,10 @@ export class DysonDamageZoneSystem implements System {
     if (dysonEntity === -1) return;
 
     // Get necessary components
-    const playerPos = this.world.getComponent<Position>(playerEntity, 'Position');
-    const dysonPos = this.world.getComponent<Position>(dysonEntity, 'Position');
-    const dysonCollider = this.world.getComponent<Collider>(dysonEntity, 'Collider');
-    const playerHealth = this.world.getComponent<Health>(playerEntity, 'Health');
+    const playerPos = this.world.getComponent(playerEntity, 'Position');
+    const dysonPos = this.world.getComponent(dysonEntity, 'Position');
+    const dysonCollider = this.world.getComponent(dysonEntity, 'Collider');
+    const playerHealth = this.world.getComponent(playerEntity, 'Health');
 
     if (!playerPos || !dysonPos || !dysonCollider || !playerHealth) return;
 
@@ -60,32 +61,14 @@ export class DysonDamageZoneSystem implements System {
     if (isInInnerRadius) {
       // Apply immediate damage if just entered the inner radius
       if (!this.wasInInnerRadius) {
-        playerHealth.current = Math.max(0, playerHealth.current - this.INNER_DAMAGE_AMOUNT);
-        const hudEntities = this.world.getEntitiesWith(['UIDisplay', 'DamageEffect']);
-        if (hudEntities.length > 0) {
-          const hudEntity = hudEntities[0];
-          const hudSystem = this.getHUDSystem();
-          if (hudSystem) {
-            hudSystem.activateDamageEffect(1.0, 0.5); // Higher intensity for inner zone
-          }
-        }
+        this.damagePlayer(playerEntity, this.INNER_DAMAGE_AMOUNT, 'dysonInnerZone');
       }
 
       // Handle periodic damage for inner radius
       this.damageTimer += deltaTime;
       if (this.damageTimer >= this.INNER_DAMAGE_INTERVAL) {
         // Apply damage
-        playerHealth.current = Math.max(0, playerHealth.current - this.INNER_DAMAGE_AMOUNT);
-        
-        // Get HUD system to trigger damage effect
-        const hudEntities = this.world.getEntitiesWith(['UIDisplay', 'DamageEffect']);
-        if (hudEntities.length > 0) {
-          const hudEntity = hudEntities[0];
-          const hudSystem = this.getHUDSystem();
-          if (hudSystem) {
-            hudSystem.activateDamageEffect(1.0, 0.5); // Higher intensity for inner zone
-          }
-        }
+        this.damagePlayer(playerEntity, this.INNER_DAMAGE_AMOUNT, 'dysonInnerZone');
 
         // Reset timer
         this.damageTimer = 0;
@@ -93,32 +76,14 @@ export class DysonDamageZoneSystem implements System {
     } else if (isInRadius) {
       // Apply immediate damage if just entered the outer radius
       if (!this.wasInRadius) {
-        playerHealth.current = Math.max(0, playerHealth.current - this.OUTER_DAMAGE_AMOUNT);
-        const hudEntities = this.world.getEntitiesWith(['UIDisplay', 'DamageEffect']);
-        if (hudEntities.length > 0) {
-          const hudEntity = hudEntities[0];
-          const hudSystem = this.getHUDSystem();
-          if (hudSystem) {
-            hudSystem.activateDamageEffect(0.8, 0.5);
-          }
-        }
+        this.damagePlayer(playerEntity, this.OUTER_DAMAGE_AMOUNT, 'dysonOuterZone');
       }
 
       // Handle periodic damage for outer radius
       this.damageTimer += deltaTime;
       if (this.damageTimer >= this.OUTER_DAMAGE_INTERVAL) {
         // Apply damage
-        playerHealth.current = Math.max(0, playerHealth.current - this.OUTER_DAMAGE_AMOUNT);
-        
-        // Get HUD system to trigger damage effect
-        const hudEntities = this.world.getEntitiesWith(['UIDisplay', 'DamageEffect']);
-        if (hudEntities.length > 0) {
-          const hudEntity = hudEntities[0];
-          const hudSystem = this.getHUDSystem();
-          if (hudSystem) {
-            hudSystem.activateDamageEffect(0.8, 0.5);
-          }
-        }
+        this.damagePlayer(playerEntity, this.OUTER_DAMAGE_AMOUNT, 'dysonOuterZone');
 
         // Reset timer
         this.damageTimer = 0;
@@ -133,13 +98,7 @@ export class DysonDamageZoneSystem implements System {
     this.wasInInnerRadius = isInInnerRadius;
   }
 
-  private getHUDSystem(): any {
-    const systems = this.world.getSystems();
-    for (const system of systems) {
-      if (system.constructor.name === 'HUDSystem') {
-        return system;
-      }
-    }
-    return null;
+  private damagePlayer(playerEntity: number, amount: number, source: DamageSource): void {
+    applyDamage(this.world, { target: playerEntity, amount, type: 'environmental', source });
   }
-} 
\ No newline at end of file
+}
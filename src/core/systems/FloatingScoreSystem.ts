@@ -1,5 +1,4 @@
 import { System, World } from '../World';
-import { FloatingScore, Position } from '../components';
 
 /**
  * System for managing floating score indicators that appear when enemies are destroyed
@@ -26,8 +25,8 @@ export class FloatingScoreSystem implements System {
     // --- END DEBUG LOG ---
     
     for (const entity of scoreEntities) {
-      const score = this.world.getComponent<FloatingScore>(entity, 'FloatingScore');
-      const position = this.world.getComponent<Position>(entity, 'Position');
+      const score = this.world.getComponent(entity, 'FloatingScore');
+      const position = this.world.getComponent(entity, 'Position');
       
       // --- REMOVE DEBUG LOGS AND SIMPLIFY BACK TO ORIGINAL ---
       if (!score || !position) continue;
@@ -55,7 +54,7 @@ export class FloatingScoreSystem implements System {
         // --- REMOVE DEBUG LOGS ---
         // console.log(`[DEBUG] FloatingScore ${entity} value=${score.value} lifetime ended, removing entity at final pos=(${position.x.toFixed(2)}, ${position.y.toFixed(2)}, ${position.z.toFixed(2)})`);
         // --- END DEBUG LOG ---
-        this.world.removeEntity(entity);
+        this.world.deferRemoveEntity(entity);
       }
     }
   }
@@ -1,7 +1,26 @@
 import { System, World } from '../World';
-import { Health, UIDisplay, HealthDisplay, ScoreDisplay, MessageDisplay, DysonSphereStatus, Renderable, DamageEffect, GameStateDisplay, GameOverStats, Shield, Reticle, Radar, Enemy, Position, Rotation, WaveInfo } from '../components';
+import { UIDisplay, WaveInfo } from '../components';
 import { InputManager } from '../input/InputManager';
 import * as THREE from 'three';
+import { DamageSource } from '../../types/events';
+import { GHOST_CONTACT_PERIOD, GHOST_CONTACT_DURATION } from '../../constants/cloak';
+
+// Screen flash per damage source; direct collisions hit harder than shots
+const DAMAGE_EFFECTS: Record<DamageSource, { intensity: number; duration: number }> = {
+  projectile: { intensity: 0.8, duration: 0.5 },
+  collision: { intensity: 1.0, duration: 0.7 },
+  lightning: { intensity: 0.6, duration: 0.4 },
+  dysonInnerZone: { intensity: 1.0, duration: 0.5 },
+  dysonOuterZone: { intensity: 0.8, duration: 0.5 },
+  bomb: { intensity: 0.9, duration: 0.6 },
+  mine: { intensity: 0.9, duration: 0.6 }
+};
+
+const POWER_UP_MESSAGES = {
+  fireRate: 'Double Fire Rate Power-Up Collected!',
+  speed: '1.5x Speed Boost Power-Up Collected!',
+  health: 'Health Power-Up Collected! +20 HP'
+};
 
 export class HUDSystem implements System {
   private world: World;
@@ -9,6 +28,32 @@ export class HUDSystem implements System {
   
   constructor(world: World) {
     this.world = world;
+    this.subscribeToEvents();
+  }
+
+  private subscribeToEvents(): void {
+    this.world.on('Announcement', ({ message, duration }) => this.displayMessage(message, duration));
+    this.world.on('GameOver', ({ reason }) => this.triggerGameOverByReason(reason));
+    this.world.on('UpgradeApplied', () => this.displayMessage('UPGRADE INSTALLED', 2));
+    this.world.on('PowerUpCollected', ({ powerUpType }) => this.displayMessage(POWER_UP_MESSAGES[powerUpType], 2));
+
+    this.world.on('EnemyDestroyed', ({ enemyType }) => {
+      if (enemyType === 'asteroid') {
+        this.displayMessage('Asteroid Destroyed!', 3);
+      } else if (enemyType === 'hiveMothership') {
+        this.displayMessage('HIVE MOTHERSHIP DESTROYED!', 4);
+      }
+    });
+
+    this.world.on('BossWeakPointDestroyed', () => this.displayMessage('Weak Point Destroyed!', 2));
+
+    this.world.on('PlayerDamaged', ({ healthRemaining, source }) => {
+      const effect = DAMAGE_EFFECTS[source];
+      this.activateDamageEffect(effect.intensity, effect.duration);
+      if (healthRemaining <= 0) {
+        this.triggerGameOverByReason('Player Ship Destroyed');
+      }
+    });
   }
   
   update(deltaTime: number): void {
@@ -26,19 +71,19 @@ export class HUDSystem implements System {
   }
   
   private updateHealthDisplay(hudEntity: number): void {
-    const healthDisplay = this.world.getComponent<HealthDisplay>(hudEntity, 'HealthDisplay');
+    const healthDisplay = this.world.getComponent(hudEntity, 'HealthDisplay');
     if (!healthDisplay) return;
     
     // Get health of the referenced entity
     const targetEntity = healthDisplay.entity;
-    const health = this.world.getComponent<Health>(targetEntity, 'Health');
+    const health = this.world.getComponent(targetEntity, 'Health');
     
     // Health data is now available for rendering
     // (The React component will read this data)
   }
   
   private updateDysonSphereStatus(hudEntity: number): void {
-    const dysonStatus = this.world.getComponent<DysonSphereStatus>(hudEntity, 'DysonSphereStatus');
+    const dysonStatus = this.world.getComponent(hudEntity, 'DysonSphereStatus');
     if (!dysonStatus) return;
     
     // Find Dyson Sphere entity
@@ -47,7 +92,7 @@ export class HUDSystem implements System {
     
     // Find the entity with modelId === 'dysonSphere'
     for (const entity of dysonEntities) {
-      const renderable = this.world.getComponent<Renderable>(entity, 'Renderable');
+      const renderable = this.world.getComponent(entity, 'Renderable');
       if (renderable && renderable.modelId === 'dysonSphere') {
         dysonEntity = entity;
         break;
@@ -57,8 +102,8 @@ export class HUDSystem implements System {
     if (dysonEntity === -1) return;
     
     // Get shield and health from the Dyson Sphere entity
-    const shield = this.world.getComponent<Shield>(dysonEntity, 'Shield');
-    const health = this.world.getComponent<Health>(dysonEntity, 'Health');
+    const shield = this.world.getComponent(dysonEntity, 'Shield');
+    const health = this.world.getComponent(dysonEntity, 'Health');
     
     // Update status with both shield and health information
     if (shield) {
@@ -71,7 +116,7 @@ export class HUDSystem implements System {
   }
   
   private updateMessages(hudEntity: number, deltaTime: number): void {
-    const messageDisplay = this.world.getComponent<MessageDisplay>(hudEntity, 'MessageDisplay');
+    const messageDisplay = this.world.getComponent(hudEntity, 'MessageDisplay');
     if (!messageDisplay || messageDisplay.timeRemaining <= 0) return;
     
     // Update message timer
@@ -82,7 +127,7 @@ export class HUDSystem implements System {
   }
   
   private updateDamageEffect(hudEntity: number, deltaTime: number): void {
-    const damageEffect = this.world.getComponent<DamageEffect>(hudEntity, 'DamageEffect');
+    const damageEffect = this.world.getComponent(hudEntity, 'DamageEffect');
     if (!damageEffect) return;
     
     // If the damage effect is active, update its timer
@@ -98,7 +143,7 @@ export class HUDSystem implements System {
   }
   
   private updateGameState(hudEntity: number): void {
-    const gameStateDisplay = this.world.getComponent<GameStateDisplay>(hudEntity, 'GameStateDisplay');
+    const gameStateDisplay = this.world.getComponent(hudEntity, 'GameStateDisplay');
     if (!gameStateDisplay) return;
 
     const globalState = this.world.getGameState();
@@ -137,9 +182,9 @@ export class HUDSystem implements System {
       const dysonSphereEntities = this.world.getEntitiesWith(['Health', 'Renderable']);
       let dysonDestroyed = false;
       for (const entity of dysonSphereEntities) {
-        const renderable = this.world.getComponent<Renderable>(entity, 'Renderable');
+        const renderable = this.world.getComponent(entity, 'Renderable');
         if (renderable && renderable.modelId === 'dysonSphere') {
-          const health = this.world.getComponent<Health>(entity, 'Health');
+          const health = this.world.getComponent(entity, 'Health');
           if (health && health.current <= 0) {
             // Trigger game over but don't remove the Dyson Sphere
             if (renderable) {
@@ -158,7 +203,7 @@ export class HUDSystem implements System {
         const playerEntities = this.world.getEntitiesWith(['Health', 'InputReceiver']);
         if (playerEntities.length > 0) {
           const playerEntity = playerEntities[0];
-          const health = this.world.getComponent<Health>(playerEntity, 'Health');
+          const health = this.world.getComponent(playerEntity, 'Health');
           if (health && health.current <= 0) {
             this.triggerGameOver(hudEntity, 'Player Ship Destroyed');
             newComponentState = 'game_over'; // Update state immediately
@@ -174,7 +219,7 @@ export class HUDSystem implements System {
   }
   
   public triggerGameOver(hudEntity: number, reason: string): void {
-    const gameStateDisplay = this.world.getComponent<GameStateDisplay>(hudEntity, 'GameStateDisplay');
+    const gameStateDisplay = this.world.getComponent(hudEntity, 'GameStateDisplay');
     if (!gameStateDisplay) return;
     
     // Update game state to game over
@@ -186,7 +231,8 @@ export class HUDSystem implements System {
     }
     
     // Exit pointer lock so the cursor is available for the game over screen
-    const container = document.getElementById('game-container');
+    // (there is no document in headless simulation runs)
+    const container = typeof document !== 'undefined' ? document.getElementById('game-container') : null;
     if (container) {
       const inputManager = InputManager.getInstance(container);
       inputManager.exitPointerLock();
@@ -211,7 +257,7 @@ export class HUDSystem implements System {
     const hudEntities = this.world.getEntitiesWith(['UIDisplay', 'MessageDisplay']);
     if (hudEntities.length === 0) return;
     
-    const messageDisplay = this.world.getComponent<MessageDisplay>(hudEntities[0], 'MessageDisplay');
+    const messageDisplay = this.world.getComponent(hudEntities[0], 'MessageDisplay');
     if (messageDisplay) {
       messageDisplay.message = message;
       messageDisplay.duration = duration;
@@ -223,7 +269,7 @@ export class HUDSystem implements System {
     const hudEntities = this.world.getEntitiesWith(['UIDisplay', 'ScoreDisplay']);
     if (hudEntities.length === 0) return;
     
-    const scoreDisplay = this.world.getComponent<ScoreDisplay>(hudEntities[0], 'ScoreDisplay');
+    const scoreDisplay = this.world.getComponent(hudEntities[0], 'ScoreDisplay');
     if (scoreDisplay) {
       scoreDisplay.score += amount;
     }
@@ -233,7 +279,7 @@ export class HUDSystem implements System {
     const hudEntities = this.world.getEntitiesWith(['UIDisplay', 'DamageEffect']);
     if (hudEntities.length === 0) return;
     
-    const damageEffect = this.world.getComponent<DamageEffect>(hudEntities[0], 'DamageEffect');
+    const damageEffect = this.world.getComponent(hudEntities[0], 'DamageEffect');
     if (damageEffect) {
       damageEffect.active = true;
       damageEffect.intensity = intensity;
@@ -247,7 +293,7 @@ export class HUDSystem implements System {
     if (hudEntities.length === 0) return;
     
     const hudEntity = hudEntities[0];
-    const gameStateDisplay = this.world.getComponent<GameStateDisplay>(hudEntity, 'GameStateDisplay');
+    const gameStateDisplay = this.world.getComponent(hudEntity, 'GameStateDisplay');
     
     if (gameStateDisplay) {
       gameStateDisplay.currentState = 'playing';
@@ -262,7 +308,7 @@ export class HUDSystem implements System {
     const hudEntities = this.world.getEntitiesWith(['UIDisplay', 'Reticle']);
     if (hudEntities.length === 0) return;
     
-    const reticle = this.world.getComponent<Reticle>(hudEntities[0], 'Reticle');
+    const reticle = this.world.getComponent(hudEntities[0], 'Reticle');
     if (reticle) {
       reticle.style = style;
       reticle.color = color;
@@ -275,7 +321,7 @@ export class HUDSystem implements System {
     const hudEntities = this.world.getEntitiesWith(['UIDisplay', 'Reticle']);
     if (hudEntities.length === 0) return;
     
-    const reticle = this.world.getComponent<Reticle>(hudEntities[0], 'Reticle');
+    const reticle = this.world.getComponent(hudEntities[0], 'Reticle');
     if (reticle) {
       reticle.visible = visible !== undefined ? visible : !reticle.visible;
     }
@@ -284,13 +330,13 @@ export class HUDSystem implements System {
   // Reset all HUD-related components to their initial values
   public resetHUD(hudEntity: number): void {
     // Reset score to 0
-    const scoreDisplay = this.world.getComponent<ScoreDisplay>(hudEntity, 'ScoreDisplay');
+    const scoreDisplay = this.world.getComponent(hudEntity, 'ScoreDisplay');
     if (scoreDisplay) {
       scoreDisplay.score = 0;
     }
     
     // Reset game over stats
-    const gameOverStats = this.world.getComponent<GameOverStats>(hudEntity, 'GameOverStats');
+    const gameOverStats = this.world.getComponent(hudEntity, 'GameOverStats');
     if (gameOverStats) {
       gameOverStats.finalScore = 0;
       gameOverStats.survivalTime = 0;
@@ -299,14 +345,14 @@ export class HUDSystem implements System {
     }
     
     // Reset message display
-    const messageDisplay = this.world.getComponent<MessageDisplay>(hudEntity, 'MessageDisplay');
+    const messageDisplay = this.world.getComponent(hudEntity, 'MessageDisplay');
     if (messageDisplay) {
       messageDisplay.message = '';
       messageDisplay.timeRemaining = 0;
     }
     
     // Reset damage effect
-    const damageEffect = this.world.getComponent<DamageEffect>(hudEntity, 'DamageEffect');
+    const damageEffect = this.world.getComponent(hudEntity, 'DamageEffect');
     if (damageEffect) {
       damageEffect.active = false;
       damageEffect.timeRemaining = 0;
@@ -314,7 +360,7 @@ export class HUDSystem implements System {
   }
   
   private updateRadar(hudEntity: number, deltaTime: number): void {
-    const radar = this.world.getComponent<Radar>(hudEntity, 'Radar');
+    const radar = this.world.getComponent(hudEntity, 'Radar');
     if (!radar || !radar.active) return;
     
     // Update refresh timer
@@ -329,8 +375,8 @@ export class HUDSystem implements System {
     if (playerEntities.length === 0) return;
     
     const playerEntity = playerEntities[0];
-    const playerPos = this.world.getComponent<Position>(playerEntity, 'Position');
-    const playerRot = this.world.getComponent<Rotation>(playerEntity, 'Rotation');
+    const playerPos = this.world.getComponent(playerEntity, 'Position');
+    const playerRot = this.world.getComponent(playerEntity, 'Rotation');
     if (!playerPos || !playerRot) return;
     
     // Create a HORIZONTAL forward vector based ONLY on player's YAW rotation
@@ -351,10 +397,15 @@ export class HUDSystem implements System {
     
     // Process each enemy
     for (const enemyEntity of enemyEntities) {
-      const enemy = this.world.getComponent<Enemy>(enemyEntity, 'Enemy');
-      const position = this.world.getComponent<Position>(enemyEntity, 'Position');
+      const enemy = this.world.getComponent(enemyEntity, 'Enemy');
+      const position = this.world.getComponent(enemyEntity, 'Position');
       
       if (!enemy || !position) continue;
+
+      // Cloaked enemies only show up as a brief ghost contact every few seconds
+      const cloak = this.world.getComponent(enemyEntity, 'Cloak');
+      const ghost = cloak !== undefined && cloak.visibility < 0.5;
+      if (ghost && cloak.flickerTime % GHOST_CONTACT_PERIOD >= GHOST_CONTACT_DURATION) continue;
       
       // Calculate FULL distance vector (including Y)
       const fullDistanceVector = new THREE.Vector3(
@@ -399,17 +450,30 @@ export class HUDSystem implements System {
             threatLevel = 0.6;
             break;
           case 'bomber':
+          case 'carrier':
             threatLevel = 0.8;
             break;
+          case 'swarmDrone':
+            threatLevel = 0.4;
+            break;
           case 'asteroid':
             threatLevel = 1.0; // Highest threat level for asteroids
             break;
+          case 'asteroidFragment':
+            threatLevel = 0.6;
+            break;
           case 'warpRaider':
+          case 'phantom':
             threatLevel = 0.8;
             break;
           case 'shieldGuardian':
+          case 'mineLayer':
             threatLevel = 0.7;
             break;
+          case 'hiveMothership':
+          case 'medic': // Priority target: it keeps the rest of the wave alive
+            threatLevel = 1.0;
+            break;
           default:
             threatLevel = 0.5;
         }
@@ -425,15 +489,46 @@ export class HUDSystem implements System {
           y: verticalDifference, // Vertical offset
           z: radarZ  // Relative forward/backward on radar
         },
-        threatLevel: threatLevel
+        threatLevel: ghost ? 0.3 : threatLevel,
+        ghost
+      });
+    }
+
+    // Space mines stay on the radar so the player can steer around minefields
+    for (const [mineEntity, mine, position] of this.world.query(['Mine', 'Position'])) {
+      const horizontalDistanceVector = new THREE.Vector3(
+        position.x - playerPos.x,
+        0, // Ignore Y difference
+        position.z - playerPos.z
+      );
+      const horizontalDistance = horizontalDistanceVector.length();
+
+      let horizontalDirection = new THREE.Vector3(0, 0, 0);
+      if (horizontalDistance > 0.001) {
+        horizontalDirection = horizontalDistanceVector.clone().normalize();
+      }
+
+      radar.trackedEntities.push({
+        entityId: mineEntity,
+        entityType: 'spaceMine',
+        horizontalDistance: horizontalDistance,
+        direction: {
+          x: playerHorizontalRight.dot(horizontalDirection),
+          y: position.y - playerPos.y,
+          z: playerHorizontalForward.dot(horizontalDirection)
+        },
+        threatLevel: mine.triggered ? 1.0 : 0.7
       });
     }
+
+    // Radar Pulse upgrade: show the sweep ring while a pulse is revealing cloaked enemies
+    radar.pulseActive = (this.world.getGameState()?.radarPulseRemaining ?? 0) > 0;
     
     // Find and add Dyson Sphere to radar
     const dysonSphereEntities = this.world.getEntitiesWith(['Renderable', 'Position']);
     for (const dysonEntity of dysonSphereEntities) {
-      const renderable = this.world.getComponent<Renderable>(dysonEntity, 'Renderable');
-      const position = this.world.getComponent<Position>(dysonEntity, 'Position');
+      const renderable = this.world.getComponent(dysonEntity, 'Renderable');
+      const position = this.world.getComponent(dysonEntity, 'Position');
       
       if (!renderable || !position || renderable.modelId !== 'dysonSphere') continue;
       
@@ -1,5 +1,4 @@
 import { World, System } from '../World';
-import { Health, HealthBarComponent } from '../components';
 
 export class HealthBarSystem implements System {
   private world: World;
@@ -13,16 +12,17 @@ export class HealthBarSystem implements System {
     const entities = this.world.getEntitiesWith(['HealthBarComponent', 'Health']);
     
     for (const entity of entities) {
-      const healthBar = this.world.getComponent<HealthBarComponent>(entity, 'HealthBarComponent');
-      const health = this.world.getComponent<Health>(entity, 'Health');
+      const healthBar = this.world.getComponent(entity, 'HealthBarComponent');
+      const health = this.world.getComponent(entity, 'Health');
       
       if (!healthBar || !health) continue;
       
       // Check if this health bar should only show when damaged
       if (healthBar.showWhenDamaged) {
-        // Show health bar if health is less than max
+        // Show health bar if health is less than max, unless a cloak is hiding the enemy
         const isDamaged = health.current < health.max;
-        healthBar.visible = isDamaged;
+        const cloak = this.world.getComponent(entity, 'Cloak');
+        healthBar.visible = isDamaged && (!cloak || cloak.visibility >= 0.5);
       }
     }
   }
@@ -1,11 +1,9 @@
 // src/core/systems/InputSystem.ts
 import * as THREE from 'three';
 import { World, System } from '../World';
-import { Velocity, InputReceiver, MouseLook, Rotation, LaserCooldown } from '../components';
-import { InputManager } from '../input/InputManager';
-import { JoystickStateHolder } from '../input/JoystickStateHolder';
-import { AimingJoystickStateHolder } from '../input/AimingJoystickStateHolder';
-import { SceneManager } from '../../rendering/SceneManager';
+import { InputReceiver, PlayerInput } from '../components';
+import { InputSource, createPlayerInput, copyPlayerInput } from '../input/InputSource';
+import { ReplayRecorder } from '../input/ReplayRecorder';
 
 /**
  * Input System
@@ -15,6 +13,9 @@ import { SceneManager } from '../../rendering/SceneManager';
  * Handles keyboard input for movement and mouse input for rotation.
  * 
  * Responsibilities:
+ * - Samples one PlayerInput per simulation step from the active input source
+ *   (live devices, or a replay during playback) and hands it to the replay recorder
+ * - Publishes the sample as a PlayerInput component on input receivers for other systems
  * - Processes keyboard input for movement
  * - Processes mouse input for rotation
  * - Updates entity velocities and rotations based on input
@@ -22,36 +23,56 @@ import { SceneManager } from '../../rendering/SceneManager';
  */
 export class InputSystem implements System {
   private world: World;
-  private inputManager: InputManager;
-  private joystickStateHolder: JoystickStateHolder;
-  private aimingJoystickStateHolder: AimingJoystickStateHolder;
-  private sceneManager: SceneManager;
+  private liveInputSource: InputSource;
+  private inputSource: InputSource;
+  private recorder: ReplayRecorder | null = null;
+  private frame: PlayerInput = createPlayerInput(); // Input for the current step
   private readonly BASE_SPEED = 40.0;
   private readonly JOYSTICK_SPEED_MULTIPLIER = 1.0;
   private readonly AIM_ROTATION_SPEED = Math.PI * 0.2; // Radians per second - Significantly reduced sensitivity
 
-  constructor(world: World, sceneManager: SceneManager) {
+  /**
+   * @param liveInputSource The default input source: live devices in the browser,
+   * or a scripted bot in headless runs
+   */
+  constructor(world: World, liveInputSource: InputSource) {
     this.world = world;
-    this.sceneManager = sceneManager;
-    
-    // Get the renderer DOM element for input handling
-    const rendererElement = sceneManager.getRendererDomElement();
-    if (!rendererElement) {
-      throw new Error('Renderer DOM element not available');
-    }
-    this.inputManager = InputManager.getInstance(rendererElement);
-    this.joystickStateHolder = JoystickStateHolder.getInstance();
-    this.aimingJoystickStateHolder = AimingJoystickStateHolder.getInstance();
+    this.liveInputSource = liveInputSource;
+    this.inputSource = liveInputSource;
+  }
+
+  /**
+   * Replace the input source (e.g. with a replay). Pass null to return to live input.
+   */
+  public setInputSource(source: InputSource | null): void {
+    this.inputSource = source ?? this.liveInputSource;
+  }
+
+  /**
+   * Record every sampled step into the given recorder (null stops recording)
+   */
+  public setRecorder(recorder: ReplayRecorder | null): void {
+    this.recorder = recorder;
   }
 
   update(deltaTime: number): void {
-    // Get keyboard/mouse input states
-    const inputState = this.inputManager.getInputState();
-    const mouseState = this.inputManager.getMouseState();
-    
-    // Get joystick state directly
-    const joystick = this.joystickStateHolder;
-    const aimingJoystick = this.aimingJoystickStateHolder;
+    // Sample exactly once per simulation step so recording and playback line up
+    const input = this.frame;
+    this.inputSource.sample(input);
+    this.recorder?.record(input);
+
+    // Publish this step's input for other systems (movement boost, weapons)
+    for (const entity of this.world.getEntitiesWith(['InputReceiver'])) {
+      let playerInput = this.world.getComponent(entity, 'PlayerInput');
+      if (!playerInput) {
+        playerInput = createPlayerInput();
+        this.world.addComponent(entity, 'PlayerInput', playerInput);
+      }
+      copyPlayerInput(input, playerInput);
+    }
+
+    const joystick = input.moveStick;
+    const aimingJoystick = input.aimStick;
 
     // Get all entities with InputReceiver and Velocity components
     const entities = this.world.getEntitiesWith(['InputReceiver', 'Velocity', 'Rotation']);
@@ -60,8 +81,8 @@ export class InputSystem implements System {
     const cameraEntities = entities.filter(entity => this.world.hasComponent(entity, 'MouseLook'));
     
     for (const entity of cameraEntities) {
-      const rotation = this.world.getComponent<Rotation>(entity, 'Rotation');
-      const mouseLook = this.world.getComponent<MouseLook>(entity, 'MouseLook');
+      const rotation = this.world.getComponent(entity, 'Rotation');
+      const mouseLook = this.world.getComponent(entity, 'MouseLook');
 
       if (!rotation || !mouseLook) {
         continue;
@@ -94,9 +115,9 @@ export class InputSystem implements System {
         // Keep roll level
         rotation.z = 0;
 
-      } else if (mouseState.isPointerLocked) {
-        mouseLook.yaw -= mouseState.movementX * mouseLook.sensitivity;
-        mouseLook.pitch -= mouseState.movementY * mouseLook.sensitivity;
+      } else if (input.pointerLocked) {
+        mouseLook.yaw -= input.mouseX * mouseLook.sensitivity;
+        mouseLook.pitch -= input.mouseY * mouseLook.sensitivity;
         
         mouseLook.pitch = Math.max(mouseLook.pitchMin, Math.min(mouseLook.pitchMax, mouseLook.pitch));
         
@@ -110,8 +131,8 @@ export class InputSystem implements System {
 
     // Now process input for movement (combining joystick and keyboard)
     for (const entity of entities) {
-      const velocity = this.world.getComponent<Velocity>(entity, 'Velocity');
-      const rotation = this.world.getComponent<Rotation>(entity, 'Rotation');
+      const velocity = this.world.getComponent(entity, 'Velocity');
+      const rotation = this.world.getComponent(entity, 'Rotation');
       
       if (!velocity || !rotation) continue;
 
@@ -132,9 +153,9 @@ export class InputSystem implements System {
         inputMagnitude = 1.0;
       } else {
         // Use Keyboard input
-        const keyX = (inputState.right ? 1 : 0) - (inputState.left ? 1 : 0);
-        const keyY = (inputState.forward ? 1 : 0) - (inputState.backward ? 1 : 0);
-        inputVertical = (inputState.up ? 1 : 0) - (inputState.down ? 1 : 0);
+        const keyX = (input.right ? 1 : 0) - (input.left ? 1 : 0);
+        const keyY = (input.forward ? 1 : 0) - (input.backward ? 1 : 0);
+        inputVertical = (input.up ? 1 : 0) - (input.down ? 1 : 0);
 
         if (keyX !== 0 || keyY !== 0 || inputVertical !== 0) {
           inputSource = 'keyboard';
@@ -188,11 +209,11 @@ export class InputSystem implements System {
     // Handle firing
     const playerEntities = this.world.getEntitiesWith(['InputReceiver', 'LaserCooldown']);
     for (const entity of playerEntities) {
-      const cooldown = this.world.getComponent<LaserCooldown>(entity, 'LaserCooldown');
+      const cooldown = this.world.getComponent(entity, 'LaserCooldown');
       if (!cooldown) continue;
       
       // Check firing input from keyboard, mouse, or mobile
-      if (this.inputManager.isFiring() && cooldown.current <= 0) {
+      if (input.fire && cooldown.current <= 0) {
         // Handle firing logic...
         // This is likely handled in WeaponSystem, but we mark it as ready to fire
         cooldown.readyToFire = true;
@@ -0,0 +1,49 @@
+import { World, System } from '../World';
+
+/**
+ * InterpolationSystem
+ * 
+ * Purpose:
+ * Records where every entity was before the current fixed simulation step.
+ * 
+ * Responsibilities:
+ * - Copies Position/Rotation into a PreviousTransform component at the start of each step
+ * - Lets render-phase systems (Camera, UI, Rendering) blend between the last two
+ *   simulation states via getInterpolatedPosition/getInterpolatedRotation
+ * - Gives CollisionSystem each projectile's start-of-step position for its swept tests
+ * 
+ * Must be registered as the first simulation system.
+ */
+export class InterpolationSystem implements System {
+  private world: World;
+
+  constructor(world: World) {
+    this.world = world;
+  }
+
+  update(): void {
+    const entities = this.world.getEntitiesWith(['Position']);
+
+    for (const entity of entities) {
+      const position = this.world.getComponent(entity, 'Position');
+      if (!position) continue;
+      const rotation = this.world.getComponent(entity, 'Rotation');
+
+      let previous = this.world.getComponent(entity, 'PreviousTransform');
+      if (!previous) {
+        previous = { x: 0, y: 0, z: 0, rotationX: 0, rotationY: 0, rotationZ: 0, hasRotation: false };
+        this.world.addComponent(entity, 'PreviousTransform', previous);
+      }
+
+      previous.x = position.x;
+      previous.y = position.y;
+      previous.z = position.z;
+      previous.hasRotation = rotation !== undefined;
+      if (rotation) {
+        previous.rotationX = rotation.x;
+        previous.rotationY = rotation.y;
+        previous.rotationZ = rotation.z;
+      }
+    }
+  }
+}
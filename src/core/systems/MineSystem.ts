@@ -0,0 +1,58 @@
+import { World, System } from '../World';
+
+/**
+ * MineSystem
+ *
+ * Purpose:
+ * Runs the proximity fuses of space mines dropped by Mine Layers.
+ *
+ * Responsibilities:
+ * - Counts down each mine's arming delay and lifetime; mines that outlive it fizzle out
+ * - Triggers armed mines when the player comes within their trigger radius
+ * - Detonates triggered mines once their fuse (the fast-blink telegraph) runs out
+ *
+ * Detonation only marks the mine for removal and emits MineDetonated; CollisionSystem
+ * applies the blast, as it does for mines that are shot down or flown into.
+ */
+export class MineSystem implements System {
+  constructor(private world: World) {}
+
+  update(deltaTime: number): void {
+    const playerEntity = this.world.getEntitiesWith(['InputReceiver', 'Position'])[0];
+    const playerPosition = playerEntity !== undefined ? this.world.getComponent(playerEntity, 'Position') : undefined;
+
+    for (const [entity, mine, position] of this.world.query(['Mine', 'Position'])) {
+      if (this.world.isPendingRemoval(entity)) continue;
+
+      mine.armTimer = Math.max(0, mine.armTimer - deltaTime);
+      mine.lifetime -= deltaTime;
+
+      if (!mine.triggered) {
+        if (mine.lifetime <= 0) {
+          this.world.deferRemoveEntity(entity);
+          continue;
+        }
+
+        if (mine.armTimer <= 0 && playerPosition) {
+          const dx = playerPosition.x - position.x;
+          const dy = playerPosition.y - position.y;
+          const dz = playerPosition.z - position.z;
+          mine.triggered = dx * dx + dy * dy + dz * dz <= mine.triggerRadius * mine.triggerRadius;
+        }
+        continue;
+      }
+
+      mine.fuse -= deltaTime;
+      if (mine.fuse <= 0) {
+        this.world.deferRemoveEntity(entity);
+        this.world.emit('MineDetonated', {
+          mine: entity,
+          position: { x: position.x, y: position.y, z: position.z },
+          damage: mine.damage,
+          blastRadius: mine.blastRadius,
+          attacker: mine.ownerEntity
+        });
+      }
+    }
+  }
+}
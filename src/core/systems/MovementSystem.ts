@@ -1,31 +1,19 @@
 // src/core/systems/MovementSystem.ts
 import { System, World } from '../World';
-import { Position, Velocity, InputReceiver, Rotation, Boost, PowerUp } from '../components';
-import { SceneManager } from '../../rendering/SceneManager';
-import { InputManager } from '../input/InputManager';
+import { InputReceiver, PowerUp } from '../components';
 import { AudioManager } from '../AudioManager';
 import * as THREE from 'three';
 
 export class MovementSystem implements System {
-  private sceneManager: SceneManager;
   private world: World;
-  private inputManager: InputManager;
   private audioManager: AudioManager | null = null;
   private readonly MIN_VELOCITY = 0.01; // Threshold for considering movement
   private readonly MIN_DISTANCE = 20; // Minimum distance from Dyson Sphere
   private readonly MAX_DISTANCE = 400; // Maximum distance from Dyson Sphere (increased to 400)
 
-  constructor(sceneManager: SceneManager, world: World, audioManager?: AudioManager) {
-    this.sceneManager = sceneManager;
+  constructor(world: World, audioManager?: AudioManager) {
     this.world = world;
     this.audioManager = audioManager || null;
-    
-    // Get the renderer DOM element for input handling
-    const rendererElement = sceneManager.getRendererDomElement();
-    if (!rendererElement) {
-      throw new Error('Renderer DOM element not available');
-    }
-    this.inputManager = InputManager.getInstance(rendererElement);
   }
 
   public setAudioManager(audioManager: AudioManager): void {
@@ -33,12 +21,6 @@ export class MovementSystem implements System {
   }
 
   update(deltaTime: number): void {
-    const rendererDomElement = this.sceneManager.getRendererDomElement();
-    if (!rendererDomElement) {
-      console.warn('Renderer DOM element not available');
-      return;
-    }
-
     if (deltaTime === 0) {
       return;
     }
@@ -53,15 +35,10 @@ export class MovementSystem implements System {
       return;
     }
     
-    // Get current input state for boost checking
-    const inputState = this.inputManager.getInputState(); // Keep this if needed elsewhere
-    // Use the dedicated method from InputManager for combined boost state
-    const isBoostRequested = this.inputManager.isBoosting(); 
-    
     for (const entity of entities) {
-      const position = this.world.getComponent<Position>(entity, 'Position');
-      const velocity = this.world.getComponent<Velocity>(entity, 'Velocity');
-      const rotation = this.world.getComponent<Rotation>(entity, 'Rotation');
+      const position = this.world.getComponent(entity, 'Position');
+      const velocity = this.world.getComponent(entity, 'Velocity');
+      const rotation = this.world.getComponent(entity, 'Rotation');
 
       if (!position || !velocity) {
         continue;
@@ -70,7 +47,9 @@ export class MovementSystem implements System {
       // Update boost state (only for player with InputReceiver)
       const hasInputReceiver = this.world.hasComponent(entity, 'InputReceiver');
       if (hasInputReceiver) {
-        this.updateBoostState(entity, deltaTime, isBoostRequested);
+        // Boost intent comes from this step's sampled input (keyboard or mobile button)
+        const playerInput = this.world.getComponent(entity, 'PlayerInput');
+        this.updateBoostState(entity, deltaTime, playerInput?.boost ?? false);
       }
 
       // Calculate final speed multiplier
@@ -80,7 +59,7 @@ export class MovementSystem implements System {
         speedMultiplier = velocity.powerUpMultiplier || 1.0;
         
         // Apply boost multiplier if active
-        const boost = this.world.getComponent<Boost>(entity, 'Boost');
+        const boost = this.world.getComponent(entity, 'Boost');
         if (boost && boost.active) {
           speedMultiplier *= boost.speedMultiplier;
         }
@@ -123,7 +102,7 @@ export class MovementSystem implements System {
       
       // Also skip distance constraints for asteroids
       const isAsteroid = this.world.hasComponent(entity, 'Enemy') && 
-                        this.world.getComponent<any>(entity, 'Enemy')?.type === 'asteroid';
+                        this.world.getComponent(entity, 'Enemy')?.type === 'asteroid';
       
       if (isProjectile || isAsteroid) {
         continue;
@@ -160,7 +139,7 @@ export class MovementSystem implements System {
    */
   private updateBoostState(entity: number, deltaTime: number, isBoostRequested: boolean): void {
     // Get the Boost component - should already exist from PlayerShipEntity creation
-    const boost = this.world.getComponent<Boost>(entity, 'Boost');
+    const boost = this.world.getComponent(entity, 'Boost');
     if (!boost) {
       return; // Skip if no boost component (shouldn't happen now)
     }
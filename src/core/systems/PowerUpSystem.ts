@@ -1,7 +1,14 @@
 import { World, System } from '../World';
-import { Position, PowerUp, LaserCooldown, InputReceiver, Velocity, Health, ActivePowerUps } from '../components';
+import { Position, PowerUp } from '../components';
 import { createFireRatePowerUp, createSpeedPowerUp, createHealthPowerUp, getRandomPowerUpType } from '../entities/PowerUpEntity';
 import * as THREE from 'three';
+import { ELITE_RULES } from '../../constants/elites';
+
+const DROP_CHANCE = 0.15;
+// Enemies that come in large numbers drop less often so a swarm doesn't shower the player with pickups
+const DROP_CHANCE_BY_TYPE: Record<string, number> = {
+  swarmDrone: 0.02
+};
 
 /**
  * PowerUpSystem
@@ -15,6 +22,18 @@ export class PowerUpSystem implements System {
   constructor(world: World, scene: THREE.Scene) {
     this.world = world;
     this.scene = scene;
+
+    // 15% of kills (less for swarm drones, more for elites) drop a power-up where the enemy died
+    this.world.on('EnemyDestroyed', ({ enemyType, position, elite }) => {
+      const dropChance = elite ? ELITE_RULES.dropChance : DROP_CHANCE_BY_TYPE[enemyType] ?? DROP_CHANCE;
+      if (this.world.getRandomStream('drops').chance(dropChance)) {
+        console.log(`Enemy destroyed: ${enemyType} at position X=${position.x.toFixed(2)}, Y=${position.y.toFixed(2)}, Z=${position.z.toFixed(2)}`);
+        this.spawnPowerUpAtPosition(position);
+      }
+    });
+    this.world.on('PowerUpCollected', ({ player, powerUpEntity }) => {
+      this.applyPowerUp(powerUpEntity, player);
+    });
   }
   
   /**
@@ -29,7 +48,7 @@ export class PowerUpSystem implements System {
     };
     
     // Randomly choose which power-up to spawn
-    const powerUpType = getRandomPowerUpType();
+    const powerUpType = getRandomPowerUpType(this.world.getRandomStream('drops'));
     
     // Create the appropriate power-up at this position
     if (powerUpType === 'fireRate') {
@@ -45,7 +64,7 @@ export class PowerUpSystem implements System {
    * Apply a power-up effect to the player
    */
   public applyPowerUp(powerUpEntity: number, playerEntity: number): void {
-    const powerUp = this.world.getComponent<PowerUp>(powerUpEntity, 'PowerUp');
+    const powerUp = this.world.getComponent(powerUpEntity, 'PowerUp');
     if (!powerUp) {
       return;
     }
@@ -60,31 +79,31 @@ export class PowerUpSystem implements System {
     }
     
     // Remove the power-up entity after collection
-    this.world.removeEntity(powerUpEntity);
+    this.world.deferRemoveEntity(powerUpEntity);
   }
   
   /**
    * Apply fire rate power-up effect
    */
   private applyFireRatePowerUp(playerEntity: number, powerUp: PowerUp): void {
-    const laserCooldown = this.world.getComponent<LaserCooldown>(playerEntity, 'LaserCooldown');
+    const laserCooldown = this.world.getComponent(playerEntity, 'LaserCooldown');
     if (!laserCooldown) {
       return;
     }
     
     // Store the original cooldown if this is the first time applying this power-up
-    if (!(laserCooldown as any).originalMax) {
-      (laserCooldown as any).originalMax = laserCooldown.max;
+    if (!laserCooldown.originalMax) {
+      laserCooldown.originalMax = laserCooldown.max;
     }
     
     // Double fire rate by halving the cooldown time
-    laserCooldown.max = (laserCooldown as any).originalMax / 2;
+    laserCooldown.max = laserCooldown.originalMax / 2;
     
     // Reset current cooldown to allow immediate firing
     laserCooldown.current = 0;
     
     // Add or update the effect in ActivePowerUps
-    let activePowerUps = this.world.getComponent<ActivePowerUps>(playerEntity, 'ActivePowerUps');
+    let activePowerUps = this.world.getComponent(playerEntity, 'ActivePowerUps');
     if (!activePowerUps) {
       activePowerUps = { effects: {} };
       this.world.addComponent(playerEntity, 'ActivePowerUps', activePowerUps);
@@ -100,19 +119,19 @@ export class PowerUpSystem implements System {
    * Apply speed power-up effect to increase player movement speed by 1.5x
    */
   private applySpeedPowerUp(playerEntity: number, powerUp: PowerUp): void {
-    const inputReceiver = this.world.getComponent<InputReceiver>(playerEntity, 'InputReceiver');
+    const inputReceiver = this.world.getComponent(playerEntity, 'InputReceiver');
     if (!inputReceiver) {
       return;
     }
     
     // Apply the speed multiplier directly to the Velocity component
-    const velocity = this.world.getComponent<Velocity>(playerEntity, 'Velocity');
+    const velocity = this.world.getComponent(playerEntity, 'Velocity');
     if (velocity) {
       velocity.powerUpMultiplier = 1.5; // Set the power-up multiplier
     }
     
     // Add or update the effect in ActivePowerUps
-    let activePowerUps = this.world.getComponent<ActivePowerUps>(playerEntity, 'ActivePowerUps');
+    let activePowerUps = this.world.getComponent(playerEntity, 'ActivePowerUps');
     if (!activePowerUps) {
       activePowerUps = { effects: {} };
       this.world.addComponent(playerEntity, 'ActivePowerUps', activePowerUps);
@@ -129,7 +148,7 @@ export class PowerUpSystem implements System {
    */
   private applyHealthPowerUp(playerEntity: number, powerUp: PowerUp): void {
     // Get the player's health component
-    const health = this.world.getComponent<Health>(playerEntity, 'Health');
+    const health = this.world.getComponent(playerEntity, 'Health');
     if (!health) {
       return;
     }
@@ -158,20 +177,20 @@ export class PowerUpSystem implements System {
     // Update uncollected power-ups
     const powerUpEntities = this.world.getEntitiesWith(['PowerUp']);
     for (const entity of powerUpEntities) {
-      const powerUp = this.world.getComponent<PowerUp>(entity, 'PowerUp');
+      const powerUp = this.world.getComponent(entity, 'PowerUp');
       if (!powerUp || powerUp.active) continue;
       
       // Handle uncollected power-up lifetime
       if (powerUp.lifetime !== undefined) {
         powerUp.lifetime -= deltaTime;
         if (powerUp.lifetime <= 0) {
-          this.world.removeEntity(entity);
+          this.world.deferRemoveEntity(entity);
           continue;
         }
         
         // Add fade-out effect when nearing expiration
         if (powerUp.lifetime < 1.0) {
-          const renderable = this.world.getComponent<any>(entity, 'Renderable');
+          const renderable = this.world.getComponent(entity, 'Renderable');
           if (renderable && renderable.fadeOut !== false) {
             renderable.fadeOut = true;
             renderable.opacity = Math.max(0.2, powerUp.lifetime);
@@ -183,7 +202,7 @@ export class PowerUpSystem implements System {
     // Update active power-ups on players
     const entitiesWithActivePowerUps = this.world.getEntitiesWith(['ActivePowerUps']);
     for (const entity of entitiesWithActivePowerUps) {
-      const activePowerUps = this.world.getComponent<ActivePowerUps>(entity, 'ActivePowerUps');
+      const activePowerUps = this.world.getComponent(entity, 'ActivePowerUps');
       if (!activePowerUps) continue;
       
       // Update each active effect
@@ -206,13 +225,13 @@ export class PowerUpSystem implements System {
   
   private deactivateEffect(entity: number, type: string): void {
     if (type === 'fireRate') {
-      const laserCooldown = this.world.getComponent<LaserCooldown>(entity, 'LaserCooldown');
-      if (laserCooldown && (laserCooldown as any).originalMax) {
-        laserCooldown.max = (laserCooldown as any).originalMax;
-        delete (laserCooldown as any).originalMax; // Clean up dynamic property
+      const laserCooldown = this.world.getComponent(entity, 'LaserCooldown');
+      if (laserCooldown && laserCooldown.originalMax) {
+        laserCooldown.max = laserCooldown.originalMax;
+        delete laserCooldown.originalMax; // Clean up dynamic property
       }
     } else if (type === 'speed') {
-      const velocity = this.world.getComponent<Velocity>(entity, 'Velocity');
+      const velocity = this.world.getComponent(entity, 'Velocity');
       if (velocity) {
         velocity.powerUpMultiplier = 1.0; // Reset the power-up multiplier
       }
@@ -3,6 +3,7 @@ import * as THREE from 'three';
 import { World, System } from '../World';
 import { Position, Rotation, Renderable } from '../components';
 import { MeshFactory } from '../../rendering/MeshFactory';
+import { getInterpolatedPosition, getInterpolatedRotation } from '../interpolation';
 
 /**
  * RenderingSystem
@@ -12,7 +13,8 @@ import { MeshFactory } from '../../rendering/MeshFactory';
  * 
  * Responsibilities:
  * - Creates and manages meshes for entities with Renderable components
- * - Updates mesh transforms based on entity Position and Rotation
+ * - Updates mesh transforms based on entity Position and Rotation, interpolated
+ *   between the last two simulation steps
  * - Cleans up meshes for removed entities
  * - Delegates mesh creation to the MeshFactory
  */
@@ -21,6 +23,9 @@ export class RenderingSystem implements System {
   private meshes: Map<number, THREE.Object3D> = new Map();
   private scene: THREE.Scene;
   private camera: THREE.Camera | null = null;
+  // Reused interpolation targets to avoid per-frame allocation
+  private renderPosition: Position = { x: 0, y: 0, z: 0 };
+  private renderRotation: Rotation = { x: 0, y: 0, z: 0 };
 
   constructor(world: World, scene: THREE.Scene) {
     this.world = world;
@@ -38,7 +43,7 @@ export class RenderingSystem implements System {
     
     if (cameraEntities.length > 0) {
       const cameraEntity = cameraEntities[0];
-      const cameraMount = this.world.getComponent<{parentEntity: number}>(cameraEntity, 'CameraMount');
+      const cameraMount = this.world.getComponent(cameraEntity, 'CameraMount');
       if (cameraMount) {
         playerEntityId = cameraMount.parentEntity;
       }
@@ -53,9 +58,9 @@ export class RenderingSystem implements System {
     const entities = this.world.getEntitiesWith(['Renderable', 'Position']);
     
     for (const entity of entities) {
-      const position = this.world.getComponent<Position>(entity, 'Position');
-      const renderable = this.world.getComponent<Renderable>(entity, 'Renderable');
-      const rotation = this.world.getComponent<Rotation>(entity, 'Rotation');
+      const position = this.world.getComponent(entity, 'Position');
+      const renderable = this.world.getComponent(entity, 'Renderable');
+      const rotation = this.world.getComponent(entity, 'Rotation');
 
       if (!position || !renderable) {
         continue;
@@ -71,7 +76,7 @@ export class RenderingSystem implements System {
       if (!mesh) {
         mesh = MeshFactory.createMesh(renderable, this.world);
         this.meshes.set(entity, mesh);
-        (renderable as any).mesh = mesh;
+        renderable.mesh = mesh;
         this.scene.add(mesh); // Add mesh to scene when created
       }
 
@@ -79,7 +84,8 @@ export class RenderingSystem implements System {
       mesh.visible = renderable.isVisible !== false; // True if isVisible is undefined or true
       
       // Update transform
-      mesh.position.set(position.x, position.y, position.z);
+      const renderPosition = getInterpolatedPosition(this.world, entity, position, this.renderPosition);
+      mesh.position.set(renderPosition.x, renderPosition.y, renderPosition.z);
       
       // Apply scale from renderable.scale if available
       if (renderable.scale) {
@@ -89,13 +95,24 @@ export class RenderingSystem implements System {
       if (rotation) {
         // Apply rotation in the correct order (pitch, yaw, roll)
         mesh.rotation.order = 'YXZ'; // Set rotation order to match our ECS calculations
-        mesh.rotation.set(rotation.x, rotation.y, rotation.z);
+        const renderRotation = getInterpolatedRotation(this.world, entity, rotation, this.renderRotation);
+        mesh.rotation.set(renderRotation.x, renderRotation.y, renderRotation.z);
       }
       
       // Special case for powerup orbs: Handle custom auto-rotation
       if (renderable.modelId === 'powerUpOrb') {
         this.updatePowerUpVisuals(mesh, renderable, deltaTime);
       }
+
+      // Space mines blink their warning light faster as they arm and trigger
+      if (renderable.modelId === 'spaceMine') {
+        this.updateMineVisuals(entity, mesh);
+      }
+
+      // Cloaking enemies fade their materials; keep updating until fully restored
+      if (renderable.cloakOpacity !== undefined || mesh.userData.cloaked) {
+        this.updateCloakVisuals(mesh, renderable);
+      }
       
     }
 
@@ -160,18 +177,18 @@ export class RenderingSystem implements System {
     });
     
     // Handle fade-out effect for expiring power-ups
-    if ((renderableComp as any).fadeOut) {
+    if (renderableComp.fadeOut) {
       // Apply fade-out to all materials
       mesh.traverse((child) => {
         if (child instanceof THREE.Mesh && child.material) {
           if (Array.isArray(child.material)) {
             child.material.forEach(mat => {
               if (mat.transparent) {
-                mat.opacity = (renderableComp as any).opacity || 0.5;
+                mat.opacity = renderableComp.opacity || 0.5;
               }
             });
           } else if (child.material.transparent) {
-            child.material.opacity = (renderableComp as any).opacity || 0.5;
+            child.material.opacity = renderableComp.opacity || 0.5;
           }
         }
       });
@@ -206,6 +223,60 @@ export class RenderingSystem implements System {
     }
   }
 
+  /**
+   * Blinks a space mine's warning light: dim while arming, a slow blink once armed
+   * and a rapid blink during the fuse before it detonates
+   */
+  private updateMineVisuals(entity: number, mesh: THREE.Object3D): void {
+    const mine = this.world.getComponent(entity, 'Mine');
+    const light = mesh.getObjectByName('mineLight');
+    if (!mine || !(light instanceof THREE.Mesh) || !(light.material instanceof THREE.MeshBasicMaterial)) return;
+
+    let opacity = 0.3;
+    if (mine.triggered) {
+      opacity = Math.sin(performance.now() / 40) > 0 ? 1 : 0.2;
+    } else if (mine.armTimer <= 0) {
+      opacity = Math.sin(performance.now() / 250) > 0.5 ? 1 : 0.3;
+    }
+    light.material.opacity = opacity;
+    light.scale.setScalar(mine.triggered ? 1.4 : 1);
+  }
+
+  /**
+   * Scales every material's opacity by Renderable.cloakOpacity, remembering each
+   * material's own opacity so it can be restored once the enemy is fully visible
+   */
+  private updateCloakVisuals(mesh: THREE.Object3D, renderable: Renderable): void {
+    const cloakOpacity = renderable.cloakOpacity ?? 1;
+    const cloaked = cloakOpacity < 1;
+
+    mesh.traverse((child) => {
+      if (!(child instanceof THREE.Mesh) || !child.material) return;
+
+      const materials: THREE.Material[] = Array.isArray(child.material) ? child.material : [child.material];
+      materials.forEach(material => {
+        if (material.userData.baseOpacity === undefined) {
+          material.userData.baseOpacity = material.opacity;
+          material.userData.baseTransparent = material.transparent;
+        }
+
+        material.opacity = material.userData.baseOpacity * cloakOpacity;
+        const transparent = cloaked || material.userData.baseTransparent;
+        if (material.transparent !== transparent) {
+          material.transparent = transparent;
+          material.needsUpdate = true;
+        }
+      });
+    });
+
+    // A faint shimmer in scale while cloaked
+    if (cloaked) {
+      mesh.scale.multiplyScalar(1 + Math.sin(performance.now() / 90) * 0.03 * (1 - cloakOpacity));
+    }
+
+    mesh.userData.cloaked = cloaked;
+  }
+
   public dispose(): void {
     // Clean up all meshes
     for (const mesh of this.meshes.values()) {
@@ -239,7 +310,7 @@ export class RenderingSystem implements System {
    */
   private updateBoostVisuals(playerEntityId: number): void {
     // Get the boost component
-    const boost = this.world.getComponent<any>(playerEntityId, 'Boost');
+    const boost = this.world.getComponent(playerEntityId, 'Boost');
     if (!boost) return;
     
     // Get the player ship mesh
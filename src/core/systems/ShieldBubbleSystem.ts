@@ -1,6 +1,6 @@
 import * as THREE from 'three';
 import { World, System } from '../World';
-import { Position, ShieldBubbleComponent, ShieldComponent, Renderable } from '../components';
+import { ShieldComponent, Renderable } from '../components';
 
 export class ShieldBubbleSystem implements System {
   private world: World;
@@ -17,7 +17,7 @@ export class ShieldBubbleSystem implements System {
     const bubbles = this.world.getEntitiesWith(['ShieldBubbleComponent', 'Position', 'Renderable']);
     
     for (const bubble of bubbles) {
-      const bubbleComponent = this.world.getComponent<ShieldBubbleComponent>(bubble, 'ShieldBubbleComponent');
+      const bubbleComponent = this.world.getComponent(bubble, 'ShieldBubbleComponent');
       if (!bubbleComponent) continue;
       
       const guardian = bubbleComponent.guardian;
@@ -25,13 +25,13 @@ export class ShieldBubbleSystem implements System {
       // Check if guardian still exists
       if (!this.world.hasEntity(guardian)) {
         // Guardian is gone, remove the bubble
-        this.world.removeEntity(bubble);
+        this.world.deferRemoveEntity(bubble);
         continue;
       }
       
       // Update bubble position to match guardian position
-      const guardianPos = this.world.getComponent<Position>(guardian, 'Position');
-      const bubblePos = this.world.getComponent<Position>(bubble, 'Position');
+      const guardianPos = this.world.getComponent(guardian, 'Position');
+      const bubblePos = this.world.getComponent(bubble, 'Position');
       
       if (guardianPos && bubblePos) {
         bubblePos.x = guardianPos.x;
@@ -40,7 +40,7 @@ export class ShieldBubbleSystem implements System {
       }
       
       // Simple bubble pulsing effect
-      const renderable = this.world.getComponent<any>(bubble, 'Renderable');
+      const renderable = this.world.getComponent(bubble, 'Renderable');
       if (renderable && renderable.mesh) {
         const mesh = renderable.mesh;
         
@@ -77,7 +77,7 @@ export class ShieldBubbleSystem implements System {
       }
       
       // Rotate guardian crystal core if it exists
-      const guardianRenderable = this.world.getComponent<any>(guardian, 'Renderable');
+      const guardianRenderable = this.world.getComponent(guardian, 'Renderable');
       if (guardianRenderable && guardianRenderable.mesh) {
         const guardianMesh = guardianRenderable.mesh;
         if (guardianMesh instanceof THREE.Group && guardianMesh.children.length > 0) {
@@ -1,19 +1,24 @@
 import { World } from '../World';
-import { Shield } from '../components';
 
 export class ShieldSystem {
   private world: World;
 
   constructor(world: World) {
     this.world = world;
+
+    this.world.on('DysonDamaged', ({ entity, shieldDamage }) => {
+      if (shieldDamage > 0) {
+        this.onShieldHit(entity);
+      }
+    });
   }
 
   update(deltaTime: number): void {
     const entities = this.world.getEntitiesWith(['Shield']);
-    const currentTime = performance.now() / 1000; // Convert to seconds
+    const currentTime = this.world.getElapsedTime(); // Simulation time in seconds
 
     for (const entity of entities) {
-      const shield = this.world.getComponent<Shield>(entity, 'Shield');
+      const shield = this.world.getComponent(entity, 'Shield');
       if (!shield) continue;
       
       // Skip if shield is already at max
@@ -37,10 +42,10 @@ export class ShieldSystem {
 
   // Call this when a shield takes damage
   onShieldHit(entity: number): void {
-    const shield = this.world.getComponent<Shield>(entity, 'Shield');
+    const shield = this.world.getComponent(entity, 'Shield');
     if (!shield) return;
     
-    shield.lastHitTime = performance.now() / 1000;
+    shield.lastHitTime = this.world.getElapsedTime();
     shield.isRegenerating = false;
   }
 } 
\ No newline at end of file
@@ -0,0 +1,235 @@
+import { World, System } from '../World';
+import { Position, Rotation, Velocity } from '../components';
+import { Entity } from '../entityHandle';
+
+const NEIGHBOR_RADIUS = 15; // Drones closer than this align and cohere with each other
+const SEPARATION_RADIUS = 4; // Drones closer than this push apart
+const SEEK_WEIGHT = 1.0;
+const ALIGNMENT_WEIGHT = 0.5;
+const COHESION_WEIGHT = 0.4;
+const SEPARATION_WEIGHT = 1.5;
+const MAX_STEERING = 60; // Units per second squared a drone can change its velocity by
+
+const DRONE_COMPONENTS = ['SwarmDrone', 'Enemy', 'Position', 'Velocity', 'Rotation'] as const;
+
+/**
+ * SwarmSystem
+ *
+ * Purpose:
+ * Moves swarm drones (entities with a SwarmDrone component) as boids in place of
+ * EnemySystem, so a swarm of dozens moves as one flock instead of in straight lines.
+ *
+ * Responsibilities:
+ * - Groups drones into flocks by swarm and role; harassers fly at the player and
+ *   divers at their enemy target (harassers dive too when there is no player)
+ * - Steers each drone by seek, separation, alignment and cohesion within its flock
+ * - Faces each drone along its velocity
+ *
+ * Drones only ever compare against their own flock, flock lists are reused from step to
+ * step, and all steering math is done on plain numbers in reused buffers, so large swarms
+ * stay cheap.
+ */
+export class SwarmSystem implements System {
+  private flocks: Map<number, Entity[]> = new Map();
+  // Positions, velocities and new velocities of the flock being steered, three entries per drone
+  private flockPositions = new Float64Array(0);
+  private flockVelocities = new Float64Array(0);
+  private steeredVelocities = new Float64Array(0);
+
+  constructor(private world: World) {}
+
+  update(deltaTime: number): void {
+    const playerEntity = this.world.getEntitiesWith(['InputReceiver', 'Position'])[0];
+    const playerPosition = playerEntity !== undefined ? this.world.getComponent(playerEntity, 'Position') ?? null : null;
+
+    // Negative keys hold a swarm's divers, positive keys its harassers
+    for (const flock of this.flocks.values()) {
+      flock.length = 0;
+    }
+    for (const entity of this.world.getEntitiesWith(DRONE_COMPONENTS)) {
+      if (this.world.isPendingRemoval(entity)) continue;
+      const drone = this.world.getComponent(entity, 'SwarmDrone')!;
+      const enemy = this.world.getComponent(entity, 'Enemy')!;
+
+      if (!enemy.canMove) {
+        const velocity = this.world.getComponent(entity, 'Velocity')!;
+        velocity.x = 0;
+        velocity.y = 0;
+        velocity.z = 0;
+        continue;
+      }
+
+      const key = drone.role === 'harass' && playerPosition ? drone.swarmId + 1 : -(drone.swarmId + 1);
+      let flock = this.flocks.get(key);
+      if (!flock) {
+        flock = [];
+        this.flocks.set(key, flock);
+      }
+      flock.push(entity);
+    }
+
+    for (const [key, flock] of this.flocks) {
+      // Swarms that are gone (or lost their player) drop their list
+      if (flock.length === 0) {
+        this.flocks.delete(key);
+        continue;
+      }
+
+      const seekPosition = key > 0
+        ? playerPosition
+        : this.world.getComponent(this.world.getComponent(flock[0], 'Enemy')!.targetEntity, 'Position') ?? null;
+      if (seekPosition) {
+        this.steerFlock(flock, seekPosition, deltaTime);
+      }
+    }
+  }
+
+  private steerFlock(flock: Entity[], seekPosition: Position, deltaTime: number): void {
+    if (this.steeredVelocities.length < flock.length * 3) {
+      this.flockPositions = new Float64Array(flock.length * 3);
+      this.flockVelocities = new Float64Array(flock.length * 3);
+      this.steeredVelocities = new Float64Array(flock.length * 3);
+    }
+    const positions = this.flockPositions;
+    const velocities = this.flockVelocities;
+    const steered = this.steeredVelocities;
+    const neighborRadiusSq = NEIGHBOR_RADIUS * NEIGHBOR_RADIUS;
+    const separationRadiusSq = SEPARATION_RADIUS * SEPARATION_RADIUS;
+    const maxSteering = MAX_STEERING * deltaTime;
+
+    // Copy the flock out once, so the neighbor loop doesn't look components up
+    for (let i = 0; i < flock.length; i++) {
+      const position = this.world.getComponent(flock[i], 'Position')!;
+      const velocity = this.world.getComponent(flock[i], 'Velocity')!;
+      positions[i * 3] = position.x;
+      positions[i * 3 + 1] = position.y;
+      positions[i * 3 + 2] = position.z;
+      velocities[i * 3] = velocity.x;
+      velocities[i * 3 + 1] = velocity.y;
+      velocities[i * 3 + 2] = velocity.z;
+    }
+
+    // Compute every new velocity before applying any, so flock order doesn't matter
+    for (let i = 0; i < flock.length; i++) {
+      const maxSpeed = this.world.getComponent(flock[i], 'Enemy')!.speed;
+      const x = positions[i * 3];
+      const y = positions[i * 3 + 1];
+      const z = positions[i * 3 + 2];
+      const velocityX = velocities[i * 3];
+      const velocityY = velocities[i * 3 + 1];
+      const velocityZ = velocities[i * 3 + 2];
+
+      let alignX = 0, alignY = 0, alignZ = 0;
+      let centerX = 0, centerY = 0, centerZ = 0;
+      let separateX = 0, separateY = 0, separateZ = 0;
+      let neighbors = 0;
+
+      for (let j = 0; j < flock.length; j++) {
+        if (j === i) continue;
+        const otherX = positions[j * 3];
+        const otherY = positions[j * 3 + 1];
+        const otherZ = positions[j * 3 + 2];
+        const dx = otherX - x;
+        const dy = otherY - y;
+        const dz = otherZ - z;
+        const distanceSq = dx * dx + dy * dy + dz * dz;
+        if (distanceSq > neighborRadiusSq) continue;
+
+        alignX += velocities[j * 3];
+        alignY += velocities[j * 3 + 1];
+        alignZ += velocities[j * 3 + 2];
+        centerX += otherX;
+        centerY += otherY;
+        centerZ += otherZ;
+        neighbors++;
+
+        // Push away harder the closer the neighbor is
+        if (distanceSq < separationRadiusSq && distanceSq > 0) {
+          separateX -= dx / distanceSq;
+          separateY -= dy / distanceSq;
+          separateZ -= dz / distanceSq;
+        }
+      }
+
+      // Desired velocity: full speed toward the seek target plus the flocking terms
+      let desiredX = 0, desiredY = 0, desiredZ = 0;
+      let length = Math.hypot(seekPosition.x - x, seekPosition.y - y, seekPosition.z - z);
+      if (length > 0) {
+        const scale = (maxSpeed * SEEK_WEIGHT) / length;
+        desiredX += (seekPosition.x - x) * scale;
+        desiredY += (seekPosition.y - y) * scale;
+        desiredZ += (seekPosition.z - z) * scale;
+      }
+
+      if (neighbors > 0) {
+        desiredX += (alignX / neighbors) * ALIGNMENT_WEIGHT;
+        desiredY += (alignY / neighbors) * ALIGNMENT_WEIGHT;
+        desiredZ += (alignZ / neighbors) * ALIGNMENT_WEIGHT;
+
+        const toCenterX = centerX / neighbors - x;
+        const toCenterY = centerY / neighbors - y;
+        const toCenterZ = centerZ / neighbors - z;
+        length = Math.hypot(toCenterX, toCenterY, toCenterZ);
+        if (length > 0) {
+          const scale = (maxSpeed * COHESION_WEIGHT) / length;
+          desiredX += toCenterX * scale;
+          desiredY += toCenterY * scale;
+          desiredZ += toCenterZ * scale;
+        }
+      }
+
+      length = Math.hypot(separateX, separateY, separateZ);
+      if (length > 0) {
+        const scale = (maxSpeed * SEPARATION_WEIGHT) / length;
+        desiredX += separateX * scale;
+        desiredY += separateY * scale;
+        desiredZ += separateZ * scale;
+      }
+
+      // Turn toward the desired velocity at a limited rate, then cap the speed
+      let steerX = desiredX - velocityX;
+      let steerY = desiredY - velocityY;
+      let steerZ = desiredZ - velocityZ;
+      length = Math.hypot(steerX, steerY, steerZ);
+      if (length > maxSteering) {
+        const scale = maxSteering / length;
+        steerX *= scale;
+        steerY *= scale;
+        steerZ *= scale;
+      }
+
+      let newX = velocityX + steerX;
+      let newY = velocityY + steerY;
+      let newZ = velocityZ + steerZ;
+      length = Math.hypot(newX, newY, newZ);
+      if (length > maxSpeed) {
+        const scale = maxSpeed / length;
+        newX *= scale;
+        newY *= scale;
+        newZ *= scale;
+      }
+
+      steered[i * 3] = newX;
+      steered[i * 3 + 1] = newY;
+      steered[i * 3 + 2] = newZ;
+    }
+
+    for (let i = 0; i < flock.length; i++) {
+      const velocity = this.world.getComponent(flock[i], 'Velocity')!;
+      velocity.x = steered[i * 3];
+      velocity.y = steered[i * 3 + 1];
+      velocity.z = steered[i * 3 + 2];
+      this.faceVelocity(this.world.getComponent(flock[i], 'Rotation')!, velocity);
+    }
+  }
+
+  // Same YXZ orientation lookAt gives (+Z toward the heading), without allocating
+  private faceVelocity(rotation: Rotation, velocity: Velocity): void {
+    const horizontal = Math.hypot(velocity.x, velocity.z);
+    if (horizontal === 0 && velocity.y === 0) return;
+
+    rotation.x = Math.atan2(-velocity.y, horizontal);
+    rotation.y = Math.atan2(velocity.x, velocity.z);
+    rotation.z = 0;
+  }
+}
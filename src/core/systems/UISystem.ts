@@ -2,6 +2,7 @@ import * as THREE from 'three';
 import { World, System } from '../World'; // Assuming System interface/type exists
 import { SceneManager } from '../../rendering/SceneManager'; // Adjust path if needed
 import { Position, ScreenPosition, FloatingScore, HealthBarComponent, ShieldBarComponent } from '../components'; // Adjust path if needed
+import { getInterpolatedPosition } from '../interpolation';
 
 export class UISystem implements System {
   private world: World;
@@ -9,6 +10,7 @@ export class UISystem implements System {
   private screenWidth: number;
   private screenHeight: number;
   private tempVector = new THREE.Vector3(); // Reuse vector object
+  private renderPosition: Position = { x: 0, y: 0, z: 0 }; // Reused interpolation target
 
   constructor(world: World, sceneManager: SceneManager) {
     this.world = world;
@@ -57,11 +59,13 @@ export class UISystem implements System {
     const entitiesToUpdate = new Set([
         ...this.world.getEntitiesWith(['FloatingScore', 'Position']),
         ...this.world.getEntitiesWith(['HealthBarComponent', 'Position']),
-        ...this.world.getEntitiesWith(['ShieldBarComponent', 'Position'])
+        ...this.world.getEntitiesWith(['ShieldBarComponent', 'Position']),
+        ...this.world.getEntitiesWith(['Elite', 'Position']),
+        ...this.world.getEntitiesWith(['Medic', 'Position'])
     ]);
 
     for (const entity of entitiesToUpdate) {
-      const position = this.world.getComponent<Position>(entity, 'Position');
+      const position = this.world.getComponent(entity, 'Position');
       // Double-check the entity still exists and has Position (might have been destroyed)
       if (!position) {
           if (this.world.hasComponent(entity, 'ScreenPosition')) {
@@ -70,7 +74,9 @@ export class UISystem implements System {
           continue;
       }
 
-      const screenPosData = this.calculateScreenPosition(position, camera);
+      // Project the interpolated position so overlays stay glued to the rendered meshes
+      const renderPosition = getInterpolatedPosition(this.world, entity, position, this.renderPosition);
+      const screenPosData = this.calculateScreenPosition(renderPosition, camera);
 
       if (screenPosData) {
         // Add or update the ScreenPosition component
@@ -96,9 +102,11 @@ export class UISystem implements System {
         const hasFloatingScore = this.world.hasComponent(entity, 'FloatingScore');
         const hasHealthBar = this.world.hasComponent(entity, 'HealthBarComponent');
         const hasShieldBar = this.world.hasComponent(entity, 'ShieldBarComponent');
+        const hasEliteTag = this.world.hasComponent(entity, 'Elite');
+        const hasTargetBrackets = this.world.hasComponent(entity, 'Medic');
 
         // If it has Position AND at least one of the UI components it's tracking, it's valid
-        const isStillValid = hasPosition && (hasFloatingScore || hasHealthBar || hasShieldBar);
+        const isStillValid = hasPosition && (hasFloatingScore || hasHealthBar || hasShieldBar || hasEliteTag || hasTargetBrackets);
 
         if (!isStillValid) {
             // The source components are gone (e.g., FloatingScore expired), remove ScreenPosition
@@ -1,45 +1,101 @@
 import { World, System } from '../World';
-import { WaveInfo, Enemy, Renderable, GameStateDisplay, Position } from '../components';
+import { WaveInfo } from '../components';
 import { createGrunt } from '../entities/GruntEntity';
 import { createWormhole } from '../entities/WormholeEntity';
 import { createShieldGuardian } from '../entities/ShieldGuardianEntity';
 import { createWarpRaider } from '../entities/WarpRaiderEntity';
+import { createBomber } from '../entities/BomberEntity';
+import { createCarrier } from '../entities/CarrierEntity';
+import { createPhantom } from '../entities/PhantomEntity';
+import { createMedic } from '../entities/MedicEntity';
+import { createMineLayer } from '../entities/MineLayerEntity';
+import { createSwarm } from '../entities/SwarmDroneEntity';
 import { createAsteroid } from '../entities/AsteroidEntity';
-import { AnimationSystem } from './AnimationSystem';
-import { HUDSystem } from './HUDSystem';
+import { createHiveMothership } from '../entities/HiveMothershipEntity';
 import * as THREE from 'three';
 import { GameStateManager } from '../State';
+import { Random } from '../Random';
+import { canBeElite, makeElite } from '../elites';
+import { WaveProgressSnapshot } from '../../types/save';
+import { DEFAULT_WAVE_SCRIPT } from '../../constants/waves';
+import {
+  WaveScript,
+  WaveDefinition,
+  EnemySpawn,
+  ExtraSpawn,
+  WaveAnnouncement
+} from '../../types/waveScript';
+import {
+  loadWaveScript,
+  validateWaveScript,
+  getWaveDefinition,
+  getWaveEnemyCount,
+  resolveScaledValue,
+  formatWaveMessage
+} from '../waveScript';
 
+const DEFAULT_SWARM_SIZE = 10; // Drones per swarm when a spawn doesn't set swarmSize
+
+// Extra spawn waiting on its delay; plain data so it can be saved with the run
 interface DelayedSpawn {
   timeRemaining: number;
-  spawn: () => void;
+  wave: number;
+  extraIndex: number; // Index into the wave definition's extras
 }
 
+type Vec3 = { x: number, y: number, z: number };
+
+/**
+ * WaveSystem
+ * 
+ * Purpose:
+ * Runs the wave campaign: countdowns between waves, spawning each wave's
+ * enemies through wormholes, and completing waves once every enemy is gone.
+ * 
+ * Responsibilities:
+ * - Interprets a data-driven WaveScript (see src/types/waveScript.ts); the
+ *   default campaign lives in src/constants/waves.ts
+ * - Spawns the enemy stream, scripted slots, weighted rolls and extra spawns,
+ *   including bosses on their milestone waves
+ * - Promotes stream enemies to elites at the wave's eliteChance
+ * - Lays out stream spawn points according to the wave's formation
+ * - Emits WaveStarted/WaveCompleted, and Announcement events for wave countdowns
+ *   and first appearances of new threats
+ * - Snapshots and restores its in-wave progress for saved runs
+ */
 export class WaveSystem implements System {
   private dysonSphereEntity: number = -1; // Initialize with invalid entity ID
   private waveEntity: number;
   private timeSinceLastSpawn: number = 0;
-  private spawnInterval: number = 1.5; // Time between spawns within a wave
   private gameStateEntity: number = -1; // Track game state entity
-  private animationSystem: AnimationSystem | null = null;
-  private hudSystem: HUDSystem | null = null;
   private hasAnnouncedWave: boolean = false;
   private hasAnnouncedCompletion: boolean = false;
-  private hasAnnouncedShieldGuardian: boolean = false;
-  private hasAnnouncedWarpRaider: boolean = false;
-  private hasAnnouncedAsteroid: boolean = false;
+  private announcedThisWave: Set<string> = new Set();
   private gameStateManager: GameStateManager;
   private delayedSpawns: DelayedSpawn[] = [];
+  private random: Random;
+  private waveScript: WaveScript;
+  private currentDefinition: WaveDefinition | null = null;
+  private streamSize: number = 0; // Total stream enemies in the current wave
+  private streamSpawned: number = 0; // Stream enemies spawned so far this wave
+  private firstSpawnPosition: Vec3 | null = null;
+  // Per-wave formation frame (unit vectors); only populated for cluster/ring formations
+  private formationAxis: THREE.Vector3 | null = null;
+  private formationTangent: THREE.Vector3 | null = null;
+  private formationBitangent: THREE.Vector3 | null = null;
+  private formationPhase: number = 0;
   
-  constructor(private world: World, gameStateManager: GameStateManager) {
+  constructor(private world: World, gameStateManager: GameStateManager, waveScript: WaveScript = DEFAULT_WAVE_SCRIPT) {
     this.gameStateManager = gameStateManager;
+    this.random = world.getRandomStream('waves');
+    this.waveScript = loadWaveScript(waveScript);
     // Create a special entity just to hold the wave information
     this.waveEntity = this.world.createEntity();
     this.world.addComponent(this.waveEntity, 'WaveInfo', {
       currentWave: 0,  // Start at wave 0, will increment to 1 when first wave starts
       enemiesRemaining: 0,
       totalEnemies: 0,
-      nextWaveTimer: 3, // Start first wave after 3 seconds
+      nextWaveTimer: this.waveScript.firstWaveDelay,
       isActive: false
     });
     
@@ -53,14 +109,23 @@ export class WaveSystem implements System {
     }
   }
   
-  // Set the reference to the animation system
-  public setAnimationSystem(animationSystem: AnimationSystem): void {
-    this.animationSystem = animationSystem;
+  /**
+   * Swaps in a new wave script (e.g. one loaded from JSON).
+   * Invalid scripts are rejected with their problems logged, keeping the current script.
+   * The new script takes effect from the next wave.
+   */
+  public setWaveScript(script: unknown): boolean {
+    const errors = validateWaveScript(script);
+    if (errors.length > 0) {
+      console.error(`Rejected wave script:\n  ${errors.join('\n  ')}`);
+      return false;
+    }
+    this.waveScript = script as WaveScript;
+    return true;
   }
-  
-  // Set the reference to the HUD system for displaying messages
-  public setHUDSystem(hudSystem: HUDSystem): void {
-    this.hudSystem = hudSystem;
+
+  public getWaveScript(): WaveScript {
+    return this.waveScript;
   }
   
   // Method to find the Dyson Sphere entity
@@ -68,7 +133,7 @@ export class WaveSystem implements System {
     const dysonSpheres = this.world.getEntitiesWith(['Renderable', 'Health']);
     
     for (const entity of dysonSpheres) {
-      const renderable = this.world.getComponent<Renderable>(entity, 'Renderable');
+      const renderable = this.world.getComponent(entity, 'Renderable');
       if (renderable?.modelId === 'dysonSphere') {
         this.dysonSphereEntity = entity;
         return;
@@ -95,13 +160,13 @@ export class WaveSystem implements System {
     
     // Check if the game is in the playing state
     if (this.gameStateEntity !== -1) {
-      const gameStateDisplay = this.world.getComponent<GameStateDisplay>(this.gameStateEntity, 'GameStateDisplay');
+      const gameStateDisplay = this.world.getComponent(this.gameStateEntity, 'GameStateDisplay');
       if (!gameStateDisplay || gameStateDisplay.currentState !== 'playing') {
         return; // Don't process wave logic if the game hasn't started
       }
     }
     
-    const waveInfo = this.world.getComponent<WaveInfo>(this.waveEntity, 'WaveInfo');
+    const waveInfo = this.world.getComponent(this.waveEntity, 'WaveInfo');
     if (!waveInfo) return;
 
     const globalState = this.world.getGameState();
@@ -109,7 +174,8 @@ export class WaveSystem implements System {
       return;
     }
     
-    // Count active enemies
+    // Count active enemies; grunts launched by Carriers are enemies of their own, so the
+    // wave isn't complete until they're destroyed too
     const activeEnemies = this.world.getEntitiesWith(['Enemy']);
     waveInfo.enemiesRemaining = activeEnemies.length;
     
@@ -124,15 +190,16 @@ export class WaveSystem implements System {
       if (waveInfo.nextWaveTimer <= 0) {
         this.startNextWave(waveInfo);
       }
-    } else if (waveInfo.enemiesRemaining === 0 && waveInfo.totalEnemies === 0) {
+    } else if (waveInfo.enemiesRemaining === 0 && waveInfo.totalEnemies === 0 && this.delayedSpawns.length === 0) {
       // Wave complete, prepare for the next one
       this.completeWave(waveInfo);
     } else if (waveInfo.totalEnemies > 0) {
       // Still have enemies to spawn in the current wave
       this.timeSinceLastSpawn += deltaTime;
       
-      if (this.timeSinceLastSpawn >= this.spawnInterval) {
-        this.spawnEnemy();
+      const interval = this.currentDefinition?.stream.interval ?? getWaveDefinition(this.waveScript, waveInfo.currentWave).stream.interval;
+      if (this.timeSinceLastSpawn >= interval) {
+        this.spawnStreamEnemy(waveInfo.currentWave);
         this.timeSinceLastSpawn = 0;
         waveInfo.totalEnemies--;
       }
@@ -140,28 +207,26 @@ export class WaveSystem implements System {
   }
   
   private handleWaveCountdown(waveInfo: WaveInfo): void {
+    const announcements = this.waveScript.announcements;
+
     // Reset announcement flags when a new countdown starts
-    if (waveInfo.nextWaveTimer > 4.8 && waveInfo.currentWave > 0) {
+    if (waveInfo.nextWaveTimer > this.waveScript.timeBetweenWaves - 0.2 && waveInfo.currentWave > 0) {
       this.hasAnnouncedCompletion = false;
     }
     
     // Announce wave completion once when the countdown starts
     if (!this.hasAnnouncedCompletion && waveInfo.currentWave > 0) {
-      if (this.hudSystem) {
-        this.hudSystem.displayMessage(`WAVE ${waveInfo.currentWave} COMPLETE!`, 3);
-      }
+      this.announce(formatWaveMessage(announcements.waveComplete, waveInfo.currentWave), 3);
       this.hasAnnouncedCompletion = true;
     }
     
     // For first wave or when countdown is near the end
-    if (waveInfo.nextWaveTimer <= 3 && !this.hasAnnouncedWave) {
-      const message = waveInfo.currentWave === 0 
-        ? "FIRST WAVE INCOMING!" 
-        : `PREPARE FOR WAVE ${waveInfo.currentWave + 1}!`;
+    if (waveInfo.nextWaveTimer <= announcements.leadTime && !this.hasAnnouncedWave) {
+      const nextWave = waveInfo.currentWave + 1;
+      const template = getWaveDefinition(this.waveScript, nextWave).countdownMessage
+        ?? (waveInfo.currentWave === 0 ? announcements.firstWave : announcements.nextWave);
       
-      if (this.hudSystem) {
-        this.hudSystem.displayMessage(message, 3);
-      }
+      this.announce(formatWaveMessage(template, nextWave), 3);
       this.hasAnnouncedWave = true;
     }
   }
@@ -175,7 +240,7 @@ export class WaveSystem implements System {
     for (const delayedSpawn of this.delayedSpawns) {
       delayedSpawn.timeRemaining -= deltaTime;
       if (delayedSpawn.timeRemaining <= 0) {
-        delayedSpawn.spawn();
+        this.spawnDelayedExtra(delayedSpawn);
       } else {
         remainingSpawns.push(delayedSpawn);
       }
@@ -184,16 +249,21 @@ export class WaveSystem implements System {
     this.delayedSpawns = remainingSpawns;
   }
 
-  private scheduleSpawn(delaySeconds: number, spawn: () => void): void {
-    this.delayedSpawns.push({
-      timeRemaining: delaySeconds,
-      spawn
-    });
+  private spawnDelayedExtra(delayedSpawn: DelayedSpawn): void {
+    if (!this.world.hasEntity(this.dysonSphereEntity)) {
+      return;
+    }
+
+    const definition = this.currentDefinition ?? getWaveDefinition(this.waveScript, delayedSpawn.wave);
+    const extra = definition.extras?.[delayedSpawn.extraIndex];
+    if (extra) {
+      this.spawnExtra(extra, definition, delayedSpawn.wave);
+    }
   }
   
   private completeWave(waveInfo: WaveInfo): void {
     waveInfo.isActive = false;
-    waveInfo.nextWaveTimer = 5; // 5 seconds until next wave
+    waveInfo.nextWaveTimer = this.waveScript.timeBetweenWaves;
     this.hasAnnouncedWave = false; // Reset for next wave
 
     // Increment wavesCompleted in global state
@@ -203,205 +273,273 @@ export class WaveSystem implements System {
       upgradeDraftAvailable: true
     });
 
-    if (this.hudSystem) {
-      this.hudSystem.displayMessage('UPGRADE AVAILABLE', 3);
-    }
+    this.world.emit('WaveCompleted', { wave: waveInfo.currentWave });
+    this.announce(this.waveScript.announcements.upgradeAvailable, 3);
   }
   
   private startNextWave(waveInfo: WaveInfo): void {
     waveInfo.currentWave++;
     waveInfo.isActive = true;
-    
-    // Calculate number of enemies for this wave
-    // Base of 5 enemies for wave 1, then +3 per wave
-    waveInfo.totalEnemies = 5 + (waveInfo.currentWave - 1) * 3;
-    
-    // Reset announcement flags for the new wave
-    this.hasAnnouncedShieldGuardian = false;
-    this.hasAnnouncedWarpRaider = false;
-    this.hasAnnouncedAsteroid = false; // Reset asteroid announcement flag
-    
-    // --- Spawn Initial Grunt/Guardian ---
-    // Spawn the first enemy immediately - always make it a grunt
-    const firstEnemyPosition = this.getRandomPositionOnSphere(160);
-    const wormholeEntity = createWormhole(this.world, firstEnemyPosition, this.dysonSphereEntity);
-    
-    const dysonPosition = this.world.getComponent<Position>(this.dysonSphereEntity, 'Position');
-    if (dysonPosition) {
-      // Calculate direction away from Dyson sphere
-      const direction = new THREE.Vector3(
-        firstEnemyPosition.x - dysonPosition.x,
-        firstEnemyPosition.y - dysonPosition.y,
-        firstEnemyPosition.z - dysonPosition.z
-      ).normalize();
-      
-      // Offset enemy position behind the wormhole
-      const enemyPosition = {
-        x: firstEnemyPosition.x + direction.x * 8,
-        y: firstEnemyPosition.y + direction.y * 8,
-        z: firstEnemyPosition.z + direction.z * 8
-      };
-      
-      // First create a regular grunt
-      createGrunt(this.world, enemyPosition, this.dysonSphereEntity);
-      
-      // For wave 2, spawn a Shield Guardian alongside the first enemy with a 0.5 second delay
-      if (waveInfo.currentWave === 2) {
-        this.scheduleSpawn(0.5, () => {
-          if (!this.world.hasEntity(this.dysonSphereEntity)) {
-            return;
-          }
-
-          console.log('Spawning guaranteed Shield Guardian in wave 2');
-          createShieldGuardian(this.world, enemyPosition, this.dysonSphereEntity);
-          
-          if (this.hudSystem) {
-            this.hudSystem.displayMessage("NEW THREAT: Shield Guardian detected!", 4);
-            this.hasAnnouncedShieldGuardian = true;
-          }
-        });
+
+    const definition = getWaveDefinition(this.waveScript, waveInfo.currentWave);
+    this.currentDefinition = definition;
+
+    // Number of enemies arriving through wormholes this wave
+    this.streamSize = getWaveEnemyCount(this.waveScript, waveInfo.currentWave);
+    this.streamSpawned = 0;
+    waveInfo.totalEnemies = this.streamSize;
+
+    // Reset per-wave announcement and formation state
+    this.announcedThisWave.clear();
+    this.firstSpawnPosition = null;
+    this.formationAxis = null;
+
+    this.world.emit('WaveStarted', { wave: waveInfo.currentWave, enemyCount: this.streamSize });
+
+    // --- Opening stream spawn ---
+    if (definition.stream.firstSpawnDelay <= 0 && waveInfo.totalEnemies > 0) {
+      this.spawnStreamEnemy(waveInfo.currentWave);
+      waveInfo.totalEnemies--;
+      this.timeSinceLastSpawn = 0;
+    } else {
+      // Let the regular spawn timer fire the opening enemy once the delay has elapsed
+      this.timeSinceLastSpawn = definition.stream.interval - definition.stream.firstSpawnDelay;
+    }
+
+    // --- Extra spawns (don't count toward the wave's enemy total) ---
+    const wave = waveInfo.currentWave;
+    (definition.extras ?? []).forEach((extra, extraIndex) => {
+      if (extra.waveInterval !== undefined && wave % extra.waveInterval !== 0) {
+        return;
       }
+      if (extra.delay <= 0) {
+        this.spawnExtra(extra, definition, wave);
+      } else {
+        this.delayedSpawns.push({ timeRemaining: extra.delay, wave, extraIndex });
+      }
+    });
+  }
+
+  private spawnStreamEnemy(wave: number): void {
+    const definition = this.currentDefinition ?? getWaveDefinition(this.waveScript, wave);
+    const slot = ++this.streamSpawned; // 1-based slot within the wave
+
+    const position = this.getFormationPosition(definition, slot - 1);
+    const enemyPosition = this.spawnThroughWormhole(position);
+    if (!enemyPosition) return;
+
+    if (slot === 1) {
+      this.firstSpawnPosition = enemyPosition;
     }
-    
-    // Decrement totalEnemies *after* the initial grunt/guardian spawn
-    waveInfo.totalEnemies--; 
-    
-    // --- Handle Wave-Start Asteroid Spawning ---
-    const baseSpawnRadius = 160;
-    if (waveInfo.currentWave === 3) {
-        // Guaranteed asteroid at the start of Wave 3
-        console.log("Spawning guaranteed asteroid for Wave 3 start");
-        this.spawnStartWaveAsteroid(baseSpawnRadius);
-    } else if (waveInfo.currentWave === 4) {
-        // 25% chance for an asteroid at the start of Wave 4
-        if (Math.random() < 0.25) {
-            console.log("Spawning asteroid (25% chance) for Wave 4 start");
-            this.spawnStartWaveAsteroid(baseSpawnRadius);
-        }
-    } else if (waveInfo.currentWave >= 5) {
-        // Two separate 25% chances for asteroids at the start of Wave 5+
-        if (Math.random() < 0.25) {
-            console.log("Spawning asteroid (Roll 1, 25% chance) for Wave 5+ start");
-            this.spawnStartWaveAsteroid(baseSpawnRadius);
-        }
-        if (Math.random() < 0.25) {
-            console.log("Spawning asteroid (Roll 2, 25% chance) for Wave 5+ start");
-            this.spawnStartWaveAsteroid(baseSpawnRadius);
-        }
+
+    const enemyEntity = this.spawnScriptedEnemy(this.pickStreamSpawn(definition, slot, wave), enemyPosition, wave);
+
+    // Elites roll on their own stream so they don't shift the wave's enemy rolls
+    const eliteChance = definition.stream.eliteChance ? resolveScaledValue(definition.stream.eliteChance, wave) : 0;
+    const enemy = this.world.getComponent(enemyEntity, 'Enemy');
+    if (eliteChance > 0 && enemy && canBeElite(enemy.type)) {
+      const eliteRandom = this.world.getRandomStream('elites');
+      if (eliteRandom.chance(eliteChance)) {
+        makeElite(this.world, enemyEntity, eliteRandom);
+      }
     }
-    
-    // Reset spawn timer for regular enemies
-    this.timeSinceLastSpawn = 0;
   }
-  
-  private spawnEnemy(forceGrunt: boolean = false): number {
-    // Pick a random position on a sphere around the Dyson Sphere
-    const radius = 160; // Spawn radius
-    const position = this.getRandomPositionOnSphere(radius);
-    
-    // Create a wormhole entity first
-    const wormholeEntity = createWormhole(this.world, position, this.dysonSphereEntity);
-    
+
+  // Scripted slots take priority, then rolls in order (first hit wins), then the fallback
+  private pickStreamSpawn(definition: WaveDefinition, slot: number, wave: number): EnemySpawn {
+    const scripted = definition.stream.scripted?.find(entry => entry.slot === slot);
+    if (scripted) {
+      return scripted;
+    }
+
+    for (const roll of definition.stream.rolls ?? []) {
+      if (this.random.chance(resolveScaledValue(roll.chance, wave))) {
+        return roll;
+      }
+    }
+
+    return definition.stream.fallback;
+  }
+
+  private spawnExtra(extra: ExtraSpawn, definition: WaveDefinition, wave: number): void {
+    if (extra.chance !== undefined && extra.chance < 1 && !this.random.chance(extra.chance)) {
+      return;
+    }
+
+    let position: Vec3 | null;
+    switch (extra.placement) {
+      case 'withFirstSpawn':
+        position = this.firstSpawnPosition
+          ?? this.spawnThroughWormhole(this.getRandomPositionOnSphere(definition.spawnRadius));
+        break;
+      case 'wormhole':
+        position = this.spawnThroughWormhole(this.getRandomPositionOnSphere(definition.spawnRadius));
+        break;
+      case 'deepSpace': {
+        const range = extra.radiusMultiplier ?? { min: 1, max: 1 };
+        const multiplier = this.random.range(range.min, range.max);
+        position = this.getRandomPositionOnSphere(definition.spawnRadius * multiplier);
+        break;
+      }
+    }
+    if (!position) return;
+
+    console.log(`Spawning extra ${extra.enemy} (${extra.placement}) for wave ${wave}`);
+    this.spawnScriptedEnemy(extra, position, wave);
+  }
+
+  private spawnScriptedEnemy(spawn: EnemySpawn, position: Vec3, wave: number): number {
+    let enemyEntity: number;
+
+    switch (spawn.enemy) {
+      case 'shieldGuardian':
+        enemyEntity = createShieldGuardian(this.world, position, this.dysonSphereEntity);
+        break;
+      case 'warpRaider':
+        enemyEntity = createWarpRaider(this.world, position, this.dysonSphereEntity);
+        break;
+      case 'bomber':
+        enemyEntity = createBomber(this.world, position, this.dysonSphereEntity);
+        break;
+      case 'carrier':
+        enemyEntity = createCarrier(this.world, position, this.dysonSphereEntity);
+        break;
+      case 'phantom':
+        enemyEntity = createPhantom(this.world, position, this.dysonSphereEntity);
+        break;
+      case 'medic':
+        enemyEntity = createMedic(this.world, position, this.dysonSphereEntity);
+        break;
+      case 'mineLayer':
+        enemyEntity = createMineLayer(this.world, position, this.dysonSphereEntity);
+        break;
+      case 'swarmDrone': {
+        // The whole swarm comes through the one wormhole and fills a single stream slot
+        const swarmSize = spawn.swarmSize ? Math.round(resolveScaledValue(spawn.swarmSize, wave)) : DEFAULT_SWARM_SIZE;
+        enemyEntity = createSwarm(this.world, position, this.dysonSphereEntity, Math.max(1, swarmSize))[0];
+        break;
+      }
+      case 'asteroid':
+        enemyEntity = createAsteroid(this.world, position, this.dysonSphereEntity);
+        break;
+      case 'hiveMothership': {
+        const healthMultiplier = spawn.healthMultiplier ? resolveScaledValue(spawn.healthMultiplier, wave) : 1;
+        enemyEntity = createHiveMothership(this.world, position, this.dysonSphereEntity, healthMultiplier);
+        break;
+      }
+      case 'grunt':
+      default: {
+        const speedIncrease = spawn.speedMultiplier ? resolveScaledValue(spawn.speedMultiplier, wave) : 1;
+        const cooldownReduction = spawn.cooldownMultiplier ? resolveScaledValue(spawn.cooldownMultiplier, wave) : 1;
+        enemyEntity = createGrunt(
+          this.world,
+          position,
+          this.dysonSphereEntity,
+          speedIncrease,
+          cooldownReduction
+        );
+        break;
+      }
+    }
+
+    if (spawn.announce) {
+      this.announceOncePerWave(spawn.announce);
+    }
+
+    return enemyEntity;
+  }
+
+  private announceOncePerWave(announcement: WaveAnnouncement): void {
+    if (this.announcedThisWave.has(announcement.message)) {
+      return;
+    }
+    this.announce(announcement.message, announcement.duration);
+    this.announcedThisWave.add(announcement.message);
+  }
+
+  private announce(message: string, duration: number): void {
+    this.world.emit('Announcement', { message, duration });
+  }
+
+  // Opens a wormhole at the given point and returns where the enemy should appear (8 units behind the opening)
+  private spawnThroughWormhole(position: Vec3): Vec3 | null {
+    createWormhole(this.world, position, this.dysonSphereEntity);
+
     // Calculate direction away from Dyson sphere (this is the direction the wormhole faces)
-    const dysonPosition = this.world.getComponent<Position>(this.dysonSphereEntity, 'Position');
-    if (!dysonPosition) return wormholeEntity;
-    
-    // Calculate normalized direction vector pointing away from Dyson sphere
+    const dysonPosition = this.world.getComponent(this.dysonSphereEntity, 'Position');
+    if (!dysonPosition) return null;
+
     const direction = new THREE.Vector3(
       position.x - dysonPosition.x,
       position.y - dysonPosition.y,
       position.z - dysonPosition.z
     ).normalize();
-    
-    // Offset enemy position 8 units behind the wormhole opening
-    const enemyPosition = {
+
+    return {
       x: position.x + direction.x * 8,
       y: position.y + direction.y * 8,
       z: position.z + direction.z * 8
     };
-    
-    // Get current wave info
-    const waveInfo = this.world.getComponent<WaveInfo>(this.waveEntity, 'WaveInfo');
-    if (!waveInfo) return wormholeEntity;
-    
-    let enemyEntity: number;
+  }
 
-    // First, handle the guaranteed Warp Raider spawn in wave 4
-    if (!forceGrunt && waveInfo.currentWave === 4) {
-      const totalEnemiesInWave = 5 + (waveInfo.currentWave - 1) * 3;
-      
-      if (totalEnemiesInWave - waveInfo.totalEnemies === 2) {
-        console.log('Spawning guaranteed Warp Raider in wave 4');
-        enemyEntity = createWarpRaider(this.world, enemyPosition, this.dysonSphereEntity);
-        
-        if (!this.hasAnnouncedWarpRaider && this.hudSystem) {
-          this.hudSystem.displayMessage("NEW THREAT: Warp Raider incoming!", 4);
-          this.hasAnnouncedWarpRaider = true;
-        }
-        return enemyEntity;
-      }
+  private getFormationPosition(definition: WaveDefinition, index: number): Vec3 {
+    const formation = definition.stream.formation;
+    const radius = definition.spawnRadius;
+
+    if (formation.type === 'scatter') {
+      return this.getRandomPositionOnSphere(radius);
     }
-    
-    // Calculate progressive spawn chances based on wave number
-    const baseShieldGuardianChance = 0.10;
-    const baseWarpRaiderChance = 0.10;
-    const waveProgression = Math.max(0, waveInfo.currentWave - 3); // Start scaling from wave 3
-    const shieldGuardianChance = baseShieldGuardianChance + (waveProgression * 0.01); // +1% per wave
-    const warpRaiderChance = baseWarpRaiderChance + (waveProgression * 0.01); // +1% per wave
-    
-    // For waves 3+, chance to spawn a Shield Guardian increases by 1% per wave
-    if (!forceGrunt && waveInfo.currentWave >= 3 && Math.random() < shieldGuardianChance) {
-      enemyEntity = createShieldGuardian(this.world, enemyPosition, this.dysonSphereEntity);
-      
-      if (!this.hasAnnouncedShieldGuardian && this.hudSystem) {
-        this.hudSystem.displayMessage("NEW THREAT: Shield Guardian detected!", 4);
-        this.hasAnnouncedShieldGuardian = true;
-      }
-    } 
-    // Random chance for Warp Raiders in waves 5+, chance increases by 1% per wave
-    else if (!forceGrunt && waveInfo.currentWave >= 5 && Math.random() < warpRaiderChance) {
-      enemyEntity = createWarpRaider(this.world, enemyPosition, this.dysonSphereEntity);
+
+    if (!this.formationAxis || !this.formationTangent || !this.formationBitangent) {
+      this.initFormationFrame();
     }
-    else {
-      // Create a regular grunt enemy with progressive difficulty scaling
-      const speedIncrease = 1 + (waveInfo.currentWave - 1) * 0.1; // 10% faster each wave
-      const cooldownReduction = Math.max(0.5, 1 - (waveInfo.currentWave - 1) * 0.05); // 5% faster shooting each wave, minimum 0.5x
-      
-      enemyEntity = createGrunt(
-        this.world,
-        enemyPosition,
-        this.dysonSphereEntity,
-        speedIncrease,
-        cooldownReduction
-      );
+    const axis = this.formationAxis!;
+    const tangent = this.formationTangent!;
+    const bitangent = this.formationBitangent!;
+
+    let axisWeight: number;
+    let planeAngle: number;
+    let planeWeight: number;
+
+    if (formation.type === 'cluster') {
+      // Uniform point inside a spherical cap of `spread` degrees around the anchor
+      const maxAngle = THREE.MathUtils.degToRad(formation.spread);
+      axisWeight = 1 - this.random.next() * (1 - Math.cos(maxAngle));
+      planeWeight = Math.sqrt(Math.max(0, 1 - axisWeight * axisWeight));
+      planeAngle = this.random.next() * Math.PI * 2;
+    } else {
+      // Ring: evenly spaced around the great circle perpendicular to the axis
+      axisWeight = 0;
+      planeWeight = 1;
+      planeAngle = this.formationPhase + (index / Math.max(1, this.streamSize)) * Math.PI * 2;
     }
-    
-    return enemyEntity;
+
+    const cos = Math.cos(planeAngle) * planeWeight;
+    const sin = Math.sin(planeAngle) * planeWeight;
+    return {
+      x: (axis.x * axisWeight + tangent.x * cos + bitangent.x * sin) * radius,
+      y: (axis.y * axisWeight + tangent.y * cos + bitangent.y * sin) * radius,
+      z: (axis.z * axisWeight + tangent.z * cos + bitangent.z * sin) * radius
+    };
   }
-  
-  // New helper method to spawn an asteroid at the start of a wave
-  private spawnStartWaveAsteroid(baseRadius: number): number {
-      // Create asteroid at a much further distance (4-6.5x normal spawn distance)
-      const asteroidSpawnMultiplier = 4 + Math.random() * 2.5;
-      const asteroidPosition = this.getRandomPositionOnSphere(baseRadius * asteroidSpawnMultiplier);
-      
-      console.log(`Spawning start-wave asteroid at distance: ${baseRadius * asteroidSpawnMultiplier} units`);
-      
-      const asteroidEntity = createAsteroid(this.world, asteroidPosition, this.dysonSphereEntity);
-      
-      // Announce only once per wave start, even if two asteroids spawn
-      if (!this.hasAnnouncedAsteroid && this.hudSystem) {
-        this.hudSystem.displayMessage("CRITICAL THREAT: Incoming Asteroid!", 5);
-        this.hasAnnouncedAsteroid = true; 
-      }
-      
-      return asteroidEntity;
+
+  // Picks a random orientation for this wave's cluster/ring formation
+  private initFormationFrame(): void {
+    const anchor = this.getRandomPositionOnSphere(1);
+    const axis = new THREE.Vector3(anchor.x, anchor.y, anchor.z).normalize();
+    const helper = Math.abs(axis.y) < 0.99 ? new THREE.Vector3(0, 1, 0) : new THREE.Vector3(1, 0, 0);
+    const tangent = new THREE.Vector3().crossVectors(helper, axis).normalize();
+
+    this.formationAxis = axis;
+    this.formationTangent = tangent;
+    this.formationBitangent = new THREE.Vector3().crossVectors(axis, tangent);
+    this.formationPhase = this.random.next() * Math.PI * 2;
   }
-  
+
   private getRandomPositionOnSphere(radius: number): { x: number, y: number, z: number } {
     // Use spherical coordinates to get a random position on a sphere
-    const theta = Math.random() * Math.PI * 2; // Random angle around the y-axis
-    const phi = Math.acos((Math.random() * 2) - 1); // Random angle from the y-axis
+    const theta = this.random.next() * Math.PI * 2; // Random angle around the y-axis
+    const phi = Math.acos((this.random.next() * 2) - 1); // Random angle from the y-axis
     
     // Convert spherical to cartesian coordinates
     const x = radius * Math.sin(phi) * Math.cos(theta);
@@ -413,25 +551,96 @@ export class WaveSystem implements System {
   
   // Helper method to get the current wave info (can be used by UI)
   public getWaveInfo(): WaveInfo | undefined {
-    return this.world.getComponent<WaveInfo>(this.waveEntity, 'WaveInfo');
+    return this.world.getComponent(this.waveEntity, 'WaveInfo');
+  }
+  
+  /**
+   * Wave progress that lives outside the WaveInfo component, for saving a run
+   */
+  public getProgressSnapshot(): WaveProgressSnapshot {
+    const toVec3 = (vector: THREE.Vector3): Vec3 => ({ x: vector.x, y: vector.y, z: vector.z });
+
+    return {
+      timeSinceLastSpawn: this.timeSinceLastSpawn,
+      hasAnnouncedWave: this.hasAnnouncedWave,
+      hasAnnouncedCompletion: this.hasAnnouncedCompletion,
+      announcedThisWave: [...this.announcedThisWave],
+      delayedSpawns: this.delayedSpawns.map(delayedSpawn => ({ ...delayedSpawn })),
+      streamSize: this.streamSize,
+      streamSpawned: this.streamSpawned,
+      firstSpawnPosition: this.firstSpawnPosition ? { ...this.firstSpawnPosition } : null,
+      formation: this.formationAxis && this.formationTangent && this.formationBitangent
+        ? {
+          axis: toVec3(this.formationAxis),
+          tangent: toVec3(this.formationTangent),
+          bitangent: toVec3(this.formationBitangent),
+          phase: this.formationPhase
+        }
+        : null
+    };
+  }
+
+  /**
+   * Resume a saved run. Call after World.restoreSnapshot: the restored world's
+   * WaveInfo, Dyson Sphere and HUD entities are looked up again.
+   */
+  public restoreProgressSnapshot(snapshot: WaveProgressSnapshot): void {
+    const waveEntities = this.world.getEntitiesWith(['WaveInfo']);
+    if (waveEntities.length > 0) {
+      this.waveEntity = waveEntities[0];
+    } else {
+      console.warn('[WaveSystem] Restored world has no WaveInfo entity; wave progress starts over');
+      this.waveEntity = this.world.createEntity();
+      this.world.addComponent(this.waveEntity, 'WaveInfo', {
+        currentWave: 0,
+        enemiesRemaining: 0,
+        totalEnemies: 0,
+        nextWaveTimer: this.waveScript.firstWaveDelay,
+        isActive: false
+      });
+    }
+
+    this.dysonSphereEntity = -1;
+    this.findDysonSphereEntity();
+    this.gameStateEntity = this.world.getEntitiesWith(['GameStateDisplay'])[0] ?? -1;
+
+    const currentWave = this.getWaveInfo()?.currentWave ?? 0;
+    this.currentDefinition = currentWave > 0 ? getWaveDefinition(this.waveScript, currentWave) : null;
+
+    const toVector = (vec: Vec3): THREE.Vector3 => new THREE.Vector3(vec.x, vec.y, vec.z);
+    this.timeSinceLastSpawn = snapshot.timeSinceLastSpawn;
+    this.hasAnnouncedWave = snapshot.hasAnnouncedWave;
+    this.hasAnnouncedCompletion = snapshot.hasAnnouncedCompletion;
+    this.announcedThisWave = new Set(snapshot.announcedThisWave);
+    this.delayedSpawns = snapshot.delayedSpawns.map(delayedSpawn => ({ ...delayedSpawn }));
+    this.streamSize = snapshot.streamSize;
+    this.streamSpawned = snapshot.streamSpawned;
+    this.firstSpawnPosition = snapshot.firstSpawnPosition ? { ...snapshot.firstSpawnPosition } : null;
+    this.formationAxis = snapshot.formation ? toVector(snapshot.formation.axis) : null;
+    this.formationTangent = snapshot.formation ? toVector(snapshot.formation.tangent) : null;
+    this.formationBitangent = snapshot.formation ? toVector(snapshot.formation.bitangent) : null;
+    this.formationPhase = snapshot.formation?.phase ?? 0;
   }
   
   // Reset the wave system when game is restarted
   public resetWaves(): void {
-    const waveInfo = this.world.getComponent<WaveInfo>(this.waveEntity, 'WaveInfo');
+    const waveInfo = this.world.getComponent(this.waveEntity, 'WaveInfo');
     if (waveInfo) {
       waveInfo.currentWave = 0;
       waveInfo.enemiesRemaining = 0;
       waveInfo.totalEnemies = 0;
-      waveInfo.nextWaveTimer = 3; // Start first wave after 3 seconds
+      waveInfo.nextWaveTimer = this.waveScript.firstWaveDelay;
       waveInfo.isActive = false;
     }
     this.timeSinceLastSpawn = 0;
     this.hasAnnouncedWave = false;
     this.hasAnnouncedCompletion = false;
-    this.hasAnnouncedShieldGuardian = false;
-    this.hasAnnouncedWarpRaider = false;
-    this.hasAnnouncedAsteroid = false;
+    this.announcedThisWave.clear();
     this.delayedSpawns = [];
+    this.currentDefinition = null;
+    this.streamSize = 0;
+    this.streamSpawned = 0;
+    this.firstSpawnPosition = null;
+    this.formationAxis = null;
   }
 }
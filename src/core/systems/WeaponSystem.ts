@@ -1,18 +1,18 @@
 import * as THREE from 'three';
 import { World, System } from '../World';
-import { Position, Rotation, LaserCooldown, Enemy, Shield, Health, Renderable, Collider } from '../components';
-import { InputManager } from '../input/InputManager';
-import { SceneManager } from '../../rendering/SceneManager';
+import { Position, Rotation } from '../components';
 import { createLaser } from '../entities/LaserEntity';
 import { AudioManager } from '../AudioManager';
 import { createAccuracyShot, resetAccuracy, resolveAccuracyProjectile } from '../accuracy';
+import { getEliteValue } from '../elites';
+import { applyDamage } from '../damage';
 import { COLORS } from '../../constants/colors';
+import { BossAttack } from '../../types/boss';
 
 const LIGHTNING_SEGMENTS = 20;
 const LIGHTNING_UPDATE_INTERVAL = 100; // milliseconds
 const LIGHTNING_DAMAGE_INTERVAL = 0.1; // seconds
 const LIGHTNING_BASE_DPS = 5; // Damage per second (reduced from 10)
-const LIGHTNING_SHIELD_MULTIPLIER = 1.5; // 50% more damage to shields
 const LIGHTNING_IMPACT_RIPPLE_COUNT = 4;
 const LIGHTNING_IMPACT_RIPPLE_SPEED = 1.5;
 const LIGHTNING_IMPACT_RIPPLE_MIN_RADIUS = 1.1;
@@ -25,6 +25,8 @@ const PRAETORIAN_LASER_COOLDOWN = 0.55;
 const PRAETORIAN_BEAM_LENGTH = 260;
 const PRAETORIAN_BEAM_DURATION = 0.7;
 const STAR_POWER_FIRE_COOLDOWN = 0.08;
+const BOSS_LASER_LIFETIME = 3;
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
 const RAINBOW_LASER_COLORS = [
   0xff3030,
   0xff9f1c,
@@ -47,6 +49,11 @@ interface LightningImpactRipple {
   rings: THREE.Mesh[];
 }
 
+interface LightningMaterials {
+  line: THREE.LineBasicMaterial;
+  auras: THREE.MeshPhongMaterial[];
+}
+
 interface LightningWeapon {
   strands: {
     points: THREE.Vector3[];
@@ -58,9 +65,10 @@ interface LightningWeapon {
   origin: THREE.Vector3;
   target: THREE.Vector3;
   ownerEntity: number;
+  healTarget?: number; // Medic heal beams follow this patient and deal no damage
   damageTimer: number;
   rippleTime: number;
-  impactRipple: LightningImpactRipple;
+  impactRipple?: LightningImpactRipple; // Siege lightning only
 }
 
 interface PraetorianBeam {
@@ -83,36 +91,26 @@ interface PraetorianBeam {
  * - Creates projectile entities when firing
  * - Handles timing and cooldown management
  * - Supports different weapon types (to be expanded)
+ * - Fires boss volleys (spread, ring, barrage) on request from BossSystem
+ * - Draws medic heal beams with the lightning strand renderer
  * - Plays sound effects when weapons are fired
  */
 export class WeaponSystem implements System {
   private world: World;
   private scene: THREE.Scene;
-  private inputManager: InputManager;
-  private sceneManager: SceneManager;
   private audioManager?: AudioManager;
   private lightningWeapons: Map<number, LightningWeapon>;
-  private lightningMaterials: {
-    line: THREE.LineBasicMaterial;
-    auras: THREE.MeshPhongMaterial[];
-  };
+  private lightningMaterials: LightningMaterials;
+  private healBeamMaterials: LightningMaterials;
   private readonly ripplePlaneNormal = new THREE.Vector3(0, 0, 1);
   private secondaryWasPressed = false;
   private praetorianBeams: PraetorianBeam[] = [];
   private rainbowLaserIndex = 0;
 
-  constructor(world: World, sceneManager: SceneManager, audioManager?: AudioManager) {
+  constructor(world: World, scene: THREE.Scene, audioManager?: AudioManager) {
     this.world = world;
-    this.scene = sceneManager.getScene();
-    this.sceneManager = sceneManager;
+    this.scene = scene;
     this.audioManager = audioManager;
-    
-    // Get the renderer DOM element for input handling
-    const rendererElement = sceneManager.getRendererDomElement();
-    if (!rendererElement) {
-      throw new Error('Renderer DOM element not available');
-    }
-    this.inputManager = InputManager.getInstance(rendererElement);
 
     this.lightningWeapons = new Map();
 
@@ -163,6 +161,29 @@ export class WeaponSystem implements System {
         })
       ]
     };
+
+    // Medic heal beams: a calmer green take on the lightning
+    this.healBeamMaterials = {
+      line: new THREE.LineBasicMaterial({
+        color: COLORS.MEDIC_BEAM,
+        transparent: true,
+        opacity: 0.9,
+        blending: THREE.AdditiveBlending,
+        depthTest: false,
+        depthWrite: false
+      }),
+      auras: [COLORS.MEDIC_BEAM, COLORS.MEDIC_BEAM_AURA].map((color, index) => new THREE.MeshPhongMaterial({
+        color,
+        emissive: color,
+        emissiveIntensity: 1.5 - index * 0.5,
+        transparent: true,
+        opacity: 0.45 - index * 0.2,
+        blending: THREE.AdditiveBlending,
+        side: THREE.DoubleSide,
+        depthTest: false,
+        depthWrite: false
+      }))
+    };
   }
 
   /**
@@ -174,28 +195,18 @@ export class WeaponSystem implements System {
   }
 
   update(deltaTime: number): void {
-    const rendererDomElement = this.sceneManager.getRendererDomElement();
-    if (!rendererDomElement) {
-      console.warn('Renderer DOM element not available');
-      return;
-    }
-
-    // Get input state to check if shoot button is pressed
-    const inputState = this.inputManager.getInputState();
-    const isFiring = this.inputManager.isFiring(); // Check both keyboard and mobile firing
-    
     // Process entities with weapon components
     const entities = this.world.getEntitiesWith(['InputReceiver', 'Position']);
     
     for (const entity of entities) {
       // Get required components
-      const position = this.world.getComponent<Position>(entity, 'Position');
-      const rotation = this.world.getComponent<Rotation>(entity, 'Rotation');
+      const position = this.world.getComponent(entity, 'Position');
+      const rotation = this.world.getComponent(entity, 'Rotation');
       
       if (!position || !rotation) continue;
       
       // Get or add LaserCooldown component
-      let laserCooldown = this.world.getComponent<LaserCooldown>(entity, 'LaserCooldown');
+      let laserCooldown = this.world.getComponent(entity, 'LaserCooldown');
       
       if (!laserCooldown) {
         // Initialize cooldown component if it doesn't exist
@@ -223,7 +234,9 @@ export class WeaponSystem implements System {
       }
       
       // Check if shooting and can fire
-      if (laserCooldown && (inputState.shoot || isFiring || laserCooldown.readyToFire) && laserCooldown.canFire) {
+      // Fire intent comes from this step's sampled input (keyboard/mouse or mobile)
+      const isFiring = this.world.getComponent(entity, 'PlayerInput')?.fire ?? false;
+      if (laserCooldown && (isFiring || laserCooldown.readyToFire) && laserCooldown.canFire) {
         this.fireWeapon(entity, position, rotation, starPowerActive);
         
         // Reset cooldown and ready state
@@ -243,7 +256,7 @@ export class WeaponSystem implements System {
 
     // Update all active lightning weapons
     for (const [entityId, lightning] of this.lightningWeapons) {
-      const enemy = this.world.getComponent<Enemy>(lightning.ownerEntity, 'Enemy');
+      const enemy = this.world.getComponent(lightning.ownerEntity, 'Enemy');
       
       if (!enemy) {
         // Owner no longer exists, remove the lightning
@@ -251,7 +264,7 @@ export class WeaponSystem implements System {
         continue;
       }
 
-      const endpoints = this.getLightningEndpoints(lightning.ownerEntity, enemy.targetEntity);
+      const endpoints = this.getLightningEndpoints(lightning.ownerEntity, lightning.healTarget ?? enemy.targetEntity);
       if (!endpoints) {
         this.removeLightningWeapon(entityId);
         continue;
@@ -267,8 +280,12 @@ export class WeaponSystem implements System {
       lightning.rippleTime += deltaTime * LIGHTNING_IMPACT_RIPPLE_SPEED;
 
       // Damage is gameplay-critical, so keep it independent from the visual refresh path.
-      if (lightning.damageTimer >= LIGHTNING_DAMAGE_INTERVAL) {
-        this.applyLightningDamage(enemy.targetEntity, lightning.damageTimer);
+      // Heal beams are only visual; the medic behaviour does the healing
+      if (lightning.healTarget === undefined && lightning.damageTimer >= LIGHTNING_DAMAGE_INTERVAL) {
+        // Overcharged elites channel a stronger beam
+        const elite = this.world.getComponent(lightning.ownerEntity, 'Elite');
+        const damageMultiplier = (elite && getEliteValue(elite, 'lightningDamage')) || 1;
+        this.applyLightningDamage(lightning.ownerEntity, enemy.targetEntity, lightning.damageTimer, damageMultiplier);
         lightning.damageTimer = 0;
       }
 
@@ -292,7 +309,9 @@ export class WeaponSystem implements System {
         });
       });
 
-      this.updateImpactRipple(lightning, endpoints);
+      if (lightning.impactRipple) {
+        this.updateImpactRipple(lightning, lightning.impactRipple, endpoints);
+      }
     }
   }
   
@@ -349,11 +368,15 @@ export class WeaponSystem implements System {
     });
   }
 
+  private isSecondaryFiring(entity: number): boolean {
+    return this.world.getComponent(entity, 'PlayerInput')?.secondaryFire ?? false;
+  }
+
   private updateSecondaryWeapon(entity: number, position: Position, rotation: Rotation, deltaTime: number): void {
     const gameState = this.world.getGameState();
     const secondaryWeapon = gameState?.secondaryWeapon;
     if (!secondaryWeapon || !secondaryWeapon.unlocked || secondaryWeapon.type !== 'praetorianLaser') {
-      this.secondaryWasPressed = this.inputManager.isSecondaryFiring();
+      this.secondaryWasPressed = this.isSecondaryFiring(entity);
       return;
     }
 
@@ -361,7 +384,7 @@ export class WeaponSystem implements System {
       secondaryWeapon.cooldown = Math.max(0, secondaryWeapon.cooldown - deltaTime);
     }
 
-    const isPressed = this.inputManager.isSecondaryFiring();
+    const isPressed = this.isSecondaryFiring(entity);
     const canStartCharge = secondaryWeapon.charges > 0 && secondaryWeapon.cooldown <= 0;
 
     if (isPressed && !this.secondaryWasPressed && !secondaryWeapon.isCharging && canStartCharge) {
@@ -414,8 +437,8 @@ export class WeaponSystem implements System {
       speed: PRAETORIAN_LASER_SPEED,
       lifetime: PRAETORIAN_LASER_LIFETIME,
       scale: 4.5,
+      colliderShape: 'capsule',
       colliderWidth: 2.4,
-      colliderHeight: 2.4,
       colliderDepth: 42
     });
   }
@@ -528,12 +551,82 @@ export class WeaponSystem implements System {
     this.praetorianBeams = activeBeams;
   }
   
+  /**
+   * Fires one boss volley from `origin` at `target`. Shots start `muzzleDistance`
+   * out along their own direction so they clear the boss's hull and weak points.
+   */
+  public fireBossAttack(
+    ownerEntity: number,
+    origin: Position,
+    target: Position,
+    attack: BossAttack,
+    muzzleDistance: number
+  ): void {
+    const aim = new THREE.Vector3(target.x - origin.x, target.y - origin.y, target.z - origin.z);
+    if (aim.lengthSq() === 0) return;
+    aim.normalize();
+
+    // Frame around the aim direction for laying out the pattern
+    const helper = Math.abs(aim.y) < 0.99 ? new THREE.Vector3(0, 1, 0) : new THREE.Vector3(1, 0, 0);
+    const right = new THREE.Vector3().crossVectors(aim, helper).normalize();
+    const up = new THREE.Vector3().crossVectors(right, aim);
+    const maxAngle = THREE.MathUtils.degToRad(attack.angle);
+
+    const directions: THREE.Vector3[] = [];
+    for (let i = 0; i < attack.count; i++) {
+      // Angle away from the aim direction, and where around it the shot sits
+      let offAngle: number;
+      let aroundAngle: number;
+      switch (attack.pattern) {
+        case 'spread':
+          offAngle = attack.count > 1 ? (i / (attack.count - 1) - 0.5) * maxAngle : 0;
+          aroundAngle = 0;
+          break;
+        case 'ring':
+          offAngle = maxAngle;
+          aroundAngle = (i / attack.count) * Math.PI * 2;
+          break;
+        case 'barrage':
+          // Golden-angle spiral fills the cone evenly without randomness
+          offAngle = Math.sqrt((i + 0.5) / attack.count) * maxAngle;
+          aroundAngle = i * GOLDEN_ANGLE;
+          break;
+      }
+
+      directions.push(aim.clone().multiplyScalar(Math.cos(offAngle))
+        .addScaledVector(right, Math.sin(offAngle) * Math.cos(aroundAngle))
+        .addScaledVector(up, Math.sin(offAngle) * Math.sin(aroundAngle))
+        .normalize());
+    }
+
+    if (this.audioManager) {
+      this.audioManager.playSound('laser', false, 0.4);
+    }
+
+    for (const direction of directions) {
+      const spawnPos = {
+        x: origin.x + direction.x * muzzleDistance,
+        y: origin.y + direction.y * muzzleDistance,
+        z: origin.z + direction.z * muzzleDistance
+      };
+
+      createLaser(this.world, this.scene, spawnPos, direction, ownerEntity, attack.color, {
+        damage: attack.damage,
+        speed: attack.speed,
+        lifetime: BOSS_LASER_LIFETIME,
+        scale: 1.2,
+        colliderWidth: 0.6,
+        colliderHeight: 0.6
+      });
+    }
+  }
+
   private updateProjectiles(deltaTime: number): void {
     // Get all projectile entities
     const projectiles = this.world.getEntitiesWith(['Projectile', 'Position']);
     
     for (const entity of projectiles) {
-      const projectile = this.world.getComponent<{lifetime: number, timeAlive: number, ownerEntity: number, accuracyShotId?: number}>(entity, 'Projectile');
+      const projectile = this.world.getComponent(entity, 'Projectile');
       
       if (!projectile) continue;
       
@@ -551,43 +644,20 @@ export class WeaponSystem implements System {
         }
 
         // This will indirectly remove the mesh via the RenderingSystem
-        this.world.removeEntity(entity);
+        this.world.deferRemoveEntity(entity);
       }
     }
   }
 
-  private applyLightningDamage(targetEntity: number, deltaTime: number): void {
-    // Calculate damage for this tick
-    const baseDamage = LIGHTNING_BASE_DPS * deltaTime;
-    
-    // Check for shield first
-    const shield = this.world.getComponent<Shield>(targetEntity, 'Shield');
-    const health = this.world.getComponent<Health>(targetEntity, 'Health');
-    
-    if (!health) return;
-
-    if (shield && shield.current > 0) {
-      // Apply increased damage to shield
-      const shieldDamage = baseDamage * LIGHTNING_SHIELD_MULTIPLIER;
-      shield.current -= shieldDamage;
-      
-      // If shield is depleted, apply remaining damage to health
-      if (shield.current < 0) {
-        const remainingDamage = -shield.current / LIGHTNING_SHIELD_MULTIPLIER; // Convert back to base damage
-        health.current -= remainingDamage;
-        shield.current = 0;
-      }
-
-      // Update shield hit time
-      shield.lastHitTime = performance.now() / 1000;
-      shield.isRegenerating = false;
-    } else {
-      // No shield or shield depleted, damage health directly
-      health.current -= baseDamage;
-    }
-
-    // Ensure health doesn't go below 0
-    if (health.current < 0) health.current = 0;
+  // Lightning hits shields harder (SHIELD_DAMAGE_MULTIPLIERS); the damage service applies that
+  private applyLightningDamage(ownerEntity: number, targetEntity: number, deltaTime: number, damageMultiplier: number = 1): void {
+    applyDamage(this.world, {
+      target: targetEntity,
+      amount: LIGHTNING_BASE_DPS * deltaTime * damageMultiplier,
+      type: 'lightning',
+      source: 'lightning',
+      attacker: ownerEntity
+    });
   }
 
   createLightningWeapon(ownerEntity: number): boolean {
@@ -595,35 +665,73 @@ export class WeaponSystem implements System {
       return true;
     }
 
-    const enemy = this.world.getComponent<Enemy>(ownerEntity, 'Enemy');
+    const enemy = this.world.getComponent(ownerEntity, 'Enemy');
     
     if (!enemy) return false;
 
     const endpoints = this.getLightningEndpoints(ownerEntity, enemy.targetEntity);
     if (!endpoints) return false;
 
-    const currentOrigin = endpoints.origin;
-    const currentTarget = endpoints.target;
-
+    const impactRipple = this.createImpactRipple();
     const lightning: LightningWeapon = {
       strands: [],
       updateTimer: 0,
       auraTime: 0,
       damageTimer: 0,
-      origin: currentOrigin,
-      target: currentTarget,
+      origin: endpoints.origin,
+      target: endpoints.target,
       ownerEntity,
       rippleTime: 0,
-      impactRipple: this.createImpactRipple()
+      impactRipple
     };
 
     // Create multiple lightning strands
-    const numStrands = 4;
+    this.createLightningStrands(lightning, 4, this.lightningMaterials);
+
+    this.lightningWeapons.set(ownerEntity, lightning);
+    this.updateImpactRipple(lightning, impactRipple, endpoints);
+    return true;
+  }
+
+  /**
+   * Starts (or retargets) a medic's heal beam to its patient. Uses the lightning strand
+   * rendering with green materials and no damage; removed with removeLightningWeapon.
+   */
+  createHealBeam(ownerEntity: number, patientEntity: number): boolean {
+    const existing = this.lightningWeapons.get(ownerEntity);
+    if (existing) {
+      if (existing.healTarget === undefined) return false;
+      existing.healTarget = patientEntity;
+      return true;
+    }
+
+    const endpoints = this.getLightningEndpoints(ownerEntity, patientEntity);
+    if (!endpoints) return false;
+
+    const beam: LightningWeapon = {
+      strands: [],
+      updateTimer: 0,
+      auraTime: 0,
+      damageTimer: 0,
+      origin: endpoints.origin,
+      target: endpoints.target,
+      ownerEntity,
+      healTarget: patientEntity,
+      rippleTime: 0
+    };
+
+    this.createLightningStrands(beam, 2, this.healBeamMaterials);
+
+    this.lightningWeapons.set(ownerEntity, beam);
+    return true;
+  }
+
+  private createLightningStrands(lightning: LightningWeapon, numStrands: number, materials: LightningMaterials): void {
     for (let i = 0; i < numStrands; i++) {
-      const points = this.generateLightningPoints(currentOrigin, currentTarget, i / numStrands * Math.PI * 2);
+      const points = this.generateLightningPoints(lightning.origin, lightning.target, i / numStrands * Math.PI * 2);
       
       // Create aura tubes first (back to front)
-      const auras = this.lightningMaterials.auras.map((material, index) => {
+      const auras = materials.auras.map((material, index) => {
         const tubeGeometry = this.createTubeGeometry(points, 0.15 + index * 0.2);
         const mesh = new THREE.Mesh(tubeGeometry, material);
         mesh.renderOrder = 2000 + index; // Very high render order to ensure it renders after everything
@@ -634,7 +742,7 @@ export class WeaponSystem implements System {
 
       // Create jagged lightning line
       const lineGeometry = new THREE.BufferGeometry().setFromPoints(points);
-      const line = new THREE.Line(lineGeometry, this.lightningMaterials.line);
+      const line = new THREE.Line(lineGeometry, materials.line);
       line.renderOrder = 2100; // Even higher render order than the auras
       line.frustumCulled = false;
       this.scene.add(line);
@@ -645,10 +753,6 @@ export class WeaponSystem implements System {
         auras 
       });
     }
-
-    this.lightningWeapons.set(ownerEntity, lightning);
-    this.updateImpactRipple(lightning, endpoints);
-    return true;
   }
 
   removeLightningWeapon(entityId: number): void {
@@ -665,15 +769,17 @@ export class WeaponSystem implements System {
       });
     });
 
-    this.disposeImpactRipple(lightning.impactRipple);
+    if (lightning.impactRipple) {
+      this.disposeImpactRipple(lightning.impactRipple);
+    }
     this.lightningWeapons.delete(entityId);
   }
 
   private updateLightningStrands(lightning: LightningWeapon): void {
-    const enemy = this.world.getComponent<Enemy>(lightning.ownerEntity, 'Enemy');
+    const enemy = this.world.getComponent(lightning.ownerEntity, 'Enemy');
     if (!enemy) return;
 
-    const endpoints = this.getLightningEndpoints(lightning.ownerEntity, enemy.targetEntity);
+    const endpoints = this.getLightningEndpoints(lightning.ownerEntity, lightning.healTarget ?? enemy.targetEntity);
     if (!endpoints) return;
 
     const currentOrigin = endpoints.origin;
@@ -804,22 +910,22 @@ export class WeaponSystem implements System {
     this.scene.remove(impactRipple.group);
   }
 
-  private updateImpactRipple(lightning: LightningWeapon, endpoints: LightningEndpoints): void {
+  private updateImpactRipple(lightning: LightningWeapon, impactRipple: LightningImpactRipple, endpoints: LightningEndpoints): void {
     const surfaceNormal = endpoints.targetNormal.lengthSq() > 0
       ? endpoints.targetNormal
       : this.ripplePlaneNormal;
 
-    lightning.impactRipple.group.position
+    impactRipple.group.position
       .copy(endpoints.target)
       .addScaledVector(surfaceNormal, LIGHTNING_IMPACT_RIPPLE_SURFACE_OFFSET);
-    lightning.impactRipple.group.quaternion.setFromUnitVectors(this.ripplePlaneNormal, surfaceNormal);
+    impactRipple.group.quaternion.setFromUnitVectors(this.ripplePlaneNormal, surfaceNormal);
 
     const contactPulse = (Math.sin(lightning.auraTime * 4) + 1) * 0.5;
-    lightning.impactRipple.glow.scale.setScalar(1.8 + contactPulse * 1.4);
-    (lightning.impactRipple.glow.material as THREE.MeshBasicMaterial).opacity = 0.18 + contactPulse * 0.2;
+    impactRipple.glow.scale.setScalar(1.8 + contactPulse * 1.4);
+    (impactRipple.glow.material as THREE.MeshBasicMaterial).opacity = 0.18 + contactPulse * 0.2;
 
-    lightning.impactRipple.rings.forEach((ring, index) => {
-      const phase = (lightning.rippleTime + index / lightning.impactRipple.rings.length) % 1;
+    impactRipple.rings.forEach((ring, index) => {
+      const phase = (lightning.rippleTime + index / impactRipple.rings.length) % 1;
       const radius = THREE.MathUtils.lerp(
         LIGHTNING_IMPACT_RIPPLE_MIN_RADIUS,
         LIGHTNING_IMPACT_RIPPLE_MAX_RADIUS,
@@ -833,15 +939,15 @@ export class WeaponSystem implements System {
   }
 
   private getLightningEndpoints(ownerEntity: number, targetEntity: number): LightningEndpoints | null {
-    const ownerPos = this.world.getComponent<Position>(ownerEntity, 'Position');
-    const targetPos = this.world.getComponent<Position>(targetEntity, 'Position');
+    const ownerPos = this.world.getComponent(ownerEntity, 'Position');
+    const targetPos = this.world.getComponent(targetEntity, 'Position');
     if (!ownerPos || !targetPos) {
       return null;
     }
 
-    const ownerRotation = this.world.getComponent<Rotation>(ownerEntity, 'Rotation');
-    const ownerRenderable = this.world.getComponent<Renderable>(ownerEntity, 'Renderable');
-    const targetCollider = this.world.getComponent<Collider>(targetEntity, 'Collider');
+    const ownerRotation = this.world.getComponent(ownerEntity, 'Rotation');
+    const ownerRenderable = this.world.getComponent(ownerEntity, 'Renderable');
+    const targetCollider = this.world.getComponent(targetEntity, 'Collider');
 
     const origin = new THREE.Vector3(ownerPos.x, ownerPos.y, ownerPos.z);
 
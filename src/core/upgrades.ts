@@ -1,9 +1,14 @@
+import { World } from './World';
+import { GameState } from './State';
+import { RADAR_PULSE_INTERVALS } from '../constants/cloak';
+
 const BASE_UPGRADE_COSTS: Record<string, number> = {
   'ship-damage': 500,
   'ship-fire-rate': 500,
   'ship-hull': 500,
   'dyson-shield': 500,
   'dyson-regen': 500,
+  'radar-pulse': 400,
   'secondary-praetorian-laser': 500
 };
 
@@ -21,3 +26,126 @@ export function getUpgradeCost(upgradeId: string, level: number = 0): number {
 
   return baseCost * (level + 1);
 }
+
+export function getUpgradeLevel(state: GameState, upgradeId: string): number {
+  if (upgradeId === 'ship-damage') {
+    return state.shipDamageLevel;
+  }
+  if (upgradeId === 'ship-fire-rate') {
+    return state.shipFireRateLevel;
+  }
+  if (upgradeId === 'ship-hull') {
+    return state.shipHullLevel;
+  }
+  if (upgradeId === 'dyson-shield') {
+    return state.dysonShieldLevel;
+  }
+  if (upgradeId === 'dyson-regen') {
+    return state.dysonRegenLevel;
+  }
+  if (upgradeId === 'radar-pulse') {
+    return state.radarPulseLevel;
+  }
+
+  return 0;
+}
+
+// Seconds between automatic radar pulses at a Radar Pulse level (0 means no pulses)
+export function getRadarPulseInterval(level: number): number {
+  if (level <= 0) {
+    return Number.POSITIVE_INFINITY;
+  }
+
+  return RADAR_PULSE_INTERVALS[Math.min(level, RADAR_PULSE_INTERVALS.length) - 1];
+}
+
+function findPlayerEntity(world: World): number {
+  const playerEntities = world.getEntitiesWith(['InputReceiver']);
+  return playerEntities.length > 0 ? playerEntities[0] : -1;
+}
+
+function findDysonSphereEntity(world: World): number {
+  const entities = world.getEntitiesWith(['Renderable']);
+  for (const entity of entities) {
+    const renderable = world.getComponent(entity, 'Renderable');
+    if (renderable?.modelId === 'dysonSphere') {
+      return entity;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Spends upgrade credits on an upgrade and applies its effect to the world.
+ * Returns false if the player can't afford it or it doesn't apply right now.
+ */
+export function purchaseUpgrade(world: World, state: GameState, upgradeId: string): boolean {
+  const upgradeCost = getUpgradeCost(upgradeId, getUpgradeLevel(state, upgradeId));
+  if (state.upgradeCredits < upgradeCost) {
+    return false;
+  }
+
+  const playerEntity = findPlayerEntity(world);
+  const dysonEntity = findDysonSphereEntity(world);
+  let applied = false;
+
+  if (upgradeId === 'ship-damage') {
+    state.shipDamageLevel += 1;
+    applied = true;
+  } else if (upgradeId === 'ship-fire-rate' && playerEntity !== -1) {
+    const laserCooldown = world.getComponent(playerEntity, 'LaserCooldown');
+    if (laserCooldown) {
+      laserCooldown.max = Math.max(0.12, laserCooldown.max * 0.9);
+      state.shipFireRateLevel += 1;
+      applied = true;
+    }
+  } else if (upgradeId === 'ship-hull' && playerEntity !== -1) {
+    const health = world.getComponent(playerEntity, 'Health');
+    if (health) {
+      health.max += 25;
+      health.current = Math.min(health.max, health.current + 25);
+      state.shipHullLevel += 1;
+      applied = true;
+    }
+  } else if (upgradeId === 'dyson-shield' && dysonEntity !== -1) {
+    const shield = world.getComponent(dysonEntity, 'Shield');
+    if (shield) {
+      shield.max += 50;
+      shield.current = Math.min(shield.max, shield.current + 50);
+      state.dysonShieldLevel += 1;
+      applied = true;
+    }
+  } else if (upgradeId === 'dyson-regen' && dysonEntity !== -1) {
+    const shield = world.getComponent(dysonEntity, 'Shield');
+    if (shield) {
+      shield.regenRate += 5;
+      state.dysonRegenLevel += 1;
+      applied = true;
+    }
+  } else if (upgradeId === 'radar-pulse') {
+    // The first level pulses right away; later ones shorten the wait for the next pulse
+    state.radarPulseLevel += 1;
+    state.radarPulseCooldown = Math.min(state.radarPulseCooldown, getRadarPulseInterval(state.radarPulseLevel));
+    applied = true;
+  } else if (upgradeId === 'secondary-praetorian-laser') {
+    state.secondaryWeapon = {
+      ...state.secondaryWeapon,
+      type: 'praetorianLaser',
+      unlocked: true,
+      charges: state.secondaryWeapon.maxCharges,
+      isCharging: false,
+      chargeProgress: 0,
+      cooldown: 0
+    };
+    applied = true;
+  }
+
+  if (!applied) {
+    return false;
+  }
+
+  state.upgradeCredits -= upgradeCost;
+  world.emit('UpgradeApplied', { upgradeId, level: getUpgradeLevel(state, upgradeId) });
+  return true;
+}
@@ -0,0 +1,274 @@
+import {
+  WaveScript,
+  WaveDefinition,
+  ScaledValue,
+  WaveEnemyType
+} from '../types/waveScript';
+
+const ENEMY_TYPES: ReadonlySet<unknown> = new Set<WaveEnemyType>([
+  'grunt',
+  'shieldGuardian',
+  'warpRaider',
+  'bomber',
+  'carrier',
+  'phantom',
+  'medic',
+  'mineLayer',
+  'swarmDrone',
+  'asteroid',
+  'hiveMothership'
+]);
+
+const FORMATION_TYPES: ReadonlySet<unknown> = new Set(['scatter', 'cluster', 'ring']);
+const EXTRA_PLACEMENTS: ReadonlySet<unknown> = new Set(['withFirstSpawn', 'wormhole', 'deepSpace']);
+
+export function resolveScaledValue(value: ScaledValue, wave: number): number {
+  const startWave = value.startWave ?? 1;
+  let result = value.base + (value.perWave ?? 0) * Math.max(0, wave - startWave);
+  if (value.min !== undefined) result = Math.max(value.min, result);
+  if (value.max !== undefined) result = Math.min(value.max, result);
+  return result;
+}
+
+export function getWaveDefinition(script: WaveScript, wave: number): WaveDefinition {
+  for (const definition of script.waves) {
+    if (wave >= definition.fromWave && (definition.toWave === undefined || wave <= definition.toWave)) {
+      return definition;
+    }
+  }
+  // Validation guarantees full coverage; fall back to the open-ended last entry
+  return script.waves[script.waves.length - 1];
+}
+
+export function getWaveEnemyCount(script: WaveScript, wave: number): number {
+  const definition = getWaveDefinition(script, wave);
+  return Math.max(0, Math.round(resolveScaledValue(definition.stream.count, wave)));
+}
+
+export function formatWaveMessage(template: string, wave: number): string {
+  return template.replace(/\{wave\}/g, String(wave));
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function checkNumber(errors: string[], path: string, value: unknown, min: number = -Infinity): void {
+  if (!isFiniteNumber(value)) {
+    errors.push(`${path} must be a number`);
+  } else if (value < min) {
+    errors.push(`${path} must be >= ${min}`);
+  }
+}
+
+function checkScaledValue(errors: string[], path: string, value: unknown): void {
+  if (!isObject(value)) {
+    errors.push(`${path} must be an object with a numeric "base"`);
+    return;
+  }
+  checkNumber(errors, `${path}.base`, value.base);
+  for (const key of ['perWave', 'startWave', 'min', 'max']) {
+    if (value[key] !== undefined) checkNumber(errors, `${path}.${key}`, value[key]);
+  }
+  if (isFiniteNumber(value.min) && isFiniteNumber(value.max) && value.min > value.max) {
+    errors.push(`${path}.min must not exceed ${path}.max`);
+  }
+}
+
+// Returns whether the value is an object so callers can go on to check their own fields
+function checkEnemySpawn(errors: string[], path: string, value: unknown): value is Record<string, unknown> {
+  if (!isObject(value)) {
+    errors.push(`${path} must be an object`);
+    return false;
+  }
+  if (!ENEMY_TYPES.has(value.enemy)) {
+    errors.push(`${path}.enemy must be one of ${[...ENEMY_TYPES].join(', ')}`);
+  }
+  if (value.speedMultiplier !== undefined) checkScaledValue(errors, `${path}.speedMultiplier`, value.speedMultiplier);
+  if (value.cooldownMultiplier !== undefined) checkScaledValue(errors, `${path}.cooldownMultiplier`, value.cooldownMultiplier);
+  if (value.healthMultiplier !== undefined) checkScaledValue(errors, `${path}.healthMultiplier`, value.healthMultiplier);
+  if (value.swarmSize !== undefined) checkScaledValue(errors, `${path}.swarmSize`, value.swarmSize);
+  if (value.announce !== undefined) {
+    if (!isObject(value.announce) || typeof value.announce.message !== 'string') {
+      errors.push(`${path}.announce must have a string "message"`);
+    } else {
+      checkNumber(errors, `${path}.announce.duration`, value.announce.duration, 0);
+    }
+  }
+  return true;
+}
+
+function checkWaveDefinition(errors: string[], path: string, value: unknown): void {
+  if (!isObject(value)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+  checkNumber(errors, `${path}.fromWave`, value.fromWave, 1);
+  if (value.toWave !== undefined) {
+    checkNumber(errors, `${path}.toWave`, value.toWave, 1);
+    if (isFiniteNumber(value.fromWave) && isFiniteNumber(value.toWave) && value.toWave < value.fromWave) {
+      errors.push(`${path}.toWave must be >= fromWave`);
+    }
+  }
+  checkNumber(errors, `${path}.spawnRadius`, value.spawnRadius, 1);
+  if (value.countdownMessage !== undefined && typeof value.countdownMessage !== 'string') {
+    errors.push(`${path}.countdownMessage must be a string`);
+  }
+
+  const stream = value.stream;
+  if (!isObject(stream)) {
+    errors.push(`${path}.stream must be an object`);
+  } else {
+    checkScaledValue(errors, `${path}.stream.count`, stream.count);
+    checkNumber(errors, `${path}.stream.firstSpawnDelay`, stream.firstSpawnDelay, 0);
+    checkNumber(errors, `${path}.stream.interval`, stream.interval, 0.01);
+
+    if (!isObject(stream.formation) || !FORMATION_TYPES.has(stream.formation.type)) {
+      errors.push(`${path}.stream.formation.type must be one of ${[...FORMATION_TYPES].join(', ')}`);
+    } else if (stream.formation.type === 'cluster') {
+      checkNumber(errors, `${path}.stream.formation.spread`, stream.formation.spread, 0);
+    }
+
+    if (stream.scripted !== undefined) {
+      if (!Array.isArray(stream.scripted)) {
+        errors.push(`${path}.stream.scripted must be an array`);
+      } else {
+        const seenSlots = new Set<unknown>();
+        stream.scripted.forEach((slot: unknown, i: number) => {
+          const slotPath = `${path}.stream.scripted[${i}]`;
+          if (checkEnemySpawn(errors, slotPath, slot)) {
+            const slotNumber = slot.slot;
+            checkNumber(errors, `${slotPath}.slot`, slotNumber, 1);
+            if (seenSlots.has(slotNumber)) {
+              errors.push(`${slotPath}.slot ${slotNumber} is scripted more than once`);
+            }
+            seenSlots.add(slotNumber);
+          }
+        });
+      }
+    }
+
+    if (stream.rolls !== undefined) {
+      if (!Array.isArray(stream.rolls)) {
+        errors.push(`${path}.stream.rolls must be an array`);
+      } else {
+        stream.rolls.forEach((roll: unknown, i: number) => {
+          const rollPath = `${path}.stream.rolls[${i}]`;
+          if (checkEnemySpawn(errors, rollPath, roll)) {
+            checkScaledValue(errors, `${rollPath}.chance`, roll.chance);
+          }
+        });
+      }
+    }
+
+    checkEnemySpawn(errors, `${path}.stream.fallback`, stream.fallback);
+    if (stream.eliteChance !== undefined) checkScaledValue(errors, `${path}.stream.eliteChance`, stream.eliteChance);
+  }
+
+  if (value.extras !== undefined) {
+    if (!Array.isArray(value.extras)) {
+      errors.push(`${path}.extras must be an array`);
+    } else {
+      value.extras.forEach((extra: unknown, i: number) => {
+        const extraPath = `${path}.extras[${i}]`;
+        if (!checkEnemySpawn(errors, extraPath, extra)) return;
+        const spawn = extra;
+        checkNumber(errors, `${extraPath}.delay`, spawn.delay, 0);
+        if (spawn.chance !== undefined) checkNumber(errors, `${extraPath}.chance`, spawn.chance, 0);
+        if (spawn.waveInterval !== undefined) {
+          checkNumber(errors, `${extraPath}.waveInterval`, spawn.waveInterval, 1);
+          if (isFiniteNumber(spawn.waveInterval) && !Number.isInteger(spawn.waveInterval)) {
+            errors.push(`${extraPath}.waveInterval must be a whole number`);
+          }
+        }
+        if (!EXTRA_PLACEMENTS.has(spawn.placement)) {
+          errors.push(`${extraPath}.placement must be one of ${[...EXTRA_PLACEMENTS].join(', ')}`);
+        }
+        if (spawn.radiusMultiplier !== undefined) {
+          if (!isObject(spawn.radiusMultiplier)) {
+            errors.push(`${extraPath}.radiusMultiplier must be an object with "min" and "max"`);
+          } else {
+            const { min, max } = spawn.radiusMultiplier;
+            checkNumber(errors, `${extraPath}.radiusMultiplier.min`, min, 0);
+            checkNumber(errors, `${extraPath}.radiusMultiplier.max`, max, 0);
+            if (isFiniteNumber(min) && isFiniteNumber(max) && min > max) {
+              errors.push(`${extraPath}.radiusMultiplier.min must not exceed max`);
+            }
+          }
+        }
+      });
+    }
+  }
+}
+
+/**
+ * Validates an untrusted wave script (e.g. parsed JSON).
+ * Returns a list of human-readable problems; an empty list means the script is usable.
+ * Wave definitions must cover every wave from 1 upward without gaps or overlaps,
+ * with the final definition left open-ended.
+ */
+export function validateWaveScript(input: unknown): string[] {
+  const errors: string[] = [];
+  if (!isObject(input)) {
+    return ['wave script must be an object'];
+  }
+
+  if (input.version !== 1) errors.push(`unsupported wave script version: ${String(input.version)}`);
+  if (typeof input.name !== 'string') errors.push('name must be a string');
+  checkNumber(errors, 'firstWaveDelay', input.firstWaveDelay, 0);
+  checkNumber(errors, 'timeBetweenWaves', input.timeBetweenWaves, 0);
+
+  const announcements = input.announcements;
+  if (!isObject(announcements)) {
+    errors.push('announcements must be an object');
+  } else {
+    for (const key of ['firstWave', 'nextWave', 'waveComplete', 'upgradeAvailable']) {
+      if (typeof announcements[key] !== 'string') errors.push(`announcements.${key} must be a string`);
+    }
+    checkNumber(errors, 'announcements.leadTime', announcements.leadTime, 0);
+  }
+
+  const waves = input.waves;
+  if (!Array.isArray(waves) || waves.length === 0) {
+    errors.push('waves must be a non-empty array');
+    return errors;
+  }
+
+  waves.forEach((wave: unknown, i: number) => checkWaveDefinition(errors, `waves[${i}]`, wave));
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  // Coverage: definitions are listed in order and tile the wave numbers from 1 to infinity
+  let expectedFrom = 1;
+  (waves as WaveDefinition[]).forEach((wave, i) => {
+    if (wave.fromWave !== expectedFrom) {
+      errors.push(`waves[${i}].fromWave should be ${expectedFrom} to continue the campaign without gaps`);
+    }
+    const isLast = i === waves.length - 1;
+    if (wave.toWave === undefined && !isLast) {
+      errors.push(`waves[${i}] is open-ended but is not the last definition`);
+    }
+    if (wave.toWave !== undefined && isLast) {
+      errors.push(`waves[${i}] is the last definition and must omit toWave`);
+    }
+    expectedFrom = (wave.toWave ?? wave.fromWave) + 1;
+  });
+
+  return errors;
+}
+
+/**
+ * Validates and returns a wave script, throwing with every problem listed if it is invalid.
+ */
+export function loadWaveScript(input: unknown): WaveScript {
+  const errors = validateWaveScript(input);
+  if (errors.length > 0) {
+    throw new Error(`Invalid wave script:\n  ${errors.join('\n  ')}`);
+  }
+  return input as WaveScript;
+}
@@ -0,0 +1,282 @@
+import * as THREE from 'three';
+import { World } from '../core/World';
+import { Collider } from '../core/components';
+import { Entity } from '../core/entityHandle';
+import { CollisionContact, CollisionSystem } from '../core/systems/CollisionSystem';
+import { COLORS } from '../constants/colors';
+
+const LAYER_COLORS: Record<string, number> = {
+  player: COLORS.DEBUG_COLLIDER_PLAYER,
+  enemy: COLORS.DEBUG_COLLIDER_ENEMY,
+  projectile: COLORS.DEBUG_COLLIDER_PROJECTILE,
+  dysonSphere: COLORS.DEBUG_COLLIDER_DYSON_SPHERE,
+  shield: COLORS.DEBUG_COLLIDER_SHIELD,
+  powerUp: COLORS.DEBUG_COLLIDER_POWER_UP,
+  boss: COLORS.DEBUG_COLLIDER_BOSS,
+  bomb: COLORS.DEBUG_COLLIDER_BOMB,
+  mine: COLORS.DEBUG_COLLIDER_MINE
+};
+
+const CONTACT_FLASH_DURATION = 0.4; // Seconds a contact point stays lit
+const CONTACT_FLASH_RADIUS = 0.6;
+const MAX_CONTACT_FLASHES = 64; // Oldest flashes make way beyond this
+
+interface ColliderWireframe {
+  lines: THREE.LineSegments;
+  shapeKey: string; // Rebuild the geometry when the collider's shape changes
+}
+
+interface ContactFlash {
+  mesh: THREE.Mesh;
+  timeLeft: number;
+}
+
+/**
+ * Collider Debug Overlay
+ *
+ * Purpose:
+ * Shows what the collision system sees, to track down missed or unexpected hits.
+ *
+ * Responsibilities:
+ * - Draws a wireframe for every Collider (sphere, oriented box or capsule), colored by
+ *   layer; trigger colliders are dashed
+ * - Flashes the contact point of every collision CollisionSystem handles
+ * - Lists the collision matrix and how many colliders each layer has in a corner panel
+ *
+ * DevSystem owns it and refreshes it while it is switched on; it adds nothing to the
+ * scene or the page while off.
+ */
+export class ColliderDebugOverlay {
+  private group = new THREE.Group();
+  private wireframes = new Map<Entity, ColliderWireframe>();
+  private flashes: ContactFlash[] = [];
+  private flashGeometry = new THREE.SphereGeometry(CONTACT_FLASH_RADIUS, 8, 6);
+  private solidMaterials = new Map<string, THREE.LineBasicMaterial>();
+  private dashedMaterials = new Map<string, THREE.LineDashedMaterial>();
+  private panel: HTMLDivElement | null = null;
+  private panelText = '';
+  private visible = false;
+
+  constructor(
+    private world: World,
+    private scene: THREE.Scene,
+    private container: HTMLElement,
+    private collisionSystem: CollisionSystem
+  ) {
+    this.group.name = 'colliderDebugOverlay';
+  }
+
+  public isVisible(): boolean {
+    return this.visible;
+  }
+
+  public setVisible(visible: boolean): void {
+    if (visible === this.visible) return;
+    this.visible = visible;
+
+    if (visible) {
+      this.collisionSystem.setContactListener(this.addContactFlash);
+      this.scene.add(this.group);
+      this.update(0);
+    } else {
+      this.collisionSystem.setContactListener(null);
+      this.scene.remove(this.group);
+      this.clear();
+      this.panel?.remove();
+      this.panel = null;
+      this.panelText = '';
+    }
+  }
+
+  public update(deltaTime: number): void {
+    if (!this.visible) return;
+
+    // A scene reset takes the group with it
+    if (this.group.parent !== this.scene) {
+      this.scene.add(this.group);
+    }
+
+    const layerCounts = new Map<string, number>();
+    const seen = new Set<Entity>();
+    for (const [entity, position, collider] of this.world.query(['Position', 'Collider'])) {
+      if (this.world.isPendingRemoval(entity)) continue;
+      seen.add(entity);
+      layerCounts.set(collider.layer, (layerCounts.get(collider.layer) ?? 0) + 1);
+
+      const wireframe = this.getWireframe(entity, collider);
+      wireframe.lines.position.set(position.x, position.y, position.z);
+      // Spheres don't turn; boxes and capsules follow the entity's Rotation like their collision shapes
+      const rotation = collider.type !== 'sphere' ? this.world.getComponent(entity, 'Rotation') : undefined;
+      if (rotation) {
+        wireframe.lines.rotation.set(rotation.x, rotation.y, rotation.z, 'YXZ');
+      } else {
+        wireframe.lines.rotation.set(0, 0, 0);
+      }
+    }
+
+    for (const [entity, wireframe] of this.wireframes) {
+      if (!seen.has(entity)) {
+        this.group.remove(wireframe.lines);
+        wireframe.lines.geometry.dispose();
+        this.wireframes.delete(entity);
+      }
+    }
+
+    this.updateFlashes(deltaTime);
+    this.updatePanel(layerCounts);
+  }
+
+  public dispose(): void {
+    this.setVisible(false);
+    this.flashGeometry.dispose();
+    for (const material of [...this.solidMaterials.values(), ...this.dashedMaterials.values()]) {
+      material.dispose();
+    }
+    this.solidMaterials.clear();
+    this.dashedMaterials.clear();
+  }
+
+  private getWireframe(entity: Entity, collider: Collider): ColliderWireframe {
+    const shapeKey = `${collider.type}:${collider.radius}:${collider.width}:${collider.height}:${collider.depth}:${collider.length}:${collider.isTrigger}`;
+    let wireframe = this.wireframes.get(entity);
+    if (wireframe && wireframe.shapeKey === shapeKey) {
+      return wireframe;
+    }
+
+    if (wireframe) {
+      this.group.remove(wireframe.lines);
+      wireframe.lines.geometry.dispose();
+    }
+
+    const lines = new THREE.LineSegments(this.createGeometry(collider), this.getMaterial(collider));
+    if (collider.isTrigger) {
+      lines.computeLineDistances(); // Dashes are laid out along the line distances
+    }
+    this.group.add(lines);
+
+    wireframe = { lines, shapeKey };
+    this.wireframes.set(entity, wireframe);
+    return wireframe;
+  }
+
+  // Matches toCollisionShape: unknown types are a unit sphere, capsules lie along the local Z axis
+  private createGeometry(collider: Collider): THREE.BufferGeometry {
+    let solid: THREE.BufferGeometry;
+    if (collider.type === 'box') {
+      solid = new THREE.BoxGeometry(collider.width || 0, collider.height || 0, collider.depth || 0);
+    } else if (collider.type === 'capsule') {
+      const radius = collider.radius || 0;
+      solid = new THREE.CapsuleGeometry(radius, Math.max(0, (collider.length || 0) - radius * 2), 4, 12);
+      solid.rotateX(Math.PI / 2);
+    } else {
+      solid = new THREE.SphereGeometry(collider.type === 'sphere' ? collider.radius || 0 : 1.0, 12, 8);
+    }
+
+    // Boxes show just their edges; curved shapes need the full wireframe to read as round
+    const lines = collider.type === 'box' ? new THREE.EdgesGeometry(solid) : new THREE.WireframeGeometry(solid);
+    solid.dispose();
+    return lines;
+  }
+
+  private getMaterial(collider: Collider): THREE.LineBasicMaterial | THREE.LineDashedMaterial {
+    const color = LAYER_COLORS[collider.layer] ?? COLORS.DEBUG_COLLIDER_OTHER;
+    const materials = collider.isTrigger ? this.dashedMaterials : this.solidMaterials;
+    let material = materials.get(collider.layer);
+    if (!material) {
+      material = collider.isTrigger
+        ? new THREE.LineDashedMaterial({ color, dashSize: 0.5, gapSize: 0.4, depthTest: false, transparent: true })
+        : new THREE.LineBasicMaterial({ color, depthTest: false, transparent: true });
+      materials.set(collider.layer, material);
+    }
+    return material;
+  }
+
+  private addContactFlash = (contact: CollisionContact): void => {
+    if (this.flashes.length >= MAX_CONTACT_FLASHES) {
+      this.removeFlash(this.flashes.shift()!);
+    }
+
+    const material = new THREE.MeshBasicMaterial({ color: COLORS.DEBUG_CONTACT, transparent: true, depthTest: false });
+    const mesh = new THREE.Mesh(this.flashGeometry, material);
+    mesh.position.set(contact.point.x, contact.point.y, contact.point.z);
+    this.group.add(mesh);
+    this.flashes.push({ mesh, timeLeft: CONTACT_FLASH_DURATION });
+  };
+
+  private updateFlashes(deltaTime: number): void {
+    for (const flash of this.flashes) {
+      flash.timeLeft -= deltaTime;
+      const fade = Math.max(0, flash.timeLeft / CONTACT_FLASH_DURATION);
+      (flash.mesh.material as THREE.MeshBasicMaterial).opacity = fade;
+      flash.mesh.scale.setScalar(1 + (1 - fade) * 2);
+    }
+
+    const expired = this.flashes.filter(flash => flash.timeLeft <= 0);
+    if (expired.length > 0) {
+      expired.forEach(flash => this.removeFlash(flash));
+      this.flashes = this.flashes.filter(flash => flash.timeLeft > 0);
+    }
+  }
+
+  private removeFlash(flash: ContactFlash): void {
+    this.group.remove(flash.mesh);
+    (flash.mesh.material as THREE.MeshBasicMaterial).dispose();
+  }
+
+  // Matrix rows in the layer's color, with its collider count; only redrawn when it changes
+  private updatePanel(layerCounts: Map<string, number>): void {
+    if (!this.panel) {
+      this.panel = document.createElement('div');
+      Object.assign(this.panel.style, {
+        position: 'absolute',
+        top: '8px',
+        left: '8px',
+        padding: '6px 8px',
+        background: 'rgba(0, 0, 0, 0.7)',
+        border: '1px solid #00ffff',
+        font: '11px monospace',
+        lineHeight: '1.4',
+        color: '#ffffff',
+        pointerEvents: 'none',
+        zIndex: '1000',
+        whiteSpace: 'pre'
+      });
+      this.container.appendChild(this.panel);
+    }
+
+    const matrix = this.collisionSystem.getCollisionMatrix();
+    const rows: { layer: string; text: string }[] = [];
+    for (const [layer, collidingLayers] of matrix) {
+      rows.push({ layer, text: `${layer} (${layerCounts.get(layer) ?? 0}) -> ${collidingLayers.join(', ')}` });
+    }
+    // Colliders on a layer the matrix doesn't list never collide; worth seeing when hunting missed hits
+    for (const [layer, count] of layerCounts) {
+      if (!matrix.has(layer)) {
+        rows.push({ layer, text: `${layer} (${count}) -> nothing` });
+      }
+    }
+
+    const text = rows.map(row => row.text).join('\n');
+    if (text === this.panelText) return;
+    this.panelText = text;
+
+    const title = document.createElement('div');
+    title.textContent = 'COLLIDERS [O]';
+    this.panel.replaceChildren(title, ...rows.map(row => {
+      const line = document.createElement('div');
+      line.textContent = row.text;
+      line.style.color = `#${(LAYER_COLORS[row.layer] ?? COLORS.DEBUG_COLLIDER_OTHER).toString(16).padStart(6, '0')}`;
+      return line;
+    }));
+  }
+
+  private clear(): void {
+    for (const wireframe of this.wireframes.values()) {
+      this.group.remove(wireframe.lines);
+      wireframe.lines.geometry.dispose();
+    }
+    this.wireframes.clear();
+    this.flashes.forEach(flash => this.removeFlash(flash));
+    this.flashes = [];
+  }
+}
@@ -1,5 +1,6 @@
 import * as THREE from 'three';
 import { COLORS } from '../constants/colors';
+import { HIVE_MOTHERSHIP } from '../constants/bosses';
 import { Renderable } from '../core/components';
 import { World } from '../core/World';
 
@@ -40,9 +41,39 @@ export class MeshFactory {
       case 'warpRaider':
         mesh = this.createWarpRaiderMesh(renderable);
         break;
+      case 'bomber':
+        mesh = this.createBomberMesh(renderable);
+        break;
+      case 'bomberBomb':
+        mesh = this.createBomberBombMesh(renderable);
+        break;
+      case 'carrier':
+        mesh = this.createCarrierMesh(renderable);
+        break;
+      case 'phantom':
+        mesh = this.createPhantomMesh(renderable);
+        break;
+      case 'medic':
+        mesh = this.createMedicMesh(renderable);
+        break;
+      case 'mineLayer':
+        mesh = this.createMineLayerMesh(renderable);
+        break;
+      case 'spaceMine':
+        mesh = this.createSpaceMineMesh(renderable);
+        break;
+      case 'swarmDrone':
+        mesh = this.createSwarmDroneMesh(renderable);
+        break;
       case 'asteroid':
         mesh = this.createAsteroidMesh(renderable);
         break;
+      case 'hiveMothership':
+        mesh = this.createHiveMothershipMesh(renderable);
+        break;
+      case 'bossWeakPoint':
+        mesh = this.createBossWeakPointMesh(renderable);
+        break;
       case 'powerUpOrb':
         mesh = this.createPowerUpOrbMesh(renderable);
         break;
@@ -57,12 +88,40 @@ export class MeshFactory {
         mesh = new THREE.Object3D();
     }
 
+    if (renderable.aura !== undefined) {
+      this.addEliteAura(mesh, renderable.aura);
+    }
+
     // Store the mesh UUID in the renderable component
     renderable.meshId = mesh.uuid;
     
     return mesh;
   }
 
+  /**
+   * Wraps an elite's mesh in a soft glowing shell in its affix color
+   */
+  private static addEliteAura(mesh: THREE.Object3D, color: number): void {
+    const bounds = new THREE.Box3().setFromObject(mesh).getBoundingSphere(new THREE.Sphere());
+    if (bounds.isEmpty() || mesh.scale.x === 0) return;
+
+    // The aura is a child, so size it in the mesh's local (unscaled) units
+    const radius = (bounds.radius / mesh.scale.x) * 1.3;
+    const aura = new THREE.Mesh(
+      new THREE.SphereGeometry(radius, 24, 16),
+      new THREE.MeshBasicMaterial({
+        color,
+        transparent: true,
+        opacity: 0.25,
+        blending: THREE.AdditiveBlending,
+        depthWrite: false,
+        side: THREE.BackSide
+      })
+    );
+    aura.name = 'eliteAura';
+    mesh.add(aura);
+  }
+
   private static createDefaultMesh(renderable: Renderable): THREE.Object3D {
     const geometry = new THREE.BoxGeometry(1, 1, 1);
     const material = new THREE.MeshPhongMaterial({ color: renderable.color });
@@ -931,6 +990,397 @@ export class MeshFactory {
     return group;
   }
 
+  // Heavy flying wing with twin engines; the nose points along +Z like the other enemy ships
+  private static createBomberMesh(renderable: Renderable): THREE.Object3D {
+    const group = new THREE.Group();
+    
+    const hullMaterial = new THREE.MeshPhongMaterial({
+      color: renderable.color || COLORS.BOMBER_HULL,
+      shininess: 30,
+      specular: 0x333333,
+      flatShading: true
+    });
+    const wingMaterial = new THREE.MeshPhongMaterial({
+      color: COLORS.BOMBER_WING,
+      shininess: 20,
+      flatShading: true
+    });
+    const glowMaterial = new THREE.MeshBasicMaterial({ color: COLORS.BOMBER_ENGINE });
+    
+    // Blunt fuselage, tapered toward the nose
+    const fuselageGeometry = new THREE.BoxGeometry(1.2, 0.7, 2.6);
+    const fuselagePositions = fuselageGeometry.attributes.position.array;
+    for (let i = 0; i < fuselagePositions.length; i += 3) {
+      if (fuselagePositions[i + 2] > 0) {
+        fuselagePositions[i] *= 0.6;
+        fuselagePositions[i + 1] *= 0.7;
+      }
+    }
+    fuselageGeometry.computeVertexNormals();
+    group.add(new THREE.Mesh(fuselageGeometry, hullMaterial));
+    
+    // Broad swept wings
+    for (const side of [-1, 1]) {
+      const wing = new THREE.Mesh(new THREE.BoxGeometry(2.2, 0.15, 1.3), wingMaterial);
+      wing.position.set(side * 1.6, 0, -0.3);
+      wing.rotation.y = side * 0.25;
+      group.add(wing);
+      
+      // Engine nacelle under each wing with a glowing exhaust
+      const nacelle = new THREE.Mesh(new THREE.CylinderGeometry(0.25, 0.3, 1.4, 8), hullMaterial);
+      nacelle.rotation.x = Math.PI / 2;
+      nacelle.position.set(side * 1.4, -0.2, -0.5);
+      group.add(nacelle);
+      
+      const exhaust = new THREE.Mesh(new THREE.CircleGeometry(0.22, 8), glowMaterial);
+      exhaust.rotation.y = Math.PI;
+      exhaust.position.set(side * 1.4, -0.2, -1.21);
+      group.add(exhaust);
+    }
+    
+    // Glowing bomb bay on the belly
+    const bay = new THREE.Mesh(
+      new THREE.BoxGeometry(0.6, 0.05, 1.0),
+      new THREE.MeshBasicMaterial({ color: COLORS.BOMBER_BOMB_GLOW })
+    );
+    bay.position.set(0, -0.36, 0);
+    group.add(bay);
+    
+    const engineLight = new THREE.PointLight(COLORS.BOMBER_ENGINE, 0.8, 6);
+    engineLight.position.set(0, 0, -1.5);
+    group.add(engineLight);
+    
+    group.scale.set(renderable.scale, renderable.scale, renderable.scale);
+    
+    return group;
+  }
+  
+  // Finned bomb casing with an amber fuse light
+  private static createBomberBombMesh(renderable: Renderable): THREE.Object3D {
+    const group = new THREE.Group();
+    
+    const casingMaterial = new THREE.MeshPhongMaterial({
+      color: renderable.color || COLORS.BOMBER_BOMB,
+      emissive: renderable.color || COLORS.BOMBER_BOMB,
+      emissiveIntensity: 0.3,
+      shininess: 60
+    });
+    
+    const casing = new THREE.Mesh(new THREE.SphereGeometry(0.8, 12, 12), casingMaterial);
+    casing.scale.set(1, 1, 1.4);
+    group.add(casing);
+    
+    // Tail fins
+    const finMaterial = new THREE.MeshPhongMaterial({ color: COLORS.BOMBER_HULL, flatShading: true });
+    for (let i = 0; i < 4; i++) {
+      const fin = new THREE.Mesh(new THREE.BoxGeometry(0.05, 0.8, 0.6), finMaterial);
+      fin.position.z = -1.0;
+      fin.rotation.z = (i * Math.PI) / 2;
+      fin.translateY(0.4);
+      group.add(fin);
+    }
+    
+    const fuse = new THREE.Mesh(
+      new THREE.SphereGeometry(0.25, 8, 8),
+      new THREE.MeshBasicMaterial({ color: COLORS.BOMBER_BOMB_GLOW })
+    );
+    fuse.position.z = 1.1;
+    group.add(fuse);
+    
+    const light = new THREE.PointLight(COLORS.BOMBER_BOMB_GLOW, 1.0, 8);
+    group.add(light);
+    
+    group.scale.set(renderable.scale, renderable.scale, renderable.scale);
+    
+    return group;
+  }
+  
+  // Long flat-decked capital ship with a glowing launch bay in the nose
+  private static createCarrierMesh(renderable: Renderable): THREE.Object3D {
+    const group = new THREE.Group();
+    
+    const hullMaterial = new THREE.MeshPhongMaterial({
+      color: renderable.color || COLORS.CARRIER_HULL,
+      shininess: 40,
+      specular: 0x444444,
+      flatShading: true
+    });
+    const platingMaterial = new THREE.MeshPhongMaterial({
+      color: COLORS.CARRIER_PLATING,
+      shininess: 20,
+      flatShading: true
+    });
+    const bayMaterial = new THREE.MeshBasicMaterial({ color: COLORS.CARRIER_BAY });
+    
+    // Main hull, narrowing toward the stern
+    const hullGeometry = new THREE.BoxGeometry(1.6, 0.9, 4.0);
+    const hullPositions = hullGeometry.attributes.position.array;
+    for (let i = 0; i < hullPositions.length; i += 3) {
+      if (hullPositions[i + 2] < 0) {
+        hullPositions[i] *= 0.75;
+        hullPositions[i + 1] *= 0.8;
+      }
+    }
+    hullGeometry.computeVertexNormals();
+    group.add(new THREE.Mesh(hullGeometry, hullMaterial));
+    
+    // Flight deck on top, overhanging the hull
+    const deck = new THREE.Mesh(new THREE.BoxGeometry(2.0, 0.12, 3.6), platingMaterial);
+    deck.position.set(0, 0.5, 0.1);
+    group.add(deck);
+    
+    // Command tower off to one side of the deck
+    const tower = new THREE.Mesh(new THREE.BoxGeometry(0.35, 0.7, 0.8), platingMaterial);
+    tower.position.set(0.7, 0.9, -0.6);
+    group.add(tower);
+    
+    // Launch bay opening in the nose (+Z, toward the target)
+    const bay = new THREE.Mesh(new THREE.PlaneGeometry(1.0, 0.5), bayMaterial);
+    bay.position.set(0, 0, 2.01);
+    group.add(bay);
+    
+    // Engine block at the stern
+    for (const side of [-1, 1]) {
+      const engine = new THREE.Mesh(new THREE.CylinderGeometry(0.25, 0.3, 0.6, 8), hullMaterial);
+      engine.rotation.x = Math.PI / 2;
+      engine.position.set(side * 0.4, -0.1, -2.1);
+      group.add(engine);
+    }
+    
+    const bayLight = new THREE.PointLight(COLORS.CARRIER_BAY, 1.0, 10);
+    bayLight.position.set(0, 0, 2.5);
+    group.add(bayLight);
+    
+    group.scale.set(renderable.scale, renderable.scale, renderable.scale);
+    
+    return group;
+  }
+  
+  // Small insectoid drone. Swarms put dozens on screen, so it uses few meshes and no lights.
+  private static createPhantomMesh(renderable: Renderable): THREE.Object3D {
+    const group = new THREE.Group();
+    
+    // Flat manta-ray hull pointing along +Z
+    const hullShape = new THREE.Shape();
+    hullShape.moveTo(0, 1.2);
+    hullShape.quadraticCurveTo(0.5, 0.4, 1.4, -0.3);
+    hullShape.lineTo(0.4, -0.5);
+    hullShape.lineTo(0, -1.2);
+    hullShape.lineTo(-0.4, -0.5);
+    hullShape.lineTo(-1.4, -0.3);
+    hullShape.quadraticCurveTo(-0.5, 0.4, 0, 1.2);
+    const hull = new THREE.Mesh(
+      new THREE.ExtrudeGeometry(hullShape, { depth: 0.15, bevelEnabled: true, bevelThickness: 0.05, bevelSize: 0.05, bevelSegments: 1 }),
+      new THREE.MeshPhongMaterial({
+        color: renderable.color || COLORS.PHANTOM_HULL,
+        shininess: 90,
+        flatShading: true
+      })
+    );
+    hull.rotation.x = Math.PI / 2;
+    hull.position.y = 0.075;
+    group.add(hull);
+    
+    // Raised canopy ridge along the spine
+    const canopy = new THREE.Mesh(
+      new THREE.SphereGeometry(0.3, 8, 6),
+      new THREE.MeshPhongMaterial({ color: COLORS.PHANTOM_HULL, shininess: 120 })
+    );
+    canopy.scale.set(0.8, 0.5, 2);
+    canopy.position.set(0, 0.1, 0.1);
+    group.add(canopy);
+    
+    // Cloak emitters glowing along the trailing edges of the wings
+    const emitterMaterial = new THREE.MeshBasicMaterial({
+      color: COLORS.PHANTOM_GLOW,
+      transparent: true,
+      opacity: 0.8
+    });
+    for (const side of [-1, 1]) {
+      const emitter = new THREE.Mesh(new THREE.BoxGeometry(0.9, 0.05, 0.08), emitterMaterial);
+      emitter.position.set(side * 0.85, 0.1, -0.4);
+      emitter.rotation.y = side * 0.2;
+      group.add(emitter);
+    }
+    
+    group.scale.set(renderable.scale, renderable.scale, renderable.scale);
+    
+    return group;
+  }
+  
+  private static createMedicMesh(renderable: Renderable): THREE.Object3D {
+    const group = new THREE.Group();
+    
+    // Rounded white hull
+    const hull = new THREE.Mesh(
+      new THREE.SphereGeometry(0.8, 16, 12),
+      new THREE.MeshPhongMaterial({
+        color: renderable.color || COLORS.MEDIC_HULL,
+        shininess: 60
+      })
+    );
+    hull.scale.set(1, 0.7, 1.2);
+    group.add(hull);
+    
+    // Green repair cross on the back
+    const crossMaterial = new THREE.MeshBasicMaterial({ color: COLORS.MEDIC_CROSS });
+    const crossVertical = new THREE.Mesh(new THREE.BoxGeometry(0.2, 0.08, 0.8), crossMaterial);
+    const crossHorizontal = new THREE.Mesh(new THREE.BoxGeometry(0.8, 0.08, 0.2), crossMaterial);
+    crossVertical.position.y = 0.56;
+    crossHorizontal.position.y = 0.56;
+    group.add(crossVertical, crossHorizontal);
+    
+    // Glowing ring around the hull
+    const ring = new THREE.Mesh(
+      new THREE.TorusGeometry(1.1, 0.06, 8, 32),
+      new THREE.MeshBasicMaterial({
+        color: COLORS.MEDIC_CROSS,
+        transparent: true,
+        opacity: 0.7
+      })
+    );
+    ring.rotation.x = Math.PI / 2;
+    group.add(ring);
+    
+    // Beam emitter at the front, pointing along +Z
+    const emitter = new THREE.Mesh(
+      new THREE.ConeGeometry(0.25, 0.5, 12),
+      new THREE.MeshBasicMaterial({ color: COLORS.MEDIC_BEAM_AURA })
+    );
+    emitter.rotation.x = Math.PI / 2;
+    emitter.position.z = 1.0;
+    group.add(emitter);
+    
+    group.scale.set(renderable.scale, renderable.scale, renderable.scale);
+    
+    return group;
+  }
+  
+  // Squat hauler with hazard striping and an open mine chute at the stern
+  private static createMineLayerMesh(renderable: Renderable): THREE.Object3D {
+    const group = new THREE.Group();
+    
+    const hull = new THREE.Mesh(
+      new THREE.BoxGeometry(1.4, 0.6, 2.0),
+      new THREE.MeshPhongMaterial({
+        color: renderable.color || COLORS.MINE_LAYER_HULL,
+        shininess: 20,
+        flatShading: true
+      })
+    );
+    group.add(hull);
+    
+    // Angled nose pointing along +Z
+    const nose = new THREE.Mesh(
+      new THREE.ConeGeometry(0.55, 0.8, 4),
+      new THREE.MeshPhongMaterial({ color: renderable.color || COLORS.MINE_LAYER_HULL, flatShading: true })
+    );
+    nose.rotation.x = Math.PI / 2;
+    nose.rotation.y = Math.PI / 4;
+    nose.position.z = 1.4;
+    group.add(nose);
+    
+    // Hazard stripes across the deck
+    const stripeMaterial = new THREE.MeshBasicMaterial({ color: COLORS.MINE_LAYER_ACCENT });
+    for (let i = 0; i < 3; i++) {
+      const stripe = new THREE.Mesh(new THREE.BoxGeometry(1.42, 0.05, 0.18), stripeMaterial);
+      stripe.position.set(0, 0.31, -0.6 + i * 0.5);
+      stripe.rotation.y = 0.4;
+      group.add(stripe);
+    }
+    
+    // Mine chute glowing at the stern
+    const chute = new THREE.Mesh(
+      new THREE.CylinderGeometry(0.3, 0.4, 0.4, 12),
+      new THREE.MeshBasicMaterial({ color: COLORS.SPACE_MINE_LIGHT })
+    );
+    chute.rotation.x = Math.PI / 2;
+    chute.position.z = -1.1;
+    group.add(chute);
+    
+    group.scale.set(renderable.scale, renderable.scale, renderable.scale);
+    
+    return group;
+  }
+  
+  // Spiked sphere with a warning light; RenderingSystem blinks the light as the mine arms and triggers
+  private static createSpaceMineMesh(renderable: Renderable): THREE.Object3D {
+    const group = new THREE.Group();
+    
+    const bodyMaterial = new THREE.MeshPhongMaterial({
+      color: renderable.color || COLORS.SPACE_MINE,
+      shininess: 80,
+      specular: 0x666666
+    });
+    group.add(new THREE.Mesh(new THREE.SphereGeometry(0.8, 12, 12), bodyMaterial));
+    
+    // Contact spikes along the six axes
+    const spikeGeometry = new THREE.ConeGeometry(0.15, 0.6, 6);
+    const directions = [
+      new THREE.Vector3(1, 0, 0), new THREE.Vector3(-1, 0, 0),
+      new THREE.Vector3(0, 1, 0), new THREE.Vector3(0, -1, 0),
+      new THREE.Vector3(0, 0, 1), new THREE.Vector3(0, 0, -1)
+    ];
+    for (const direction of directions) {
+      const spike = new THREE.Mesh(spikeGeometry, bodyMaterial);
+      spike.quaternion.setFromUnitVectors(new THREE.Vector3(0, 1, 0), direction);
+      spike.position.copy(direction).multiplyScalar(0.95);
+      group.add(spike);
+    }
+    
+    const light = new THREE.Mesh(
+      new THREE.SphereGeometry(0.3, 8, 8),
+      new THREE.MeshBasicMaterial({ color: COLORS.SPACE_MINE_LIGHT, transparent: true, opacity: 0.3 })
+    );
+    light.name = 'mineLight';
+    group.add(light);
+    
+    group.scale.set(renderable.scale, renderable.scale, renderable.scale);
+    
+    return group;
+  }
+  
+  private static createSwarmDroneMesh(renderable: Renderable): THREE.Object3D {
+    const group = new THREE.Group();
+    
+    // Dart-shaped body pointing along +Z
+    const body = new THREE.Mesh(
+      new THREE.ConeGeometry(0.4, 1.4, 5),
+      new THREE.MeshPhongMaterial({
+        color: renderable.color || COLORS.SWARM_DRONE_BODY,
+        flatShading: true
+      })
+    );
+    body.rotation.x = Math.PI / 2;
+    group.add(body);
+    
+    // Glowing wings share one material
+    const wingMaterial = new THREE.MeshBasicMaterial({
+      color: COLORS.SWARM_DRONE_GLOW,
+      transparent: true,
+      opacity: 0.6,
+      side: THREE.DoubleSide
+    });
+    for (const side of [-1, 1]) {
+      const wing = new THREE.Mesh(new THREE.PlaneGeometry(0.9, 0.5), wingMaterial);
+      wing.rotation.x = -Math.PI / 2;
+      wing.rotation.z = side * 0.3;
+      wing.position.set(side * 0.6, 0.1, -0.1);
+      group.add(wing);
+    }
+    
+    const eye = new THREE.Mesh(
+      new THREE.SphereGeometry(0.15, 6, 6),
+      new THREE.MeshBasicMaterial({ color: COLORS.SWARM_DRONE_GLOW })
+    );
+    eye.position.z = 0.6;
+    group.add(eye);
+    
+    group.scale.set(renderable.scale, renderable.scale, renderable.scale);
+    
+    return group;
+  }
+  
   private static createAsteroidMesh(renderable: Renderable): THREE.Object3D {
     const group = new THREE.Group();
     
@@ -1005,6 +1455,146 @@ export class MeshFactory {
     return group;
   }
 
+  private static createHiveMothershipMesh(renderable: Renderable): THREE.Object3D {
+    const group = new THREE.Group();
+
+    // Flattened, elongated hull; +Z is the front, which faces the Dyson Sphere
+    const hullGeometry = new THREE.SphereGeometry(0.85, 32, 20);
+    hullGeometry.scale(1, 0.55, 1.15);
+    const hullMaterial = new THREE.MeshPhongMaterial({
+      color: renderable.color || COLORS.HIVE_MOTHERSHIP_HULL,
+      shininess: 40,
+      specular: 0x332244,
+      emissive: COLORS.HIVE_MOTHERSHIP_HULL,
+      emissiveIntensity: 0.3,
+      flatShading: true
+    });
+    group.add(new THREE.Mesh(hullGeometry, hullMaterial));
+
+    // Armor belt around the hull's equator
+    const beltGeometry = new THREE.TorusGeometry(0.88, 0.08, 6, 24);
+    beltGeometry.scale(1, 1.3, 1);
+    const plateMaterial = new THREE.MeshPhongMaterial({
+      color: COLORS.HIVE_MOTHERSHIP_PLATING,
+      shininess: 80,
+      specular: 0x666666,
+      flatShading: true
+    });
+    const belt = new THREE.Mesh(beltGeometry, plateMaterial);
+    belt.rotation.x = Math.PI / 2;
+    group.add(belt);
+
+    // Hexagonal hive cells across the dorsal and ventral surfaces
+    const cellGeometry = new THREE.CylinderGeometry(0.11, 0.11, 0.08, 6);
+    const cellMaterial = new THREE.MeshPhongMaterial({
+      color: COLORS.HIVE_MOTHERSHIP_PLATING,
+      emissive: COLORS.HIVE_MOTHERSHIP_GLOW,
+      emissiveIntensity: 0.35,
+      flatShading: true
+    });
+    for (const side of [1, -1]) {
+      for (let ring = 0; ring < 2; ring++) {
+        const cells = ring === 0 ? 6 : 10;
+        const ringRadius = ring === 0 ? 0.25 : 0.5;
+        for (let i = 0; i < cells; i++) {
+          const angle = (i / cells) * Math.PI * 2 + ring * 0.3;
+          const x = Math.cos(angle) * ringRadius;
+          const z = Math.sin(angle) * ringRadius * 1.15;
+          // Sit each cell on the ellipsoid surface
+          const surface = 1 - (x * x) / (0.85 * 0.85) - (z * z) / (0.98 * 0.98);
+          const y = side * 0.47 * Math.sqrt(Math.max(0, surface));
+          const cell = new THREE.Mesh(cellGeometry, cellMaterial);
+          cell.position.set(x, y, z);
+          cell.lookAt(x * 2, y * 2, z * 2);
+          cell.rotateX(Math.PI / 2);
+          group.add(cell);
+        }
+      }
+    }
+
+    // Glowing maw at the front
+    const mawMaterial = new THREE.MeshBasicMaterial({ color: COLORS.HIVE_MOTHERSHIP_GLOW });
+    const maw = new THREE.Mesh(new THREE.CircleGeometry(0.22, 6), mawMaterial);
+    maw.position.set(0, 0, 0.975);
+    group.add(maw);
+
+    const mawRing = new THREE.Mesh(new THREE.TorusGeometry(0.27, 0.05, 6, 6), plateMaterial);
+    mawRing.position.set(0, 0, 0.96);
+    group.add(mawRing);
+
+    const mawLight = new THREE.PointLight(COLORS.HIVE_MOTHERSHIP_GLOW, 2, 40);
+    mawLight.position.set(0, 0, 1.3);
+    group.add(mawLight);
+
+    // Engine vents at the rear
+    const ventGeometry = new THREE.CylinderGeometry(0.09, 0.13, 0.25, 8);
+    ventGeometry.rotateX(Math.PI / 2);
+    const ventGlowMaterial = new THREE.MeshBasicMaterial({ color: COLORS.HIVE_MOTHERSHIP_GLOW });
+    for (const x of [-0.35, 0, 0.35]) {
+      const vent = new THREE.Mesh(ventGeometry, plateMaterial);
+      vent.position.set(x, 0, -0.95);
+      group.add(vent);
+
+      const glow = new THREE.Mesh(new THREE.CircleGeometry(0.08, 8), ventGlowMaterial);
+      glow.position.set(x, 0, -1.08);
+      glow.rotation.y = Math.PI;
+      group.add(glow);
+    }
+
+    // Struts out to the weak point mounts (offsets are in world units, the group is scaled)
+    const scale = renderable.scale || 1;
+    const strutMaterial = new THREE.MeshPhongMaterial({ color: COLORS.HIVE_MOTHERSHIP_PLATING, flatShading: true });
+    for (const offset of HIVE_MOTHERSHIP.weakPoint.offsets) {
+      const mount = new THREE.Vector3(offset.x, offset.y, offset.z).divideScalar(scale);
+      const length = mount.length();
+      const strut = new THREE.Mesh(new THREE.CylinderGeometry(0.04, 0.07, length, 6), strutMaterial);
+      strut.position.copy(mount).multiplyScalar(0.5);
+      strut.quaternion.setFromUnitVectors(new THREE.Vector3(0, 1, 0), mount.clone().normalize());
+      group.add(strut);
+    }
+
+    group.scale.set(renderable.scale, renderable.scale, renderable.scale);
+
+    return group;
+  }
+
+  private static createBossWeakPointMesh(renderable: Renderable): THREE.Object3D {
+    const group = new THREE.Group();
+
+    // Bright core inside a translucent armored shell
+    const core = new THREE.Mesh(
+      new THREE.IcosahedronGeometry(0.6, 1),
+      new THREE.MeshBasicMaterial({ color: renderable.color || COLORS.HIVE_WEAK_POINT })
+    );
+    group.add(core);
+
+    const shell = new THREE.Mesh(
+      new THREE.IcosahedronGeometry(1, 0),
+      new THREE.MeshPhongMaterial({
+        color: COLORS.HIVE_MOTHERSHIP_PLATING,
+        emissive: renderable.color || COLORS.HIVE_WEAK_POINT,
+        emissiveIntensity: 0.4,
+        transparent: true,
+        opacity: 0.45,
+        flatShading: true
+      })
+    );
+    group.add(shell);
+
+    const ring = new THREE.Mesh(
+      new THREE.TorusGeometry(1.15, 0.08, 6, 16),
+      new THREE.MeshBasicMaterial({ color: renderable.color || COLORS.HIVE_WEAK_POINT, transparent: true, opacity: 0.8 })
+    );
+    group.add(ring);
+
+    const light = new THREE.PointLight(renderable.color || COLORS.HIVE_WEAK_POINT, 1.2, 12);
+    group.add(light);
+
+    group.scale.set(renderable.scale, renderable.scale, renderable.scale);
+
+    return group;
+  }
+
   // Create a glowing orb mesh for power-ups
   private static createPowerUpOrbMesh(renderable: Renderable): THREE.Object3D {
     const group = new THREE.Group();
@@ -1243,7 +1833,7 @@ export class MeshFactory {
       return group;
     }
     
-    const starfieldConfig = world?.getComponent<any>(entities[0], 'StarfieldBackground');
+    const starfieldConfig = world?.getComponent(entities[0], 'StarfieldBackground');
     if (!starfieldConfig) {
       console.warn('StarfieldBackground component not found on entity');
       return group;
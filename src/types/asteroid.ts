@@ -0,0 +1,13 @@
+// src/types/asteroid.ts
+// Asteroid size tiers. A destroyed asteroid splits into fragments of the next tier
+// down until the smallest tier; the tiers live in src/constants/asteroids.ts.
+
+export interface AsteroidSize {
+  name: string;
+  scale: number; // Renderable scale and collider radius
+  health: number;
+  speed: number; // Units per second
+  damage: number; // Dyson Sphere damage on impact (the largest tier ends the run instead)
+  score: number; // Base points, before the score and accuracy multipliers
+  fragments: { min: number; max: number }; // Pieces of the next tier it breaks into
+}
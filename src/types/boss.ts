@@ -0,0 +1,55 @@
+// src/types/boss.ts
+// Data format for multi-phase bosses run by BossSystem. Tuning for each boss
+// lives in src/constants/bosses.ts; WaveScripts spawn them like any other enemy.
+
+import { Position } from '../core/components';
+
+/**
+ * How a boss volley is laid out around the aim direction (see WeaponSystem.fireBossAttack).
+ * - spread: `count` shots fanned horizontally across `angle` degrees
+ * - ring: `count` shots evenly spaced on a cone `angle` degrees off the aim direction
+ * - barrage: `count` shots filling a cone of `angle` degrees
+ */
+export type BossAttackPattern = 'spread' | 'ring' | 'barrage';
+
+export interface BossAttack {
+  pattern: BossAttackPattern;
+  target: 'player' | 'dysonSphere';
+  interval: number; // Seconds between volleys
+  count: number;
+  angle: number; // Degrees
+  damage: number;
+  speed: number;
+  color: number;
+}
+
+export interface BossPhase {
+  healthThreshold: number; // Phase starts once health falls to this fraction of max (1 for the opening phase)
+  weakPoints: number; // Weak points grown when the phase starts, up to the definition's offsets
+  escorts: number; // Grunts launched from the boss when the phase starts
+  orbitSpeed: number; // Radians per second around the target
+  attacks: BossAttack[];
+  announce?: string; // HUD message when the phase starts (not shown for the opening phase)
+}
+
+export interface BossDefinition {
+  name: string; // Shown on the HUD boss bar
+  modelId: string;
+  color: number;
+  scale: number;
+  colliderRadius: number;
+  health: number; // Before the spawn's health multiplier
+  approachSpeed: number;
+  orbitRadius: number; // Distance from the target's center once in position
+  contactDamage: number; // Player damage on contact, at most once per contactCooldown
+  contactCooldown: number;
+  armor: number; // Multiplier on core damage while any weak point survives
+  weakPoint: {
+    health: number;
+    colliderRadius: number;
+    scale: number;
+    burstDamage: number; // Core damage when a weak point is destroyed (ignores armor)
+    offsets: Position[]; // Mount points in the boss's local frame (+Z faces the target)
+  };
+  phases: BossPhase[]; // Ordered by descending healthThreshold
+}
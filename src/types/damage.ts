@@ -0,0 +1,32 @@
+// src/types/damage.ts
+// Typed damage for the damage service (src/core/damage.ts). Every hit names what
+// kind of damage it deals, which decides how resistances and shields treat it;
+// shield rules and tuning live in src/constants/damage.ts.
+
+import type { Entity } from '../core/entityHandle';
+import type { DamageSource } from './events';
+
+// kinetic: explosions and shrapnel (bombs, mines, weak point bursts)
+// energy: lasers
+// lightning: grunt siege lightning
+// impact: ramming and crashing into things
+// environmental: hazards with no attacker (the Dyson Sphere's damage zones)
+export type DamageType = 'kinetic' | 'energy' | 'lightning' | 'impact' | 'environmental';
+
+export type DamageTotals = Record<DamageType, number>;
+
+export interface DamageRequest {
+  target: Entity;           // Entity with Health, or a Shield Guardian's bubble
+  amount: number;           // Before resistances
+  type: DamageType;
+  source: DamageSource;     // What caused it; reported by PlayerDamaged and DysonDamaged
+  attacker?: Entity | null; // Credited with the damage and any kill; omitted for hazards
+  shieldBypass?: number;    // 0..1 share that skips the Dyson Sphere shield
+}
+
+export interface DamageResult {
+  amount: number;           // After resistances
+  shieldDamage: number;     // Taken by a shield (bubble hits for Shield Guardians)
+  healthDamage: number;
+  killed: boolean;          // Health, or a guardian's bubble, is at or below 0 after the hit
+}
@@ -0,0 +1,27 @@
+// src/types/elite.ts
+// Elite enemy affixes. An elite carries one or two affixes (the Elite component);
+// each affix's tuning lives in src/constants/elites.ts and the systems that honour
+// it read the numbers from there.
+
+export type EliteAffixId = 'reflective' | 'regenerating' | 'splitting' | 'overcharged' | 'shielded';
+
+export interface EliteAffix {
+  name: string; // HUD tag text
+  auraColor: number; // Aura color when this is the elite's first affix
+  enemyTypes?: string[]; // Enemy types that can roll it; omitted for every elite-capable type
+
+  reflectChance?: number; // reflective: chance a player laser bounces back at the shooter
+  regenPerSecond?: number; // regenerating: fraction of max health regained per second
+  splitCount?: number; // splitting: regular copies left behind on death
+  splitHealth?: number; // splitting: the copies' health as a fraction of their normal health
+  lightningDamage?: number; // overcharged: siege lightning damage multiplier
+  shieldFraction?: number; // shielded: damage barrier in front of health, as a fraction of max health
+}
+
+export interface EliteRules {
+  enemyTypes: string[]; // Enemy types that can spawn as elites
+  secondAffixChance: number; // 0..1 chance an elite rolls a second affix
+  healthMultiplier: number;
+  scoreMultiplier: number;
+  dropChance: number; // Power-up drop chance for a killed elite
+}
@@ -0,0 +1,61 @@
+// src/types/enemyBehavior.ts
+// Enemy behaviours as small state machines. Each enemy type declares one (see
+// src/core/behaviors/enemyBehaviors.ts) and EnemySystem runs it every step.
+
+import { World } from '../core/World';
+import { Entity } from '../core/entityHandle';
+import { Enemy, EnemyBehaviorState, Position, Renderable, Rotation, Velocity } from '../core/components';
+
+type Vec3 = { x: number; y: number; z: number };
+
+// The enemy's objective (usually the Dyson Sphere) as seen from the enemy this step
+export interface BehaviorTarget {
+  entity: Entity;
+  position: Position;
+  radius: number; // Collider radius of the target
+  distanceToSurface: number;
+}
+
+// Everything a state reads or changes for one enemy during one step
+export interface BehaviorContext {
+  world: World;
+  entity: Entity;
+  enemy: Enemy;
+  position: Position;
+  velocity: Velocity;
+  rotation: Rotation;
+  renderable: Renderable;
+  memory: EnemyBehaviorState;
+  player: { entity: Entity; position: Position } | null;
+  target: BehaviorTarget | null; // null when the target has no Position or Collider
+  actions: EnemyActions;
+  deltaTime: number;
+}
+
+// Side effects that need EnemySystem's scene and weapon access
+export interface EnemyActions {
+  fireLaser(ctx: BehaviorContext, direction: Vec3): void;
+  faceTarget(ctx: BehaviorContext, target: Position): void;
+  // Turns toward the target at a limited rate; true once facing it
+  smoothFaceTarget(ctx: BehaviorContext, target: Position): boolean;
+  setSiegeEyes(ctx: BehaviorContext, active: boolean): void;
+  // Raises the grunt siege lightning; false if it couldn't be created yet
+  deployLightning(ctx: BehaviorContext): boolean;
+  removeLightning(ctx: BehaviorContext): void;
+  // Points the medic's healing beam at the patient; false if it couldn't be created yet
+  channelHealBeam(ctx: BehaviorContext, patient: Entity): boolean;
+  stopHealBeam(ctx: BehaviorContext): void;
+}
+
+export interface BehaviorState {
+  // Checked before update each step; returning another state's name switches to it first
+  next?(ctx: BehaviorContext): string | undefined;
+  enter?(ctx: BehaviorContext): void;
+  update(ctx: BehaviorContext): void;
+  exit?(ctx: BehaviorContext): void;
+}
+
+export interface EnemyBehavior {
+  initialState: string;
+  states: Record<string, BehaviorState>;
+}
@@ -0,0 +1,66 @@
+// src/types/events.ts
+// Gameplay events published on the World's event bus (see src/core/EventBus.ts).
+// Simulation systems emit these; scoring, audio, HUD messages and effects subscribe.
+
+import { Position, PowerUp } from '../core/components';
+import { DamageType } from './damage';
+
+// What caused a hit; its DamageType (src/types/damage.ts) decides how it is resisted
+export type DamageSource = 'projectile' | 'collision' | 'lightning' | 'bomb' | 'mine' | 'dysonInnerZone' | 'dysonOuterZone';
+
+export interface GameEvents {
+  // An enemy was killed; position is copied, the entity is already marked for removal
+  // asteroidSize is set for asteroids and their fragments (index into ASTEROID_SIZES)
+  // killer and damageType come from the killing blow; killer is null for hazards
+  EnemyDestroyed: {
+    entity: number;
+    enemyType: string;
+    position: Position;
+    asteroidSize?: number;
+    elite?: boolean;
+    killer?: number | null;
+    damageType?: DamageType;
+  };
+  // An enemy fired a laser; firing briefly drops a cloaking enemy's cloak
+  EnemyFired: { entity: number };
+  // A reflective elite bounced a player laser back; the projectile now belongs to the elite
+  ProjectileReflected: { projectile: number; reflector: number };
+  // A projectile damaged something with Health, including the Dyson Sphere (bubble hits excluded)
+  ProjectileHit: { projectile: number; target: number; damage: number; byPlayer: boolean };
+  // Any damage resolved by the damage service (src/core/damage.ts), after resistances
+  Damaged: {
+    target: number;
+    attacker: number | null;
+    type: DamageType;
+    source: DamageSource;
+    amount: number;
+    shieldDamage: number;
+    healthDamage: number;
+    killed: boolean;
+  };
+  // Shield and hull damage dealt to the Dyson Sphere
+  DysonDamaged: { entity: number; shieldDamage: number; healthDamage: number; source: DamageSource };
+  PlayerDamaged: { entity: number; amount: number; healthRemaining: number; source: DamageSource };
+  // A boss crossed a health threshold; phase is the index into its definition's phases
+  BossPhaseChanged: { boss: number; bossId: string; phase: number };
+  // A boss weak point was shot off; position is copied, the entity is already marked for removal
+  BossWeakPointDestroyed: { boss: number; weakPoint: number; position: Position };
+  // A Bomber's bomb hit the Dyson Sphere; damage is resolved, the bomb is already marked for removal
+  BombDetonated: { bomb: number; position: Position; blastRadius: number };
+  // The player shot a bomb down before it landed
+  BombIntercepted: { bomb: number; position: Position };
+  // A space mine went off (proximity fuse, player contact or shot down); the mine is
+  // already marked for removal and CollisionSystem resolves the blast. attacker is credited
+  // with the blast: the player if they shot the mine, otherwise its Mine Layer
+  MineDetonated: { mine: number; position: Position; damage: number; blastRadius: number; attacker: number };
+  PowerUpCollected: { player: number; powerUpEntity: number; powerUpType: PowerUp['type'] };
+  WaveStarted: { wave: number; enemyCount: number };
+  WaveCompleted: { wave: number };
+  UpgradeApplied: { upgradeId: string; level: number };
+  // Message for the HUD (wave countdowns, first appearance of a new threat)
+  Announcement: { message: string; duration: number };
+  GameOver: { reason: string };
+}
+
+export type GameEventName = keyof GameEvents;
+export type GameEventHandler<K extends GameEventName> = (event: GameEvents[K]) => void;
@@ -0,0 +1,31 @@
+// src/types/replay.ts
+// Serialized replay of a single run: the seed plus every simulation step's input.
+// Replays are plain JSON so they can be attached to bug reports.
+
+export type ReplayEvent =
+  | { tick: number; type: 'upgrade'; upgradeId: string }
+  | { tick: number; type: 'skipUpgrade' };
+
+export interface ReplaySummary {
+  score: number;
+  wavesCompleted: number;
+  enemiesDefeated: number;
+}
+
+export interface ReplayFile {
+  version: 1;
+  seed: number;
+  tickRate: number; // Simulation steps per second the replay was recorded at
+  startWave: number; // 1 for a normal run, higher when started via restartAtWave
+  createdAt: string; // ISO timestamp
+  ticks: number; // Number of recorded simulation steps
+  /**
+   * Run-length encoded input, one entry per run of identical steps:
+   * [repeatCount, buttons, mouseX, mouseY, moveX, moveY, moveMagnitude, aimX, aimY, aimMagnitude]
+   * Trailing zeros are omitted. See src/core/replay.ts for the button bit layout.
+   */
+  input: number[][];
+  // UI actions that change the simulation, applied before the step with the same tick
+  events: ReplayEvent[];
+  summary?: ReplaySummary;
+}
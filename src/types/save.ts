@@ -0,0 +1,47 @@
+// src/types/save.ts
+// Saved run: a snapshot of every entity plus the state that lives outside components
+// (global GameState, wave progress). Saves are plain JSON kept in localStorage.
+
+import { ComponentTypes, Position } from '../core/components';
+import { GameState } from '../core/State';
+import { Entity } from '../core/entityHandle';
+
+export interface EntitySnapshot {
+  entity: Entity;
+  components: { [K in keyof ComponentTypes]?: ComponentTypes[K] };
+}
+
+export interface WorldSnapshot {
+  seed: number;
+  elapsedTime: number;
+  // Generator positions of the root random and every named stream
+  random: { state: number; streams: Record<string, number> };
+  // Entity allocator, so restored handles keep their generations and stale ones stay stale
+  nextEntityIndex: number;
+  generations: number[];
+  freeIndices: number[];
+  entities: EntitySnapshot[];
+}
+
+export interface WaveProgressSnapshot {
+  timeSinceLastSpawn: number;
+  hasAnnouncedWave: boolean;
+  hasAnnouncedCompletion: boolean;
+  announcedThisWave: string[];
+  // Extra spawns still waiting on their delay, by index into the wave definition's extras
+  delayedSpawns: { timeRemaining: number; wave: number; extraIndex: number }[];
+  streamSize: number;
+  streamSpawned: number;
+  firstSpawnPosition: Position | null;
+  formation: { axis: Position; tangent: Position; bitangent: Position; phase: number } | null;
+}
+
+export interface SaveFile {
+  version: 1;
+  savedAt: string; // ISO timestamp
+  world: WorldSnapshot;
+  gameState: GameState;
+  waves: WaveProgressSnapshot;
+  // Enemies counting down to their first shot after emerging from a wormhole
+  shootingTimers: [Entity, number][];
+}
@@ -0,0 +1,53 @@
+// src/types/simulation.ts
+// Options and results for headless simulation runs (balance testing without
+// Three.js rendering, audio or the DOM).
+
+import { WaveScript } from './waveScript';
+import { DamageTotals } from './damage';
+
+export interface BotOptions {
+  maxTurnRate: number;      // Radians per second the bot may rotate, keeps its aim human-like
+  fireCone: number;         // Radians of aim error within which the bot fires
+  preferredRange: { min: number; max: number }; // Distance band the bot tries to hold from its target
+  upgradePriority: string[]; // Upgrade ids bought in this order whenever a draft is offered
+}
+
+export interface SimulationOptions {
+  seed?: number;            // Omit for a fresh seed per run
+  maxWaves?: number;        // Stop once this many waves have been completed
+  maxSeconds?: number;      // Stop after this much simulated time
+  waveScript?: WaveScript;  // Defaults to the built-in campaign
+  bot?: Partial<BotOptions>;
+}
+
+export type SimulationEndReason =
+  | 'playerDestroyed'
+  | 'dysonDestroyed'
+  | 'asteroidImpact'
+  | 'waveLimit'
+  | 'timeLimit';
+
+export interface SimulationSummary {
+  seed: number;
+  endReason: SimulationEndReason;
+  wavesCompleted: number;
+  waveReached: number;
+  score: number;
+  enemiesDefeated: number;
+  dysonDamageTaken: number;   // Shield and hull damage absorbed by the Dyson Sphere
+  dysonHealthRemaining: number;
+  damageDealt: DamageTotals;  // By the player, by damage type
+  damageTaken: DamageTotals;  // By the player's ship, by damage type
+  simulatedSeconds: number;
+  upgradesPurchased: string[];
+}
+
+export interface SimulationBatchSummary {
+  runs: number;
+  averageWavesCompleted: number;
+  minWavesCompleted: number;
+  maxWavesCompleted: number;
+  averageScore: number;
+  averageDysonDamageTaken: number;
+  endReasons: Partial<Record<SimulationEndReason, number>>;
+}
@@ -0,0 +1,111 @@
+// src/types/waveScript.ts
+// Data format for scripted wave campaigns consumed by WaveSystem.
+// Scripts are plain JSON-compatible objects so designers can author them
+// as .json files or TS constants (see src/constants/waves.ts).
+
+export type WaveEnemyType = 'grunt' | 'shieldGuardian' | 'warpRaider' | 'bomber' | 'carrier' | 'phantom' | 'medic' | 'mineLayer' | 'swarmDrone' | 'asteroid' | 'hiveMothership';
+
+/**
+ * A number that scales with the wave number:
+ * value = base + perWave * max(0, wave - startWave), clamped to [min, max].
+ * startWave defaults to 1.
+ */
+export interface ScaledValue {
+  base: number;
+  perWave?: number;
+  startWave?: number;
+  min?: number;
+  max?: number;
+}
+
+export interface WaveAnnouncement {
+  message: string;
+  duration: number; // Seconds the message stays on screen
+}
+
+export interface EnemySpawn {
+  enemy: WaveEnemyType;
+  // Grunt tuning multipliers (ignored by other enemy types)
+  speedMultiplier?: ScaledValue;
+  cooldownMultiplier?: ScaledValue;
+  // Boss health multiplier (ignored by non-boss enemy types)
+  healthMultiplier?: ScaledValue;
+  // Drones per swarm, all through one wormhole (swarmDrone only; defaults to 10)
+  swarmSize?: ScaledValue;
+  // Shown the first time this spawn fires during a wave
+  announce?: WaveAnnouncement;
+}
+
+// Weighted roll for a non-scripted stream slot; rolls are tried in order and the first hit wins
+export interface EnemyRoll extends EnemySpawn {
+  chance: ScaledValue;
+}
+
+// Forces a specific enemy into a 1-based stream slot (slot 1 is the opening spawn)
+export interface ScriptedSlot extends EnemySpawn {
+  slot: number;
+}
+
+/**
+ * How stream spawn points are laid out on the spawn sphere.
+ * - scatter: independent random point per spawn
+ * - cluster: random anchor per wave, spawns within `spread` degrees of it
+ * - ring: spawns evenly spaced around a randomly oriented great circle
+ */
+export type WaveFormation =
+  | { type: 'scatter' }
+  | { type: 'cluster'; spread: number }
+  | { type: 'ring' };
+
+/**
+ * Where an extra (non-stream) spawn appears.
+ * - withFirstSpawn: same point as the wave's opening stream enemy, no new wormhole
+ * - wormhole: new wormhole on the spawn sphere
+ * - deepSpace: random point at spawnRadius * [min, max] multiplier, no wormhole
+ */
+export type ExtraSpawnPlacement = 'withFirstSpawn' | 'wormhole' | 'deepSpace';
+
+// Spawns outside the regular stream; these do not count toward the wave's enemy total
+export interface ExtraSpawn extends EnemySpawn {
+  delay: number; // Seconds after the wave starts
+  chance?: number; // 0..1, defaults to a guaranteed spawn
+  waveInterval?: number; // Only spawns on waves divisible by this (e.g. 5 for every fifth wave)
+  placement: ExtraSpawnPlacement;
+  radiusMultiplier?: { min: number; max: number };
+}
+
+export interface WaveStream {
+  count: ScaledValue; // Total enemies spawned through wormholes this wave
+  firstSpawnDelay: number; // 0 spawns the opening enemy as soon as the wave starts
+  interval: number; // Seconds between subsequent spawns
+  formation: WaveFormation;
+  scripted?: ScriptedSlot[];
+  rolls?: EnemyRoll[];
+  fallback: EnemySpawn;
+  // Chance (0..1) each stream enemy spawns as an elite, if its type can be one
+  eliteChance?: ScaledValue;
+}
+
+export interface WaveDefinition {
+  fromWave: number; // Inclusive
+  toWave?: number; // Inclusive; omit on the last definition to repeat it forever
+  spawnRadius: number;
+  stream: WaveStream;
+  extras?: ExtraSpawn[];
+  countdownMessage?: string; // Replaces the default "PREPARE FOR WAVE" text for this wave
+}
+
+export interface WaveScript {
+  version: 1;
+  name: string;
+  firstWaveDelay: number;
+  timeBetweenWaves: number;
+  announcements: {
+    firstWave: string;
+    nextWave: string; // "{wave}" is replaced with the upcoming wave number
+    waveComplete: string; // "{wave}" is replaced with the completed wave number
+    upgradeAvailable: string;
+    leadTime: number; // Seconds before a wave starts that the countdown message is shown
+  };
+  waves: WaveDefinition[];
+}
@@ -1,5 +1,7 @@
 import React, { useEffect, useRef } from 'react';
 import { COLORS } from '../constants/colors';
+import { DAMAGE_TYPES } from '../constants/damage';
+import { DamageTotals } from '../types/damage';
 import './styles/retro.css';
 
 interface GameOverScreenProps {
@@ -9,6 +11,8 @@ interface GameOverScreenProps {
     enemiesDefeated: number;
     wavesCompleted: number;
     level?: number; // Optional level property
+    damageDealt?: DamageTotals;
+    damageTaken?: DamageTotals;
   };
   onRestart: () => void;
   onExit: () => void; // Add an exit callback
@@ -31,6 +35,15 @@ const styles = {
   },
 };
 
+// "1240 (energy 1100, kinetic 140)": the total, then each damage type that played a part
+function formatDamage(totals: DamageTotals): string {
+  const parts = DAMAGE_TYPES
+    .filter(type => Math.round(totals[type]) > 0)
+    .map(type => `${type} ${Math.round(totals[type])}`);
+  const total = Math.round(DAMAGE_TYPES.reduce((sum, type) => sum + totals[type], 0));
+  return parts.length > 0 ? `${total} (${parts.join(', ')})` : `${total}`;
+}
+
 const GameOverScreen: React.FC<GameOverScreenProps> = ({ stats, onRestart, onExit }) => {
   // Create a ref for the restart button
   const restartButtonRef = useRef<HTMLButtonElement>(null);
@@ -108,6 +121,16 @@ const GameOverScreen: React.FC<GameOverScreenProps> = ({ stats, onRestart, onExi
           marginBottom: window.innerWidth < 768 ? '0.6rem' : '1rem',
           fontSize: window.innerWidth < 768 ? '1rem' : '1.25rem'
         }}>Enemies Defeated: {stats.enemiesDefeated}</p>
+        {stats.damageDealt && <p className="text-xl" style={{ 
+          color: '#ff00ff', 
+          marginBottom: window.innerWidth < 768 ? '0.6rem' : '1rem',
+          fontSize: window.innerWidth < 768 ? '1rem' : '1.25rem'
+        }}>Damage Dealt: {formatDamage(stats.damageDealt)}</p>}
+        {stats.damageTaken && <p className="text-xl" style={{ 
+          color: '#ff00ff', 
+          marginBottom: window.innerWidth < 768 ? '0.6rem' : '1rem',
+          fontSize: window.innerWidth < 768 ? '1rem' : '1.25rem'
+        }}>Damage Taken: {formatDamage(stats.damageTaken)}</p>}
         {stats.level && <p className="text-xl" style={{ 
           color: '#ff00ff',
           fontSize: window.innerWidth < 768 ? '1rem' : '1.25rem'
@@ -1,6 +1,6 @@
 import React, { useEffect, useState, CSSProperties, useRef } from 'react';
 import { World } from '../core/World';
-import { Health, UIDisplay, HealthDisplay, MessageDisplay, DysonSphereStatus, DamageEffect, GameStateDisplay, GameOverStats, Reticle, FloatingScore, Position, WaveInfo, Radar, ShieldBarComponent, ShieldComponent, HealthBarComponent, ScreenPosition, Enemy } from '../core/components';
+import { Health, UIDisplay, GameOverStats, Reticle } from '../core/components';
 import { COLORS } from '../constants/colors';
 import StartScreen from './StartScreen';
 import GameOverScreen from './GameOverScreen';
@@ -10,10 +10,17 @@ import { Vector3, Camera, WebGLRenderer, Scene, PerspectiveCamera, MeshBasicMate
 import RadarDisplay from './hud/RadarDisplay';
 import CommsDisplay from './hud/CommsDisplay'; // ADDED IMPORT
 import AlertsDisplay from './hud/AlertsDisplay'; // Add import for new AlertsDisplay
+import BossHealthBar, { BossBarData } from './hud/BossHealthBar';
+import EliteTags, { EliteTagData } from './hud/EliteTags';
+import TargetBrackets, { TargetBracketData } from './hud/TargetBrackets';
 import { GameStateManager } from '../core/State'; // Added import
 import { AudioManager } from '../core/AudioManager'; // Import AudioManager type
 import Game from '../core/Game'; // Import the Game class
-import { getUpgradeCost } from '../core/upgrades';
+import { getUpgradeCost, getRadarPulseInterval } from '../core/upgrades';
+import { RADAR_PULSE_REVEAL_TIME } from '../constants/cloak';
+import { BOSSES } from '../constants/bosses';
+import { ELITE_AFFIXES } from '../constants/elites';
+import { getEliteTag } from '../core/elites';
 
 type AsteroidIndicator = {
   id: number;
@@ -569,6 +576,8 @@ interface HUDProps {
   onRestartGame: () => void;
   onChooseStage?: (stage: number) => void;
   onExitGame: () => void;
+  onSaveAndExitGame?: () => void; // Exit from the pause screen, saving the run first
+  onContinueGame?: () => void; // Resume the saved run from the start screen
   game: Game;
   camera?: Camera;
   containerRef: React.RefObject<HTMLDivElement>; // Add containerRef prop
@@ -585,6 +594,8 @@ const HUD: React.FC<HUDProps> = ({
   onRestartGame,
   onChooseStage,
   onExitGame,
+  onSaveAndExitGame,
+  onContinueGame,
   game, // Destructure game prop
   camera, // Re-add camera to destructuring
   containerRef, // Destructure containerRef
@@ -606,6 +617,7 @@ const HUD: React.FC<HUDProps> = ({
     shieldPercentage: 100, 
     healthPercentage: 100 
   });
+  const [bossBar, setBossBar] = useState<BossBarData | null>(null);
   const [enemiesRemaining, setEnemiesRemaining] = useState({ current: 0, total: 0 });
   const [currentWave, setCurrentWave] = useState(0); // Start at 0, update from WaveInfo
   const [boostData, setBoostData] = useState({
@@ -616,7 +628,7 @@ const HUD: React.FC<HUDProps> = ({
   });
   const [damageEffect, setDamageEffect] = useState({ active: false, intensity: 0 });
   const [gameState, setGameState] = useState<'not_started' | 'playing' | 'paused' | 'game_over'>('not_started');
-  const [gameOverStats, setGameOverStats] = useState({ finalScore: 0, survivalTime: 0, enemiesDefeated: 0, wavesCompleted: 0 });
+  const [gameOverStats, setGameOverStats] = useState<React.ComponentProps<typeof GameOverScreen>['stats']>({ finalScore: 0, survivalTime: 0, enemiesDefeated: 0, wavesCompleted: 0 });
   const [waveCountdown, setWaveCountdown] = useState<number | null>(null);
   const [waveComplete, setWaveComplete] = useState(false);
   const [alertMessages, setAlertMessages] = useState<string[]>([]); // Log for CommsDisplay
@@ -636,9 +648,11 @@ const HUD: React.FC<HUDProps> = ({
   }>>([]);
   const [radarData, setRadarData] = useState<{
     active: boolean;
+    pulseActive?: boolean;
     trackedEntities: Array<{
       entityId: number;
       entityType: string;
+      ghost?: boolean;
       horizontalDistance: number;
       direction: {
         x: number;
@@ -669,6 +683,8 @@ const HUD: React.FC<HUDProps> = ({
     height: number;
     percent: number;
   }>>([]);
+  const [eliteTags, setEliteTags] = useState<EliteTagData[]>([]);
+  const [targetBrackets, setTargetBrackets] = useState<TargetBracketData[]>([]);
   const [asteroidIndicators, setAsteroidIndicators] = useState<AsteroidIndicator[]>([]);
   
   // State for tracking brackets position with lag effect
@@ -705,6 +721,7 @@ const HUD: React.FC<HUDProps> = ({
     shipHullLevel: 0,
     dysonShieldLevel: 0,
     dysonRegenLevel: 0,
+    radarPulseLevel: 0,
     secondaryWeapon: {
       type: 'none' as 'none' | 'praetorianLaser',
       unlocked: false,
@@ -738,16 +755,16 @@ const HUD: React.FC<HUDProps> = ({
       const hudEntity = hudEntities[0];
       
       // Update health
-      const healthDisplay = world.getComponent<HealthDisplay>(hudEntity, 'HealthDisplay');
+      const healthDisplay = world.getComponent(hudEntity, 'HealthDisplay');
       if (healthDisplay) {
-        const targetHealth = world.getComponent<Health>(healthDisplay.entity, 'Health');
+        const targetHealth = world.getComponent(healthDisplay.entity, 'Health');
         if (targetHealth) {
           setPlayerHealth(targetHealth);
         }
       }
       
       // --- Handle Messages ---
-      const messageDisplay = world.getComponent<MessageDisplay>(hudEntity, 'MessageDisplay');
+      const messageDisplay = world.getComponent(hudEntity, 'MessageDisplay');
       const newMessage = messageDisplay?.message;
       const messageIsActive = messageDisplay && messageDisplay.timeRemaining > 0;
       
@@ -779,7 +796,7 @@ const HUD: React.FC<HUDProps> = ({
             if (alertTimeoutRef.current) {
                 clearTimeout(alertTimeoutRef.current);
             }
-            alertTimeoutRef.current = setTimeout(() => {
+            alertTimeoutRef.current = window.setTimeout(() => {
               setCurrentTempAlert(null);
               alertTimeoutRef.current = null;
             }, 3000); // Show for 3 seconds
@@ -790,7 +807,7 @@ const HUD: React.FC<HUDProps> = ({
       // Temp alerts clear themselves via timeout.
       
       // Update Dyson Sphere status
-      const dysonStatus = world.getComponent<DysonSphereStatus>(hudEntity, 'DysonSphereStatus');
+      const dysonStatus = world.getComponent(hudEntity, 'DysonSphereStatus');
       if (dysonStatus) {
         setDysonHealth({
           shieldPercentage: dysonStatus.shieldPercentage,
@@ -798,8 +815,31 @@ const HUD: React.FC<HUDProps> = ({
         });
       }
       
+      // Update boss bar from the first live boss
+      const [bossEntity, bossComp, bossHealth] = world.query(['Boss', 'Health'])[0] ?? [];
+      const bossDefinition = bossComp ? BOSSES[bossComp.bossId] : undefined;
+      if (bossEntity !== undefined && bossComp && bossHealth && bossDefinition) {
+        const nextBossBar: BossBarData = {
+          name: bossDefinition.name,
+          healthPercentage: Math.max(0, Math.round((bossHealth.current / bossHealth.max) * 1000) / 10),
+          phase: bossComp.phase + 1,
+          phaseCount: bossDefinition.phases.length,
+          phaseThresholds: bossDefinition.phases.slice(1).map(phase => phase.healthThreshold * 100),
+          weakPoints: bossComp.weakPoints.length
+        };
+        setBossBar(prev => prev &&
+          prev.name === nextBossBar.name &&
+          prev.healthPercentage === nextBossBar.healthPercentage &&
+          prev.phase === nextBossBar.phase &&
+          prev.weakPoints === nextBossBar.weakPoints
+          ? prev
+          : nextBossBar);
+      } else {
+        setBossBar(prev => prev ? null : prev);
+      }
+      
       // Update damage effect
-      const damageEffectComp = world.getComponent<DamageEffect>(hudEntity, 'DamageEffect');
+      const damageEffectComp = world.getComponent(hudEntity, 'DamageEffect');
       if (damageEffectComp) {
         setDamageEffect({
           active: damageEffectComp.active,
@@ -808,7 +848,7 @@ const HUD: React.FC<HUDProps> = ({
       }
       
       // Update game state
-      const gameStateDisplay = world.getComponent<GameStateDisplay>(hudEntity, 'GameStateDisplay');
+      const gameStateDisplay = world.getComponent(hudEntity, 'GameStateDisplay');
       if (gameStateDisplay) {
         const newGameState = gameStateDisplay.currentState;
         // Update local state only if it differs to avoid unnecessary re-renders
@@ -822,6 +862,8 @@ const HUD: React.FC<HUDProps> = ({
               finalScore: finalState.score,
               enemiesDefeated: finalState.enemiesDefeated,
               wavesCompleted: finalState.wavesCompleted,
+              damageDealt: { ...finalState.damageDealt },
+              damageTaken: { ...finalState.damageTaken },
               survivalTime: 0 // Calculate this? Or get from state if needed.
               // Note: Survival time was previously calculated in HUDSystem.
               // If needed, it should be added to GameState and calculated/updated
@@ -836,7 +878,7 @@ const HUD: React.FC<HUDProps> = ({
       }
       
       // Update reticle
-      const reticleComponent = world.getComponent<Reticle>(hudEntity, 'Reticle');
+      const reticleComponent = world.getComponent(hudEntity, 'Reticle');
       if (reticleComponent) {
         // Simple comparison check to avoid object state update if unchanged
         if (JSON.stringify(reticleComponent) !== JSON.stringify(reticle)) {
@@ -853,6 +895,8 @@ const HUD: React.FC<HUDProps> = ({
             finalScore: worldGameState.score,
             enemiesDefeated: worldGameState.enemiesDefeated,
             wavesCompleted: worldGameState.wavesCompleted,
+            damageDealt: { ...worldGameState.damageDealt },
+            damageTaken: { ...worldGameState.damageTaken },
             survivalTime: 0
           });
         }
@@ -892,6 +936,7 @@ const HUD: React.FC<HUDProps> = ({
           shipHullLevel: worldGameState.shipHullLevel,
           dysonShieldLevel: worldGameState.dysonShieldLevel,
           dysonRegenLevel: worldGameState.dysonRegenLevel,
+          radarPulseLevel: worldGameState.radarPulseLevel,
           secondaryWeapon: { ...worldGameState.secondaryWeapon }
         };
 
@@ -962,7 +1007,7 @@ const HUD: React.FC<HUDProps> = ({
       // Update wave information
       const waveEntities = world.getEntitiesWith(['WaveInfo']);
       if (waveEntities.length > 0) {
-        const waveInfo = world.getComponent<WaveInfo>(waveEntities[0], 'WaveInfo');
+        const waveInfo = world.getComponent(waveEntities[0], 'WaveInfo');
         if (waveInfo) {
           // Update states only if they change
           if (waveInfo.currentWave !== currentWave) setCurrentWave(waveInfo.currentWave);
@@ -1019,8 +1064,8 @@ const HUD: React.FC<HUDProps> = ({
         const edgeMargin = screenWidth < 768 ? 42 : 64;
 
         const newAsteroidIndicators = asteroidEntities.map(entity => {
-          const enemy = world.getComponent<Enemy>(entity, 'Enemy');
-          const position = world.getComponent<Position>(entity, 'Position');
+          const enemy = world.getComponent(entity, 'Enemy');
+          const position = world.getComponent(entity, 'Position');
           if (!enemy || enemy.type !== 'asteroid' || !position) return null;
 
           const projected = asteroidProjectionRef.current;
@@ -1101,8 +1146,8 @@ const HUD: React.FC<HUDProps> = ({
         const scoreEntities = world.getEntitiesWith(['FloatingScore', 'Position', 'ScreenPosition']);
         
         const newFloatingScores = scoreEntities.map(entity => {
-          const scoreComp = world.getComponent<FloatingScore>(entity, 'FloatingScore');
-          const screenPosComp = world.getComponent<ScreenPosition>(entity, 'ScreenPosition'); // Get screen position
+          const scoreComp = world.getComponent(entity, 'FloatingScore');
+          const screenPosComp = world.getComponent(entity, 'ScreenPosition'); // Get screen position
           
           // Ensure components exist and the position is valid (isOnScreen)
           if (!scoreComp || !screenPosComp || !screenPosComp.isOnScreen) return null;
@@ -1132,12 +1177,13 @@ const HUD: React.FC<HUDProps> = ({
       }
       
       // Update radar data
-      const radarComponent = world.getComponent<Radar>(hudEntity, 'Radar');
+      const radarComponent = world.getComponent(hudEntity, 'Radar');
       if (radarComponent) {
          // Check before setting state
          if (JSON.stringify(radarComponent) !== JSON.stringify(radarData)) {
              setRadarData({ // Assuming Radar component structure matches state
                active: radarComponent.active,
+               pulseActive: radarComponent.pulseActive,
                trackedEntities: radarComponent.trackedEntities
              });
          }
@@ -1148,14 +1194,14 @@ const HUD: React.FC<HUDProps> = ({
         const shieldBarEntities = world.getEntitiesWith(['ShieldBarComponent', 'Position', 'ScreenPosition']);
         
         const newShieldBars = shieldBarEntities.map(entity => {
-          const shieldBarComp = world.getComponent<ShieldBarComponent>(entity, 'ShieldBarComponent');
-          const screenPosComp = world.getComponent<ScreenPosition>(entity, 'ScreenPosition'); // Get screen position
+          const shieldBarComp = world.getComponent(entity, 'ShieldBarComponent');
+          const screenPosComp = world.getComponent(entity, 'ScreenPosition'); // Get screen position
           
           // Don't need Position directly anymore, but check ShieldBarComponent exists and is visible
           if (!shieldBarComp || !shieldBarComp.visible || !screenPosComp || !screenPosComp.isOnScreen) return null;
           
           // Get the shield component to determine fill percentage
-          const shieldComp = world.getComponent<ShieldComponent>(shieldBarComp.entity, 'ShieldComponent');
+          const shieldComp = world.getComponent(shieldBarComp.entity, 'ShieldComponent');
           if (!shieldComp) return null;
           
           // Position comes from ScreenPosition component
@@ -1202,14 +1248,14 @@ const HUD: React.FC<HUDProps> = ({
         const healthBarEntities = world.getEntitiesWith(['HealthBarComponent', 'Position', 'ScreenPosition']);
         
         const newHealthBars = healthBarEntities.map(entity => {
-          const healthBarComp = world.getComponent<HealthBarComponent>(entity, 'HealthBarComponent');
-          const screenPosComp = world.getComponent<ScreenPosition>(entity, 'ScreenPosition'); // Get screen position
+          const healthBarComp = world.getComponent(entity, 'HealthBarComponent');
+          const screenPosComp = world.getComponent(entity, 'ScreenPosition'); // Get screen position
           
           // Check HealthBarComponent exists and is visible
           if (!healthBarComp || !healthBarComp.visible || !screenPosComp || !screenPosComp.isOnScreen) return null;
           
           // Get the health component to determine fill percentage
-          const healthComp = world.getComponent<Health>(healthBarComp.entity, 'Health');
+          const healthComp = world.getComponent(healthBarComp.entity, 'Health');
           if (!healthComp) return null;
           
           // Check if health bar should be shown only when damaged
@@ -1254,6 +1300,74 @@ const HUD: React.FC<HUDProps> = ({
 
           return newHealthBars;
         });
+
+        // Elite tags sit just above the enemy's health bar
+        const newEliteTags: EliteTagData[] = [];
+        for (const entity of world.getEntitiesWith(['Elite', 'Position', 'ScreenPosition'])) {
+          const elite = world.getComponent(entity, 'Elite');
+          const screenPosComp = world.getComponent(entity, 'ScreenPosition');
+          if (!elite || !screenPosComp || !screenPosComp.isOnScreen) continue;
+
+          const healthBarComp = world.getComponent(entity, 'HealthBarComponent');
+          const offsetY = healthBarComp ? healthBarComp.offsetY - 16 : -40;
+          const auraColor = ELITE_AFFIXES[elite.affixes[0]]?.auraColor ?? 0xffffff;
+          newEliteTags.push({
+            id: entity,
+            position: { x: screenPosComp.x, y: screenPosComp.y + offsetY },
+            label: getEliteTag(elite),
+            color: `#${auraColor.toString(16).padStart(6, '0')}`
+          });
+        }
+
+        setEliteTags((prevTags) => {
+          if (prevTags.length === newEliteTags.length &&
+              prevTags.every((tag, index) => {
+                const nextTag = newEliteTags[index];
+                return tag.id === nextTag.id &&
+                  tag.position.x === nextTag.position.x &&
+                  tag.position.y === nextTag.position.y &&
+                  tag.label === nextTag.label;
+              })) {
+            return prevTags;
+          }
+
+          return newEliteTags;
+        });
+
+        // Priority targets get brackets that shrink with distance from the player
+        const newTargetBrackets: TargetBracketData[] = [];
+        const bracketPlayerEntity = world.getEntitiesWith(['InputReceiver', 'Position'])[0];
+        const bracketPlayerPos = bracketPlayerEntity !== undefined ? world.getComponent(bracketPlayerEntity, 'Position') : undefined;
+        for (const entity of world.getEntitiesWith(['Medic', 'Position', 'ScreenPosition'])) {
+          const position = world.getComponent(entity, 'Position');
+          const screenPosComp = world.getComponent(entity, 'ScreenPosition');
+          if (!position || !screenPosComp || !screenPosComp.isOnScreen) continue;
+
+          const distance = bracketPlayerPos
+            ? Math.hypot(position.x - bracketPlayerPos.x, position.y - bracketPlayerPos.y, position.z - bracketPlayerPos.z)
+            : 100;
+          newTargetBrackets.push({
+            id: entity,
+            position: { x: screenPosComp.x, y: screenPosComp.y },
+            size: Math.round(Math.min(96, Math.max(28, 3000 / Math.max(distance, 1)))),
+            label: 'PRIORITY: MEDIC'
+          });
+        }
+
+        setTargetBrackets((prevTargets) => {
+          if (prevTargets.length === newTargetBrackets.length &&
+              prevTargets.every((target, index) => {
+                const nextTarget = newTargetBrackets[index];
+                return target.id === nextTarget.id &&
+                  target.position.x === nextTarget.position.x &&
+                  target.position.y === nextTarget.position.y &&
+                  target.size === nextTarget.size;
+              })) {
+            return prevTargets;
+          }
+
+          return newTargetBrackets;
+        });
       }
       
       // Request next frame update
@@ -1503,6 +1617,16 @@ const HUD: React.FC<HUDProps> = ({
       cost: getUpgradeCost('dyson-regen', upgradeState.dysonRegenLevel),
       body: 'Dyson shield regenerates 5 points per second faster.'
     },
+    {
+      id: 'radar-pulse',
+      group: 'SHIP',
+      title: 'Radar Pulse',
+      level: upgradeState.radarPulseLevel,
+      cost: getUpgradeCost('radar-pulse', upgradeState.radarPulseLevel),
+      body: upgradeState.radarPulseLevel > 0
+        ? `Pulse more often. Current: every ${getRadarPulseInterval(upgradeState.radarPulseLevel)}s.`
+        : `Auto radar pulse every ${getRadarPulseInterval(1)}s reveals cloaked enemies for ${RADAR_PULSE_REVEAL_TIME}s.`
+    },
     {
       id: 'secondary-praetorian-laser',
       group: 'WEAPON',
@@ -1523,7 +1647,12 @@ const HUD: React.FC<HUDProps> = ({
   // --- Render Logic ---
   if (gameState === 'not_started') {
     // Pass audioManager down to StartScreen
-    return <StartScreen onStartGame={onStartGame} onChooseStage={onChooseStage} audioManager={audioManager} />;
+    return <StartScreen
+      onStartGame={onStartGame}
+      onContinue={game.hasSavedRun() ? onContinueGame : undefined}
+      onChooseStage={onChooseStage}
+      audioManager={audioManager}
+    />;
   }
   if (gameState === 'game_over') {
     // Pass the final wave number captured by HUDSystem directly
@@ -1534,7 +1663,8 @@ const HUD: React.FC<HUDProps> = ({
       onResume={onResumeGame} 
       onRestart={onRestartGame} 
       onChooseStage={onChooseStage}
-      onExit={handleExitGame} 
+      onExit={onSaveAndExitGame ?? handleExitGame}
+      saveOnExit={Boolean(onSaveAndExitGame)}
       containerRef={containerRef} // Pass containerRef down
     />;
   }
@@ -1580,6 +1710,10 @@ const HUD: React.FC<HUDProps> = ({
         </div>
       )}
 
+      {gameState === 'playing' && bossBar && (
+        <BossHealthBar boss={bossBar} />
+      )}
+
       {gameState === 'playing' && (
         <div className="score-display" aria-label="Score">
           <div>
@@ -1866,6 +2000,9 @@ const HUD: React.FC<HUDProps> = ({
         </div>
       ))}
       
+      <EliteTags tags={eliteTags} />
+      <TargetBrackets targets={targetBrackets} />
+
       {/* Health Bars */}
       {healthBars.map(bar => (
         <div
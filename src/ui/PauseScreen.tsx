@@ -7,6 +7,7 @@ interface PauseScreenProps {
   onRestart: () => void;
   onChooseStage?: (stage: number) => void;
   onExit: () => void;
+  saveOnExit?: boolean; // Exiting saves the run for "Continue" on the start screen
   containerRef: React.RefObject<HTMLDivElement>;
 }
 
@@ -32,7 +33,7 @@ const isLocalStagePickerAllowed = (): boolean => {
   return hostname === 'localhost' || hostname === '127.0.0.1' || hostname === '::1';
 };
 
-const PauseScreen: React.FC<PauseScreenProps> = ({ onResume, onRestart, onChooseStage, onExit, containerRef }) => {
+const PauseScreen: React.FC<PauseScreenProps> = ({ onResume, onRestart, onChooseStage, onExit, saveOnExit = false, containerRef }) => {
   const [stagePickerOpen, setStagePickerOpen] = useState(false);
   const canChooseStage = Boolean(onChooseStage) && isLocalStagePickerAllowed();
 
@@ -189,7 +190,7 @@ const PauseScreen: React.FC<PauseScreenProps> = ({ onResume, onRestart, onChoose
             WebkitTapHighlightColor: 'transparent',
           }}
         >
-          EXIT
+          {saveOnExit ? 'SAVE & EXIT' : 'EXIT'}
         </button>
       </div>
     </div>
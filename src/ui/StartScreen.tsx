@@ -7,6 +7,7 @@ import { isSafariBrowser } from '../utils/browserDetection';
 
 interface StartScreenProps {
   onStartGame: () => void;
+  onContinue?: () => void; // Shown when a saved run can be resumed
   onChooseStage?: (stage: number) => void;
   audioManager: AudioManager;
 }
@@ -33,7 +34,7 @@ const isLocalStagePickerAllowed = (): boolean => {
   return hostname === 'localhost' || hostname === '127.0.0.1' || hostname === '::1';
 };
 
-const StartScreen: React.FC<StartScreenProps> = ({ onStartGame, onChooseStage, audioManager }) => {
+const StartScreen: React.FC<StartScreenProps> = ({ onStartGame, onContinue, onChooseStage, audioManager }) => {
   const [isSafari, setIsSafari] = useState<boolean>(false);
   const [stagePickerOpen, setStagePickerOpen] = useState(false);
   const canChooseStage = Boolean(onChooseStage) && isLocalStagePickerAllowed();
@@ -99,6 +100,19 @@ const StartScreen: React.FC<StartScreenProps> = ({ onStartGame, onChooseStage, a
         Start Game
       </button>
 
+      {onContinue && (
+        <button
+          className="retro-button start-screen-button"
+          onClick={onContinue}
+          style={{
+            marginBottom: '20px',
+            color: 'white'
+          }}
+        >
+          Continue
+        </button>
+      )}
+
       {canChooseStage && (
         <div className="local-stage-picker">
           <button
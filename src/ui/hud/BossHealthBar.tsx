@@ -0,0 +1,43 @@
+import React from 'react';
+import '../styles/retro.css';
+
+export interface BossBarData {
+  name: string;
+  healthPercentage: number;
+  phase: number; // 1-based
+  phaseCount: number;
+  phaseThresholds: number[]; // Health percentages where later phases begin
+  weakPoints: number;
+}
+
+interface BossHealthBarProps {
+  boss: BossBarData;
+}
+
+// Top-center health bar for the active boss, with a tick at each phase threshold
+const BossHealthBar: React.FC<BossHealthBarProps> = ({ boss }) => {
+  const armored = boss.weakPoints > 0;
+
+  return (
+    <div className="boss-health-bar" aria-label={`${boss.name} health`}>
+      <div className="boss-health-bar-header">
+        <span>{boss.name}</span>
+        <span>PHASE {boss.phase}/{boss.phaseCount}</span>
+      </div>
+      <div className="boss-health-bar-track">
+        <div
+          className={`boss-health-bar-fill ${boss.phase === boss.phaseCount ? 'final' : ''}`}
+          style={{ width: `${boss.healthPercentage}%` }}
+        />
+        {boss.phaseThresholds.map(threshold => (
+          <div key={threshold} className="boss-health-bar-marker" style={{ left: `${threshold}%` }} />
+        ))}
+      </div>
+      <div className={`boss-health-bar-status ${armored ? 'armored' : ''}`}>
+        {armored ? `ARMORED - WEAK POINTS: ${boss.weakPoints}` : 'ARMOR DOWN - FIRE AT THE CORE'}
+      </div>
+    </div>
+  );
+};
+
+export default BossHealthBar;
@@ -0,0 +1,30 @@
+import React from 'react';
+import '../styles/retro.css';
+
+export interface EliteTagData {
+  id: number;
+  position: { x: number; y: number }; // Screen position of the tag's bottom center
+  label: string;
+  color: string;
+}
+
+interface EliteTagsProps {
+  tags: EliteTagData[];
+}
+
+// Small affix labels floating above elite enemies
+const EliteTags: React.FC<EliteTagsProps> = ({ tags }) => (
+  <>
+    {tags.map(tag => (
+      <div
+        key={tag.id}
+        className="elite-tag"
+        style={{ left: tag.position.x, top: tag.position.y, color: tag.color, borderColor: tag.color }}
+      >
+        {tag.label}
+      </div>
+    ))}
+  </>
+);
+
+export default EliteTags;
@@ -6,9 +6,11 @@ import * as THREE from 'three'; // Only if THREE types are used (e.g., Vector3)
 interface RadarDisplayProps {
   radarData: {
     active: boolean;
+    pulseActive?: boolean; // Draw the expanding radar pulse ring
     trackedEntities: Array<{
       entityId: number;
       entityType: string;
+      ghost?: boolean; // Faint, intermittent contact from a cloaked enemy
       horizontalDistance: number; // Horizontal distance (XZ plane)
       direction: {
         x: number; // Relative X on radar (left/right based on player yaw)
@@ -74,6 +76,9 @@ const RadarDisplay: React.FC<RadarDisplayProps> = ({ radarData, radarVisualRadiu
         }}></div>
       </div>
 
+      {/* Radar pulse ring */}
+      {radarData.pulseActive && <div className="radar-pulse-ring"></div>}
+
       {/* Enemy blips */}
       {radarData.trackedEntities.map((entity) => {
         // --- Start of Blip Calculation Logic ---
@@ -115,10 +120,24 @@ const RadarDisplay: React.FC<RadarDisplayProps> = ({ radarData, radarVisualRadiu
         } else if (entity.entityType === 'asteroid') {
           color = '#ff9900'; size = Math.max(4, 9 - distanceRatio * 3);
           shape = 'diamond'; zIndex = 3; boxShadow = `0 0 8px ${color}`; pulseSpeed = 0.5;
+        } else if (entity.entityType === 'medic') {
+          // Priority target: bright green, larger and fast-pulsing
+          color = '#33ff99'; size = Math.max(5, 9 - distanceRatio * 3);
+          zIndex = 3; boxShadow = `0 0 8px ${color}`; pulseSpeed = 0.3;
+        } else if (entity.entityType === 'spaceMine') {
+          // Small amber diamond that pulses faster once the mine is triggered
+          color = '#ffcc00'; size = Math.max(3, 5 - distanceRatio * 2);
+          shape = 'diamond'; zIndex = 2; boxShadow = `0 0 4px ${color}`;
+          pulseSpeed = entity.threatLevel >= 1 ? 0.15 : 0.6;
+        } else if (entity.ghost) {
+          // Hollow, faint ring; the contact is too weak to read its elevation
+          color = '#b8a6ff'; size = Math.max(5, 8 - distanceRatio * 2); pulseSpeed = 0.3;
+          boxShadow = `0 0 4px ${color}`;
+          additionalStyles = { background: 'transparent', border: `1px dashed ${color}`, opacity: 0.6 };
         }
 
         // Determine shape based on elevation *after* setting defaults
-        if ((shape === 'dot' || shape === 'diamond') && (isAbove || isBelow) && entity.entityType !== 'dysonSphere') {
+        if ((shape === 'dot' || shape === 'diamond') && (isAbove || isBelow) && entity.entityType !== 'dysonSphere' && !entity.ghost) {
           shape = 'triangle';
         }
 
@@ -0,0 +1,34 @@
+import React from 'react';
+import '../styles/retro.css';
+
+export interface TargetBracketData {
+  id: number;
+  position: { x: number; y: number }; // Screen position of the target's center
+  size: number; // Width and height of the bracketed box in pixels
+  label: string;
+}
+
+interface TargetBracketsProps {
+  targets: TargetBracketData[];
+}
+
+// Pulsing corner brackets around priority targets (Medics) so players take them out first
+const TargetBrackets: React.FC<TargetBracketsProps> = ({ targets }) => (
+  <>
+    {targets.map(target => (
+      <div
+        key={target.id}
+        className="target-brackets"
+        style={{ left: target.position.x, top: target.position.y, width: target.size, height: target.size }}
+      >
+        <div className="target-bracket top-left" />
+        <div className="target-bracket top-right" />
+        <div className="target-bracket bottom-left" />
+        <div className="target-bracket bottom-right" />
+        <div className="target-brackets-label">{target.label}</div>
+      </div>
+    ))}
+  </>
+);
+
+export default TargetBrackets;